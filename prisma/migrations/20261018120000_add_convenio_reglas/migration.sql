@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "ConvenioRegla" (
+    "id" SERIAL NOT NULL,
+    "convenio" VARCHAR(100) NOT NULL,
+    "descripcion" TEXT,
+    "modoPrecio" VARCHAR(20) NOT NULL DEFAULT 'PRECIO_UNICO',
+    "pagaOutlierSuperior" BOOLEAN NOT NULL DEFAULT false,
+    "formulaDemora" VARCHAR(20) NOT NULL DEFAULT 'NINGUNA',
+    "fechaReferencia" VARCHAR(20) NOT NULL DEFAULT 'fechaIngreso',
+    "vigenciaDesde" TIMESTAMP(3),
+    "vigenciaHasta" TIMESTAMP(3),
+    "activo" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConvenioRegla_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConvenioTramo" (
+    "id" SERIAL NOT NULL,
+    "reglaId" INTEGER NOT NULL,
+    "tramo" VARCHAR(20) NOT NULL,
+    "pesoDesde" DOUBLE PRECISION,
+    "pesoHasta" DOUBLE PRECISION,
+
+    CONSTRAINT "ConvenioTramo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConvenioRegla_convenio_idx" ON "ConvenioRegla"("convenio");
+
+-- CreateIndex
+CREATE INDEX "ConvenioTramo_reglaId_idx" ON "ConvenioTramo"("reglaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConvenioTramo_reglaId_tramo_key" ON "ConvenioTramo"("reglaId", "tramo");
+
+-- AddForeignKey
+ALTER TABLE "ConvenioTramo" ADD CONSTRAINT "ConvenioTramo_reglaId_fkey" FOREIGN KEY ("reglaId") REFERENCES "ConvenioRegla"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Reglas iniciales (equivalentes a las listas fijas que existían en el código)
+INSERT INTO "ConvenioRegla" ("convenio", "descripcion", "modoPrecio", "pagaOutlierSuperior", "formulaDemora", "updatedAt") VALUES
+    ('FNS012', 'FONASA con tramos y pago outlier superior', 'TRAMOS', true, 'FACTOR_P75', CURRENT_TIMESTAMP),
+    ('FNS026', 'FONASA con tramos', 'TRAMOS', false, 'FACTOR_P75', CURRENT_TIMESTAMP),
+    ('FNS019', 'FONASA precio único', 'PRECIO_UNICO', false, 'FACTOR_P75', CURRENT_TIMESTAMP),
+    ('CH0041', 'Precio único con pago por día de espera', 'PRECIO_UNICO', false, 'DIA_ESPERA', CURRENT_TIMESTAMP);
+
+INSERT INTO "ConvenioTramo" ("reglaId", "tramo", "pesoDesde", "pesoHasta")
+SELECT r."id", t."tramo", t."pesoDesde", t."pesoHasta"
+FROM "ConvenioRegla" r
+CROSS JOIN (VALUES
+    ('T1', NULL::DOUBLE PRECISION, 1.5::DOUBLE PRECISION),
+    ('T2', 1.5::DOUBLE PRECISION, 2.5::DOUBLE PRECISION),
+    ('T3', 2.5::DOUBLE PRECISION, NULL::DOUBLE PRECISION)
+) AS t("tramo", "pesoDesde", "pesoHasta")
+WHERE r."modoPrecio" = 'TRAMOS';
+
+-- Migrar la fecha de referencia configurada por convenio en ConfiguracionSistema
+UPDATE "ConvenioRegla" r
+SET "fechaReferencia" = c."valor"::json->>r."convenio"
+FROM "ConfiguracionSistema" c
+WHERE c."clave" = 'fechaReferenciaPrecioConvenio'
+  AND (c."valor"::json->>r."convenio") IN ('fechaIngreso', 'fechaAlta');
+
+DELETE FROM "ConfiguracionSistema" WHERE "clave" = 'fechaReferenciaPrecioConvenio';
@@ -0,0 +1,6 @@
+-- DropIndex
+DROP INDEX "ConvenioTramo_reglaId_tramo_key";
+
+-- AlterTable
+ALTER TABLE "ConvenioTramo" ADD COLUMN     "vigenciaDesde" TIMESTAMP(3),
+ADD COLUMN     "vigenciaHasta" TIMESTAMP(3);
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "RepricingJob" (
+    "id" SERIAL NOT NULL,
+    "estado" VARCHAR(20) NOT NULL DEFAULT 'PENDIENTE',
+    "dryRun" BOOLEAN NOT NULL DEFAULT true,
+    "filtros" JSONB,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "procesados" INTEGER NOT NULL DEFAULT 0,
+    "cambiados" INTEGER NOT NULL DEFAULT 0,
+    "sinPrecio" INTEGER NOT NULL DEFAULT 0,
+    "errores" INTEGER NOT NULL DEFAULT 0,
+    "mensajeError" TEXT,
+    "usuarioId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RepricingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RepricingJobItem" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "cambios" JSONB,
+    "aplicado" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RepricingJobItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RepricingJob_estado_idx" ON "RepricingJob"("estado");
+
+-- CreateIndex
+CREATE INDEX "RepricingJobItem_jobId_idx" ON "RepricingJobItem"("jobId");
+
+-- CreateIndex
+CREATE INDEX "RepricingJobItem_episodioId_idx" ON "RepricingJobItem"("episodioId");
+
+-- AddForeignKey
+ALTER TABLE "RepricingJobItem" ADD CONSTRAINT "RepricingJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "RepricingJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Episodio" ADD COLUMN "precioBaseManual" BOOLEAN NOT NULL DEFAULT false;
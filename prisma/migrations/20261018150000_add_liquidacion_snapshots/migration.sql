@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "LiquidacionSnapshot" (
+    "id" SERIAL NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "episodioCmdb" VARCHAR(100),
+    "version" INTEGER NOT NULL,
+    "engineVersion" VARCHAR(50) NOT NULL,
+    "convenio" VARCHAR(100),
+    "tramo" VARCHAR(20),
+    "diasEstada" INTEGER,
+    "inlierOutlier" TEXT,
+    "precioBaseTramo" DECIMAL(14,2),
+    "valorGrd" DECIMAL(14,2),
+    "montoAt" DECIMAL(14,2),
+    "pagoOutlierSuperior" DECIMAL(14,2),
+    "pagoDemoraRescate" DECIMAL(14,2),
+    "montoFinal" DECIMAL(16,2),
+    "insumos" JSONB,
+    "aprobadoPorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiquidacionSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LiquidacionSnapshot_episodioId_idx" ON "LiquidacionSnapshot"("episodioId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiquidacionSnapshot_episodioId_version_key" ON "LiquidacionSnapshot"("episodioId", "version");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Episodio" ADD COLUMN     "estado" VARCHAR(30) NOT NULL DEFAULT 'IMPORTADO',
+ADD COLUMN     "estadoActualizadoAt" TIMESTAMP(3);
+
+-- Estado inicial a partir de la validación existente
+UPDATE "Episodio" SET "estado" = 'APROBADO_FINANZAS' WHERE "validado" = true;
+UPDATE "Episodio" SET "estado" = 'RECHAZADO' WHERE "validado" = false;
+
+-- CreateTable
+CREATE TABLE "EpisodioTransicion" (
+    "id" SERIAL NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "desde" VARCHAR(30) NOT NULL,
+    "hacia" VARCHAR(30) NOT NULL,
+    "usuarioId" INTEGER,
+    "rol" VARCHAR(30),
+    "comentario" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodioTransicion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Episodio_estado_idx" ON "Episodio"("estado");
+
+-- CreateIndex
+CREATE INDEX "EpisodioTransicion_episodioId_createdAt_idx" ON "EpisodioTransicion"("episodioId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EpisodioTransicion" ADD CONSTRAINT "EpisodioTransicion_episodioId_fkey" FOREIGN KEY ("episodioId") REFERENCES "Episodio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
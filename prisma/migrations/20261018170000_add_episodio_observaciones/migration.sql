@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "MotivoRechazo" (
+    "id" SERIAL NOT NULL,
+    "codigo" VARCHAR(50) NOT NULL,
+    "descripcion" TEXT NOT NULL,
+    "activo" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MotivoRechazo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EpisodioObservacion" (
+    "id" SERIAL NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "autorId" INTEGER,
+    "rol" VARCHAR(30),
+    "texto" TEXT NOT NULL,
+    "campo" VARCHAR(50),
+    "motivoRechazoId" INTEGER,
+    "rolDestino" VARCHAR(30),
+    "transicionId" INTEGER,
+    "resuelta" BOOLEAN NOT NULL DEFAULT false,
+    "resueltaPorId" INTEGER,
+    "resueltaAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodioObservacion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MotivoRechazo_codigo_key" ON "MotivoRechazo"("codigo");
+
+-- CreateIndex
+CREATE INDEX "EpisodioObservacion_episodioId_idx" ON "EpisodioObservacion"("episodioId");
+
+-- CreateIndex
+CREATE INDEX "EpisodioObservacion_rolDestino_resuelta_idx" ON "EpisodioObservacion"("rolDestino", "resuelta");
+
+-- AddForeignKey
+ALTER TABLE "EpisodioObservacion" ADD CONSTRAINT "EpisodioObservacion_episodioId_fkey" FOREIGN KEY ("episodioId") REFERENCES "Episodio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EpisodioObservacion" ADD CONSTRAINT "EpisodioObservacion_motivoRechazoId_fkey" FOREIGN KEY ("motivoRechazoId") REFERENCES "MotivoRechazo"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Catálogo inicial de motivos de rechazo
+INSERT INTO "MotivoRechazo" ("codigo", "descripcion", "updatedAt") VALUES
+    ('CODIFICACION_INCORRECTA', 'Diagnósticos o procedimientos mal codificados', CURRENT_TIMESTAMP),
+    ('GRD_INCORRECTO', 'GRD o peso asignado no corresponde', CURRENT_TIMESTAMP),
+    ('DOCUMENTACION_INCOMPLETA', 'Falta documentación de respaldo', CURRENT_TIMESTAMP),
+    ('AT_INCORRECTO', 'Ajuste de tecnología mal informado', CURRENT_TIMESTAMP),
+    ('CONVENIO_INCORRECTO', 'Convenio o precio base no corresponde', CURRENT_TIMESTAMP),
+    ('MONTO_INCORRECTO', 'Montos de la liquidación con diferencias', CURRENT_TIMESTAMP),
+    ('OTRO', 'Otro motivo (detallar en el comentario)', CURRENT_TIMESTAMP);
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "EpisodioCambio" (
+    "id" SERIAL NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "campo" VARCHAR(50) NOT NULL,
+    "valorAnterior" JSONB,
+    "valorNuevo" JSONB,
+    "usuarioId" INTEGER,
+    "rol" VARCHAR(30),
+    "origen" VARCHAR(20) NOT NULL,
+    "referencia" VARCHAR(255),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EpisodioCambio_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EpisodioCambio_episodioId_createdAt_idx" ON "EpisodioCambio"("episodioId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EpisodioCambio" ADD CONSTRAINT "EpisodioCambio_episodioId_fkey" FOREIGN KEY ("episodioId") REFERENCES "Episodio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
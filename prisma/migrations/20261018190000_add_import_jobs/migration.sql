@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" SERIAL NOT NULL,
+    "tipo" VARCHAR(30) NOT NULL,
+    "estado" VARCHAR(20) NOT NULL DEFAULT 'PENDIENTE',
+    "archivoNombre" TEXT NOT NULL,
+    "archivoRuta" TEXT,
+    "archivoTamano" INTEGER NOT NULL DEFAULT 0,
+    "opciones" JSONB,
+    "usuarioId" INTEGER,
+    "rol" VARCHAR(30),
+    "tamanoChunk" INTEGER NOT NULL DEFAULT 200,
+    "totalFilas" INTEGER NOT NULL DEFAULT 0,
+    "filasProcesadas" INTEGER NOT NULL DEFAULT 0,
+    "validadas" INTEGER NOT NULL DEFAULT 0,
+    "guardadas" INTEGER NOT NULL DEFAULT 0,
+    "fallidas" INTEGER NOT NULL DEFAULT 0,
+    "errores" JSONB,
+    "mensajeError" TEXT,
+    "intentos" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_estado_idx" ON "ImportJob"("estado");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_usuarioId_idx" ON "ImportJob"("usuarioId");
+
+-- CreateIndex
+CREATE INDEX "EpisodioCambio_referencia_idx" ON "EpisodioCambio"("referencia");
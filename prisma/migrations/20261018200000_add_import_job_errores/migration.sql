@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "ImportJob" DROP COLUMN "errores",
+ADD COLUMN     "archivoHash" VARCHAR(64);
+
+-- CreateTable
+CREATE TABLE "ImportJobError" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "fila" INTEGER NOT NULL,
+    "error" TEXT NOT NULL,
+    "registro" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportJobError_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_archivoHash_idx" ON "ImportJob"("archivoHash");
+
+-- CreateIndex
+CREATE INDEX "ImportJobError_jobId_fila_idx" ON "ImportJobError"("jobId", "fila");
+
+-- AddForeignKey
+ALTER TABLE "ImportJobError" ADD CONSTRAINT "ImportJobError_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
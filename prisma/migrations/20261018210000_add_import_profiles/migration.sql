@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" SERIAL NOT NULL,
+    "nombre" VARCHAR(100) NOT NULL,
+    "descripcion" TEXT,
+    "columnas" JSONB NOT NULL,
+    "formatoFecha" VARCHAR(30),
+    "separadorDecimal" VARCHAR(1) NOT NULL DEFAULT '.',
+    "hoja" VARCHAR(100),
+    "filaEncabezado" INTEGER NOT NULL DEFAULT 1,
+    "activo" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_nombre_key" ON "ImportProfile"("nombre");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "creados" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "actualizados" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sinCambios" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "conflictos" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ImportJobItem" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "fila" INTEGER NOT NULL,
+    "episodioId" INTEGER NOT NULL,
+    "episodioCmdb" VARCHAR(100),
+    "resultado" VARCHAR(20) NOT NULL,
+    "cambios" JSONB,
+    "conflictos" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportJobItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJobItem_jobId_resultado_idx" ON "ImportJobItem"("jobId", "resultado");
+
+-- CreateIndex
+CREATE INDEX "ImportJobItem_episodioId_idx" ON "ImportJobItem"("episodioId");
+
+-- AddForeignKey
+ALTER TABLE "ImportJobItem" ADD CONSTRAINT "ImportJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "revertidoAt" TIMESTAMP(3),
+ADD COLUMN     "revertidoPorId" INTEGER;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "NormaVersion" (
+    "id" SERIAL NOT NULL,
+    "anio" INTEGER NOT NULL,
+    "archivoNombre" TEXT NOT NULL,
+    "cargadoPorId" INTEGER,
+    "vigenciaDesde" TIMESTAMP(3) NOT NULL,
+    "vigenciaHasta" TIMESTAMP(3),
+    "totalGrd" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NormaVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GrdNorma" (
+    "id" SERIAL NOT NULL,
+    "versionId" INTEGER NOT NULL,
+    "grdId" INTEGER NOT NULL,
+    "peso" DECIMAL(10,4),
+    "precioBaseTramo" DECIMAL(14,2),
+    "puntoCorteInf" DECIMAL(65,30),
+    "puntoCorteSup" DECIMAL(65,30),
+    "percentil25" DECIMAL(10,2),
+    "percentil50" DECIMAL(10,2),
+    "percentil75" DECIMAL(10,2),
+
+    CONSTRAINT "GrdNorma_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NormaVersion_anio_key" ON "NormaVersion"("anio");
+
+-- CreateIndex
+CREATE INDEX "NormaVersion_vigenciaDesde_idx" ON "NormaVersion"("vigenciaDesde");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GrdNorma_versionId_grdId_key" ON "GrdNorma"("versionId", "grdId");
+
+-- CreateIndex
+CREATE INDEX "GrdNorma_grdId_idx" ON "GrdNorma"("grdId");
+
+-- AddForeignKey
+ALTER TABLE "GrdNorma" ADD CONSTRAINT "GrdNorma_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "NormaVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GrdNorma" ADD CONSTRAINT "GrdNorma_grdId_fkey" FOREIGN KEY ("grdId") REFERENCES "Grd"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "NormaCarga" (
+    "id" SERIAL NOT NULL,
+    "anio" INTEGER NOT NULL,
+    "archivoNombre" TEXT NOT NULL,
+    "usuarioId" INTEGER,
+    "estado" VARCHAR(20) NOT NULL,
+    "totalFilas" INTEGER NOT NULL DEFAULT 0,
+    "validas" INTEGER NOT NULL DEFAULT 0,
+    "fallidas" INTEGER NOT NULL DEFAULT 0,
+    "umbralErrores" DECIMAL(5,2) NOT NULL,
+    "versionId" INTEGER,
+    "errores" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NormaCarga_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NormaCarga_anio_idx" ON "NormaCarga"("anio");
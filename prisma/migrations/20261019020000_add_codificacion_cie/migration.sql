@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Diagnostico" ADD COLUMN "orden" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Procedimiento" (
+    "id" SERIAL NOT NULL,
+    "codigo" VARCHAR(20) NOT NULL,
+    "descripcion" TEXT,
+    "orden" INTEGER NOT NULL DEFAULT 0,
+    "episodioId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Procedimiento_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CodigoCie" (
+    "id" SERIAL NOT NULL,
+    "sistema" VARCHAR(10) NOT NULL,
+    "codigo" VARCHAR(20) NOT NULL,
+    "descripcion" TEXT NOT NULL,
+    "activo" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodigoCie_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Diagnostico_episodioId_idx" ON "Diagnostico"("episodioId");
+
+-- CreateIndex
+CREATE INDEX "Procedimiento_episodioId_idx" ON "Procedimiento"("episodioId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodigoCie_sistema_codigo_key" ON "CodigoCie"("sistema", "codigo");
+
+-- AddForeignKey
+ALTER TABLE "Procedimiento" ADD CONSTRAINT "Procedimiento_episodioId_fkey" FOREIGN KEY ("episodioId") REFERENCES "Episodio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
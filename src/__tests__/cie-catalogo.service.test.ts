@@ -0,0 +1,71 @@
+import {
+  construirFiltroCie,
+  errorFormatoCie,
+  normalizarCodigoCie,
+  parsearSistemaCie,
+  procesarFilasCie,
+} from '../services/cie-catalogo.service';
+
+describe('Catálogo CIE', () => {
+  describe('parsearSistemaCie', () => {
+    it('debe aceptar los sistemas con o sin guiones y sin distinguir mayúsculas', () => {
+      expect(parsearSistemaCie('cie10')).toBe('CIE10');
+      expect(parsearSistemaCie('CIE-9-MC')).toBe('CIE9MC');
+      expect(parsearSistemaCie('cie11')).toBeNull();
+      expect(parsearSistemaCie(undefined)).toBeNull();
+    });
+  });
+
+  describe('normalizarCodigoCie', () => {
+    it('debe quitar puntos y espacios y pasar a mayúsculas', () => {
+      expect(normalizarCodigoCie(' k35.9 ')).toBe('K359');
+      expect(normalizarCodigoCie(4467)).toBe('4467');
+      expect(normalizarCodigoCie('  ')).toBeNull();
+      expect(normalizarCodigoCie(null)).toBeNull();
+    });
+  });
+
+  describe('errorFormatoCie', () => {
+    it('debe validar el formato de cada sistema', () => {
+      expect(errorFormatoCie('CIE10', 'P918')).toBeNull();
+      expect(errorFormatoCie('CIE10', 'Q02')).toBeNull();
+      expect(errorFormatoCie('CIE10', '4467')).toBe('Código CIE-10 inválido: "4467"');
+      expect(errorFormatoCie('CIE9MC', '4467')).toBeNull();
+      expect(errorFormatoCie('CIE9MC', 'K359')).toBe('Código CIE-9-MC inválido: "K359"');
+    });
+  });
+
+  describe('procesarFilasCie', () => {
+    it('debe leer código y descripción e informar los errores por fila', () => {
+      const { codigos, errores } = procesarFilasCie('CIE10', [
+        { Código: 'K35.9', Descripción: ' Apendicitis   aguda, no especificada ' },
+        { codigo: 'P90', descripcion: 'Convulsiones del recién nacido' },
+        { Código: '', Descripción: 'Sin código' },
+        { Código: '44.67', Descripción: 'Procedimiento' },
+        { Código: 'Q02', Descripción: '' },
+        { Código: 'K359', Descripción: 'Repetido' },
+      ]);
+      expect(codigos).toEqual([
+        { codigo: 'K359', descripcion: 'Apendicitis aguda, no especificada' },
+        { codigo: 'P90', descripcion: 'Convulsiones del recién nacido' },
+      ]);
+      expect(errores).toEqual([
+        { fila: 3, codigo: null, error: 'Código faltante o vacío' },
+        { fila: 4, codigo: '4467', error: 'Código CIE-10 inválido: "4467"' },
+        { fila: 5, codigo: 'Q02', error: 'Descripción faltante' },
+        { fila: 6, codigo: 'K359', error: 'Código repetido en el archivo: K359' },
+      ]);
+    });
+  });
+
+  describe('construirFiltroCie', () => {
+    it('debe buscar por código normalizado o descripción y excluir los inactivos por defecto', () => {
+      expect(construirFiltroCie('CIE10', { search: 'k35.' })).toEqual({
+        sistema: 'CIE10',
+        activo: true,
+        OR: [{ codigo: { startsWith: 'K35' } }, { descripcion: { contains: 'k35.', mode: 'insensitive' } }],
+      });
+      expect(construirFiltroCie('CIE9MC', { todos: 'true' })).toEqual({ sistema: 'CIE9MC' });
+    });
+  });
+});
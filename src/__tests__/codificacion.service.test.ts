@@ -0,0 +1,79 @@
+import type { Diagnostico, Procedimiento } from '@prisma/client';
+import {
+  codigosConPrincipal,
+  errorEdicionCodificacion,
+  errorReordenamiento,
+  filasCodificacion,
+  formatearCodificacion,
+  parsearListaCodigos,
+} from '../services/codificacion.service';
+
+describe('Codificación del episodio', () => {
+  describe('parsearListaCodigos', () => {
+    it('debe leer los conjuntos entre corchetes del archivo maestro', () => {
+      expect(parsearListaCodigos('[P90][P91.8][ q02 ][]')).toEqual(['P90', 'P918', 'Q02']);
+    });
+
+    it('debe aceptar códigos separados por coma, punto y coma o barra', () => {
+      expect(parsearListaCodigos('43.11; 96.72, 93.90|')).toEqual(['4311', '9672', '9390']);
+      expect(parsearListaCodigos(undefined)).toEqual([]);
+    });
+  });
+
+  describe('codigosConPrincipal', () => {
+    it('debe dejar el principal primero sin repetirlo', () => {
+      expect(codigosConPrincipal('P918', ['P90', 'P918', 'P90', 'Q02'])).toEqual(['P918', 'P90', 'Q02']);
+      expect(codigosConPrincipal(null, ['P90'])).toEqual(['P90']);
+    });
+  });
+
+  describe('errorReordenamiento', () => {
+    it('debe exigir todos los ids del episodio, sin repetidos ni ajenos', () => {
+      expect(errorReordenamiento([1, 2, 3], [3, 1, 2])).toBeNull();
+      expect(errorReordenamiento([1, 2, 3], [3, 3, 1])).toBe('La lista de ids tiene elementos repetidos');
+      expect(errorReordenamiento([1, 2, 3], [3, 1, 9])).toBe('Ids que no pertenecen al episodio: 9');
+      expect(errorReordenamiento([1, 2, 3], [2, 1])).toBe('Faltan ids del episodio en la lista: 3');
+    });
+  });
+
+  describe('errorEdicionCodificacion', () => {
+    it('debe permitir editar solo mientras el episodio está en codificación', () => {
+      expect(errorEdicionCodificacion('IMPORTADO')).toBeNull();
+      expect(errorEdicionCodificacion('EN_CODIFICACION')).toBeNull();
+      expect(errorEdicionCodificacion('CODIFICADO')).toMatch(/estado actual: CODIFICADO/);
+    });
+  });
+
+  describe('filasCodificacion', () => {
+    it('debe numerar las listas y marcar el diagnóstico principal', () => {
+      const filas = filasCodificacion(7, {
+        diagnosticos: [
+          { codigo: 'P90', descripcion: 'Convulsiones del recién nacido' },
+          { codigo: 'Q02', descripcion: null },
+        ],
+        procedimientos: [{ codigo: '4467', descripcion: null }],
+      });
+      expect(filas.diagnosticos).toEqual([
+        { episodioId: 7, codigo: 'P90', descripcion: 'Convulsiones del recién nacido', orden: 0, esPrincipal: true },
+        { episodioId: 7, codigo: 'Q02', descripcion: null, orden: 1, esPrincipal: false },
+      ]);
+      expect(filas.procedimientos).toEqual([{ episodioId: 7, codigo: '4467', descripcion: null, orden: 0 }]);
+    });
+  });
+
+  describe('formatearCodificacion', () => {
+    it('debe ordenar por posición e indicar el principal', () => {
+      const diagnosticos = [
+        { id: 5, codigo: 'Q02', descripcion: null, orden: 1 },
+        { id: 4, codigo: 'P90', descripcion: null, orden: 0 },
+      ] as Diagnostico[];
+      expect(formatearCodificacion({ diagnosticos, procedimientos: [] as Procedimiento[] })).toEqual({
+        diagnosticos: [
+          { id: 4, codigo: 'P90', descripcion: null, orden: 0, principal: true },
+          { id: 5, codigo: 'Q02', descripcion: null, orden: 1, principal: false },
+        ],
+        procedimientos: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import {
+  camposMontoModificados,
+  estadoParaValidado,
+  liquidacionCongelada,
+  parsearFiltroEstados,
+  registrarTransicion,
+  TransicionConcurrenteError,
+  transicionesDisponibles,
+  validadoParaEstado,
+  validarTransicion,
+} from '../services/episodio-workflow.service';
+
+describe('Flujo de trabajo del episodio', () => {
+  describe('validarTransicion', () => {
+    it('debe permitir al codificador iniciar y terminar la codificación', () => {
+      expect(validarTransicion('IMPORTADO', 'EN_CODIFICACION', 'codificador')).toBeNull();
+      expect(validarTransicion('EN_CODIFICACION', 'CODIFICADO', 'CODIFICADOR')).toBeNull();
+    });
+
+    it('debe permitir aprobar solo a finanzas (y admin) desde revisión de gestión', () => {
+      expect(validarTransicion('EN_REVISION_GESTION', 'APROBADO_FINANZAS', 'finanzas')).toBeNull();
+      expect(validarTransicion('EN_REVISION_GESTION', 'APROBADO_FINANZAS', 'admin')).toBeNull();
+      expect(validarTransicion('EN_REVISION_GESTION', 'APROBADO_FINANZAS', 'gestion')).toMatch(/no puede ejecutar/);
+    });
+
+    it('debe rechazar transiciones no definidas, incluso para admin', () => {
+      expect(validarTransicion('IMPORTADO', 'APROBADO_FINANZAS', 'admin')).toMatch(/Transición no permitida/);
+      expect(validarTransicion('FACTURADO', 'EXPORTADO', 'finanzas')).toMatch(/Transición no permitida/);
+    });
+
+    it('debe rechazar estados desconocidos', () => {
+      expect(validarTransicion('IMPORTADO', 'PAGADO', 'admin')).toMatch(/Estado destino inválido/);
+      expect(validarTransicion('OTRO', 'CODIFICADO', 'admin')).toMatch(/estado desconocido/);
+    });
+  });
+
+  describe('transicionesDisponibles', () => {
+    it('debe listar solo las transiciones del rol', () => {
+      expect(transicionesDisponibles('EN_REVISION_GESTION', 'gestion')).toEqual(['RECHAZADO']);
+      expect(transicionesDisponibles('APROBADO_FINANZAS', 'finanzas')).toEqual([
+        'EXPORTADO',
+        'RECHAZADO',
+        'EN_REVISION_GESTION',
+      ]);
+      expect(transicionesDisponibles('FACTURADO', 'admin')).toEqual([]);
+    });
+  });
+
+  describe('validado ↔ estado', () => {
+    it('debe mantener el campo legado validado sincronizado con el estado', () => {
+      expect(validadoParaEstado('APROBADO_FINANZAS')).toBe(true);
+      expect(validadoParaEstado('FACTURADO')).toBe(true);
+      expect(validadoParaEstado('RECHAZADO')).toBe(false);
+      expect(validadoParaEstado('CODIFICADO')).toBeNull();
+    });
+
+    it('debe mapear cambios de validado a su estado destino', () => {
+      expect(estadoParaValidado(true)).toBe('APROBADO_FINANZAS');
+      expect(estadoParaValidado(false)).toBe('RECHAZADO');
+      expect(estadoParaValidado(null)).toBe('EN_REVISION_GESTION');
+    });
+  });
+
+  describe('liquidación congelada', () => {
+    it('debe congelar los montos solo en los estados aprobados', () => {
+      expect(liquidacionCongelada('APROBADO_FINANZAS')).toBe(true);
+      expect(liquidacionCongelada('EXPORTADO')).toBe(true);
+      expect(liquidacionCongelada('RECHAZADO')).toBe(false);
+      expect(liquidacionCongelada('EN_REVISION_GESTION')).toBe(false);
+    });
+
+    it('debe informar solo los campos de monto cuyo valor cambia', () => {
+      const episodio = { convenio: 'FNS012', montoAt: new Prisma.Decimal(0), montoFinal: new Prisma.Decimal(1500) };
+      expect(
+        camposMontoModificados(episodio, { convenio: 'FNS012', montoAt: 0, montoFinal: 1800, servicioAlta: 'UCI' })
+      ).toEqual(['montoFinal']);
+      expect(camposMontoModificados(episodio, { validado: true })).toEqual([]);
+    });
+  });
+
+  describe('parsearFiltroEstados', () => {
+    it('debe separar estados válidos e inválidos', () => {
+      expect(parsearFiltroEstados(' codificado,EXPORTADO, otro ')).toEqual({
+        estados: ['CODIFICADO', 'EXPORTADO'],
+        invalidos: ['OTRO'],
+      });
+      expect(parsearFiltroEstados(undefined)).toEqual({ estados: null, invalidos: [] });
+    });
+  });
+
+  describe('registrarTransicion', () => {
+    it('debe fallar con 409 si otra solicitud cambió el estado antes', async () => {
+      const tx = { episodio: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) } };
+      const actor = { usuarioId: 1, rol: 'finanzas' };
+
+      const registro = registrarTransicion(
+        tx as unknown as Prisma.TransactionClient,
+        { id: 7, estado: 'EN_REVISION_GESTION' },
+        'APROBADO_FINANZAS',
+        actor
+      );
+      await expect(registro).rejects.toBeInstanceOf(TransicionConcurrenteError);
+      await expect(registro).rejects.toMatchObject({ status: 409 });
+      expect(tx.episodio.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 7, estado: 'EN_REVISION_GESTION' } })
+      );
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { construirFiltroGrd } from '../services/grd-catalogo.service';
+
+describe('Catálogo de GRD', () => {
+  describe('construirFiltroGrd', () => {
+    it('debe buscar por código o descripción y filtrar por MDC y rango de peso', () => {
+      expect(construirFiltroGrd({ search: ' apendic ', mdc: '06', pesoMin: '0,5', pesoMax: '2' })).toEqual({
+        where: {
+          OR: [
+            { codigo: { contains: 'apendic', mode: 'insensitive' } },
+            { descripcion: { contains: 'apendic', mode: 'insensitive' } },
+          ],
+          codigo: { startsWith: '06' },
+          peso: { gte: 0.5, lte: 2 },
+        },
+      });
+    });
+
+    it('debe omitir los filtros vacíos', () => {
+      expect(construirFiltroGrd({ search: '', pesoMin: ' ' })).toEqual({ where: {} });
+    });
+
+    it('debe rechazar MDC o pesos inválidos', () => {
+      expect(construirFiltroGrd({ mdc: 'MDC06' })).toEqual({ error: expect.stringMatching(/MDC inválida/) });
+      expect(construirFiltroGrd({ pesoMin: 'uno' })).toEqual({ error: 'pesoMin y pesoMax deben ser numéricos' });
+      expect(construirFiltroGrd({ pesoMin: '3', pesoMax: '1' })).toEqual({
+        error: 'pesoMin debe ser menor o igual a pesoMax',
+      });
+    });
+  });
+});
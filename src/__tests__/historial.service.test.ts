@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import {
+  diferenciasEpisodio,
+  filasCambios,
+  reconstruirEpisodio,
+  valorAuditable,
+  CAMPO_CREACION,
+} from '../services/historial.service';
+
+describe('Historial de cambios de episodios', () => {
+  describe('valorAuditable', () => {
+    it('debe serializar Decimal, fechas y nulos', () => {
+      expect(valorAuditable(new Prisma.Decimal('1234.50'))).toBe(1234.5);
+      expect(valorAuditable(new Date('2024-01-15T00:00:00.000Z'))).toBe('2024-01-15T00:00:00.000Z');
+      expect(valorAuditable(undefined)).toBeNull();
+      expect(valorAuditable({ texto: 'nota' })).toEqual({ texto: 'nota' });
+    });
+  });
+
+  describe('diferenciasEpisodio', () => {
+    it('debe registrar solo los campos auditados que cambiaron', () => {
+      const antes = { atSn: false, atDetalle: null, montoAt: new Prisma.Decimal(0), updatedAt: new Date(1) };
+      const despues = { atSn: true, atDetalle: 'Stent', montoAt: new Prisma.Decimal(0), updatedAt: new Date(2) };
+
+      expect(diferenciasEpisodio(antes, despues)).toEqual([
+        { campo: 'atSn', valorAnterior: false, valorNuevo: true },
+        { campo: 'atDetalle', valorAnterior: null, valorNuevo: 'Stent' },
+      ]);
+    });
+
+    it('debe ignorar los campos ausentes en la versión nueva', () => {
+      expect(diferenciasEpisodio({ montoFinal: 100 }, { validado: null })).toEqual([]);
+    });
+  });
+
+  describe('filasCambios', () => {
+    it('debe usar DbNull para valores nulos y normalizar el rol', () => {
+      const [fila] = filasCambios(7, [{ campo: 'validado', valorAnterior: null, valorNuevo: true }], {
+        usuarioId: 2,
+        rol: 'finanzas',
+        origen: 'UI',
+      });
+
+      expect(fila).toEqual({
+        episodioId: 7,
+        campo: 'validado',
+        valorAnterior: Prisma.DbNull,
+        valorNuevo: true,
+        usuarioId: 2,
+        rol: 'FINANZAS',
+        origen: 'UI',
+        referencia: null,
+      });
+    });
+  });
+
+  describe('reconstruirEpisodio', () => {
+    const actual = {
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      montoFinal: new Prisma.Decimal(3000),
+      estado: 'APROBADO_FINANZAS',
+    };
+    const cambios = [
+      { id: 1, campo: CAMPO_CREACION, valorAnterior: null, createdAt: new Date('2024-01-01T00:00:00.000Z') },
+      { id: 2, campo: 'montoFinal', valorAnterior: 1000, createdAt: new Date('2024-02-01T00:00:00.000Z') },
+      { id: 3, campo: 'montoFinal', valorAnterior: 2000, createdAt: new Date('2024-03-01T00:00:00.000Z') },
+      { id: 4, campo: 'estado', valorAnterior: 'EN_REVISION_GESTION', createdAt: new Date('2024-03-01T00:00:00.000Z') },
+    ];
+
+    it('debe deshacer los cambios posteriores a la fecha', () => {
+      const enFebrero = reconstruirEpisodio(actual, cambios, new Date('2024-02-15T00:00:00.000Z'));
+      expect(enFebrero).toMatchObject({ montoFinal: 2000, estado: 'EN_REVISION_GESTION' });
+
+      const enEnero = reconstruirEpisodio(actual, cambios, new Date('2024-01-15T00:00:00.000Z'));
+      expect(enEnero).toMatchObject({ montoFinal: 1000, estado: 'EN_REVISION_GESTION' });
+    });
+
+    it('debe retornar el estado actual si no hay cambios posteriores', () => {
+      expect(reconstruirEpisodio(actual, cambios, new Date('2024-04-01T00:00:00.000Z'))).toMatchObject({
+        montoFinal: 3000,
+        estado: 'APROBADO_FINANZAS',
+      });
+    });
+
+    it('debe retornar null si el episodio no existía en la fecha', () => {
+      expect(reconstruirEpisodio(actual, cambios, new Date('2023-12-31T00:00:00.000Z'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { cambiaLiquidacion } from '../services/impacto-precio.service';
+
+describe('Impacto de cambios de precio de convenio', () => {
+  const anterior = {
+    convenio: 'FNS012',
+    tramo: 'T1',
+    fechaAdmision: new Date(2024, 0, 1),
+    fechaFin: null,
+    precio: 1000,
+  };
+
+  it('debe detectar cambios de precio, convenio, tramo y vigencia', () => {
+    expect(cambiaLiquidacion(anterior, { ...anterior, precio: 1100 })).toBe(true);
+    expect(cambiaLiquidacion(anterior, { ...anterior, tramo: 'T2' })).toBe(true);
+    expect(cambiaLiquidacion(anterior, { ...anterior, fechaFin: new Date(2024, 11, 31) })).toBe(true);
+    expect(cambiaLiquidacion(anterior, { ...anterior, convenio: 'FNS026' })).toBe(true);
+  });
+
+  it('no debe pedir vista previa si el cambio no afecta la liquidación', () => {
+    expect(cambiaLiquidacion(anterior, { ...anterior, convenio: ' fns012 ', fechaAdmision: new Date(2024, 0, 1) })).toBe(false);
+    expect(cambiaLiquidacion({ ...anterior, tramo: null }, { ...anterior, tramo: '' })).toBe(false);
+  });
+});
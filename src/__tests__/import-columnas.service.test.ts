@@ -0,0 +1,58 @@
+import { buscarColumna, buscarEncabezado, mapearColumnas, COLUMNAS_CONVENIO } from '../services/import-columnas.service';
+
+describe('Detección de columnas del archivo maestro', () => {
+  describe('buscarEncabezado', () => {
+    it('debe preferir el nombre exacto según prioridad', () => {
+      expect(buscarEncabezado(['Convenios', 'Convenios (cod)'], COLUMNAS_CONVENIO)).toEqual({
+        columna: 'Convenios (cod)',
+        coincidencia: 'exacta',
+      });
+    });
+
+    it('debe aceptar variaciones de espacios y mayúsculas', () => {
+      expect(buscarEncabezado(['CONVENIOS   (COD)'], COLUMNAS_CONVENIO)).toEqual({
+        columna: 'CONVENIOS   (COD)',
+        coincidencia: 'normalizada',
+      });
+      expect(buscarEncabezado(['Sexo (Desc)'], ['Sexo  (Desc)'], false)).toEqual({
+        columna: 'Sexo (Desc)',
+        coincidencia: 'normalizada',
+      });
+    });
+
+    it('debe aceptar coincidencia parcial solo si el campo es flexible', () => {
+      expect(buscarEncabezado(['Convenios (cod) 2025'], COLUMNAS_CONVENIO)?.coincidencia).toBe('parcial');
+      expect(buscarEncabezado(['Episodio CMBD 2025'], ['Episodio CMBD'], false)).toBeNull();
+    });
+  });
+
+  describe('buscarColumna', () => {
+    it('debe ignorar columnas sin valor en la fila', () => {
+      const fila = { 'Convenios (cod)': '  ', Convenio: 'FNS012' };
+      expect(buscarColumna(fila, COLUMNAS_CONVENIO)?.columna).toBe('Convenio');
+    });
+  });
+
+  describe('mapearColumnas', () => {
+    const filas = [
+      { 'Episodio CMBD': '1', 'Hospital (Descripción)': 'H', RUT: '1-9', 'Fecha Ingreso': '01/01/2025', Extra: 'x', 'Convenios (cod)': 'A' },
+      { 'Episodio CMBD': '2', 'Hospital (Descripción)': 'H', RUT: '2-7', 'Fecha Ingreso': '02/01/2025', Extra: 'y', 'Convenios (cod)': '', Convenio: 'B' },
+      { 'Episodio CMBD': '3', 'Hospital (Descripción)': 'H', RUT: '3-5', 'Fecha Ingreso': '', Extra: 'z', 'Convenios (cod)': 'C' },
+    ];
+
+    it('debe informar la columna usada por cada campo y cuántas filas tienen valor', () => {
+      const { mapeo } = mapearColumnas(filas);
+      const fechaIngreso = mapeo.find((m) => m.campo === 'fechaIngreso');
+      const convenio = mapeo.find((m) => m.campo === 'convenio');
+
+      expect(fechaIngreso).toMatchObject({ columna: 'Fecha Ingreso', coincidencia: 'exacta', filasConValor: 2 });
+      expect(convenio).toMatchObject({ columna: 'Convenios (cod)', filasConValor: 3, columnasAlternativas: ['Convenio'] });
+    });
+
+    it('debe listar columnas sin mapear y campos requeridos faltantes', () => {
+      const reporte = mapearColumnas(filas);
+      expect(reporte.columnasSinMapear).toEqual(['Extra']);
+      expect(reporte.camposRequeridosFaltantes).toEqual(['grdCodigo']);
+    });
+  });
+});
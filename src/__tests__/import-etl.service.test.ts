@@ -0,0 +1,142 @@
+import type { CodigoCie, Episodio, Grd } from '@prisma/client';
+import { crearCacheChunk } from '../services/import-job.service';
+import {
+  mapearFilaEpisodio,
+  opcionesJob,
+  resolverOpcionesImportacion,
+  validarFilaEpisodio,
+} from '../services/import-etl.service';
+import { conFormatoFecha, PERFIL_PREDETERMINADO } from '../services/import-perfiles.service';
+
+const fila = {
+  'Episodio CMBD': '1001',
+  'Hospital (Descripción)': 'Hospital Clínico',
+  RUT: '11111111-1',
+  'IR GRD (Código)': '14101',
+  Nombre: '  Ana   Pérez ',
+  'Sexo (Desc)': 'Mujer',
+  'Edad en años': '45.7',
+  'Fecha Ingreso completa': '02-01-2025 08:30:00',
+  'Fecha Completa': '05-01-2025',
+  'Convenios (cod)': 'FNS012',
+  'Peso GRD Medio (Todos)': '1.2345',
+  AT: 'S',
+  'Diagnóstico   Principal': 'P91.8',
+  'Conjunto Dx': '[P90][P91.8]',
+  'Proced 01 Principal    (cod)': 4467,
+  'Conjunto Procedimientos Secundarios': '[43.11]',
+};
+
+describe('ETL del archivo maestro', () => {
+  describe('mapearFilaEpisodio', () => {
+    it('debe mapear la fila con las columnas y opciones del perfil', () => {
+      const mapeada = mapearFilaEpisodio(fila, PERFIL_PREDETERMINADO);
+      expect(mapeada).toMatchObject({
+        faltantes: [],
+        episodioCmdb: '1001',
+        nombre: 'Ana Pérez',
+        sexo: 'Mujer',
+        edad: 45,
+        convenio: 'FNS012',
+        pesoGrd: 1.2345,
+        at: 'S',
+        montoAt: null,
+        diagnosticos: ['P918', 'P90'],
+        procedimientos: ['4467', '4311'],
+      });
+      expect(mapeada.fechaIngreso).toEqual({
+        columna: 'Fecha Ingreso completa',
+        valor: '02-01-2025 08:30:00',
+        fecha: new Date('2025-01-02T11:30:00Z'),
+      });
+    });
+
+    it('debe informar los campos requeridos vacíos por su encabezado', () => {
+      expect(mapearFilaEpisodio({ ...fila, RUT: ' ', 'IR GRD (Código)': 'null' }, PERFIL_PREDETERMINADO).faltantes).toEqual([
+        'RUT',
+        'IR GRD (Código)',
+      ]);
+    });
+  });
+
+  describe('validarFilaEpisodio', () => {
+    const grd = { id: 7, codigo: '14101' } as Grd;
+    const contexto = (modo: 'CREAR' | 'MERGE', existente = false) => {
+      const cache = crearCacheChunk();
+      cache.grds.set('14101', grd);
+      if (existente) cache.episodios.set('1001', { id: 1, episodioCmdb: '1001', grd } as Episodio & { grd: Grd });
+      return { perfil: PERFIL_PREDETERMINADO, modo, cache };
+    };
+    const mapeada = (cambios: Record<string, string> = {}) => mapearFilaEpisodio({ ...fila, ...cambios }, PERFIL_PREDETERMINADO);
+
+    it('debe aceptar una fila completa', () => {
+      expect(validarFilaEpisodio(mapeada(), contexto('CREAR'))).toBeNull();
+    });
+
+    it('debe rechazar duplicados al crear y filas repetidas del chunk en merge', () => {
+      expect(validarFilaEpisodio(mapeada(), contexto('CREAR', true))).toBe('Duplicado detectado: Episodio CMBD 1001');
+      expect(validarFilaEpisodio(mapeada(), contexto('MERGE', true))).toBeNull();
+
+      const merge = contexto('MERGE');
+      merge.cache.enChunk.add('1001');
+      expect(validarFilaEpisodio(mapeada(), merge)).toBe('Episodio CMBD repetido en el archivo: 1001');
+    });
+
+    it('debe rechazar GRD que no están en la norma', () => {
+      expect(validarFilaEpisodio(mapeada({ 'IR GRD (Código)': '99999' }), contexto('CREAR'))).toMatch(
+        /Regla GRD no encontrada en la Norma Minsal: 99999/
+      );
+    });
+
+    it('debe exigir fechas válidas salvo al actualizar un episodio existente', () => {
+      expect(validarFilaEpisodio(mapeada({ 'Fecha Completa': '' }), contexto('CREAR'))).toBe('Fecha de alta vacía');
+      expect(validarFilaEpisodio(mapeada({ 'Fecha Completa': '' }), contexto('MERGE', true))).toBeNull();
+      expect(validarFilaEpisodio(mapeada({ 'Fecha Completa': '2025/01/05' }), contexto('MERGE', true))).toMatch(
+        /^Fecha de alta inválida: "2025\/01\/05"/
+      );
+    });
+  });
+
+  describe('codificación del archivo', () => {
+    const contexto = () => {
+      const cache = crearCacheChunk();
+      cache.grds.set('14101', { id: 7, codigo: '14101' } as Grd);
+      return { perfil: PERFIL_PREDETERMINADO, modo: 'CREAR' as const, cache };
+    };
+    const mapeada = (cambios: Record<string, string> = {}) => mapearFilaEpisodio({ ...fila, ...cambios }, PERFIL_PREDETERMINADO);
+
+    it('debe validar solo el formato si el catálogo no está cargado', () => {
+      expect(validarFilaEpisodio(mapeada(), contexto())).toBeNull();
+      expect(validarFilaEpisodio(mapeada({ 'Conjunto Dx': '[P90][99.1]' }), contexto())).toBe('Código CIE-10 inválido: "991"');
+    });
+
+    it('debe rechazar códigos que no están en el catálogo cargado', () => {
+      const ctx = contexto();
+      ctx.cache.catalogosCie.add('CIE10');
+      ctx.cache.cie.set('CIE10:P918', { codigo: 'P918' } as CodigoCie);
+      expect(validarFilaEpisodio(mapeada(), ctx)).toBe('Código no encontrado en el catálogo CIE-10: P90');
+      ctx.cache.cie.set('CIE10:P90', { codigo: 'P90' } as CodigoCie);
+      expect(validarFilaEpisodio(mapeada(), ctx)).toBeNull();
+    });
+  });
+
+  describe('resolverOpcionesImportacion', () => {
+    it('debe usar el perfil predeterminado y el formato de fecha de la carga', async () => {
+      const resultado = await resolverOpcionesImportacion({ modo: 'merge', formatoFecha: ' YYYY-MM-DD ' });
+      expect(resultado).toEqual({
+        opciones: { perfil: conFormatoFecha(PERFIL_PREDETERMINADO, 'YYYY-MM-DD'), modo: 'MERGE', formatoFecha: 'YYYY-MM-DD' },
+      });
+      if ('opciones' in resultado) {
+        expect(opcionesJob(resultado.opciones)).toEqual({ perfilId: null, modo: 'MERGE', formatoFecha: 'YYYY-MM-DD' });
+      }
+    });
+
+    it('debe rechazar modos y formatos de fecha inválidos', async () => {
+      expect(await resolverOpcionesImportacion({ modo: 'borrar' })).toMatchObject({ error: 'Error de validación' });
+      expect(await resolverOpcionesImportacion({ formatoFecha: 'DD/MM' })).toMatchObject({
+        error: 'Error de validación',
+        message: expect.stringMatching(/Formato de fecha inválido/),
+      });
+    });
+  });
+});
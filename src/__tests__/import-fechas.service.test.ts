@@ -0,0 +1,94 @@
+import {
+  errorFecha,
+  fechaEnZona,
+  formatosFecha,
+  parsearFechaConFormato,
+  parsearFechaImportacion,
+  validarFormatoFecha,
+  FORMATOS_FECHA_PREDETERMINADOS,
+} from '../services/import-fechas.service';
+
+describe('Fechas del archivo maestro', () => {
+  describe('fechaEnZona', () => {
+    it('debe interpretar la hora como hora de Chile (verano UTC-3, invierno UTC-4)', () => {
+      const partes = { hora: 10, minuto: 0, segundo: 0 };
+      expect(fechaEnZona({ anio: 2025, mes: 1, dia: 15, ...partes })).toEqual(new Date('2025-01-15T13:00:00Z'));
+      expect(fechaEnZona({ anio: 2025, mes: 7, dia: 15, ...partes })).toEqual(new Date('2025-07-15T14:00:00Z'));
+    });
+
+    it('debe rechazar fechas u horas que no existen', () => {
+      expect(fechaEnZona({ anio: 2025, mes: 2, dia: 31, hora: 0, minuto: 0, segundo: 0 })).toBeNull();
+      expect(fechaEnZona({ anio: 2025, mes: 2, dia: 3, hora: 24, minuto: 0, segundo: 0 })).toBeNull();
+    });
+  });
+
+  describe('parsearFechaConFormato', () => {
+    it('debe interpretar el texto según el formato', () => {
+      expect(parsearFechaConFormato('03/02/2025', 'MM/DD/YYYY')).toEqual(new Date('2025-03-02T03:00:00Z'));
+      expect(parsearFechaConFormato('03/02/2025', 'DD/MM/YYYY')).toEqual(new Date('2025-02-03T03:00:00Z'));
+      expect(parsearFechaConFormato('2025-02-03 14:30', 'YYYY-MM-DD HH:mm')).toEqual(new Date('2025-02-03T17:30:00Z'));
+    });
+
+    it('debe ignorar la hora si el formato no la incluye', () => {
+      expect(parsearFechaConFormato('21-12-2024  13:00:00', 'DD-MM-YYYY')).toEqual(new Date('2024-12-21T03:00:00Z'));
+    });
+
+    it('debe rechazar textos que no calzan o fechas inexistentes', () => {
+      expect(parsearFechaConFormato('2025-02-03', 'DD/MM/YYYY')).toBeNull();
+      expect(parsearFechaConFormato('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    });
+  });
+
+  it('debe validar los tokens del formato de fecha', () => {
+    expect(validarFormatoFecha('DD/MM/YYYY HH:mm')).toBeNull();
+    expect(validarFormatoFecha('DD/MM/YY')).toMatch(/Formato de fecha inválido/);
+    expect(validarFormatoFecha('MM/YYYY')).toMatch(/Formato de fecha inválido/);
+  });
+
+  describe('parsearFechaImportacion', () => {
+    const predeterminados = FORMATOS_FECHA_PREDETERMINADOS;
+
+    it('debe leer las celdas de fecha y los seriales de Excel como hora de Chile', () => {
+      // exceljs entrega la hora de la celda como si fuera UTC
+      expect(parsearFechaImportacion(new Date('2025-01-15T10:00:00Z'), predeterminados)).toEqual(
+        new Date('2025-01-15T13:00:00Z')
+      );
+      expect(parsearFechaImportacion(45672.5, predeterminados)).toEqual(new Date('2025-01-15T15:00:00Z'));
+    });
+
+    it('debe respetar el desfase de un texto ISO y usar la hora de Chile si no lo trae', () => {
+      expect(parsearFechaImportacion('2025-01-15T10:00:00Z', predeterminados)).toEqual(new Date('2025-01-15T10:00:00Z'));
+      expect(parsearFechaImportacion('2025-01-15T10:00:00', predeterminados)).toEqual(new Date('2025-01-15T13:00:00Z'));
+    });
+
+    it('debe aceptar los formatos predeterminados con y sin hora', () => {
+      expect(parsearFechaImportacion('21-12-2024  13:00:00', predeterminados)).toEqual(new Date('2024-12-21T16:00:00Z'));
+      expect(parsearFechaImportacion('21/12/2024', predeterminados)).toEqual(new Date('2024-12-21T03:00:00Z'));
+      expect(parsearFechaImportacion('2024-12-21 08:15', predeterminados)).toEqual(new Date('2024-12-21T11:15:00Z'));
+    });
+
+    it('debe rechazar textos fuera del formato configurado sin adivinar', () => {
+      expect(parsearFechaImportacion('12/21/2024', predeterminados)).toBeNull();
+      expect(parsearFechaImportacion('21 de diciembre de 2024', predeterminados)).toBeNull();
+      expect(parsearFechaImportacion('2024-12-21', formatosFecha('DD/MM/YYYY'))).toBeNull();
+      expect(parsearFechaImportacion('', predeterminados)).toBeNull();
+      expect(parsearFechaImportacion(0, predeterminados)).toBeNull();
+    });
+  });
+
+  describe('errorFecha', () => {
+    const formatos = formatosFecha('DD/MM/YYYY');
+
+    it('debe exigir las fechas requeridas y permitir vacías las opcionales', () => {
+      expect(errorFecha('Fecha de ingreso', '  ', formatos, { requerida: true })).toBe('Fecha de ingreso vacía');
+      expect(errorFecha('Fecha de ingreso', undefined, formatos, { requerida: false })).toBeNull();
+    });
+
+    it('debe informar el valor y el formato esperado', () => {
+      expect(errorFecha('Fecha de alta', '2025-13-01', formatos, { requerida: true })).toBe(
+        'Fecha de alta inválida: "2025-13-01" (formato esperado: DD/MM/YYYY)'
+      );
+      expect(errorFecha('Fecha de alta', '01/02/2025', formatos, { requerida: true })).toBeNull();
+    });
+  });
+});
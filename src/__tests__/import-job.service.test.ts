@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+import type { ImportJob } from '@prisma/client';
+import {
+  contarResultados,
+  crearSesionImportacion,
+  esErrorDeConexion,
+  filasErroresImportacion,
+  filasItemsImportacion,
+  ItemImportacion,
+  progresoImportJob,
+  referenciaImportJob,
+} from '../services/import-job.service';
+
+describe('Jobs de importación', () => {
+  describe('progresoImportJob', () => {
+    it('debe calcular el porcentaje de filas confirmadas', () => {
+      expect(progresoImportJob({ estado: 'EN_PROCESO', totalFilas: 400, filasProcesadas: 200 })).toBe(50);
+      expect(progresoImportJob({ estado: 'PENDIENTE', totalFilas: 0, filasProcesadas: 0 })).toBe(0);
+    });
+
+    it('debe informar 100% al completar, aunque el archivo no tuviera filas', () => {
+      expect(progresoImportJob({ estado: 'COMPLETADO', totalFilas: 0, filasProcesadas: 0 })).toBe(100);
+    });
+  });
+
+  describe('crearSesionImportacion', () => {
+    it('debe partir de los contadores ya confirmados del job, con errores propios', () => {
+      const job = {
+        id: 7,
+        usuarioId: 3,
+        rol: 'GESTION',
+        archivoNombre: 'maestro.xlsx',
+        archivoTamano: 1024,
+        archivoHash: 'abc',
+        filasProcesadas: 200,
+        validadas: 190,
+        guardadas: 185,
+        fallidas: 15,
+        creados: 150,
+        actualizados: 30,
+        sinCambios: 4,
+        conflictos: 1,
+        opciones: { perfilId: null, modo: 'MERGE' },
+      } as unknown as ImportJob;
+
+      const a = crearSesionImportacion(job, 3);
+      const b = crearSesionImportacion(job, 0);
+      a.errores.push({ fila: 1, error: 'x' });
+
+      expect(a.estadisticas).toEqual({
+        totalFilas: 3,
+        filasProcesadas: 200,
+        validadas: 190,
+        guardadas: 185,
+        fallidas: 15,
+        creados: 150,
+        actualizados: 30,
+        sinCambios: 4,
+        conflictos: 1,
+      });
+      expect(a.modo).toBe('MERGE');
+      expect(a.usuario).toEqual({ id: 3, rol: 'GESTION' });
+      expect(a.archivo.hash).toBe('abc');
+      expect(b.errores).toEqual([]);
+    });
+  });
+
+  describe('filasErroresImportacion', () => {
+    it('debe serializar el registro de la fila y usar DbNull si no viene', () => {
+      const filas = filasErroresImportacion(4, [
+        { fila: 5, error: 'Duplicado', registro: { RUT: '1-9', 'Fecha Completa': new Date('2025-01-02T00:00:00Z') } },
+        { fila: 6, error: 'Error al guardar' },
+      ]);
+      expect(filas[0]).toEqual({
+        jobId: 4,
+        fila: 5,
+        error: 'Duplicado',
+        registro: { RUT: '1-9', 'Fecha Completa': '2025-01-02T00:00:00.000Z' },
+      });
+      expect(filas[1].registro).toBe(Prisma.DbNull);
+    });
+  });
+
+  describe('resultados por fila', () => {
+    const items: ItemImportacion[] = [
+      { fila: 1, resultado: 'CREADO', episodioId: 10, episodioCmdb: 'E1', cambios: {}, conflictos: {} },
+      {
+        fila: 2,
+        resultado: 'CONFLICTO',
+        episodioId: 11,
+        episodioCmdb: 'E2',
+        cambios: { pesoGrd: { antes: 1.1, despues: 1.2 } },
+        conflictos: { fechaAlta: { actual: '2025-01-02T00:00:00.000Z', archivo: '2025-01-03T00:00:00.000Z', motivo: 'Editado manualmente' } },
+      },
+    ];
+
+    it('debe contar las filas guardadas por resultado', () => {
+      expect(contarResultados(items)).toEqual({ creados: 1, actualizados: 0, sinCambios: 0, conflictos: 1 });
+    });
+
+    it('debe guardar cambios y conflictos como Json y DbNull si no hay', () => {
+      const filas = filasItemsImportacion(3, items);
+      expect(filas[0]).toMatchObject({ jobId: 3, fila: 1, episodioId: 10, resultado: 'CREADO' });
+      expect(filas[0].cambios).toBe(Prisma.DbNull);
+      expect(filas[0].conflictos).toBe(Prisma.DbNull);
+      expect(filas[1].cambios).toEqual({ pesoGrd: { antes: 1.1, despues: 1.2 } });
+    });
+  });
+
+  it('debe referenciar el historial de episodios con el id del job', () => {
+    expect(referenciaImportJob(12)).toBe('importJob:12');
+  });
+
+  describe('esErrorDeConexion', () => {
+    const errorPrisma = (code: string) => new Prisma.PrismaClientKnownRequestError('error', { code, clientVersion: '6' });
+
+    it('debe hacer fallar el job solo por errores de conexión o de transacción', () => {
+      expect(esErrorDeConexion(errorPrisma('P1001'))).toBe(true);
+      expect(esErrorDeConexion(errorPrisma('P2028'))).toBe(true);
+      expect(esErrorDeConexion(new Prisma.PrismaClientInitializationError('sin BD', '6'))).toBe(true);
+    });
+
+    it('debe tratar los errores de datos como errores de la fila', () => {
+      expect(esErrorDeConexion(errorPrisma('P2002'))).toBe(false);
+      expect(esErrorDeConexion(new Error('Valor inválido'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encabezadosUnicos, leerFilasArchivo, valorCeldaExcel } from '../services/import-lectura.service';
+
+describe('Lectura por streaming del archivo maestro', () => {
+  describe('valorCeldaExcel', () => {
+    it('debe extraer el valor de texto enriquecido, fórmulas e hipervínculos', () => {
+      expect(valorCeldaExcel({ richText: [{ text: 'GRD ' }, { text: '14101' }] })).toBe('GRD 14101');
+      expect(valorCeldaExcel({ formula: 'A1*2', result: 1.25 })).toBe(1.25);
+      expect(valorCeldaExcel({ text: 'Enlace', hyperlink: 'http://x' })).toBe('Enlace');
+    });
+
+    it('debe conservar fechas y números, y vaciar celdas nulas o con error', () => {
+      const fecha = new Date('2025-01-02T00:00:00Z');
+      expect(valorCeldaExcel(fecha)).toBe(fecha);
+      expect(valorCeldaExcel(3)).toBe(3);
+      expect(valorCeldaExcel(undefined)).toBe('');
+      expect(valorCeldaExcel({ error: '#N/A' })).toBe('');
+    });
+  });
+
+  describe('encabezadosUnicos', () => {
+    it('debe numerar los encabezados repetidos y nombrar los vacíos', () => {
+      expect(encabezadosUnicos(['RUT', 'Nombre', 'RUT', undefined, ' RUT '])).toEqual([
+        'RUT',
+        'Nombre',
+        'RUT_1',
+        '__EMPTY_3',
+        'RUT_2',
+      ]);
+    });
+  });
+
+  describe('leerFilasArchivo', () => {
+    it('debe entregar las filas de un CSV desde la fila de encabezados', async () => {
+      const ruta = path.join(os.tmpdir(), `maestro-${Date.now()}.csv`);
+      fs.writeFileSync(ruta, 'Reporte anual\nEpisodio CMBD,RUT\n100,1-9\n101,2-7\n');
+      try {
+        const filas = [];
+        for await (const fila of leerFilasArchivo(ruta, 'maestro.csv', { hoja: null, filaEncabezado: 2 })) {
+          filas.push(fila);
+        }
+        expect(filas).toEqual([
+          { 'Episodio CMBD': '100', RUT: '1-9' },
+          { 'Episodio CMBD': '101', RUT: '2-7' },
+        ]);
+      } finally {
+        fs.unlinkSync(ruta);
+      }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import type { Episodio } from '@prisma/client';
+import {
+  compararCamposOrigen,
+  episodioBloqueado,
+  modoDeOpciones,
+  parsearModoImportacion,
+  planificarFusion,
+  resultadoMerge,
+} from '../services/import-merge.service';
+import { liquidarEpisodio } from '../services/liquidacion.service';
+
+jest.mock('../services/liquidacion.service', () => ({
+  ...jest.requireActual('../services/liquidacion.service'),
+  liquidarEpisodio: jest.fn(),
+}));
+
+describe('Modo merge de importación', () => {
+  describe('parsearModoImportacion', () => {
+    it('debe aceptar el modo sin importar mayúsculas y usar CREAR por defecto', () => {
+      expect(parsearModoImportacion('merge')).toBe('MERGE');
+      expect(parsearModoImportacion(undefined)).toBe('CREAR');
+      expect(parsearModoImportacion('')).toBe('CREAR');
+    });
+
+    it('debe atender replace=true como MERGE (ya no se borran episodios)', () => {
+      expect(parsearModoImportacion(undefined, 'true')).toBe('MERGE');
+      expect(modoDeOpciones({ replace: true })).toBe('MERGE');
+    });
+
+    it('debe rechazar modos desconocidos', () => {
+      expect(parsearModoImportacion('reemplazar')).toBeNull();
+    });
+  });
+
+  describe('episodioBloqueado', () => {
+    it('debe bloquear episodios aprobados o exportados', () => {
+      expect(episodioBloqueado({ validado: true, estado: 'EN_REVISION_GESTION' })).toBe(true);
+      expect(episodioBloqueado({ validado: null, estado: 'EXPORTADO' })).toBe(true);
+      expect(episodioBloqueado({ validado: null, estado: 'IMPORTADO' })).toBe(false);
+    });
+  });
+
+  describe('compararCamposOrigen', () => {
+    const actual = {
+      fechaIngreso: new Date('2025-01-01T10:00:00Z'),
+      fechaAlta: new Date('2025-01-05T10:00:00Z'),
+      grdId: 3,
+      pesoGrd: 1.2346,
+      servicioAlta: 'Medicina',
+    };
+    const libre = { bloqueado: false, editadosManualmente: new Set<string>() };
+
+    it('debe aplicar solo los campos de origen que cambiaron', () => {
+      const { aplicar, conflictos } = compararCamposOrigen(
+        actual,
+        { fechaAlta: new Date('2025-01-07T10:00:00Z'), grdId: 3, pesoGrd: 1.23456, servicioAlta: 'Cirugía' },
+        libre
+      );
+      expect(aplicar).toEqual({ fechaAlta: new Date('2025-01-07T10:00:00Z'), servicioAlta: 'Cirugía' });
+      expect(conflictos).toEqual({});
+    });
+
+    it('no debe borrar datos cuando el archivo no trae el valor', () => {
+      const { aplicar } = compararCamposOrigen(actual, { fechaIngreso: null, servicioAlta: null }, libre);
+      expect(aplicar).toEqual({});
+    });
+
+    it('debe informar conflicto en campos editados manualmente y en episodios aprobados', () => {
+      const editado = compararCamposOrigen(
+        actual,
+        { servicioAlta: 'Cirugía', grdId: 4 },
+        { bloqueado: false, editadosManualmente: new Set(['servicioAlta']) }
+      );
+      expect(editado.aplicar).toEqual({ grdId: 4 });
+      expect(editado.conflictos.servicioAlta).toEqual({ actual: 'Medicina', archivo: 'Cirugía', motivo: 'Editado manualmente' });
+
+      const aprobado = compararCamposOrigen(actual, { grdId: 4 }, { bloqueado: true, editadosManualmente: new Set() });
+      expect(aprobado.aplicar).toEqual({});
+      expect(aprobado.conflictos.grdId.motivo).toBe('Episodio aprobado');
+    });
+  });
+
+  describe('planificarFusion', () => {
+    it('debe reliquidar respetando el precio base editado a mano', async () => {
+      (liquidarEpisodio as jest.Mock).mockResolvedValue({
+        engineVersion: 'test',
+        convenio: 'FNS012',
+        tramo: 'T1',
+        diasEstada: 6,
+        inlierOutlier: 'Inlier',
+        precioBaseTramo: 950,
+        valorGrd: 1140,
+        montoAt: 0,
+        pagoOutlierSuperior: 0,
+        pagoDemoraRescate: 0,
+        montoFinal: 1140,
+      });
+      const existente = {
+        id: 1,
+        fechaAlta: new Date('2025-01-05T10:00:00Z'),
+        grupoEnNorma: true,
+        precioBaseTramo: new Prisma.Decimal(950),
+        precioBaseManual: true,
+        validado: null,
+        estado: 'IMPORTADO',
+      } as unknown as Episodio;
+
+      const plan = await planificarFusion(
+        existente,
+        { fechaAlta: new Date('2025-01-06T10:00:00Z') },
+        { editadosManualmente: new Set(), grd: null }
+      );
+
+      expect(liquidarEpisodio).toHaveBeenCalledWith(
+        expect.objectContaining({ fechaAlta: new Date('2025-01-06T10:00:00Z') }),
+        expect.objectContaining({ precioBaseTramo: 950 })
+      );
+      expect(plan.data).toMatchObject({ fechaAlta: new Date('2025-01-06T10:00:00Z'), precioBaseTramo: 950 });
+    });
+  });
+
+  it('debe clasificar el resultado de la fila', () => {
+    const cambio = { grdId: { antes: 3, despues: 4 } };
+    const conflicto = { fechaAlta: { actual: null, archivo: null, motivo: 'Episodio aprobado' } };
+    expect(resultadoMerge({}, {})).toBe('SIN_CAMBIOS');
+    expect(resultadoMerge(cambio, {})).toBe('ACTUALIZADO');
+    expect(resultadoMerge(cambio, conflicto)).toBe('CONFLICTO');
+  });
+});
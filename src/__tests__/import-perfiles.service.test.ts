@@ -0,0 +1,59 @@
+import type { ImportProfile } from '@prisma/client';
+import {
+  camposDePerfil,
+  conFormatoFecha,
+  parsearNumero,
+  perfilDesdeRegistro,
+  valorCampo,
+  PERFIL_PREDETERMINADO,
+} from '../services/import-perfiles.service';
+
+describe('Perfiles de importación', () => {
+  it('debe reemplazar el formato de fecha del perfil por el de la carga', () => {
+    expect(conFormatoFecha(PERFIL_PREDETERMINADO, 'YYYY-MM-DD').opciones).toEqual({
+      ...PERFIL_PREDETERMINADO.opciones,
+      formatoFecha: 'YYYY-MM-DD',
+    });
+    expect(conFormatoFecha(PERFIL_PREDETERMINADO, null)).toBe(PERFIL_PREDETERMINADO);
+  });
+
+  describe('parsearNumero', () => {
+    it('debe respetar el separador decimal', () => {
+      expect(parsearNumero('1.234,56', ',')).toBe(1234.56);
+      expect(parsearNumero('1,234.56', '.')).toBe(1234.56);
+      expect(parsearNumero('0,8543', ',')).toBe(0.8543);
+    });
+
+    it('debe retornar null para vacíos o textos no numéricos', () => {
+      expect(parsearNumero('', '.')).toBeNull();
+      expect(parsearNumero('  ', ',')).toBeNull();
+      expect(parsearNumero('N/A', '.')).toBeNull();
+      expect(parsearNumero(undefined)).toBeNull();
+    });
+  });
+
+  describe('camposDePerfil', () => {
+    it('debe reemplazar solo los encabezados de los campos definidos', () => {
+      const campos = camposDePerfil({ convenio: 'Convenio Origen', fechaAlta: ['Egreso'] });
+      expect(campos.find((c) => c.campo === 'convenio')?.columnas).toEqual(['Convenio Origen']);
+      expect(campos.find((c) => c.campo === 'fechaAlta')).toMatchObject({ columnas: ['Egreso'], flexible: true });
+      expect(campos.find((c) => c.campo === 'rut')).toEqual(PERFIL_PREDETERMINADO.campos.find((c) => c.campo === 'rut'));
+    });
+  });
+
+  it('debe leer los valores con los encabezados del perfil', () => {
+    const perfil = perfilDesdeRegistro({
+      id: 1,
+      nombre: 'SISTEMA_B',
+      columnas: { episodioCmdb: ['Nro Episodio'] },
+      formatoFecha: null,
+      separadorDecimal: ',',
+      hoja: null,
+      filaEncabezado: 0,
+    } as unknown as ImportProfile);
+
+    expect(perfil.opciones).toEqual({ formatoFecha: null, separadorDecimal: ',', hoja: null, filaEncabezado: 1 });
+    expect(valorCampo({ 'Nro Episodio': '123', 'Episodio CMBD': '999' }, perfil, 'episodioCmdb')).toBe('123');
+    expect(valorCampo({ 'Sexo (Desc)': 'F' }, perfil, 'sexo')).toBe('F');
+  });
+});
@@ -0,0 +1,64 @@
+import { Prisma } from '@prisma/client';
+import { datosRestauracion, planificarReversion } from '../services/import-rollback.service';
+
+describe('Reversión de importaciones', () => {
+  const episodio = (id: number, extra: Record<string, unknown> = {}) => ({
+    id,
+    episodioCmdb: `E${id}`,
+    estado: 'IMPORTADO',
+    validado: null,
+    ...extra,
+  });
+
+  describe('datosRestauracion', () => {
+    it('debe restaurar el primer valor anterior del job y convertir fechas', () => {
+      const actual = { grdId: 5, fechaAlta: new Date('2025-01-09T00:00:00Z') };
+      const { data, cambios, omitidos } = datosRestauracion(actual, [
+        { grdId: { antes: 3, despues: 4 } },
+        { grdId: { antes: 4, despues: 5 }, fechaAlta: { antes: '2025-01-05T00:00:00.000Z', despues: '2025-01-09T00:00:00.000Z' } },
+      ]);
+      expect(data).toEqual({ grdId: 3, fechaAlta: new Date('2025-01-05T00:00:00Z') });
+      expect(cambios).toContainEqual({ campo: 'grdId', valorAnterior: 5, valorNuevo: 3 });
+      expect(omitidos).toEqual([]);
+    });
+
+    it('debe conservar los campos modificados después de la importación', () => {
+      const actual = { montoFinal: new Prisma.Decimal(900), servicioAlta: 'Cirugía' };
+      const { data, omitidos } = datosRestauracion(actual, [
+        { montoFinal: { antes: 700, despues: 800 }, servicioAlta: { antes: 'Medicina', despues: 'Cirugía' } },
+      ]);
+      expect(data).toEqual({ servicioAlta: 'Medicina' });
+      expect(omitidos).toEqual(['montoFinal']);
+    });
+  });
+
+  describe('planificarReversion', () => {
+    it('debe eliminar los creados y restaurar los actualizados, ignorando los que ya no existen', () => {
+      const plan = planificarReversion(
+        [
+          { fila: 1, episodioId: 1, resultado: 'CREADO', cambios: null },
+          { fila: 2, episodioId: 1, resultado: 'ACTUALIZADO', cambios: { grdId: { antes: 3, despues: 4 } } },
+          { fila: 3, episodioId: 2, resultado: 'ACTUALIZADO', cambios: { grdId: { antes: 3, despues: 4 } } },
+          { fila: 4, episodioId: 9, resultado: 'CREADO', cambios: null },
+        ],
+        [episodio(1, { grdId: 4 }), episodio(2, { grdId: 4 })]
+      );
+      expect(plan.eliminar).toEqual([1]);
+      expect(plan.restaurar).toHaveLength(1);
+      expect(plan.restaurar[0]).toMatchObject({ episodioId: 2, data: { grdId: 3 } });
+      expect(plan.bloqueados).toEqual([]);
+    });
+
+    it('debe informar los episodios aprobados o exportados', () => {
+      const plan = planificarReversion(
+        [
+          { fila: 1, episodioId: 1, resultado: 'CREADO', cambios: null },
+          { fila: 2, episodioId: 2, resultado: 'CONFLICTO', cambios: { grdId: { antes: 3, despues: 4 } } },
+        ],
+        [episodio(1, { validado: true }), episodio(2, { estado: 'EXPORTADO' })]
+      );
+      expect(plan.bloqueados.map((b) => b.episodioId)).toEqual([1, 2]);
+      expect(plan.eliminar).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  ENGINE_VERSION,
+  calcularValorGRD,
+  calcularMontoFinal,
+  calcularDiasEstada,
+  calcularInlierOutlier,
+  calcularTramo,
+  calcularPagoDemoraRescate,
+  calcularPagoOutlierSuperior,
+  calcularLiquidacion,
+  detallarLiquidacion,
+  seleccionarPrecioVigente,
+  seleccionarVersionNorma,
+  rangosSeSolapan,
+  tramosVigentes,
+  validarTramosContiguos,
+  validarTramosPorPeriodo,
+  ReglaConvenio,
+} from '../services/liquidacion.engine';
+
+const TRAMOS_FNS = [
+  { tramo: 'T1', pesoDesde: null, pesoHasta: 1.5 },
+  { tramo: 'T2', pesoDesde: 1.5, pesoHasta: 2.5 },
+  { tramo: 'T3', pesoDesde: 2.5, pesoHasta: null },
+];
+
+const REGLA_FNS012: ReglaConvenio = {
+  convenio: 'FNS012',
+  modoPrecio: 'TRAMOS',
+  pagaOutlierSuperior: true,
+  formulaDemora: 'FACTOR_P75',
+  fechaReferencia: 'fechaIngreso',
+  tramos: TRAMOS_FNS,
+};
+
+const REGLA_FNS026: ReglaConvenio = { ...REGLA_FNS012, convenio: 'FNS026', pagaOutlierSuperior: false };
+
+describe('Motor de liquidación GRD', () => {
+  describe('calcularValorGRD', () => {
+    it('debe multiplicar peso por precio base', () => {
+      expect(calcularValorGRD(1.2, 1000)).toBe(1200);
+    });
+
+    it('debe retornar 0 si falta peso o precio', () => {
+      expect(calcularValorGRD(null, 1000)).toBe(0);
+      expect(calcularValorGRD(1.2, 0)).toBe(0);
+    });
+  });
+
+  describe('calcularMontoFinal', () => {
+    it('debe sumar valor GRD, AT, outlier y demora', () => {
+      expect(calcularMontoFinal(1000, 200, 50, 25)).toBe(1275);
+      expect(calcularMontoFinal(1000, null, undefined, null)).toBe(1000);
+    });
+  });
+
+  describe('calcularDiasEstada', () => {
+    it('debe calcular los días entre ingreso y alta', () => {
+      expect(calcularDiasEstada(new Date('2024-01-01'), new Date('2024-01-11'))).toBe(10);
+    });
+
+    it('debe retornar 0 con fechas faltantes o invertidas', () => {
+      expect(calcularDiasEstada(null, new Date('2024-01-11'))).toBe(0);
+      expect(calcularDiasEstada(new Date('2024-01-11'), new Date('2024-01-01'))).toBe(0);
+    });
+  });
+
+  describe('calcularInlierOutlier', () => {
+    it('debe clasificar según los puntos de corte', () => {
+      expect(calcularInlierOutlier(20, 2, 15)).toBe('Outlier Superior');
+      expect(calcularInlierOutlier(1, 2, 15)).toBe('Outlier Inferior');
+      expect(calcularInlierOutlier(5, 2, 15)).toBe('Inlier');
+    });
+
+    it('debe retornar null sin días o sin puntos de corte', () => {
+      expect(calcularInlierOutlier(null, 2, 15)).toBeNull();
+      expect(calcularInlierOutlier(5, null, null)).toBeNull();
+    });
+  });
+
+  describe('calcularTramo', () => {
+    it('debe asignar el tramo según los límites de peso del convenio', () => {
+      expect(calcularTramo(1.5, TRAMOS_FNS)).toBe('T1');
+      expect(calcularTramo(2.5, TRAMOS_FNS)).toBe('T2');
+      expect(calcularTramo(2.51, TRAMOS_FNS)).toBe('T3');
+      expect(calcularTramo(null, TRAMOS_FNS)).toBeNull();
+    });
+
+    it('debe retornar null si ningún tramo cubre el peso', () => {
+      const tramos = [{ tramo: 'BAJO', pesoDesde: null, pesoHasta: 1 }];
+      expect(calcularTramo(0.5, tramos)).toBe('BAJO');
+      expect(calcularTramo(1.2, tramos)).toBeNull();
+      expect(calcularTramo(-1, tramos)).toBeNull();
+    });
+  });
+
+  describe('calcularPagoDemoraRescate', () => {
+    it('debe usar días × monto día espera con fórmula DIA_ESPERA', () => {
+      expect(
+        calcularPagoDemoraRescate({ formulaDemora: 'DIA_ESPERA', diasDemora: 3, montoDiaEspera: 10000 })
+      ).toBe(30000);
+    });
+
+    it('debe usar (peso × precio) / percentil 75 × días con fórmula FACTOR_P75', () => {
+      const pago = calcularPagoDemoraRescate({
+        formulaDemora: 'FACTOR_P75',
+        diasDemora: 2,
+        pesoGrd: 1,
+        precioBaseTramo: 1000,
+        norma: { percentil75: 4 },
+      });
+      expect(pago).toBe(500);
+    });
+
+    it('debe caer a ConfiguracionSistema si el GRD no tiene percentil 75 ni punto de corte', () => {
+      const pago = calcularPagoDemoraRescate({
+        formulaDemora: 'FACTOR_P75',
+        diasDemora: 1,
+        pesoGrd: 2,
+        precioBaseTramo: 1000,
+        parametros: { diasPercentil75: 5 },
+      });
+      expect(pago).toBe(400);
+    });
+
+    it('debe mantener el valor manual sin días de demora o sin fórmula', () => {
+      expect(calcularPagoDemoraRescate({ formulaDemora: 'FACTOR_P75', diasDemora: 0, pagoDemoraManual: 99 })).toBe(99);
+      expect(calcularPagoDemoraRescate({ formulaDemora: 'NINGUNA', diasDemora: 4, pagoDemoraManual: 50 })).toBe(50);
+    });
+  });
+
+  describe('calcularPagoOutlierSuperior', () => {
+    it('debe pagar los días post carencia a convenios con outlier superior', () => {
+      const pago = calcularPagoOutlierSuperior({
+        pagaOutlierSuperior: true,
+        diasEstada: 30,
+        pesoGrd: 1,
+        precioBase: 1000,
+        inlierOutlier: 'Outlier Superior',
+        norma: { puntoCorteSup: 15, percentil50: 5, percentil75: 10 },
+      });
+      // Carencia = 15 + 5 = 20; post carencia = 10; (10 × 1 × 1000) / 10
+      expect(pago).toBe(1000);
+    });
+
+    it('debe retornar 0 para convenios sin outlier superior o inliers', () => {
+      const base = { diasEstada: 30, pesoGrd: 1, precioBase: 1000, norma: { puntoCorteSup: 15, percentil50: 5 } };
+      expect(calcularPagoOutlierSuperior({ ...base, pagaOutlierSuperior: false, inlierOutlier: 'Outlier Superior' })).toBe(0);
+      expect(calcularPagoOutlierSuperior({ ...base, pagaOutlierSuperior: true, inlierOutlier: 'Inlier' })).toBe(0);
+    });
+
+    it('debe retornar 0 si falta percentil 50', () => {
+      expect(
+        calcularPagoOutlierSuperior({
+          pagaOutlierSuperior: true,
+          diasEstada: 30,
+          pesoGrd: 1,
+          precioBase: 1000,
+          inlierOutlier: 'Outlier Superior',
+          norma: { puntoCorteSup: 15 },
+        })
+      ).toBe(0);
+    });
+  });
+
+  describe('calcularLiquidacion', () => {
+    it('debe entregar la liquidación desglosada con la versión del motor', () => {
+      const liquidacion = calcularLiquidacion(
+        {
+          convenio: 'FNS012',
+          pesoGrd: 1,
+          fechaIngreso: new Date('2024-01-01'),
+          fechaAlta: new Date('2024-01-31'),
+          montoAt: 200,
+          diasDemoraRescate: 2,
+        },
+        { tramo: 'T1', precioBaseTramo: 1000 },
+        { puntoCorteInf: 2, puntoCorteSup: 15, percentil50: 5, percentil75: 10 },
+        {},
+        REGLA_FNS012
+      );
+
+      expect(liquidacion).toEqual({
+        engineVersion: ENGINE_VERSION,
+        convenio: 'FNS012',
+        tramo: 'T1',
+        diasEstada: 30,
+        inlierOutlier: 'Outlier Superior',
+        precioBaseTramo: 1000,
+        valorGrd: 1000,
+        montoAt: 200,
+        pagoOutlierSuperior: 1000,
+        pagoDemoraRescate: 200,
+        montoFinal: 2400,
+      });
+    });
+
+    it('debe respetar overrides manuales solo fuera de norma', () => {
+      const entrada = { convenio: 'FNS019', pesoGrd: 1, valorGrdManual: 5000, montoFinalManual: 7000 };
+
+      const enNorma = calcularLiquidacion(entrada, { precioBaseTramo: 1000 });
+      expect(enNorma.valorGrd).toBe(1000);
+      expect(enNorma.montoFinal).toBe(1000);
+
+      const fueraDeNorma = calcularLiquidacion({ ...entrada, grupoEnNorma: false }, { precioBaseTramo: 1000 });
+      expect(fueraDeNorma.valorGrd).toBe(5000);
+      expect(fueraDeNorma.montoFinal).toBe(7000);
+    });
+  });
+
+  describe('detallarLiquidacion', () => {
+    it('debe indicar el origen de cada parámetro y el período de carencia', () => {
+      const detalle = detallarLiquidacion(
+        {
+          convenio: 'FNS012',
+          pesoGrd: 1,
+          fechaIngreso: new Date('2024-01-01'),
+          fechaAlta: new Date('2024-01-31'),
+        },
+        { tramo: 'T1', precioBaseTramo: 1000 },
+        { puntoCorteInf: 2, puntoCorteSup: 15 },
+        { percentil50: 5, diasPercentil75: 8 },
+        REGLA_FNS012
+      );
+
+      expect(detalle.outlier.puntoCorteSup).toEqual({ valor: 15, fuente: 'GRD', campo: 'puntoCorteSup' });
+      expect(detalle.outlier.percentil50).toEqual({ valor: 5, fuente: 'CONFIGURACION', campo: 'percentil50' });
+      // Sin percentil 75 en el GRD se usa el punto de corte superior
+      expect(detalle.outlier.percentil75).toEqual({ valor: 15, fuente: 'GRD', campo: 'puntoCorteSup' });
+      expect(detalle.outlier.periodoCarencia).toBe(20);
+      expect(detalle.outlier.diasPostCarencia).toBe(10);
+      expect(detalle.pasos.map((p) => p.paso)).toEqual([
+        'diasEstada',
+        'inlierOutlier',
+        'valorGrd',
+        'pagoDemoraRescate',
+        'pagoOutlierSuperior',
+        'montoFinal',
+      ]);
+    });
+
+    it('debe explicar por qué no aplica el pago outlier', () => {
+      const detalle = detallarLiquidacion({ convenio: 'FNS026', pesoGrd: 1 }, { precioBaseTramo: 1000 }, {}, {}, REGLA_FNS026);
+      expect(detalle.outlier.aplica).toBe(false);
+      expect(detalle.outlier.motivo).toContain('no paga outlier');
+    });
+
+    it('sin regla de convenio no debe aplicar outlier ni fórmula de demora', () => {
+      const detalle = detallarLiquidacion(
+        { convenio: 'OTRO', pesoGrd: 1, diasDemoraRescate: 3, pagoDemoraRescate: 40 },
+        { precioBaseTramo: 1000 }
+      );
+      expect(detalle.outlier.aplica).toBe(false);
+      expect(detalle.demora.formula).toBe('MANUAL');
+      expect(detalle.liquidacion.pagoDemoraRescate).toBe(40);
+    });
+  });
+
+  describe('seleccionarPrecioVigente', () => {
+    const precios = [
+      { id: 'antiguo', fechaAdmision: new Date(2023, 0, 1), fechaFin: new Date(2023, 11, 31), createdAt: new Date(2023, 0, 1) },
+      { id: 'nuevo', fechaAdmision: new Date(2024, 0, 1), fechaFin: null, createdAt: new Date(2024, 0, 1) },
+    ];
+
+    it('debe elegir el precio cuya vigencia contiene la fecha', () => {
+      expect(seleccionarPrecioVigente(precios, new Date(2023, 5, 15))?.id).toBe('antiguo');
+      expect(seleccionarPrecioVigente(precios, new Date(2023, 11, 31))?.id).toBe('antiguo');
+      expect(seleccionarPrecioVigente(precios, new Date(2025, 2, 1))?.id).toBe('nuevo');
+    });
+
+    it('debe retornar null si ningún precio está vigente', () => {
+      expect(seleccionarPrecioVigente(precios, new Date(2022, 5, 1))).toBeNull();
+    });
+
+    it('sin fecha de referencia solo acepta precios sin límites de vigencia', () => {
+      expect(seleccionarPrecioVigente(precios, null)).toBeNull();
+      const abierto = { id: 'abierto', fechaAdmision: null, fechaFin: null };
+      expect(seleccionarPrecioVigente([...precios, abierto], null)?.id).toBe('abierto');
+    });
+  });
+
+  describe('seleccionarVersionNorma', () => {
+    const versiones = [
+      { anio: 2024, vigenciaDesde: new Date(2024, 0, 1), vigenciaHasta: new Date(2024, 11, 31) },
+      { anio: 2025, vigenciaDesde: new Date(2025, 0, 1), vigenciaHasta: null },
+    ];
+
+    it('debe elegir la versión vigente a la fecha de alta', () => {
+      expect(seleccionarVersionNorma(versiones, new Date(2024, 11, 31, 18))?.anio).toBe(2024);
+      expect(seleccionarVersionNorma(versiones, new Date(2025, 0, 1))?.anio).toBe(2025);
+      expect(seleccionarVersionNorma(versiones, new Date(2026, 5, 1))?.anio).toBe(2025);
+    });
+
+    it('debe retornar null sin fecha de alta o sin versión vigente', () => {
+      expect(seleccionarVersionNorma(versiones, null)).toBeNull();
+      expect(seleccionarVersionNorma(versiones, new Date(2023, 5, 1))).toBeNull();
+    });
+  });
+
+  describe('rangosSeSolapan', () => {
+    it('debe detectar solapamientos considerando extremos abiertos', () => {
+      const rango2023 = { fechaAdmision: new Date(2023, 0, 1), fechaFin: new Date(2023, 11, 31) };
+      expect(rangosSeSolapan(rango2023, { fechaAdmision: new Date(2023, 11, 31), fechaFin: null })).toBe(true);
+      expect(rangosSeSolapan(rango2023, { fechaAdmision: new Date(2024, 0, 1), fechaFin: null })).toBe(false);
+      expect(rangosSeSolapan(rango2023, { fechaAdmision: null, fechaFin: null })).toBe(true);
+    });
+  });
+
+  describe('tramosVigentes', () => {
+    it('debe usar los puntos de corte del período que contiene la fecha', () => {
+      const tramos = [
+        { tramo: 'T1', pesoDesde: null, pesoHasta: 1.5, vigenciaDesde: null, vigenciaHasta: new Date(2023, 11, 31) },
+        { tramo: 'T1', pesoDesde: null, pesoHasta: 1.8, vigenciaDesde: new Date(2024, 0, 1), vigenciaHasta: null },
+      ];
+      expect(calcularTramo(1.7, tramosVigentes(tramos, new Date(2023, 5, 1)))).toBeNull();
+      expect(calcularTramo(1.7, tramosVigentes(tramos, new Date(2024, 5, 1)))).toBe('T1');
+      expect(tramosVigentes(tramos, null)).toEqual([]);
+    });
+  });
+
+  describe('validarTramosContiguos', () => {
+    it('debe aceptar tramos contiguos que cubren todos los pesos', () => {
+      expect(validarTramosContiguos(TRAMOS_FNS)).toEqual([]);
+    });
+
+    it('debe detectar huecos, solapamientos y extremos abiertos', () => {
+      expect(
+        validarTramosContiguos([
+          { tramo: 'T1', pesoDesde: null, pesoHasta: 1.5 },
+          { tramo: 'T2', pesoDesde: 1.6, pesoHasta: null },
+        ])
+      ).toEqual(['Hay un hueco entre los tramos T1 y T2']);
+      expect(
+        validarTramosContiguos([
+          { tramo: 'T1', pesoDesde: null, pesoHasta: 2 },
+          { tramo: 'T2', pesoDesde: 1.5, pesoHasta: null },
+        ])
+      ).toEqual(['Tramos T1 y T2 se solapan']);
+      expect(validarTramosContiguos([{ tramo: 'T1', pesoDesde: 1, pesoHasta: 2 }])).toEqual([
+        'Tramo T1: el primer tramo debe partir en peso 0',
+        'Tramo T1: el último tramo debe quedar sin límite superior',
+      ]);
+    });
+  });
+
+  describe('validarTramosPorPeriodo', () => {
+    it('debe rechazar períodos de tramos que se solapan', () => {
+      const tramos = [
+        { tramo: 'T1', pesoDesde: null, pesoHasta: null, vigenciaDesde: new Date(2023, 0, 1), vigenciaHasta: new Date(2024, 5, 30) },
+        { tramo: 'T1', pesoDesde: null, pesoHasta: null, vigenciaDesde: new Date(2024, 0, 1), vigenciaHasta: null },
+      ];
+      const errores = validarTramosPorPeriodo(tramos);
+      expect(errores).toHaveLength(1);
+      expect(errores[0]).toContain('se solapan');
+    });
+  });
+});
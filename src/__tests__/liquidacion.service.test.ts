@@ -0,0 +1,24 @@
+import { Prisma } from '@prisma/client';
+import { overridesGuardados } from '../services/liquidacion.service';
+
+describe('Servicio de liquidación', () => {
+  describe('overridesGuardados', () => {
+    it('debe respetar el precio base solo si fue editado a mano', () => {
+      const precioBaseTramo = new Prisma.Decimal(950);
+      expect(overridesGuardados({ precioBaseTramo, precioBaseManual: true, grupoEnNorma: true })).toEqual({
+        precioBaseTramo: 950,
+        valorGrdManual: null,
+        montoFinalManual: null,
+      });
+      expect(overridesGuardados({ precioBaseTramo, precioBaseManual: false })).toEqual({
+        valorGrdManual: null,
+        montoFinalManual: null,
+      });
+    });
+
+    it('debe mantener el valor GRD y el monto final guardados de los episodios fuera de norma', () => {
+      const episodio = { grupoEnNorma: false, valorGrd: new Prisma.Decimal(1200), montoFinal: new Prisma.Decimal(1500) };
+      expect(overridesGuardados(episodio)).toEqual({ valorGrdManual: 1200, montoFinalManual: 1500 });
+    });
+  });
+});
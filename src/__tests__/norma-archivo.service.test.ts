@@ -0,0 +1,106 @@
+import {
+  erroresNormaCsv,
+  leerArchivoNorma,
+  leerDecimal,
+  procesarFilasNorma,
+  superaUmbralErrores,
+} from '../services/norma-archivo.service';
+
+const fila = (cambios: Record<string, string> = {}) => ({
+  GRD: '14101',
+  'Peso Total': '1,5',
+  'Punto Corte Inferior': '2',
+  'Punto Corte Superior': '12',
+  'Percentil 25': '4',
+  'Percentil 50': '6',
+  'Percentil 75': '9',
+  ...cambios,
+});
+
+describe('Lectura del archivo de la Norma MINSAL', () => {
+  describe('leerDecimal', () => {
+    it('debe aceptar coma decimal y espacios', () => {
+      expect(leerDecimal(' 1,2345 ')).toBe(1.2345);
+    });
+
+    it('debe distinguir celdas vacías de valores que no son números', () => {
+      expect(leerDecimal(undefined)).toBeNull();
+      expect(leerDecimal(' ')).toBeNull();
+      expect(leerDecimal('N/A')).toBeNaN();
+      expect(leerDecimal('1.2.3')).toBeNaN();
+    });
+  });
+
+  describe('procesarFilasNorma', () => {
+    it('debe leer los parámetros con distintos nombres de columna', () => {
+      const { parametros, errores } = procesarFilasNorma([
+        { GRD: '14101', 'Peso Total': '1,5', 'PUNTO CORTE INFERIOR': '2', 'Punto Corte Superior (días)': '12', P50: '6', P75: '9' },
+      ]);
+      expect(errores).toEqual([]);
+      expect(parametros).toEqual([
+        expect.objectContaining({
+          codigo: '14101',
+          peso: 1.5,
+          puntoCorteInf: 2,
+          puntoCorteSup: 12,
+          percentil25: null,
+          percentil50: 6,
+          percentil75: 9,
+        }),
+      ]);
+    });
+
+    it('debe rechazar filas que no cumplen las reglas de la norma', () => {
+      const { parametros, errores } = procesarFilasNorma([
+        fila({ GRD: '' }),
+        fila({ GRD: 'A-14' }),
+        fila({ 'Peso Total': 'x' }),
+        fila({ 'Peso Total': '0' }),
+        fila({ 'Punto Corte Inferior': '15' }),
+        fila({ 'Percentil 50': '10' }),
+        fila({ 'Punto Corte Superior': '' }),
+      ]);
+      expect(parametros).toEqual([]);
+      expect(errores.map((e) => e.error)).toEqual([
+        'Código GRD faltante o vacío',
+        'Código GRD inválido: "A-14" (se esperan 5 o 6 dígitos)',
+        'Peso inválido: "x"; Peso debe ser mayor a 0',
+        'Peso debe ser mayor a 0',
+        'Punto corte inferior (15) mayor que el superior (12)',
+        'Percentil 50 (10) mayor que percentil 75 (9)',
+        'Punto corte superior faltante',
+      ]);
+    });
+
+    it('debe informar códigos repetidos con el número de fila', () => {
+      const { parametros, errores } = procesarFilasNorma([fila(), fila({ GRD: '14102' }), fila()]);
+      expect(parametros.map((p) => p.codigo)).toEqual(['14101', '14102']);
+      expect(errores.map((e) => [e.fila, e.codigo, e.error])).toEqual([
+        [3, '14101', 'Código GRD repetido en el archivo: 14101'],
+      ]);
+    });
+  });
+
+  describe('superaUmbralErrores', () => {
+    it('debe rechazar la carga sobre el porcentaje de filas con error', () => {
+      expect(superaUmbralErrores(100, 5, 5)).toBe(false);
+      expect(superaUmbralErrores(100, 6, 5)).toBe(true);
+      expect(superaUmbralErrores(3, 3, 100)).toBe(true);
+    });
+  });
+
+  describe('erroresNormaCsv', () => {
+    it('debe generar el reporte con BOM y escapar comillas y separadores', () => {
+      expect(erroresNormaCsv([{ fila: 2, codigo: null, error: 'Peso inválido: "x"; Peso debe ser mayor a 0' }])).toBe(
+        '﻿Fila,Código GRD,Error\r\n2,,"Peso inválido: ""x""; Peso debe ser mayor a 0"\r\n'
+      );
+    });
+  });
+
+  describe('leerArchivoNorma', () => {
+    it('debe leer un CSV desde el buffer', async () => {
+      const filas = await leerArchivoNorma(Buffer.from('GRD,Peso Total\n14101,1.2\n'), 'norma.csv');
+      expect(filas).toEqual([{ GRD: '14101', 'Peso Total': '1.2' }]);
+    });
+  });
+});
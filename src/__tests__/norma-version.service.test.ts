@@ -0,0 +1,59 @@
+import { compararParametrosNorma, ParametrosGrdNorma, planificarVigencia } from '../services/norma-version.service';
+
+const grd = (codigo: string, cambios: Partial<ParametrosGrdNorma> = {}): ParametrosGrdNorma => ({
+  codigo,
+  peso: 1.2,
+  puntoCorteInf: 2,
+  puntoCorteSup: 10,
+  percentil25: 3,
+  percentil50: 5,
+  percentil75: 7,
+  ...cambios,
+});
+
+describe('Versiones de la Norma MINSAL', () => {
+  describe('compararParametrosNorma', () => {
+    it('debe separar GRD agregados, eliminados, modificados y sin cambios', () => {
+      const comparacion = compararParametrosNorma(
+        [grd('14101'), grd('14102'), grd('14103')],
+        [grd('14101'), grd('14102', { peso: 1.35, puntoCorteSup: 12 }), grd('14104')]
+      );
+
+      expect(comparacion.agregados.map((p) => p.codigo)).toEqual(['14104']);
+      expect(comparacion.eliminados.map((p) => p.codigo)).toEqual(['14103']);
+      expect(comparacion.modificados).toEqual([
+        {
+          codigo: '14102',
+          cambios: { peso: { anterior: 1.2, nuevo: 1.35 }, puntoCorteSup: { anterior: 10, nuevo: 12 } },
+        },
+      ]);
+      expect(comparacion.sinCambios).toBe(1);
+    });
+  });
+
+  describe('planificarVigencia', () => {
+    const version2024 = { id: 1, anio: 2024, vigenciaDesde: new Date(2024, 0, 1), vigenciaHasta: null };
+
+    it('debe cerrar la versión abierta anterior el día antes de la nueva', () => {
+      expect(planificarVigencia({ anio: 2025, vigenciaDesde: new Date(2025, 0, 1), vigenciaHasta: null }, [version2024])).toEqual({
+        cerrar: [{ id: 1, vigenciaHasta: new Date(2024, 11, 31) }],
+      });
+    });
+
+    it('debe ignorar la versión del mismo año, que se reemplaza', () => {
+      expect(planificarVigencia({ anio: 2024, vigenciaDesde: new Date(2024, 2, 1), vigenciaHasta: null }, [version2024])).toEqual({
+        cerrar: [],
+      });
+    });
+
+    it('debe rechazar vigencias que se solapan o invertidas', () => {
+      const cerrada = { ...version2024, vigenciaHasta: new Date(2024, 11, 31) };
+      expect(
+        planificarVigencia({ anio: 2023, vigenciaDesde: new Date(2023, 0, 1), vigenciaHasta: null }, [cerrada])
+      ).toEqual({ error: expect.stringMatching(/se solapa con la norma 2024/) });
+      expect(
+        planificarVigencia({ anio: 2025, vigenciaDesde: new Date(2025, 5, 1), vigenciaHasta: new Date(2025, 0, 1) }, [])
+      ).toEqual({ error: 'vigenciaHasta debe ser mayor o igual a vigenciaDesde' });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { formatearObservacion, rolDestinoPorDefecto } from '../services/observaciones.service';
+
+describe('Observaciones de episodios', () => {
+  describe('rolDestinoPorDefecto', () => {
+    it('debe dirigir a codificación las observaciones de finanzas y gestión', () => {
+      expect(rolDestinoPorDefecto('finanzas')).toBe('CODIFICADOR');
+      expect(rolDestinoPorDefecto('Gestión')).toBe('CODIFICADOR');
+    });
+
+    it('debe dirigir a gestión las observaciones de codificación', () => {
+      expect(rolDestinoPorDefecto('CODIFICADOR')).toBe('GESTION');
+    });
+
+    it('debe dejar sin destino las observaciones de admin', () => {
+      expect(rolDestinoPorDefecto('admin')).toBeNull();
+      expect(rolDestinoPorDefecto(undefined)).toBeNull();
+    });
+  });
+
+  describe('formatearObservacion', () => {
+    it('debe resumir el motivo de rechazo y serializar las fechas', () => {
+      const creada = new Date('2024-03-01T12:00:00.000Z');
+      const observacion = {
+        id: 1,
+        episodioId: 10,
+        autorId: 3,
+        rol: 'FINANZAS',
+        texto: 'Falta el protocolo operatorio',
+        campo: 'documentacion',
+        motivoRechazoId: 2,
+        rolDestino: 'CODIFICADOR',
+        transicionId: 5,
+        resuelta: false,
+        resueltaPorId: null,
+        resueltaAt: null,
+        createdAt: creada,
+        motivoRechazo: {
+          id: 2,
+          codigo: 'DOCUMENTACION_INCOMPLETA',
+          descripcion: 'Falta documentación de respaldo',
+          activo: true,
+          createdAt: creada,
+          updatedAt: creada,
+        },
+      };
+
+      expect(formatearObservacion(observacion)).toMatchObject({
+        motivoRechazo: { codigo: 'DOCUMENTACION_INCOMPLETA', descripcion: 'Falta documentación de respaldo' },
+        resueltaAt: null,
+        createdAt: '2024-03-01T12:00:00.000Z',
+      });
+    });
+  });
+});
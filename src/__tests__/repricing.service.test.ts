@@ -0,0 +1,67 @@
+import { diferenciasLiquidacion, whereRepricing } from '../services/repricing.service';
+import { ENGINE_VERSION, Liquidacion } from '../services/liquidacion.engine';
+
+const liquidacionBase: Liquidacion = {
+  engineVersion: ENGINE_VERSION,
+  convenio: 'FNS012',
+  tramo: 'T1',
+  diasEstada: 5,
+  inlierOutlier: 'Inlier',
+  precioBaseTramo: 1000,
+  valorGrd: 1200,
+  montoAt: 0,
+  pagoOutlierSuperior: 0,
+  pagoDemoraRescate: 0,
+  montoFinal: 1200,
+};
+
+describe('Repricing de episodios', () => {
+  describe('whereRepricing', () => {
+    it('debe filtrar por convenio, período de alta y GRD', () => {
+      const desde = new Date(2024, 0, 1);
+      const hasta = new Date(2024, 0, 31);
+      expect(whereRepricing({ convenio: ' fns012 ', fechaDesde: desde, fechaHasta: hasta, grdCodigo: '51401' })).toEqual({
+        OR: [{ validado: null }, { validado: false }],
+        convenio: { equals: 'FNS012', mode: 'insensitive' },
+        fechaAlta: { gte: desde, lte: hasta },
+        grd: { codigo: '51401' },
+      });
+    });
+
+    it('sin filtros debe considerar todos los episodios no aprobados con convenio', () => {
+      expect(whereRepricing({})).toEqual({ OR: [{ validado: null }, { validado: false }], convenio: { not: null } });
+    });
+  });
+
+  describe('diferenciasLiquidacion', () => {
+    it('debe registrar solo los campos que cambian', () => {
+      const episodio = {
+        precioBaseTramo: '900',
+        valorGrd: 1080,
+        pagoOutlierSuperior: 0,
+        pagoDemoraRescate: 0,
+        montoFinal: 1080,
+        inlierOutlier: 'Inlier',
+        diasEstada: 5,
+      };
+      expect(diferenciasLiquidacion(episodio, liquidacionBase)).toEqual({
+        precioBaseTramo: { antes: 900, despues: 1000 },
+        valorGrd: { antes: 1080, despues: 1200 },
+        montoFinal: { antes: 1080, despues: 1200 },
+      });
+    });
+
+    it('debe ignorar diferencias menores a un centavo', () => {
+      const episodio = {
+        precioBaseTramo: 1000,
+        valorGrd: 1200.004,
+        pagoOutlierSuperior: 0,
+        pagoDemoraRescate: 0,
+        montoFinal: 1200,
+        inlierOutlier: 'Inlier',
+        diasEstada: 5,
+      };
+      expect(diferenciasLiquidacion(episodio, liquidacionBase)).toEqual({});
+    });
+  });
+});
@@ -14,6 +14,12 @@ import configRoutes from './routes/config.routes';
 import logsRoutes from './routes/logs.routes';
 import preciosConveniosRoutes from './routes/precios-convenios.routes';
 import ajustesTecnologiaRoutes from './routes/ajustes-tecnologia.routes';
+import conveniosReglasRoutes from './routes/convenios-reglas.routes';
+import repricingRoutes from './routes/repricing.routes';
+import observacionesRoutes from './routes/observaciones.routes';
+import motivosRechazoRoutes from './routes/motivos-rechazo.routes';
+import importsRoutes from './routes/imports.routes';
+import importProfilesRoutes from './routes/import-profiles.routes';
 import { errorHandler } from './middlewares/error';
 import { prisma } from './db/client';
 
@@ -123,6 +129,7 @@ app.use('/api/auth', authRoutes); // Cambiado de /auth a /api/auth para coincidi
 app.use('/api/users', usersRoutes); // Cambiado de /usuarios a /api/users para coincidir con el frontend
 app.use('/api', exportRoutes);
 app.use('/api', uploadRoutes);
+app.use('/api', repricingRoutes); // Reliquidación masiva: /api/episodios/repricing (antes de las rutas genéricas de episodios)
 app.use('/api', episodiosRoutes);
 app.use('/api', respaldosRoutes);
 app.use('/api', catalogsRoutes); // Rutas de catálogos: /api/catalogs/norma-minsal/import
@@ -130,6 +137,11 @@ app.use('/api/config', configRoutes); // Rutas de configuración: /api/config
 app.use('/api/logs', logsRoutes); // Rutas de logs: /api/logs
 app.use('/api', preciosConveniosRoutes); // Rutas de precios de convenios: /api/precios-convenios
 app.use('/api', ajustesTecnologiaRoutes); // Rutas de ajustes por tecnología: /api/ajustes-tecnologia
+app.use('/api', conveniosReglasRoutes); // Rutas de reglas de convenios: /api/convenios-reglas
+app.use('/api', observacionesRoutes); // Observaciones de revisión: /api/observaciones/abiertas
+app.use('/api', motivosRechazoRoutes); // Catálogo de motivos de rechazo: /api/motivos-rechazo
+app.use('/api', importsRoutes); // Progreso y reanudación de importaciones: /api/imports/:id
+app.use('/api', importProfilesRoutes); // Perfiles de columnas del archivo maestro: /api/import-profiles
 
 // 404 handler
 app.use((req, res) => {
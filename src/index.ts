@@ -2,6 +2,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import app from './app';
+import { marcarImportJobsInterrumpidos } from './services/import-job.service';
 
 const PORT = Number(process.env.PORT || 3000);
 const HOST = process.env.HOST || '0.0.0.0';
@@ -10,6 +11,13 @@ const server = app.listen(PORT, HOST, () => {
   console.log(`🚀 GRD Backend escuchando en http://localhost:${PORT}`);
   console.log(`📡 Health check: http://localhost:${PORT}/health`);
   console.log(`🔐 Login endpoint: http://localhost:${PORT}/api/auth/login`);
+
+  // Importaciones que quedaron a medias con el proceso anterior (se pueden reanudar)
+  marcarImportJobsInterrumpidos()
+    .then((count) => {
+      if (count > 0) console.log(`⚠️ ${count} importaciones interrumpidas marcadas como FALLIDO`);
+    })
+    .catch((err) => console.error('❌ Error revisando importaciones interrumpidas:', err));
 });
 
 // Manejar errores del servidor
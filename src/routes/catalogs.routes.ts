@@ -1,12 +1,37 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import * as path from 'path';
-import csv from 'csv-parser';
-import * as XLSX from 'xlsx';
-import { requireAuth } from '../middlewares/auth';
+import { requireAuth, requireRole } from '../middlewares/auth';
 import { prisma } from '../db/client';
-import { Readable } from 'stream';
-import { Prisma } from '@prisma/client';
+import { seleccionarVersionNorma } from '../services/liquidacion.engine';
+import Joi from 'joi';
+import type { NormaVersion } from '@prisma/client';
+import {
+  calcularImpactoVersionNorma,
+  compararParametrosNorma,
+  guardarVersionNorma,
+  obtenerParametrosVersion,
+} from '../services/norma-version.service';
+import {
+  erroresNormaCsv,
+  ErrorFilaNorma,
+  leerArchivoNorma,
+  NormaRow,
+  procesarFilasNorma,
+  superaUmbralErrores,
+  UMBRAL_ERRORES_NORMA,
+} from '../services/norma-archivo.service';
+import { construirFiltroGrd, formatearDetalleGrd, formatearGrd } from '../services/grd-catalogo.service';
+import {
+  construirFiltroCie,
+  formatearCodigoCie,
+  guardarCatalogoCie,
+  parsearSistemaCie,
+  procesarFilasCie,
+  NOMBRES_SISTEMA_CIE,
+  SISTEMAS_CIE,
+} from '../services/cie-catalogo.service';
+import { logAdminAction } from '../utils/logger';
 
 const router = Router();
 
@@ -35,22 +60,25 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024, files: 1 }, // 50MB Límite
 });
 
-interface NormaRow {
-  GRD?: string;
-  'Peso Total'?: string;
-  'Punto Corte Inferior'?: string;
-  'Punto Corte Superior'?: string;
-  // Campos opcionales adicionales que puedan venir en el archivo
-  [key: string]: any;
-}
+const versionSchema = Joi.object({
+  anio: Joi.number().integer().min(2000).max(2100).required(),
+  vigenciaDesde: Joi.date().allow(null, ''), // Por defecto el 1 de enero del año
+  vigenciaHasta: Joi.date().allow(null, ''),
+  replace: Joi.boolean().default(false),
+  umbralErrores: Joi.number().min(0).max(100).default(UMBRAL_ERRORES_NORMA), // % máximo de filas con error
+});
 
-// Función auxiliar para convertir string a número Decimal para Prisma
-function parseDecimal(value: string | undefined, defaultValue: number = 0): number {
-  if (!value) return defaultValue;
-  // Reemplazar comas por puntos y eliminar espacios
-  const cleaned = value.toString().replace(',', '.').replace(/\s/g, '');
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? defaultValue : parsed;
+function resumirVersion(version: NormaVersion) {
+  return {
+    id: version.id,
+    anio: version.anio,
+    archivoNombre: version.archivoNombre,
+    cargadoPorId: version.cargadoPorId,
+    vigenciaDesde: version.vigenciaDesde.toISOString(),
+    vigenciaHasta: version.vigenciaHasta ? version.vigenciaHasta.toISOString() : null,
+    totalGrd: version.totalGrd,
+    createdAt: version.createdAt.toISOString(),
+  };
 }
 
 // Wrapper para manejar errores en handlers async
@@ -91,19 +119,21 @@ const handleMulterError = (err: any, req: Request, res: Response, next: NextFunc
 };
 
 // Endpoint GET para obtener información sobre la Norma Minsal
+// La versión vigente es la que rige hoy; la más reciente puede tener vigencia futura
 router.get('/catalogs/norma-minsal', requireAuth, asyncHandler(async (req: Request, res: Response) => {
   try {
     const count = await prisma.grd.count();
-    const latestUpdate = await prisma.grd.findFirst({
-      orderBy: { createdAt: 'desc' },
-      select: { createdAt: true }
-    });
+    const versiones = await prisma.normaVersion.findMany({ orderBy: { vigenciaDesde: 'desc' } });
+    const vigente = seleccionarVersionNorma(versiones, new Date());
 
     return res.json({
-      version: 'latest',
+      version: vigente ? vigente.anio : null,
+      vigente: vigente ? resumirVersion(vigente) : null,
+      ultima: versiones[0] ? resumirVersion(versiones[0]) : null,
+      totalVersiones: versiones.length,
       totalRecords: count,
-      lastUpdated: latestUpdate?.createdAt || null,
-      status: 'active'
+      lastUpdated: versiones.reduce<Date | null>((max, v) => (!max || v.updatedAt > max ? v.updatedAt : max), null),
+      status: vigente ? 'active' : 'sin_version_vigente'
     });
   } catch (error: any) {
     console.error('Error obteniendo información de Norma Minsal:', error);
@@ -114,492 +144,369 @@ router.get('/catalogs/norma-minsal', requireAuth, asyncHandler(async (req: Reque
   }
 }));
 
-// Endpoint de importación de Norma Minsal
-// Ruta completa: POST /api/catalogs/norma-minsal/import
-router.post('/catalogs/norma-minsal/import', requireAuth, (req: Request, res: Response, next: NextFunction) => {
-  console.log('📋 Iniciando procesamiento de archivo...');
-  console.log('Content-Type:', req.headers['content-type']);
-  console.log('Content-Length:', req.headers['content-length']);
-  
+// Versiones cargadas de la Norma Minsal, de la más reciente a la más antigua
+router.get('/catalogs/norma-minsal/versions', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const versiones = await prisma.normaVersion.findMany({ orderBy: { vigenciaDesde: 'desc' } });
+    return res.json(versiones.map(resumirVersion));
+  } catch (error: any) {
+    console.error('Error listando versiones de Norma Minsal:', error);
+    return res.status(500).json({
+      error: 'Error al listar versiones',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
+// Compara dos versiones: GRD agregados, eliminados y con peso, puntos de corte o percentiles distintos
+// Ruta completa: GET /api/catalogs/norma-minsal/versions/:id/compare/:otraId (:id = anterior, :otraId = nueva)
+router.get('/catalogs/norma-minsal/versions/:id/compare/:otraId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const otraId = parseInt(req.params.otraId);
+    if (isNaN(id) || isNaN(otraId)) {
+      return res.status(400).json({ error: 'ID de versión inválido' });
+    }
+
+    const [anterior, nueva] = await Promise.all([
+      prisma.normaVersion.findUnique({ where: { id } }),
+      prisma.normaVersion.findUnique({ where: { id: otraId } }),
+    ]);
+    if (!anterior || !nueva) {
+      return res.status(404).json({ error: 'Versión de la norma no encontrada' });
+    }
+
+    const comparacion = compararParametrosNorma(
+      await obtenerParametrosVersion(anterior.id),
+      await obtenerParametrosVersion(nueva.id)
+    );
+    return res.json({
+      anterior: resumirVersion(anterior),
+      nueva: resumirVersion(nueva),
+      resumen: {
+        agregados: comparacion.agregados.length,
+        eliminados: comparacion.eliminados.length,
+        modificados: comparacion.modificados.length,
+        sinCambios: comparacion.sinCambios,
+      },
+      ...comparacion,
+    });
+  } catch (error: any) {
+    console.error('Error comparando versiones de Norma Minsal:', error);
+    return res.status(500).json({
+      error: 'Error al comparar versiones',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
+// GET /api/catalogs/grd - Catálogo de GRD paginado (?search=&pesoMin=&pesoMax=&mdc=&page=&pageSize=)
+router.get('/catalogs/grd', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const filtro = construirFiltroGrd(req.query);
+    if ('error' in filtro) {
+      return res.status(400).json({ error: 'Error de validación', message: filtro.error });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 50, 200);
+    const [grds, total] = await Promise.all([
+      prisma.grd.findMany({
+        where: filtro.where,
+        orderBy: { codigo: 'asc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.grd.count({ where: filtro.where }),
+    ]);
+
+    return res.json({
+      data: grds.map(formatearGrd),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al listar GRD:', error);
+    return res.status(500).json({
+      error: 'Error al listar GRD',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
+// GET /api/catalogs/grd/:codigo - Peso, puntos de corte, percentiles (actuales y por versión) y episodios que lo usan
+router.get('/catalogs/grd/:codigo', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const codigo = req.params.codigo.trim();
+    const grd = await prisma.grd.findUnique({
+      where: { codigo },
+      include: { normas: { include: { version: true } } },
+    });
+    if (!grd) {
+      return res.status(404).json({
+        error: 'GRD no encontrado',
+        message: `No se encontró un GRD con código: ${codigo}`
+      });
+    }
+
+    const episodios = await prisma.episodio.count({ where: { grdId: grd.id } });
+    return res.json(formatearDetalleGrd(grd, episodios));
+  } catch (error: any) {
+    console.error('Error al obtener GRD:', error);
+    return res.status(500).json({
+      error: 'Error al obtener GRD',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
+// Recibe el archivo con Multer (en memoria) y responde los errores de carga
+const recibirArchivo = (req: Request, res: Response, next: NextFunction) => {
   upload.single('file')(req, res, (err: any) => {
     if (err) {
-      console.error('❌ Error de Multer:', err);
-      console.error('Error code:', err?.code);
-      console.error('Error message:', err?.message);
+      console.error('❌ Error de Multer:', err?.code, err?.message);
       return handleMulterError(err, req, res, next);
     }
-    console.log('✅ Archivo procesado por Multer correctamente');
     next();
   });
-}, asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  console.log('\n\n🎯 ========== INICIO IMPORTACIÓN NORMA MINSAL ==========');
-  console.log(`📁 Archivo recibido: ${req.file?.originalname || 'NO HAY ARCHIVO'}`);
-  console.log(`📏 Tamaño: ${req.file?.size || 0} bytes`);
-  console.log('==================================================\n');
-  
-  const errorRecords: any[] = [];
-  const successRecords: any[] = [];
+};
+
+/**
+ * Datos de la versión (body) y parámetros de los GRD del archivo
+ * Si el archivo o los datos no son válidos responde 400 y retorna null.
+ */
+async function leerCargaNorma(req: Request, res: Response) {
+  if (!req.file) {
+    res.status(400).json({ error: 'No se proporcionó ningún archivo' });
+    return null;
+  }
 
+  const { error: validationError, value } = versionSchema.validate(req.body, { stripUnknown: true });
+  if (validationError) {
+    res.status(400).json({
+      error: 'Error de validación',
+      message: validationError.details[0].message,
+    });
+    return null;
+  }
+
+  let data: NormaRow[];
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No se proporcionó ningún archivo' });
-    }
+    data = await leerArchivoNorma(req.file.buffer, req.file.originalname);
+  } catch (parseError: any) {
+    console.error('Error parseando archivo:', parseError);
+    res.status(400).json({
+      error: 'Error al parsear el archivo',
+      message: parseError.message || 'Formato de archivo inválido'
+    });
+    return null;
+  }
+  if (data.length === 0) {
+    res.status(400).json({ error: 'El archivo está vacío o no contiene datos válidos' });
+    return null;
+  }
 
-    // Log para identificar si viene de local o producción
-    const origin = req.get('origin') || req.get('referer') || 'unknown';
-    const host = req.get('host') || 'unknown';
-    console.log('📥 Iniciando importación de Norma Minsal...');
-    console.log('🌐 Origen de la petición:', origin);
-    console.log('🌐 Host del backend:', host);
-    console.log('📁 Archivo:', req.file.originalname, 'Tamaño:', req.file.size, 'bytes');
-
-    const replace = req.body.replace === 'true';
-
-    if (replace) {
-      console.log('REEMPLAZANDO DATOS: Actualizando normas anteriores...');
-      // No eliminamos los GRDs porque pueden tener episodios vinculados
-      // En su lugar, el upsert actualizará los campos (puntoCorteSup, puntoCorteInf, peso, etc.)
-      // Esto asegura que los GRDs existentes se actualicen con los nuevos valores de la norma
-    }
+  const { parametros, errores } = procesarFilasNorma(data);
+  const summary = {
+    total: data.length,
+    valid: parametros.length,
+    errors: errores.length,
+    porcentajeErrores: Math.round((errores.length / data.length) * 10000) / 100,
+    umbralErrores: value.umbralErrores as number,
+  };
 
-    const fileBuffer = req.file.buffer;
-    const ext = path.extname(req.file.originalname).toLowerCase();
+  return {
+    datos: {
+      anio: value.anio as number,
+      // Por defecto la versión rige desde el 1 de enero de su año
+      vigenciaDesde: (value.vigenciaDesde || new Date(value.anio, 0, 1)) as Date,
+      vigenciaHasta: (value.vigenciaHasta || null) as Date | null,
+      reemplazar: value.replace as boolean,
+    },
+    parametros,
+    errores,
+    summary,
+    // Demasiadas filas con error: la carga se rechaza completa
+    rechazada: superaUmbralErrores(data.length, errores.length, value.umbralErrores),
+  };
+}
 
-    let data: NormaRow[] = [];
+// Errores por fila para la respuesta (los primeros 50; el reporte completo se descarga en CSV)
+function detalleErrores(errores: ErrorFilaNorma[]) {
+  return errores.slice(0, 50);
+}
 
-    // Parsear archivo desde el buffer de memoria
-    try {
-      if (ext === '.csv') {
-        await new Promise<void>((resolve, reject) => {
-          Readable.from(fileBuffer)
-            .pipe(csv())
-            .on('data', (row) => data.push(row as NormaRow))
-            .on('end', resolve)
-            .on('error', (err) => {
-              console.error('Error parseando CSV:', err);
-              reject(err);
-            });
-        });
-      } else {
-        const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-        if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-          throw new Error('El archivo Excel no contiene hojas');
-        }
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        data = XLSX.utils.sheet_to_json(worksheet) as NormaRow[];
-      }
-    } catch (parseError: any) {
-      console.error('Error parseando archivo:', parseError);
-      return res.status(400).json({
-        error: 'Error al parsear el archivo',
-        message: parseError.message || 'Formato de archivo inválido'
+function mensajeRechazo(summary: { total: number; errors: number; porcentajeErrores: number; umbralErrores: number }) {
+  return `${summary.errors} de ${summary.total} filas con error (${summary.porcentajeErrores}%), sobre el umbral de ${summary.umbralErrores}%`;
+}
+
+// URL del reporte CSV de errores de una carga
+const urlReporteErrores = (cargaId: number) => `/api/catalogs/norma-minsal/cargas/${cargaId}/errores.csv`;
+
+// GET /api/catalogs/norma-minsal/cargas/:id/errores.csv - Reporte de errores por fila de una carga de la norma
+router.get('/catalogs/norma-minsal/cargas/:id/errores.csv', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const carga = isNaN(id) ? null : await prisma.normaCarga.findUnique({ where: { id } });
+    if (!carga) {
+      return res.status(404).json({
+        error: 'Carga no encontrada',
+        message: `No se encontró una carga de la norma con id: ${req.params.id}`
       });
     }
 
-    if (data.length === 0) {
-      return res.status(400).json({ error: 'El archivo está vacío o no contiene datos válidos' });
-    }
+    const errores = carga.errores as unknown as ErrorFilaNorma[];
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="errores_norma_${carga.anio}_carga_${carga.id}.csv"`);
+    return res.send(erroresNormaCsv(errores));
+  } catch (error: any) {
+    console.error('Error al generar reporte de errores de la norma:', error);
+    return res.status(500).json({
+      error: 'Error al generar el reporte',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log(`🚀 INICIANDO IMPORTACIÓN DE NORMA MINSAL - ${data.length} registros`);
-    console.log(`${'='.repeat(80)}\n`);
-    
-    // Log de las primeras filas para debugging
-    if (data.length > 0) {
-      console.log('📋 Primera fila de ejemplo:', JSON.stringify(data[0], null, 2));
-      console.log('📋 Claves de la primera fila:', Object.keys(data[0]));
-      
-      // Buscar específicamente las columnas de puntos de corte
-      const primeraFila = data[0];
-      const todasLasKeys = Object.keys(primeraFila);
-      const columnasPuntoCorte = todasLasKeys.filter(k => 
-        k.toLowerCase().includes('punto') && k.toLowerCase().includes('corte')
-      );
-      console.log('\n🔍 Columnas relacionadas con "Punto Corte":', columnasPuntoCorte);
-      columnasPuntoCorte.forEach(col => {
-        console.log(`   "${col}" = "${primeraFila[col]}" (tipo: ${typeof primeraFila[col]})`);
-      });
-      
-      // Buscar también variaciones
-      const todasLasColumnas = todasLasKeys.map(k => ({ nombre: k, valor: primeraFila[k] }));
-      console.log('\n📊 Todas las columnas de la primera fila:');
-      todasLasColumnas.slice(0, 20).forEach(col => {
-        console.log(`   "${col.nombre}" = "${col.valor}"`);
+// Vista previa de una versión de la norma: GRD agregados, eliminados y modificados (valor anterior y nuevo)
+// y episodios cuyo montoFinal cambiaría, sin cargar la versión
+// Ruta completa: POST /api/catalogs/norma-minsal/preview
+// Body (multipart): file, anio, vigenciaDesde, vigenciaHasta, umbralErrores (mismos campos que /import)
+router.post('/catalogs/norma-minsal/preview', requireAuth, recibirArchivo, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const carga = await leerCargaNorma(req, res);
+    if (!carga) return;
+    if (carga.rechazada) {
+      return res.status(400).json({
+        error: 'Archivo rechazado',
+        message: mensajeRechazo(carga.summary),
+        summary: carga.summary,
+        errorDetails: detalleErrores(carga.errores),
       });
     }
 
-    // Procesar cada fila
-    for (let index = 0; index < data.length; index++) {
-      const row = data[index];
-      
-      // Función auxiliar para convertir cualquier valor a string de forma segura
-      const safeString = (value: any): string | null => {
-        if (value === null || value === undefined) return null;
-        if (typeof value === 'string') return value.trim();
-        if (typeof value === 'number') return String(value).trim();
-        try {
-          return String(value).trim();
-        } catch (e) {
-          return null;
-        }
-      };
-      
-      // Buscar el campo GRD de forma flexible (puede venir con diferentes nombres o espacios)
-      let grdValue: any = null;
-      
-      // Intentar diferentes nombres posibles
-      const possibleKeys = ['GRD', 'grd', 'Grd', 'GRD ', ' GRD', 'GRD Código', 'Código GRD'];
-      for (const key of possibleKeys) {
-        if (row[key] !== undefined && row[key] !== null && row[key] !== '') {
-          grdValue = row[key];
-          break;
-        }
-      }
-      
-      // Si no encontramos GRD, intentar buscar cualquier campo que contenga "GRD"
-      if (!grdValue) {
-        for (const key in row) {
-          if (key && (key.toUpperCase().includes('GRD') || key.toLowerCase().includes('grd'))) {
-            const value = row[key];
-            if (value !== undefined && value !== null && value !== '') {
-              grdValue = value;
-              break;
-            }
-          }
-        }
-      }
-      
-      // Convertir a string de forma segura
-      const codigo = safeString(grdValue);
-
-      // Validar que tenga código GRD
-      if (!codigo || codigo === '') {
-        errorRecords.push({
-          fila: index + 1,
-          error: 'Código GRD faltante o vacío',
-          registro: row,
-        });
-        continue;
-      }
+    const vistaPrevia = await calcularImpactoVersionNorma(carga.datos, carga.parametros);
+    if ('error' in vistaPrevia) {
+      return res.status(400).json({ error: 'Error de validación', message: vistaPrevia.error });
+    }
 
-      // Función auxiliar para buscar columnas de forma flexible
-      const getColumnValue = (possibleNames: string[]): string | undefined => {
-        // Primero buscar coincidencia exacta
-        for (const name of possibleNames) {
-          const value = row[name];
-          if (value !== undefined && value !== null && value !== '') {
-            if (index < 3) {
-              console.log(`   ✅ Encontrada columna exacta "${name}" = "${value}"`);
-            }
-            return String(value);
-          }
-        }
-        // Buscar por nombre parcial (case-insensitive y sin espacios extra)
-        for (const key in row) {
-          const keyNormalized = key.trim().toLowerCase().replace(/\s+/g, ' ');
-          for (const name of possibleNames) {
-            const nameNormalized = name.trim().toLowerCase().replace(/\s+/g, ' ');
-            // Buscar coincidencia exacta normalizada o parcial
-            if (keyNormalized === nameNormalized || keyNormalized.includes(nameNormalized) || nameNormalized.includes(keyNormalized)) {
-              const value = row[key];
-              if (value !== undefined && value !== null && value !== '') {
-                if (index < 3) {
-                  console.log(`   ✅ Encontrada columna por coincidencia parcial "${key}" = "${value}" (buscando: "${name}")`);
-                }
-                return String(value);
-              }
-            }
-          }
-        }
-        if (index < 3) {
-          console.log(`   ❌ No se encontró ninguna columna para: ${possibleNames.join(', ')}`);
-        }
-        return undefined;
-      };
-
-      // Parsear valores numéricos usando la función auxiliar
-      const peso = parseDecimal(getColumnValue(['Peso Total', 'Peso', 'PESO TOTAL', 'PESO']));
-      
-      // Buscar punto de corte inferior - incluir variaciones con y sin espacios
-      const pci = parseDecimal(getColumnValue([
-        'Punto Corte Inferior',
-        'Punto Corte Inf', 
-        'PCI', 
-        'Punto Corte Inferior (días)',
-        'Punto Corte Inferior ',
-        ' Punto Corte Inferior',
-        'PUNTO CORTE INFERIOR',
-        'Punto corte inferior'
-      ]));
-      
-      // Buscar punto de corte superior - incluir variaciones con y sin espacios
-      const pcs = parseDecimal(getColumnValue([
-        'Punto Corte Superior',
-        'Punto Corte Sup', 
-        'PCS', 
-        'Punto Corte Superior (días)',
-        'Punto Corte Superior ',
-        ' Punto Corte Superior',
-        'PUNTO CORTE SUPERIOR',
-        'Punto corte superior'
-      ]));
-      
-      // Buscar percentil 25
-      const p25 = parseDecimal(getColumnValue([
-        'Percentil 25',
-        'Percentil25',
-        'P25',
-        'PERCENTIL 25',
-        'percentil 25',
-        'Percentil 25 (días)'
-      ]));
-      
-      // Buscar percentil 50 - CRÍTICO para cálculo de outlier superior
-      const p50 = parseDecimal(getColumnValue([
-        'Percentil 50',
-        'TAB_1430_D_PERCT_50_G',
-        'Percentil50',
-        'P50',
-        'PERCENTIL 50',
-        'percentil 50',
-        'Percentil 50 (días)',
-        'Mediana',
-        'MEDIANA',
-        'Mediana (días)'
-      ]));
-      
-      // Buscar percentil 75
-      const p75 = parseDecimal(getColumnValue([
-        'Percentil 75',
-        'Percentil75',
-        'P75',
-        'PERCENTIL 75',
-        'percentil 75',
-        'Percentil 75 (días)'
-      ]));
-      
-      // Log para los primeros 5 registros para verificar que se están encontrando los valores
-      if (index < 5) {
-        console.log(`📊 Procesando fila ${index + 1} - GRD: ${codigo}`, {
-          peso,
-          pci,
-          pcs,
-          p25,
-          p50,
-          p75,
-          tienePeso: peso > 0,
-          tienePCI: pci > 0 || pci !== 0,
-          tienePCS: pcs > 0 || pcs !== 0,
-          tieneP50: p50 > 0 || p50 !== 0,
-          tieneP75: p75 > 0 || p75 !== 0,
-          rowKeys: Object.keys(row).slice(0, 10), // Primeras 10 columnas para debug
-        });
-      }
+    const { comparacion } = vistaPrevia;
+    return res.json({
+      summary: carga.summary,
+      errorDetails: detalleErrores(carga.errores),
+      version: {
+        anio: carga.datos.anio,
+        vigenciaDesde: carga.datos.vigenciaDesde.toISOString(),
+        vigenciaHasta: carga.datos.vigenciaHasta ? carga.datos.vigenciaHasta.toISOString() : null,
+        existente: vistaPrevia.base?.anio === carga.datos.anio, // Se cargaría con replace=true
+      },
+      base: vistaPrevia.base ? resumirVersion(vistaPrevia.base) : null,
+      cierres: vistaPrevia.cierres.map((c) => ({ anio: c.anio, vigenciaHasta: c.vigenciaHasta.toISOString() })),
+      resumen: {
+        agregados: comparacion.agregados.length,
+        eliminados: comparacion.eliminados.length,
+        modificados: comparacion.modificados.length,
+        sinCambios: comparacion.sinCambios,
+      },
+      agregados: comparacion.agregados,
+      eliminados: comparacion.eliminados,
+      modificados: comparacion.modificados,
+      impacto: vistaPrevia.impacto,
+    });
+  } catch (error: any) {
+    console.error('Error en vista previa de Norma Minsal:', error);
+    return res.status(500).json({
+      error: 'Error al generar la vista previa',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
 
-      // Validar que los valores numéricos sean válidos
-      // IMPORTANTE: pci y pcs pueden ser 0, pero deben existir para poder calcular
-      if (peso === 0 && pci === 0 && pcs === 0) {
-        // Log detallado para los primeros errores
-        if (index < 5) {
-          console.log(`⚠️ Fila ${index + 1} - Todos los valores son cero:`, {
-            peso,
-            pci,
-            pcs,
-            codigo,
-            rowKeys: Object.keys(row).slice(0, 15),
-          });
-        }
-        errorRecords.push({
-          fila: index + 1,
-          error: 'Todos los valores numéricos son cero o inválidos',
-          registro: row,
-        });
-        continue;
-      }
-      
-      // Validar específicamente que los puntos de corte existan (pueden ser 0 pero deben estar definidos)
-      if (pci === 0 && pcs === 0) {
-        // Log detallado para los primeros errores
-        if (index < 5) {
-          console.log(`⚠️ Fila ${index + 1} - Puntos de corte son cero:`, {
-            pci,
-            pcs,
-            codigo,
-            peso,
-          });
-        }
-      }
+// Endpoint de importación de Norma Minsal
+// Ruta completa: POST /api/catalogs/norma-minsal/import
+// Body (multipart): file, anio, vigenciaDesde (por defecto 1 de enero), vigenciaHasta, replace,
+// umbralErrores (% máximo de filas con error; por defecto 5)
+router.post('/catalogs/norma-minsal/import', requireAuth, recibirArchivo, asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  console.log('\n\n🎯 ========== INICIO IMPORTACIÓN NORMA MINSAL ==========');
+  console.log(`📁 Archivo recibido: ${req.file?.originalname || 'NO HAY ARCHIVO'}`);
+  console.log(`📏 Tamaño: ${req.file?.size || 0} bytes`);
+  console.log('==================================================\n');
 
-      // Calcular precio base (similar al script loadNorma.ts)
-      // Si el CSV tiene una columna de precio, usarla; sino calcular
-      const precioBaseEjemplo = (peso * 1000000) + 500000;
-
-      // Preparar datos para upsert - Prisma acepta números directamente para Decimal
-      // Intentar incluir percentiles si tienen valores válidos
-      // Si la BD no tiene las columnas, Prisma fallará pero el try-catch lo manejará
-      const dataToUpsert: any = {
-        codigo: codigo,
-        descripcion: `Descripción de ${codigo}`, // El CSV no suele tener descripción
-        peso: peso,
-        puntoCorteInf: pci,
-        puntoCorteSup: pcs,
-        precioBaseTramo: precioBaseEjemplo,
-      };
-      
-      // Agregar percentiles solo si tienen valores válidos (mayores a 0)
-      // Si las columnas no existen en la BD, esto causará un error que será manejado
-      if (p25 > 0) dataToUpsert.percentil25 = p25;
-      if (p50 > 0) dataToUpsert.percentil50 = p50;
-      if (p75 > 0) dataToUpsert.percentil75 = p75;
-
-      try {
-        const grdActualizado = await prisma.grd.upsert({
-          where: { codigo: codigo },
-          update: dataToUpsert,
-          create: dataToUpsert,
-        });
+  try {
+    // Cada carga es una versión de la norma (año y vigencia); replace=true reemplaza la del mismo año
+    const carga = await leerCargaNorma(req, res);
+    if (!carga) return;
+
+    const registrarCarga = (estado: 'CARGADA' | 'RECHAZADA', versionId: number | null) =>
+      prisma.normaCarga.create({
+        data: {
+          anio: carga.datos.anio,
+          archivoNombre: req.file!.originalname,
+          usuarioId: req.user ? parseInt(req.user.id) : null,
+          estado,
+          totalFilas: carga.summary.total,
+          validas: carga.summary.valid,
+          fallidas: carga.summary.errors,
+          umbralErrores: carga.summary.umbralErrores,
+          versionId,
+          errores: carga.errores.map(({ fila, codigo, error }) => ({ fila, codigo, error })),
+        },
+      });
 
-        // Verificar que los valores se guardaron correctamente
-        // Usar solo campos básicos hasta que se ejecute la migración
-        const grdVerificado = await prisma.grd.findUnique({
-          where: { codigo: codigo },
-          select: { 
-            codigo: true, 
-            puntoCorteInf: true, 
-            puntoCorteSup: true, 
-            peso: true
-          },
-        });
+    if (carga.rechazada) {
+      const registro = await registrarCarga('RECHAZADA', null);
+      console.warn(`⛔ Importación de Norma Minsal ${carga.datos.anio} rechazada: ${mensajeRechazo(carga.summary)}`);
+      return res.status(400).json({
+        error: 'Importación rechazada',
+        message: mensajeRechazo(carga.summary),
+        summary: carga.summary,
+        errorDetails: detalleErrores(carga.errores),
+        cargaId: registro.id,
+        reporteErrores: urlReporteErrores(registro.id),
+      });
+    }
 
-        // Log para los primeros 5 GRDs para verificar que se guardaron
-        if (index < 5) {
-          console.log(`✅ GRD ${codigo} guardado/actualizado:`, {
-            codigo: grdVerificado?.codigo,
-            puntoCorteInf: grdVerificado?.puntoCorteInf,
-            puntoCorteSup: grdVerificado?.puntoCorteSup,
-            peso: grdVerificado?.peso,
-            tipoPuntoCorteInf: typeof grdVerificado?.puntoCorteInf,
-            tipoPuntoCorteSup: typeof grdVerificado?.puntoCorteSup,
-            // NOTA: Percentiles se agregarán después de ejecutar la migración
-            percentilesEncontrados: { p25, p50, p75 }
-          });
-        }
-
-        successRecords.push({
-          fila: index + 1,
-          codigo: codigo,
-          peso: peso,
-          puntoCorteInf: pci,
-          puntoCorteSup: pcs,
-          // NOTA: Percentiles se guardarán después de ejecutar la migración
-          // percentil25: p25,
-          // percentil50: p50,
-          // percentil75: p75,
-        });
-      } catch (e: any) {
-        // Si el error es porque las columnas de percentiles no existen, intentar sin percentiles
-        if (e.code === 'P2022' && e.message?.includes('percentil')) {
-          console.warn(`⚠️ GRD ${codigo}: Columnas de percentiles no existen, guardando sin percentiles...`);
-          try {
-            // Intentar guardar sin percentiles
-            const dataToUpsertSinPercentiles = {
-              codigo: codigo,
-              descripcion: `Descripción de ${codigo}`,
-              peso: peso,
-              puntoCorteInf: pci,
-              puntoCorteSup: pcs,
-              precioBaseTramo: precioBaseEjemplo,
-            };
-            
-            const grdActualizado = await prisma.grd.upsert({
-              where: { codigo: codigo },
-              update: dataToUpsertSinPercentiles,
-              create: dataToUpsertSinPercentiles,
-            });
-            
-            console.log(`✅ GRD ${codigo} guardado sin percentiles (columnas no existen aún)`);
-            successRecords.push({
-              fila: index + 1,
-              codigo: codigo,
-              peso: peso,
-              puntoCorteInf: pci,
-              puntoCorteSup: pcs,
-              nota: 'Percentiles no guardados - ejecutar migración primero',
-            });
-          } catch (e2: any) {
-            console.error(`Error procesando GRD ${codigo} (sin percentiles):`, e2.message);
-            errorRecords.push({
-              fila: index + 1,
-              error: `Error al guardar: ${e2.message}`,
-              registro: row,
-            });
-          }
-        } else {
-          console.error(`Error procesando GRD ${codigo}:`, e.message);
-          console.error('Stack:', e.stack);
-          console.error('Error code:', e.code);
-          console.error('Error name:', e.name);
-          
-          // Si es un error de conexión a la base de datos, detener el proceso
-          if (e.code === 'P1001' || e.code === 'P1002' || e.message?.includes('connect')) {
-            throw new Error(`Error de conexión a la base de datos: ${e.message}`);
-          }
-          
-          errorRecords.push({
-            fila: index + 1,
-            error: `Error al guardar: ${e.message}`,
-            registro: row,
-          });
-        }
-      }
+    if (carga.datos.reemplazar) {
+      console.log(`REEMPLAZANDO DATOS: Reemplazando la norma ${carga.datos.anio}...`);
+      // Los GRD no se eliminan porque pueden tener episodios vinculados; las demás versiones no se tocan
     }
 
+    const resultado = await guardarVersionNorma(
+      {
+        ...carga.datos,
+        archivoNombre: req.file!.originalname,
+        cargadoPorId: req.user ? parseInt(req.user.id) : null,
+      },
+      carga.parametros
+    );
+    if ('error' in resultado) {
+      return res.status(resultado.conflicto ? 409 : 400).json({
+        error: resultado.conflicto ? 'Versión de la norma ya cargada' : 'Error de validación',
+        message: resultado.error,
+      });
+    }
+
+    const registro = await registrarCarga('CARGADA', resultado.version.id);
+
     // Formato de respuesta
     const response = {
       success: true,
-      summary: {
-        total: data.length,
-        valid: successRecords.length,
-        errors: errorRecords.length,
-      },
-      grds: successRecords,
+      summary: carga.summary,
+      cargaId: registro.id,
+      reporteErrores: carga.errores.length > 0 ? urlReporteErrores(registro.id) : null,
+      version: resumirVersion(resultado.version),
+      reemplazada: resultado.reemplazada,
+      grds: carga.parametros.map(({ descripcion: _descripcion, precioBaseTramo: _precio, ...grd }) => grd),
       // Opcional: enviar los primeros 50 errores al frontend
-      errorDetails: errorRecords.slice(0, 50),
+      errorDetails: detalleErrores(carga.errores),
     };
 
     console.log(`\n${'='.repeat(80)}`);
-    console.log(`✅ IMPORTACIÓN COMPLETADA: ${successRecords.length} exitosos, ${errorRecords.length} errores`);
+    console.log(`✅ IMPORTACIÓN COMPLETADA: ${carga.parametros.length} exitosos, ${carga.errores.length} errores`);
     console.log(`${'='.repeat(80)}\n`);
-    
-    // Verificar que los valores se guardaron correctamente - verificar algunos GRDs aleatorios
-    if (successRecords.length > 0) {
-      const primeros5 = successRecords.slice(0, 5);
-      console.log('🔍 Verificando que los valores se guardaron correctamente...\n');
-      for (const record of primeros5) {
-        const grdVerificado = await prisma.grd.findUnique({
-          where: { codigo: record.codigo },
-          select: { 
-            codigo: true, 
-            puntoCorteInf: true, 
-            puntoCorteSup: true, 
-            peso: true
-          },
-        });
-        if (grdVerificado) {
-          console.log(`✅ GRD ${record.codigo} verificado en BD:`, {
-            puntoCorteInf: grdVerificado.puntoCorteInf,
-            puntoCorteSup: grdVerificado.puntoCorteSup,
-            peso: grdVerificado.peso,
-            // NOTA: Percentiles se agregarán después de ejecutar la migración
-          });
-        } else {
-          console.error(`❌ GRD ${record.codigo} NO encontrado en BD después de guardar!`);
-        }
-      }
-      console.log('\n');
-    }
-    
+
     return res.status(200).json(response);
   } catch (error: any) {
     console.error('❌ Error al importar Norma Minsal:', error);
@@ -650,5 +557,116 @@ router.post('/catalogs/norma-minsal/import', requireAuth, (req: Request, res: Re
   }
 }));
 
+// Sistema CIE de la ruta (cie10 o cie9mc); responde 400 y retorna null si no es válido
+function sistemaCieRuta(req: Request, res: Response) {
+  const sistema = parsearSistemaCie(req.params.sistema);
+  if (!sistema) {
+    res.status(400).json({
+      error: 'Error de validación',
+      message: `Sistema de codificación inválido: ${req.params.sistema}. Use: ${SISTEMAS_CIE.join(', ')}`
+    });
+  }
+  return sistema;
+}
+
+// GET /api/catalogs/cie/:sistema - Búsqueda en el catálogo CIE-10 o CIE-9-MC (?search=&todos=&page=&pageSize=)
+router.get('/catalogs/cie/:sistema', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const sistema = sistemaCieRuta(req, res);
+    if (!sistema) return;
+
+    const where = construirFiltroCie(sistema, req.query);
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 50, 200);
+    const [codigos, total] = await Promise.all([
+      prisma.codigoCie.findMany({
+        where,
+        orderBy: { codigo: 'asc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.codigoCie.count({ where }),
+    ]);
+
+    return res.json({
+      sistema,
+      data: codigos.map(formatearCodigoCie),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al listar catálogo CIE:', error);
+    return res.status(500).json({
+      error: 'Error al listar catálogo CIE',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
+// Importación del catálogo CIE-10 (diagnósticos) o CIE-9-MC (procedimientos)
+// Ruta completa: POST /api/catalogs/cie/:sistema/import
+// Body (multipart): file (columnas Código y Descripción), replace (true: los códigos que no vienen se desactivan)
+router.post('/catalogs/cie/:sistema/import', requireAuth, requireRole(['admin']), recibirArchivo, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const sistema = sistemaCieRuta(req, res);
+    if (!sistema) return;
+    if (!req.file) {
+      return res.status(400).json({ error: 'No se proporcionó ningún archivo' });
+    }
+
+    let filas: NormaRow[];
+    try {
+      filas = await leerArchivoNorma(req.file.buffer, req.file.originalname);
+    } catch (parseError: any) {
+      console.error('Error parseando archivo:', parseError);
+      return res.status(400).json({
+        error: 'Error al parsear el archivo',
+        message: parseError.message || 'Formato de archivo inválido'
+      });
+    }
+    if (filas.length === 0) {
+      return res.status(400).json({ error: 'El archivo está vacío o no contiene datos válidos' });
+    }
+
+    const { codigos, errores } = procesarFilasCie(sistema, filas);
+    const summary = { total: filas.length, valid: codigos.length, errors: errores.length };
+    if (codigos.length === 0) {
+      return res.status(400).json({
+        error: 'Importación rechazada',
+        message: `Ninguna fila del archivo tiene un código ${NOMBRES_SISTEMA_CIE[sistema]} válido con descripción`,
+        summary,
+        errorDetails: errores.slice(0, 50),
+      });
+    }
+
+    const resultado = await guardarCatalogoCie(sistema, codigos, {
+      desactivarAusentes: req.body?.replace === 'true' || req.body?.replace === true,
+    });
+
+    const nombre = NOMBRES_SISTEMA_CIE[sistema];
+    await logAdminAction(parseInt(req.user!.id), 'Catálogo CIE importado', `Catálogo ${nombre} cargado desde ${req.file.originalname}`, {
+      sistema,
+      ...resultado,
+    });
+
+    return res.json({
+      success: true,
+      sistema,
+      summary,
+      ...resultado,
+      // Los primeros 50 errores por fila
+      errorDetails: errores.slice(0, 50),
+    });
+  } catch (error: any) {
+    console.error('❌ Error al importar catálogo CIE:', error);
+    return res.status(500).json({
+      error: 'Error al importar catálogo CIE',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+}));
+
 export default router;
 
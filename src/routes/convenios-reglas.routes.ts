@@ -0,0 +1,276 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { requireAuth, requireRole } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { logAdminAction } from '../utils/logger';
+import { normalizarConvenio, validarTramosPorPeriodo, TramoPeso } from '../services/liquidacion.engine';
+
+const router = Router();
+
+const tramoSchema = Joi.object({
+  tramo: Joi.string().trim().max(20).required(),
+  pesoDesde: Joi.number().min(0).allow(null).default(null), // Exclusivo (null = desde 0)
+  pesoHasta: Joi.number().min(0).allow(null).default(null), // Inclusivo (null = sin límite)
+  vigenciaDesde: Joi.date().allow(null).default(null),
+  vigenciaHasta: Joi.date().allow(null).default(null),
+});
+
+const camposRegla = {
+  descripcion: Joi.string().allow(null, ''),
+  modoPrecio: Joi.string().valid('TRAMOS', 'PRECIO_UNICO'),
+  pagaOutlierSuperior: Joi.boolean(),
+  formulaDemora: Joi.string().valid('FACTOR_P75', 'DIA_ESPERA', 'NINGUNA'),
+  fechaReferencia: Joi.string().valid('fechaIngreso', 'fechaAlta'),
+  vigenciaDesde: Joi.date().allow(null),
+  vigenciaHasta: Joi.date().allow(null),
+  activo: Joi.boolean(),
+  tramos: Joi.array().items(tramoSchema),
+};
+
+const createReglaSchema = Joi.object({
+  convenio: Joi.string().trim().max(100).required(),
+  ...camposRegla,
+});
+
+const updateReglaSchema = Joi.object({
+  convenio: Joi.string().trim().max(100),
+  ...camposRegla,
+}).min(1);
+
+// Valida coherencia de la regla ya combinada con lo guardado. Retorna la lista de errores.
+function validarRegla(regla: {
+  modoPrecio: string;
+  vigenciaDesde: Date | null;
+  vigenciaHasta: Date | null;
+  tramos: TramoPeso[];
+}): string[] {
+  const errores: string[] = [];
+
+  if (regla.vigenciaDesde && regla.vigenciaHasta && regla.vigenciaHasta < regla.vigenciaDesde) {
+    errores.push('vigenciaHasta debe ser mayor o igual a vigenciaDesde');
+  }
+
+  if (regla.modoPrecio === 'TRAMOS' && regla.tramos.length === 0) {
+    errores.push('Un convenio con modoPrecio TRAMOS requiere al menos un tramo');
+  }
+
+  errores.push(...validarTramosPorPeriodo(regla.tramos));
+
+  return errores;
+}
+
+function formatearRegla(regla: any) {
+  return {
+    ...regla,
+    vigenciaDesde: regla.vigenciaDesde ? regla.vigenciaDesde.toISOString() : null,
+    vigenciaHasta: regla.vigenciaHasta ? regla.vigenciaHasta.toISOString() : null,
+    createdAt: regla.createdAt.toISOString(),
+    updatedAt: regla.updatedAt.toISOString(),
+    tramos: (regla.tramos ?? []).map((t: any) => ({
+      ...t,
+      vigenciaDesde: t.vigenciaDesde ? t.vigenciaDesde.toISOString() : null,
+      vigenciaHasta: t.vigenciaHasta ? t.vigenciaHasta.toISOString() : null,
+    })),
+  };
+}
+
+// GET /api/convenios-reglas - Listar reglas de convenios
+router.get('/convenios-reglas', requireAuth, requireRole(['admin', 'finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const convenio = typeof req.query.convenio === 'string' ? normalizarConvenio(req.query.convenio) : '';
+
+    const reglas = await prisma.convenioRegla.findMany({
+      where: convenio ? { convenio } : {},
+      include: { tramos: { orderBy: [{ vigenciaDesde: 'asc' }, { pesoDesde: 'asc' }] } },
+      orderBy: [{ convenio: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    res.json(reglas.map(formatearRegla));
+  } catch (error: any) {
+    console.error('Error al listar reglas de convenios:', error);
+    res.status(500).json({
+      error: 'Error al listar reglas de convenios',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/convenios-reglas/:id - Obtener una regla de convenio
+router.get('/convenios-reglas/:id', requireAuth, requireRole(['admin', 'finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const regla = isNaN(id)
+      ? null
+      : await prisma.convenioRegla.findUnique({ where: { id }, include: { tramos: true } });
+
+    if (!regla) {
+      return res.status(404).json({
+        error: 'Regla de convenio no encontrada',
+        message: `No se encontró una regla de convenio con id: ${req.params.id}`,
+      });
+    }
+
+    res.json(formatearRegla(regla));
+  } catch (error: any) {
+    console.error('Error al obtener regla de convenio:', error);
+    res.status(500).json({
+      error: 'Error al obtener regla de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// POST /api/convenios-reglas - Crear regla de convenio con sus tramos
+router.post('/convenios-reglas', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createReglaSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const tramos: TramoPeso[] = value.tramos ?? [];
+    const datos = {
+      convenio: normalizarConvenio(value.convenio),
+      descripcion: value.descripcion || null,
+      modoPrecio: value.modoPrecio ?? 'PRECIO_UNICO',
+      pagaOutlierSuperior: value.pagaOutlierSuperior ?? false,
+      formulaDemora: value.formulaDemora ?? 'NINGUNA',
+      fechaReferencia: value.fechaReferencia ?? 'fechaIngreso',
+      vigenciaDesde: value.vigenciaDesde ?? null,
+      vigenciaHasta: value.vigenciaHasta ?? null,
+      activo: value.activo ?? true,
+    };
+
+    const errores = validarRegla({ ...datos, tramos });
+    if (errores.length > 0) {
+      return res.status(400).json({ error: 'Error de validación', details: errores });
+    }
+
+    const regla = await prisma.convenioRegla.create({
+      data: { ...datos, tramos: { create: tramos } },
+      include: { tramos: true },
+    });
+
+    await logAdminAction(parseInt(req.user!.id), 'Regla de convenio creada', `Regla ${regla.convenio} creada`, {
+      reglaId: regla.id,
+    });
+
+    res.status(201).json(formatearRegla(regla));
+  } catch (error: any) {
+    console.error('Error al crear regla de convenio:', error);
+    res.status(500).json({
+      error: 'Error al crear regla de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// PATCH /api/convenios-reglas/:id - Actualizar regla (si se envían tramos, reemplazan a los existentes)
+router.patch('/convenios-reglas/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { error, value } = updateReglaSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const existente = isNaN(id)
+      ? null
+      : await prisma.convenioRegla.findUnique({ where: { id }, include: { tramos: true } });
+    if (!existente) {
+      return res.status(404).json({
+        error: 'Regla de convenio no encontrada',
+        message: `No se encontró una regla de convenio con id: ${req.params.id}`,
+      });
+    }
+
+    const { tramos: tramosNuevos, ...campos } = value;
+    const updateData: any = { ...campos };
+    if (campos.convenio !== undefined) updateData.convenio = normalizarConvenio(campos.convenio);
+    if (campos.descripcion !== undefined) updateData.descripcion = campos.descripcion || null;
+
+    const tramos: TramoPeso[] = tramosNuevos ?? existente.tramos;
+    const errores = validarRegla({
+      modoPrecio: updateData.modoPrecio ?? existente.modoPrecio,
+      vigenciaDesde: updateData.vigenciaDesde !== undefined ? updateData.vigenciaDesde : existente.vigenciaDesde,
+      vigenciaHasta: updateData.vigenciaHasta !== undefined ? updateData.vigenciaHasta : existente.vigenciaHasta,
+      tramos,
+    });
+    if (errores.length > 0) {
+      return res.status(400).json({ error: 'Error de validación', details: errores });
+    }
+
+    const regla = await prisma.$transaction(async (tx) => {
+      if (tramosNuevos) {
+        await tx.convenioTramo.deleteMany({ where: { reglaId: id } });
+        updateData.tramos = { create: tramosNuevos };
+      }
+      return tx.convenioRegla.update({ where: { id }, data: updateData, include: { tramos: true } });
+    });
+
+    await logAdminAction(parseInt(req.user!.id), 'Regla de convenio actualizada', `Regla ${regla.convenio} actualizada`, {
+      reglaId: regla.id,
+      campos: Object.keys(value),
+    });
+
+    res.json(formatearRegla(regla));
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        error: 'Regla de convenio no encontrada',
+        message: `No se encontró una regla de convenio con id: ${req.params.id}`,
+      });
+    }
+
+    console.error('Error al actualizar regla de convenio:', error);
+    res.status(500).json({
+      error: 'Error al actualizar regla de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// DELETE /api/convenios-reglas/:id - Eliminar regla de convenio (y sus tramos)
+router.delete('/convenios-reglas/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(404).json({
+        error: 'Regla de convenio no encontrada',
+        message: `No se encontró una regla de convenio con id: ${req.params.id}`,
+      });
+    }
+
+    const regla = await prisma.convenioRegla.delete({ where: { id } });
+
+    await logAdminAction(parseInt(req.user!.id), 'Regla de convenio eliminada', `Regla ${regla.convenio} eliminada`, {
+      reglaId: id,
+    });
+
+    res.status(200).json({
+      message: 'Regla de convenio eliminada correctamente',
+      id,
+    });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        error: 'Regla de convenio no encontrada',
+        message: `No se encontró una regla de convenio con id: ${req.params.id}`,
+      });
+    }
+
+    console.error('Error al eliminar regla de convenio:', error);
+    res.status(500).json({
+      error: 'Error al eliminar regla de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
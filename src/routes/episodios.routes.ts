@@ -2,20 +2,95 @@ import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import multer from 'multer';
 import * as path from 'path';
-// import * as fs from 'fs'; // No se necesita para memoryStorage
-import csv from 'csv-parser';
-import * as XLSX from 'xlsx';
+import * as fs from 'fs';
 import { requireAuth, requireRole } from '../middlewares/auth';
 import { prisma } from '../db/client'; // ¡Importante! Conecta con la DB
 import { Prisma } from '@prisma/client';
-import { Readable } from 'stream';
 import { uploadToCloudinary } from '../config/cloudinary';
 import cloudinary from '../config/cloudinary';
+import {
+  calcularValorGRD,
+  calcularMontoFinal,
+  calcularDiasEstada,
+  calcularInlierOutlier,
+} from '../services/liquidacion.engine';
+import {
+  obtenerPrecioBaseTramo,
+  detallarLiquidacionEpisodio,
+  overridesGuardados,
+  toNumber as decimalToNumber,
+} from '../services/liquidacion.service';
+import { crearSnapshotLiquidacion } from '../services/snapshot.service';
+import {
+  registrarCambios,
+  registrarCreacion,
+  reconstruirEpisodio,
+  ContextoCambio,
+  CAMPO_CREACION,
+} from '../services/historial.service';
+import {
+  CAMPOS_MONTO_LIQUIDACION,
+  camposMontoModificados,
+  EstadoEpisodio,
+  estadoParaValidado,
+  liquidacionCongelada,
+  parsearFiltroEstados,
+  registrarTransicion,
+  TransicionConcurrenteError,
+  transicionarEpisodio,
+  transicionesDisponibles,
+  validadoParaEstado,
+  validarTransicion,
+  ESTADOS_EPISODIO,
+} from '../services/episodio-workflow.service';
+import {
+  crearObservacion,
+  formatearObservacion,
+  obtenerMotivoRechazo,
+  CAMPOS_OBSERVABLES,
+  ROLES_DESTINO,
+} from '../services/observaciones.service';
+import {
+  crearImportJob,
+  ejecutarImportJob,
+  formatearImportJob,
+  registrarProcesadorImportacion,
+} from '../services/import-job.service';
+import { opcionesJob, procesadorEtl, resolverOpcionesImportacion } from '../services/import-etl.service';
+import {
+  agregarCodigoEpisodio,
+  eliminarCodigoEpisodio,
+  errorEdicionCodificacion,
+  formatearCodificacion,
+  formatearItemCodificacion,
+  listarCodificacion,
+  reordenarCodificacion,
+  SISTEMA_CODIFICACION,
+  TIPOS_CODIFICACION,
+} from '../services/codificacion.service';
+import {
+  buscarCodigosCie,
+  claveCie,
+  errorFormatoCie,
+  normalizarCodigoCie,
+  NOMBRES_SISTEMA_CIE,
+} from '../services/cie-catalogo.service';
 
 const router = Router();
 
-// --- Configuración de Multer (AHORA EN MEMORIA) ---
-const storage = multer.memoryStorage();
+// --- Configuración de Multer (en disco: el archivo se procesa en segundo plano) ---
+const UPLOAD_DIR = path.join(__dirname, '..', '..', 'uploads');
+if (!fs.existsSync(UPLOAD_DIR)) {
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+}
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => cb(null, UPLOAD_DIR),
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
+  },
+});
 
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const allowedMimes = [
@@ -60,550 +135,6 @@ function mapFieldsToDB(data: any): any {
   return mapped;
 }
 
-// Funciones de cálculo (deben estar antes de normalizeEpisodeResponse)
-
-// Función para calcular valorGRD como peso * precioBaseTramo
-function calcularValorGRD(
-  peso: number | null | undefined,
-  precioBaseTramo: number | null | undefined
-): number {
-  const pesoNum = peso ?? 0;
-  const precioNum = precioBaseTramo ?? 0;
-  
-  if (pesoNum === 0 || precioNum === 0) {
-    return 0;
-  }
-  
-  return pesoNum * precioNum;
-}
-
-// Función para calcular montoFinal según la fórmula de negocio
-function calcularMontoFinal(
-  valorGRD: number | null | undefined,
-  montoAT: number | null | undefined,
-  pagoOutlierSup: number | null | undefined,
-  pagoDemora: number | null | undefined
-): number {
-  const vGRD = valorGRD ?? 0;
-  const mAT = montoAT ?? 0;
-  const pOutlier = pagoOutlierSup ?? 0;
-  const pDemora = pagoDemora ?? 0;
-  
-  return vGRD + mAT + pOutlier + pDemora;
-}
-
-/**
- * Calcula los días de estadía basándose en fecha de ingreso y fecha de alta
- */
-function calcularDiasEstada(
-  fechaIngreso: Date | null | undefined,
-  fechaAlta: Date | null | undefined
-): number {
-  if (!fechaIngreso || !fechaAlta) return 0;
-  const diff = Math.round((fechaAlta.getTime() - fechaIngreso.getTime()) / 86400000);
-  return diff >= 0 ? diff : 0;
-}
-
-/**
- * Calcula automáticamente si un episodio es Inlier o Outlier
- * basándose en los días de estadía vs punto corte superior/inferior del GRD
- * @param diasEstada Días de estadía del episodio
- * @param puntoCorteInf Punto corte inferior del GRD
- * @param puntoCorteSup Punto corte superior del GRD
- * @returns 'Inlier', 'Outlier Superior', 'Outlier Inferior' o null si no se puede determinar
- */
-function calcularInlierOutlier(
-  diasEstada: number | null | undefined,
-  puntoCorteInf: number | null | undefined,
-  puntoCorteSup: number | null | undefined
-): string | null {
-  if (diasEstada === null || diasEstada === undefined) {
-    return null;
-  }
-  
-  const puntoInf = puntoCorteInf !== null && puntoCorteInf !== undefined ? Number(puntoCorteInf) : null;
-  const puntoSup = puntoCorteSup !== null && puntoCorteSup !== undefined ? Number(puntoCorteSup) : null;
-  
-  // Si no hay puntos de corte, no se puede determinar
-  if (puntoInf === null && puntoSup === null) {
-    return null;
-  }
-  
-  // Outlier Superior: días de estadía > punto corte superior
-  if (puntoSup !== null && diasEstada > puntoSup) {
-    return 'Outlier Superior';
-  }
-  
-  // Outlier Inferior: días de estadía < punto corte inferior
-  if (puntoInf !== null && diasEstada < puntoInf) {
-    return 'Outlier Inferior';
-  }
-  
-  // En cualquier otro caso es Inlier
-  return 'Inlier';
-}
-
-/**
- * Calcula el tramo basado en el peso GRD para convenios con sistema de tramos (FNS012, FNS026)
- * @param pesoGRD Peso GRD del episodio
- * @returns 'T1', 'T2', 'T3' o null si no se puede determinar
- */
-function calcularTramo(pesoGRD: number | null | undefined): 'T1' | 'T2' | 'T3' | null {
-  if (pesoGRD === null || pesoGRD === undefined) {
-    return null; // No se puede determinar el tramo sin peso
-  }
-  
-  if (pesoGRD >= 0 && pesoGRD <= 1.5) {
-    return 'T1';
-  } else if (pesoGRD > 1.5 && pesoGRD <= 2.5) {
-    return 'T2';
-  } else if (pesoGRD > 2.5) {
-    return 'T3';
-  }
-  
-  return null; // Peso negativo (no debería ocurrir)
-}
-
-/**
- * Obtiene el precio base por tramo basándose en el convenio y el peso GRD
- * @param convenio Código del convenio (FNS012, FNS026, FNS019, CH0041)
- * @param pesoGRD Peso GRD del episodio
- * @returns Precio base calculado o null si no se puede determinar
- */
-async function obtenerPrecioBaseTramo(
-  convenio: string | null | undefined,
-  pesoGRD: number | null | undefined
-): Promise<number | null> {
-  // Validar que el convenio esté presente
-  if (!convenio || typeof convenio !== 'string' || convenio.trim() === '') {
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('⚠️ obtenerPrecioBaseTramo: Convenio no proporcionado o inválido');
-    }
-    return null;
-  }
-
-  const convenioNormalizado = convenio.trim().toUpperCase();
-  
-  // Determinar si el convenio usa tramos o precio único
-  const conveniosConTramos = ['FNS012', 'FNS026'];
-  const conveniosPrecioUnico = ['FNS019', 'CH0041'];
-  
-  if (conveniosConTramos.includes(convenioNormalizado)) {
-    // Calcular tramo basado en peso GRD
-    const tramo = calcularTramo(pesoGRD);
-    if (!tramo) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`⚠️ obtenerPrecioBaseTramo: No se pudo determinar el tramo para convenio ${convenioNormalizado} con peso GRD ${pesoGRD}`);
-      }
-      return null; // No se puede determinar el tramo
-    }
-    
-    // Buscar en precios_convenios (sin validar fechas)
-    const precioRegistro = await prisma.precioConvenio.findFirst({
-      where: {
-        convenio: convenioNormalizado,
-        tramo: tramo
-      },
-      orderBy: {
-        createdAt: 'desc' // Si hay múltiples, tomar el más reciente
-      }
-    });
-    
-    if (!precioRegistro || precioRegistro.precio === null || precioRegistro.precio === undefined) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`⚠️ obtenerPrecioBaseTramo: No se encontró precio para convenio ${convenioNormalizado} y tramo ${tramo}`);
-      }
-      return null;
-    }
-    
-    const precio = typeof precioRegistro.precio === 'number' 
-      ? precioRegistro.precio 
-      : parseFloat(String(precioRegistro.precio));
-    
-    if (isNaN(precio) || !isFinite(precio)) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`⚠️ obtenerPrecioBaseTramo: Precio inválido para convenio ${convenioNormalizado} y tramo ${tramo}: ${precioRegistro.precio}`);
-      }
-      return null;
-    }
-    
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`✅ obtenerPrecioBaseTramo: Precio encontrado para ${convenioNormalizado} ${tramo}: ${precio}`);
-    }
-    
-    return precio;
-    
-  } else if (conveniosPrecioUnico.includes(convenioNormalizado)) {
-    // Buscar precio único (ignorar tramo y fechas)
-    const precioRegistro = await prisma.precioConvenio.findFirst({
-      where: {
-        convenio: convenioNormalizado
-      },
-      orderBy: {
-        createdAt: 'desc' // Si hay múltiples, tomar el más reciente
-      }
-    });
-    
-    if (!precioRegistro || precioRegistro.precio === null || precioRegistro.precio === undefined) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`⚠️ obtenerPrecioBaseTramo: No se encontró precio para convenio ${convenioNormalizado}`);
-      }
-      return null;
-    }
-    
-    const precio = typeof precioRegistro.precio === 'number' 
-      ? precioRegistro.precio 
-      : parseFloat(String(precioRegistro.precio));
-    
-    if (isNaN(precio) || !isFinite(precio)) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`⚠️ obtenerPrecioBaseTramo: Precio inválido para convenio ${convenioNormalizado}: ${precioRegistro.precio}`);
-      }
-      return null;
-    }
-    
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`✅ obtenerPrecioBaseTramo: Precio encontrado para ${convenioNormalizado}: ${precio}`);
-    }
-    
-    return precio;
-  }
-  
-  // Si el convenio no está en ninguna de las listas, retornar null
-  if (process.env.NODE_ENV === 'development') {
-    console.warn(`⚠️ obtenerPrecioBaseTramo: Convenio desconocido: ${convenioNormalizado}`);
-  }
-  return null;
-}
-
-/**
- * Obtiene el "Monto día espera" para CH0041 según la fecha de admisión
- * Consulta PrecioConvenio buscando el rango (fechaAdmision - fechaFin) que contiene la fecha del episodio
- */
-async function obtenerMontoDiaEsperaCH0041(fechaIngreso: Date | null | undefined): Promise<number | null> {
-  if (!fechaIngreso) return null;
-
-  try {
-    const fechaComparar = new Date(fechaIngreso);
-    fechaComparar.setHours(0, 0, 0, 0);
-
-    // Buscar en PrecioConvenio todos los registros de CH0041 con rango de fechas
-    const registros = await prisma.precioConvenio.findMany({
-      where: {
-        convenio: 'CH0041',
-        fechaAdmision: { not: null },
-        fechaFin: { not: null },
-      },
-      orderBy: { fechaAdmision: 'asc' },
-    });
-
-    if (!registros || registros.length === 0) {
-      console.warn('⚠️ CH0041: No hay rangos configurados en PrecioConvenio');
-      return null;
-    }
-
-    // Buscar el rango que contiene la fecha de ingreso
-    for (const reg of registros) {
-      if (reg.fechaAdmision && reg.fechaFin) {
-        const inicio = new Date(reg.fechaAdmision);
-        const fin = new Date(reg.fechaFin);
-        inicio.setHours(0, 0, 0, 0);
-        fin.setHours(23, 59, 59, 999);
-
-        // Si la fecha ingreso cae dentro del rango
-        if (fechaComparar >= inicio && fechaComparar <= fin) {
-          const monto = Number(reg.precio ?? 0);
-          if (!isNaN(monto) && isFinite(monto) && monto > 0) {
-            console.log(`✅ CH0041: Monto ${monto} para fecha ${fechaComparar.toISOString().split('T')[0]} (rango: ${inicio.toISOString().split('T')[0]} a ${fin.toISOString().split('T')[0]})`);
-            return monto;
-          }
-        }
-      }
-    }
-
-    console.warn(`⚠️ CH0041: No se encontró rango para fecha ${fechaComparar.toISOString().split('T')[0]}`);
-    return null;
-  } catch (err) {
-    console.error('obtenerMontoDiaEsperaCH0041 - error:', err);
-    return null;
-  }
-}
-
-/**
- * Calcula el pago por demora de rescate (US-12)
- * 
- * CH0041: diasDemora × montoDiaEspera (desde PrecioConvenio)
- * FNS012/FNS026/FNS019: ((pesoGrd × precioBaseTramo) / diasPercentil75) × diasDemora
- */
-async function calcularPagoDemoraRescate(params: {
-  convenio?: string | null;
-  diasDemora?: number | null;
-  pagoDemoraInput?: number | null;
-  pesoGrd?: number | null;
-  precioBaseTramo?: number | null;
-  grdId?: number | null;
-  fechaIngreso?: Date | null;
-}): Promise<number> {
-  const { convenio, diasDemora, pagoDemoraInput, pesoGrd, precioBaseTramo, grdId, fechaIngreso } = params;
-  
-  const dias = typeof diasDemora === 'number' && diasDemora > 0 ? diasDemora : 0;
-  const conv = (convenio || '').toString().trim().toUpperCase();
-
-  if (dias === 0) {
-    return (typeof pagoDemoraInput === 'number' && !isNaN(pagoDemoraInput)) ? pagoDemoraInput : 0;
-  }
-
-  try {
-    // ========== CH0041 ==========
-    if (conv === 'CH0041') {
-      const montoDia = await obtenerMontoDiaEsperaCH0041(fechaIngreso);
-      if (!montoDia || isNaN(montoDia)) {
-        console.warn('⚠️ CH0041: No se encontró montoDiaEspera. Usando input o 0.');
-        return (typeof pagoDemoraInput === 'number' && !isNaN(pagoDemoraInput)) ? pagoDemoraInput : 0;
-      }
-      const resultado = dias * montoDia;
-      console.log(`✅ CH0041: ${dias} días × ${montoDia} = ${resultado}`);
-      return resultado;
-    }
-
-    // ========== FNS012 / FNS026 / FNS019 ==========
-    if (conv === 'FNS012' || conv === 'FNS026' || conv === 'FNS019') {
-      let diasP75: number | null = null;
-      
-      // Opción 1: Priorizar percentil75 desde GRD si está disponible
-      if (grdId) {
-        try {
-          const grd = await prisma.grd.findUnique({ where: { id: grdId } });
-          if (grd) {
-            // Intentar acceder a percentil75 de forma segura (puede no existir si la migración no se ejecutó)
-            const grdAny = grd as any;
-            if (grdAny.percentil75 && grdAny.percentil75 > 0) {
-              diasP75 = Number(grdAny.percentil75);
-              console.log(`✅ ${conv}: Usando percentil75 desde GRD: ${diasP75}`);
-            } else if (grd.puntoCorteSup) {
-              diasP75 = Number(grd.puntoCorteSup);
-              console.log(`ℹ️ ${conv}: Usando puntoCorteSup como fallback: ${diasP75}`);
-            }
-          }
-        } catch (e) {
-          // Si falla, usar puntoCorteSup como fallback
-          const grd = await prisma.grd.findUnique({ where: { id: grdId } });
-          if (grd && grd.puntoCorteSup) {
-            diasP75 = Number(grd.puntoCorteSup);
-            console.log(`ℹ️ ${conv}: Usando puntoCorteSup (percentil75 no disponible): ${diasP75}`);
-          }
-        }
-      }
-      
-      // Opción 2: Fallback desde ConfiguracionSistema si es necesario
-      if (!diasP75) {
-        const cfg = await prisma.configuracionSistema.findUnique({ 
-          where: { clave: 'diasPercentil75' } 
-        });
-        if (cfg && cfg.valor) {
-          diasP75 = parseFloat(cfg.valor);
-        }
-      }
-      
-      // Si aún no hay valor, usar 1 para evitar división por cero
-      if (!diasP75 || isNaN(diasP75) || diasP75 <= 0) {
-        console.warn(`⚠️ ${conv}: diasPercentil75 no disponible, usando 1.`);
-        diasP75 = 1;
-      }
-
-      const peso = Number(pesoGrd ?? 0);
-      const precio = Number(precioBaseTramo ?? 0);
-      const factor = (peso * precio) / diasP75;
-      const resultado = factor * dias;
-      
-      console.log(`✅ ${conv}: ((${peso} × ${precio}) / ${diasP75}) × ${dias} = ${resultado}`);
-      return resultado;
-    }
-
-    // ========== DEFAULT ==========
-    return (typeof pagoDemoraInput === 'number' && !isNaN(pagoDemoraInput)) ? pagoDemoraInput : 0;
-  } catch (err) {
-    console.error('calcularPagoDemoraRescate - error:', err);
-    return (typeof pagoDemoraInput === 'number' && !isNaN(pagoDemoraInput)) ? pagoDemoraInput : 0;
-  }
-}
-
-/**
- * Calcula el pago por outlier superior (US-11) - SOLO para FNS012
- * 
- * Fórmula:
- * Pago Outlier = (Días post carencia × Peso GRD × Precio Base) / Días percentil 75
- * 
- * Donde:
- * - Período de carencia = Punto corte superior + Percentil 50
- * - Días post carencia = Estancia total - Período de carencia
- * - Días percentil 75 = Grd.puntoCorteSup (valor Z para percentil 75)
- */
-async function calcularPagoOutlierSuperior(params: {
-  convenio?: string | null;
-  diasEstada?: number | null;
-  pesoGrd?: number | null;
-  precioBase?: number | null;
-  grdId?: number | null;
-  inlierOutlier?: string | null;
-}): Promise<number> {
-  const { convenio, diasEstada, pesoGrd, precioBase, grdId, inlierOutlier } = params;
-  
-  const conv = (convenio || '').toString().trim().toUpperCase();
-  
-  // Solo aplicar para FNS012
-  if (conv !== 'FNS012') {
-    return 0;
-  }
-  
-  // Determinar si es outlier superior basándose en inlierOutlier
-  const esOutlierSuperior = inlierOutlier === 'Outlier Superior';
-  
-  console.log(`🔍 calcularPagoOutlierSuperior - Verificando condiciones:`, {
-    convenio: conv,
-    esFNS012: conv === 'FNS012',
-    esOutlierSuperior,
-    inlierOutlier,
-    diasEstada,
-    pesoGrd,
-    precioBase,
-    grdId
-  });
-  
-  if (!esOutlierSuperior) {
-    console.log(`ℹ️ FNS012: No se calcula pago outlier porque inlierOutlier = ${inlierOutlier} (no es "Outlier Superior")`);
-    return 0;
-  }
-  
-  try {
-    // Obtener datos del GRD
-    let puntoCorteSuperíor: number | null = null;
-    let percentil50: number | null = null;
-    let percentil75: number | null = null;
-    
-    if (grdId) {
-      try {
-        const grd = await prisma.grd.findUnique({ where: { id: grdId } });
-        if (grd) {
-          if (grd.puntoCorteSup) puntoCorteSuperíor = Number(grd.puntoCorteSup);
-          // Intentar acceder a percentiles de forma segura (pueden no existir si la migración no se ejecutó)
-          const grdAny = grd as any;
-          if (grdAny.percentil50 && grdAny.percentil50 > 0) {
-            percentil50 = Number(grdAny.percentil50);
-          }
-          if (grdAny.percentil75 && grdAny.percentil75 > 0) {
-            percentil75 = Number(grdAny.percentil75);
-          }
-          
-          console.log(`📊 GRD encontrado:`, {
-            puntoCorteSup: puntoCorteSuperíor,
-            percentil50: percentil50,
-            percentil75: percentil75,
-            puntoCorteInf: grd.puntoCorteInf
-          });
-        }
-      } catch (e) {
-        // Si falla al acceder a percentiles, solo usar puntoCorteSup
-        const grd = await prisma.grd.findUnique({ where: { id: grdId } });
-        if (grd && grd.puntoCorteSup) {
-          puntoCorteSuperíor = Number(grd.puntoCorteSup);
-          console.log(`📊 GRD encontrado (sin percentiles):`, {
-            puntoCorteSup: puntoCorteSuperíor,
-            puntoCorteInf: grd.puntoCorteInf
-          });
-        }
-      }
-    }
-    
-    // Fallback desde ConfiguracionSistema si es necesario
-    if (puntoCorteSuperíor === null) {
-      const cfgSup = await prisma.configuracionSistema.findUnique({
-        where: { clave: 'puntoCorteSuperior' }
-      });
-      if (cfgSup && cfgSup.valor) puntoCorteSuperíor = parseFloat(cfgSup.valor);
-    }
-    
-    // Fallback: Si no hay percentil50 en GRD, intentar desde ConfiguracionSistema
-    if (percentil50 === null || percentil50 <= 0) {
-      const cfgP50 = await prisma.configuracionSistema.findUnique({
-        where: { clave: 'percentil50' }
-      });
-      if (cfgP50 && cfgP50.valor) {
-        percentil50 = parseFloat(cfgP50.valor);
-        console.log(`✅ Percentil 50 obtenido de ConfiguracionSistema: ${percentil50}`);
-      } else {
-        console.warn('⚠️ FNS012: percentil50 no disponible ni en GRD ni en ConfiguracionSistema');
-      }
-    }
-    
-    // Fallback: Si no hay percentil75 en GRD, usar puntoCorteSup
-    if (percentil75 === null || percentil75 <= 0) {
-      if (puntoCorteSuperíor && puntoCorteSuperíor > 0) {
-        percentil75 = puntoCorteSuperíor;
-        console.log(`ℹ️ Usando puntoCorteSup como percentil75: ${percentil75}`);
-      } else {
-        // Último fallback: ConfiguracionSistema
-        const cfgP75 = await prisma.configuracionSistema.findUnique({
-          where: { clave: 'diasPercentil75' }
-        });
-        if (cfgP75 && cfgP75.valor) {
-          percentil75 = parseFloat(cfgP75.valor);
-        }
-      }
-    }
-    
-    // Si faltan valores críticos, retornar 0
-    if (puntoCorteSuperíor === null || puntoCorteSuperíor <= 0) {
-      console.warn('⚠️ FNS012: puntoCorteSuperior no disponible');
-      return 0;
-    }
-    
-    if (percentil50 === null || percentil50 <= 0) {
-      console.warn('⚠️ FNS012: percentil50 no disponible - no se puede calcular pago outlier');
-      return 0;
-    }
-    
-    if (percentil75 === null || percentil75 <= 0) {
-      console.warn('⚠️ FNS012: percentil75 no disponible, usando 1');
-      percentil75 = 1;
-    }
-    
-    // Validar parámetros
-    const dias = typeof diasEstada === 'number' && diasEstada > 0 ? diasEstada : 0;
-    const peso = typeof pesoGrd === 'number' && pesoGrd > 0 ? pesoGrd : 0;
-    const precio = typeof precioBase === 'number' && precioBase > 0 ? precioBase : 0;
-    
-    // Si no hay días, peso o precio, retornar 0
-    if (dias === 0 || peso === 0 || precio === 0) {
-      console.log(`ℹ️ FNS012 Outlier: Retornando 0 (días: ${dias}, peso: ${peso}, precio: ${precio})`);
-      return 0;
-    }
-    
-    // Calcular período de carencia
-    const periodoCarencia = puntoCorteSuperíor + percentil50;
-    console.log(`📊 FNS012 Outlier - Período de carencia: ${puntoCorteSuperíor} + ${percentil50} = ${periodoCarencia}`);
-    
-    // Calcular días post carencia
-    const diasPostCarencia = Math.max(0, dias - periodoCarencia);
-    
-    if (diasPostCarencia <= 0) {
-      console.log(`ℹ️ FNS012 Outlier: Episodio dentro del período de carencia (${dias} ≤ ${periodoCarencia}). Retornando 0.`);
-      return 0;
-    }
-    
-    // Aplicar fórmula: (Días post carencia × Peso GRD × Precio Base) / Días percentil 75
-    const pagoOutlier = (diasPostCarencia * peso * precio) / percentil75;
-    
-    console.log(`✅ FNS012 Outlier: (${diasPostCarencia} × ${peso} × ${precio}) / ${percentil75} = ${pagoOutlier}`);
-    
-    return pagoOutlier;
-  } catch (err) {
-    console.error('calcularPagoOutlierSuperior - error:', err);
-    return 0;
-  }
-}
-
-
 // Función para normalizar datos de episodio antes de enviar al frontend
 function normalizeEpisodeResponse(episode: any): any {
   // Log temporal para verificar que se está ejecutando
@@ -714,6 +245,8 @@ function normalizeEpisodeResponse(episode: any): any {
     
     // Campo editable por gestión
     validado: episode.validado ?? null, // boolean | null (null = Pendiente, true = Aprobado, false = Rechazado)
+    estado: episode.estado ?? null, // Estado del flujo de trabajo (ver episodio-workflow.service)
+    estadoActualizadoAt: episode.estadoActualizadoAt ? episode.estadoActualizadoAt.toISOString() : null,
     
     // Campos de solo lectura
     grdCodigo: episode.grd?.codigo || '',
@@ -884,6 +417,13 @@ const episodioSchema = Joi.object({
   grdId: Joi.number().integer().optional().allow(null),
 });
 
+// PUT no cambia el estado: 'validado' se mantiene sincronizado con el estado mediante las transiciones
+const episodioPutSchema = episodioSchema.keys({
+  validado: Joi.any().forbidden().messages({
+    'any.unknown': 'validado no se edita con PUT: use PATCH /api/episodios/:id o POST /api/episodios/:id/transiciones',
+  }),
+});
+
 // Listar episodios (AHORA DESDE PRISMA)
 router.get('/episodios', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -912,6 +452,18 @@ router.get('/episodios', requireAuth, async (req: Request, res: Response) => {
       };
     }
 
+    // Filtro por estado del flujo de trabajo (?estado=CODIFICADO,EN_REVISION_GESTION)
+    const filtroEstado = parsearFiltroEstados(req.query.estado);
+    if (filtroEstado.invalidos.length > 0) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: `Estados inválidos: ${filtroEstado.invalidos.join(', ')}. Use: ${ESTADOS_EPISODIO.join(', ')}`,
+      });
+    }
+    if (filtroEstado.estados) {
+      where.estado = { in: filtroEstado.estados };
+    }
+
     const episodios = await prisma.episodio.findMany({
       where,
       include: {
@@ -987,6 +539,18 @@ router.get('/episodios/final', requireAuth, async (req: Request, res: Response)
       };
     }
 
+    // Filtro por estado del flujo de trabajo (?estado=CODIFICADO,EN_REVISION_GESTION)
+    const filtroEstado = parsearFiltroEstados(req.query.estado);
+    if (filtroEstado.invalidos.length > 0) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: `Estados inválidos: ${filtroEstado.invalidos.join(', ')}. Use: ${ESTADOS_EPISODIO.join(', ')}`,
+      });
+    }
+    if (filtroEstado.estados) {
+      where.estado = { in: filtroEstado.estados };
+    }
+
     const [episodes, total] = await Promise.all([
       prisma.episodio.findMany({
         where,
@@ -1003,68 +567,9 @@ router.get('/episodios/final', requireAuth, async (req: Request, res: Response)
       prisma.episodio.count({ where }),
     ]);
 
-    // Recalcular precioBaseTramo, valorGRD y montoFinal para todos los episodios
-    // Esto asegura que siempre se usen los precios más recientes de convenios
-    for (const episode of episodes) {
-      if (episode.convenio) {
-        const pesoGRD = episode.pesoGrd ? Number(episode.pesoGrd) : null;
-        const precioCalculado = await obtenerPrecioBaseTramo(episode.convenio, pesoGRD);
-        
-        if (precioCalculado !== null) {
-          // Recalcular valorGRD y montoFinal
-          const valorGRDCalculado = calcularValorGRD(pesoGRD, precioCalculado);
-          const montoAT = episode.montoAt ? Number(episode.montoAt) : 0;
-          const pagoOutlierSup = episode.pagoOutlierSuperior ? Number(episode.pagoOutlierSuperior) : 0;
-          const pagoDemora = episode.pagoDemoraRescate ? Number(episode.pagoDemoraRescate) : 0;
-          const montoFinalCalculado = calcularMontoFinal(valorGRDCalculado, montoAT, pagoOutlierSup, pagoDemora);
-          
-          // Solo actualizar en BD si los valores cambiaron (para evitar escrituras innecesarias)
-          const precioActual = episode.precioBaseTramo ? Number(episode.precioBaseTramo) : null;
-          const valorGRDActual = episode.valorGrd ? Number(episode.valorGrd) : null;
-          const montoFinalActual = episode.montoFinal ? Number(episode.montoFinal) : null;
-          
-          const necesitaActualizar = 
-            precioActual !== precioCalculado ||
-            Math.abs((valorGRDActual ?? 0) - valorGRDCalculado) > 0.01 ||
-            Math.abs((montoFinalActual ?? 0) - montoFinalCalculado) > 0.01;
-          
-          if (necesitaActualizar) {
-            await prisma.episodio.update({
-              where: { id: episode.id },
-              data: {
-                precioBaseTramo: precioCalculado,
-                valorGrd: valorGRDCalculado,
-                montoFinal: montoFinalCalculado
-              }
-            });
-          }
-          
-          // Actualizar el objeto en memoria para esta respuesta
-          episode.precioBaseTramo = precioCalculado as any;
-          episode.valorGrd = valorGRDCalculado as any;
-          episode.montoFinal = montoFinalCalculado as any;
-        }
-      }
-    }
-
-    // Helper para convertir Decimal a Number
-    const toNumber = (value: any): number => {
-      if (value === null || value === undefined) return 0;
-      if (typeof value === 'number') return value;
-      if (typeof value === 'string') return parseFloat(value) || 0;
-      if (value && typeof value.toNumber === 'function') return value.toNumber();
-      return 0;
-    };
+    // Solo lectura: se muestran los montos guardados. Para reliquidar con los
+    // precios vigentes usar POST /api/episodios/repricing
 
-    // Log para debug: verificar convenio en los primeros episodios
-    if (episodes.length > 0) {
-      const primeros3 = episodes.slice(0, 3);
-      primeros3.forEach((e: any) => {
-        console.log(`📋 Episodio ${e.episodioCmdb}: convenio en BD = "${e.convenio || 'null/undefined'}"`);
-        console.log(`   Tipo: ${typeof e.convenio}, Tiene campo: ${'convenio' in e}`);
-      });
-    }
-    
     // Transformar al formato esperado por el frontend usando normalización
     // Usar la función normalizeEpisodeResponse para cada episodio
     const items = episodes.map((e: any, idx: number) => {
@@ -1121,6 +626,8 @@ router.get('/episodios/final', requireAuth, async (req: Request, res: Response)
         inlierOutlier: normalized.inlierOutlier || '',
         // Agregar campos normalizados adicionales si el frontend los necesita
         validado: normalized.validado,
+        estado: normalized.estado,
+        estadoActualizadoAt: normalized.estadoActualizadoAt,
         estadoRN: normalized.estadoRN,
         at: normalized.at,
         atDetalle: atDetalleValue, // ⚠️ CRÍTICO: Incluir atDetalle en la respuesta (siempre null o string, nunca undefined)
@@ -1181,6 +688,15 @@ router.get('/episodios/final', requireAuth, async (req: Request, res: Response)
 // IMPORTANTE: Estas rutas deben ir ANTES de /episodios/:id para evitar conflictos
 // ===================================================================
 
+// Contexto de auditoría (EpisodioCambio) para cambios hechos desde la interfaz
+function contextoCambioUI(req: Request): ContextoCambio {
+  return {
+    usuarioId: req.user?.id ? parseInt(req.user.id) : null,
+    rol: req.user?.role ?? null,
+    origen: 'UI',
+  };
+}
+
 // Helper para buscar episodio de forma flexible (por episodioCmdb o id interno)
 // El frontend puede enviar el campo "episodio" (episodioCmdb) como string numérico
 async function findEpisodioFlexibleForDocuments(identifier: string) {
@@ -1458,6 +974,7 @@ router.get('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
           },
         },
         diagnosticos: true,
+        procedimientos: true,
         respaldos: true,
       },
     });
@@ -1479,6 +996,7 @@ router.get('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
             },
           },
           diagnosticos: true,
+          procedimientos: true,
           respaldos: true,
         },
       });
@@ -1488,28 +1006,18 @@ router.get('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
       return res.status(404).json({ error: 'Episodio no encontrado' });
     }
     
-    // Recalcular precioBaseTramo si es necesario (lazy calculation)
+    // Completar precioBaseTramo en la respuesta si falta (sin escribir en BD: la lectura no modifica el episodio)
     if (!episodio.precioBaseTramo && episodio.convenio) {
       const pesoGRD = episodio.pesoGrd ? Number(episodio.pesoGrd) : null;
-      const precioCalculado = await obtenerPrecioBaseTramo(episodio.convenio, pesoGRD);
+      const precioCalculado = await obtenerPrecioBaseTramo(episodio.convenio, pesoGRD, episodio);
       if (precioCalculado !== null) {
-        // Actualizar en la base de datos
-        episodio = await prisma.episodio.update({
-          where: { id: episodio.id },
-          data: { precioBaseTramo: precioCalculado },
-          include: {
-            paciente: true,
-            grd: true,
-            diagnosticos: true,
-            respaldos: true,
-          },
-        });
+        episodio = Object.assign(episodio, { precioBaseTramo: precioCalculado });
       }
     }
     
-    // Normalizar respuesta antes de enviar
+    // Normalizar respuesta antes de enviar (con la codificación: el primero de cada lista es el principal)
     const normalized = normalizeEpisodeResponse(episodio);
-    res.json(normalized);
+    res.json({ ...normalized, ...formatearCodificacion(episodio) });
   } catch (error: any) {
     console.error('Error al obtener episodio:', error);
     console.error('Stack:', error?.stack);
@@ -1520,35 +1028,514 @@ router.get('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
   }
 });
 
-// Crear episodio (AHORA EN PRISMA)
-router.post('/episodios', requireAuth, async (req: Request, res: Response) => {
+// Desglose de la liquidación de un episodio (traza completa del cálculo)
+// Permite responder disputas con FONASA: qué precio, qué parámetros y qué fórmulas se usaron
+router.get('/episodios/:id/liquidacion', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { error, value } = episodioSchema.validate(req.body, {
-      stripUnknown: true,
-      abortEarly: false,
-    });
-    if (error) {
-      return res.status(400).json({
-        error: 'Validation error',
-        details: error.details.map((d) => d.message),
-      });
+    const { id } = req.params;
+
+    const encontrado = await findEpisodioFlexibleForDocuments(id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
     }
 
-    const record = await prisma.episodio.create({
-      data: value,
+    const episodio = await prisma.episodio.findUnique({
+      where: { id: encontrado.id },
+      include: { grd: true },
     });
+    if (!episodio) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
 
-    res.status(201).json({ success: true, data: record });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: 'Error al crear episodio' });
-  }
-});
+    // Con las ediciones manuales guardadas (precio base manual y montos fuera de norma)
+    const detalle = await detallarLiquidacionEpisodio(episodio, overridesGuardados(episodio));
 
-// Actualizar episodio (AHORA EN PRISMA) - PUT para actualización completa
-router.put('/episodios/:id', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
+    // Valores guardados en BD para comparar con el recálculo
+    const guardado = {
+      precioBaseTramo: decimalToNumber(episodio.precioBaseTramo),
+      valorGrd: decimalToNumber(episodio.valorGrd),
+      montoAt: decimalToNumber(episodio.montoAt),
+      pagoOutlierSuperior: decimalToNumber(episodio.pagoOutlierSuperior),
+      pagoDemoraRescate: decimalToNumber(episodio.pagoDemoraRescate),
+      montoFinal: decimalToNumber(episodio.montoFinal),
+      inlierOutlier: episodio.inlierOutlier,
+      diasEstada: episodio.diasEstada,
+    };
+    const coincide = Math.abs((guardado.montoFinal ?? 0) - detalle.liquidacion.montoFinal) <= 0.01;
+
+    res.json({
+      episodio: {
+        id: episodio.id,
+        episodioCmdb: episodio.episodioCmdb,
+        convenio: episodio.convenio,
+        pesoGrd: decimalToNumber(episodio.pesoGrd),
+        grupoEnNorma: episodio.grupoEnNorma,
+        grd: episodio.grd ? { id: episodio.grd.id, codigo: episodio.grd.codigo } : null,
+      },
+      ...detalle,
+      guardado,
+      coincideConGuardado: coincide,
+    });
+  } catch (error: any) {
+    console.error('Error al obtener liquidación del episodio:', error);
+    res.status(500).json({
+      error: 'Error al obtener liquidación del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+// Historial de snapshots de liquidación del episodio (uno por aprobación, el último es el vigente)
+router.get('/episodios/:id/snapshots', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    const snapshots = await prisma.liquidacionSnapshot.findMany({
+      where: { episodioId: encontrado.id },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json(
+      snapshots.map((s, idx) => ({
+        ...s,
+        vigente: idx === 0,
+        precioBaseTramo: decimalToNumber(s.precioBaseTramo),
+        valorGrd: decimalToNumber(s.valorGrd),
+        montoAt: decimalToNumber(s.montoAt),
+        pagoOutlierSuperior: decimalToNumber(s.pagoOutlierSuperior),
+        pagoDemoraRescate: decimalToNumber(s.pagoDemoraRescate),
+        montoFinal: decimalToNumber(s.montoFinal),
+        createdAt: s.createdAt.toISOString(),
+      }))
+    );
+  } catch (error: any) {
+    console.error('Error al obtener snapshots de liquidación:', error);
+    res.status(500).json({
+      error: 'Error al obtener snapshots de liquidación',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+const transicionSchema = Joi.object({
+  estado: Joi.string().trim().uppercase().valid(...ESTADOS_EPISODIO).required(),
+  comentario: Joi.string().trim().max(2000).allow(null, '').optional(),
+  motivoRechazo: Joi.string().trim().max(50).allow(null, '').optional(), // Código de MotivoRechazo (obligatorio al rechazar)
+});
+
+// Historial de cambios por campo del episodio (?campo=montoFinal, paginado).
+// Con ?asOf=<fecha ISO> retorna además los campos del episodio tal como estaban en esa fecha
+router.get('/episodios/:id/historial', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    let asOf: Date | null = null;
+    if (typeof req.query.asOf === 'string' && req.query.asOf.trim() !== '') {
+      asOf = new Date(req.query.asOf);
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({
+          error: 'Error de validación',
+          message: `asOf no es una fecha válida: ${req.query.asOf}`,
+        });
+      }
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 100, 1000);
+    const campo = typeof req.query.campo === 'string' && req.query.campo.trim() !== '' ? req.query.campo.trim() : null;
+    const where: Prisma.EpisodioCambioWhereInput = {
+      episodioId: encontrado.id,
+      ...(campo ? { campo } : {}),
+      ...(asOf ? { createdAt: { lte: asOf } } : {}),
+    };
+
+    const [cambios, total] = await Promise.all([
+      prisma.episodioCambio.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.episodioCambio.count({ where }),
+    ]);
+
+    let estadoEnFecha: ReturnType<typeof reconstruirEpisodio> = null;
+    if (asOf) {
+      const [actual, posteriores] = await Promise.all([
+        prisma.episodio.findUniqueOrThrow({ where: { id: encontrado.id } }),
+        prisma.episodioCambio.findMany({
+          where: { episodioId: encontrado.id, createdAt: { gt: asOf }, campo: { not: CAMPO_CREACION } },
+          select: { id: true, campo: true, valorAnterior: true, createdAt: true },
+        }),
+      ]);
+      estadoEnFecha = reconstruirEpisodio(actual, posteriores, asOf);
+    }
+
+    res.json({
+      episodioId: encontrado.id,
+      ...(asOf ? { asOf: asOf.toISOString(), episodio: estadoEnFecha } : {}),
+      data: cambios.map((c) => ({ ...c, createdAt: c.createdAt.toISOString() })),
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al obtener historial del episodio:', error);
+    res.status(500).json({
+      error: 'Error al obtener historial del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+// Estado del flujo de trabajo del episodio, transiciones disponibles para el rol e historial
+router.get('/episodios/:id/transiciones', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    const [episodio, historial] = await Promise.all([
+      prisma.episodio.findUnique({
+        where: { id: encontrado.id },
+        select: { id: true, episodioCmdb: true, estado: true, estadoActualizadoAt: true },
+      }),
+      prisma.episodioTransicion.findMany({
+        where: { episodioId: encontrado.id },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+    if (!episodio) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    res.json({
+      episodioId: episodio.id,
+      episodio: episodio.episodioCmdb,
+      estado: episodio.estado,
+      estadoActualizadoAt: episodio.estadoActualizadoAt ? episodio.estadoActualizadoAt.toISOString() : null,
+      transicionesDisponibles: transicionesDisponibles(episodio.estado, req.user?.role),
+      historial: historial.map((t) => ({ ...t, createdAt: t.createdAt.toISOString() })),
+    });
+  } catch (error: any) {
+    console.error('Error al obtener transiciones del episodio:', error);
+    res.status(500).json({
+      error: 'Error al obtener transiciones del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+// Ejecutar una transición del flujo de trabajo (body: { estado, comentario?, motivoRechazo? })
+router.post('/episodios/:id/transiciones', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = transicionSchema.validate(req.body ?? {}, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    const episodio = encontrado
+      ? await prisma.episodio.findUnique({ where: { id: encontrado.id }, include: { grd: true } })
+      : null;
+    if (!episodio) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    const motivo = validarTransicion(episodio.estado, value.estado, req.user?.role);
+    if (motivo) {
+      return res.status(409).json({
+        error: 'Transición inválida',
+        message: motivo,
+        estadoActual: episodio.estado,
+        transicionesDisponibles: transicionesDisponibles(episodio.estado, req.user?.role),
+      });
+    }
+
+    const motivoRechazo = await obtenerMotivoRechazo(value.motivoRechazo);
+    if (value.estado === 'RECHAZADO' && !motivoRechazo) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: value.motivoRechazo
+          ? `Motivo de rechazo inválido o inactivo: ${value.motivoRechazo}`
+          : 'Debe indicar motivoRechazo (código del catálogo de motivos de rechazo)',
+      });
+    }
+
+    const transicion = await transicionarEpisodio(
+      episodio,
+      value.estado,
+      { usuarioId: req.user?.id ? parseInt(req.user.id) : null, rol: req.user?.role ?? null },
+      { comentario: value.comentario, motivoRechazo }
+    );
+
+    console.log(`🔀 Episodio ${episodio.id}: ${transicion.desde} → ${transicion.hacia} (${transicion.rol})`);
+
+    res.status(201).json({
+      ...transicion,
+      createdAt: transicion.createdAt.toISOString(),
+      transicionesDisponibles: transicionesDisponibles(transicion.hacia, req.user?.role),
+    });
+  } catch (error: any) {
+    if (error instanceof TransicionConcurrenteError) {
+      return res.status(409).json({ error: 'Transición inválida', message: error.message });
+    }
+    console.error('Error al ejecutar transición del episodio:', error);
+    res.status(500).json({
+      error: 'Error al ejecutar transición del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+const observacionSchema = Joi.object({
+  texto: Joi.string().trim().min(1).max(4000).required(),
+  campo: Joi.string().trim().valid(...CAMPOS_OBSERVABLES).allow(null, '').optional(),
+  rolDestino: Joi.string().trim().uppercase().valid(...ROLES_DESTINO).allow(null).optional(),
+});
+
+// Hilo de observaciones del episodio (?abiertas=true para solo las no resueltas)
+router.get('/episodios/:id/observaciones', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    const observaciones = await prisma.episodioObservacion.findMany({
+      where: {
+        episodioId: encontrado.id,
+        ...(req.query.abiertas === 'true' ? { resuelta: false } : {}),
+      },
+      include: { motivoRechazo: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(observaciones.map(formatearObservacion));
+  } catch (error: any) {
+    console.error('Error al obtener observaciones del episodio:', error);
+    res.status(500).json({
+      error: 'Error al obtener observaciones del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+// Agregar una observación al episodio (body: { texto, campo?, rolDestino? })
+router.post('/episodios/:id/observaciones', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = observacionSchema.validate(req.body ?? {}, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+    if (!encontrado) {
+      return res.status(404).json({ error: 'Episodio no encontrado' });
+    }
+
+    const observacion = await crearObservacion(prisma, {
+      episodioId: encontrado.id,
+      autorId: req.user?.id ? parseInt(req.user.id) : null,
+      rol: req.user?.role ?? null,
+      texto: value.texto,
+      campo: value.campo || null,
+      rolDestino: value.rolDestino,
+    });
+
+    res.status(201).json(formatearObservacion(observacion));
+  } catch (error: any) {
+    console.error('Error al crear observación del episodio:', error);
+    res.status(500).json({
+      error: 'Error al crear observación del episodio',
+      message: error?.message || 'Error desconocido'
+    });
+  }
+});
+
+const codigoCodificacionSchema = Joi.object({
+  codigo: Joi.string().trim().max(20).required(),
+  principal: Joi.boolean().default(false), // true: pasa a ser el principal; si no, se agrega como secundario
+});
+
+const ordenCodificacionSchema = Joi.object({
+  ids: Joi.array().items(Joi.number().integer()).min(1).required(), // El primero queda como principal
+});
+
+// Episodio (id y estado) por episodioCmdb o id interno
+async function findEpisodioParaCodificacion(identifier: string) {
+  const encontrado = await findEpisodioFlexibleForDocuments(identifier);
+  return encontrado
+    ? prisma.episodio.findUnique({ where: { id: encontrado.id }, select: { id: true, estado: true } })
+    : null;
+}
+
+// Codificación del episodio: /episodios/:id/diagnosticos (CIE-10) y /episodios/:id/procedimientos (CIE-9-MC)
+// Lectura para cualquier usuario; agregar, reordenar y quitar solo codificador (o admin) con el episodio en codificación
+for (const tipo of TIPOS_CODIFICACION) {
+  const sistema = SISTEMA_CODIFICACION[tipo];
+  const rolesCodificacion = requireRole(['codificador', 'CODIFICADOR', 'admin']);
+
+  // GET /episodios/:id/{tipo} - Lista ordenada (el primero es el principal)
+  router.get(`/episodios/:id/${tipo}`, requireAuth, async (req: Request, res: Response) => {
+    try {
+      const encontrado = await findEpisodioFlexibleForDocuments(req.params.id);
+      if (!encontrado) {
+        return res.status(404).json({ error: 'Episodio no encontrado' });
+      }
+
+      const items = await listarCodificacion(prisma, encontrado.id, tipo);
+      res.json(items.map(formatearItemCodificacion));
+    } catch (error: any) {
+      console.error(`Error al obtener ${tipo} del episodio:`, error);
+      res.status(500).json({
+        error: `Error al obtener ${tipo} del episodio`,
+        message: error?.message || 'Error desconocido'
+      });
+    }
+  });
+
+  // POST /episodios/:id/{tipo} - Agregar un código del catálogo (body: { codigo, principal? })
+  router.post(`/episodios/:id/${tipo}`, requireAuth, rolesCodificacion, async (req: Request, res: Response) => {
+    try {
+      const { error, value } = codigoCodificacionSchema.validate(req.body ?? {}, { stripUnknown: true, abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          error: 'Error de validación',
+          details: error.details.map((d) => d.message),
+        });
+      }
+
+      const episodio = await findEpisodioParaCodificacion(req.params.id);
+      if (!episodio) {
+        return res.status(404).json({ error: 'Episodio no encontrado' });
+      }
+      const cerrada = errorEdicionCodificacion(episodio.estado);
+      if (cerrada) {
+        return res.status(409).json({ error: 'Codificación cerrada', message: cerrada, estadoActual: episodio.estado });
+      }
+
+      const codigo = normalizarCodigoCie(value.codigo) as string;
+      const errorFormato = errorFormatoCie(sistema, codigo);
+      if (errorFormato) {
+        return res.status(400).json({ error: 'Error de validación', message: errorFormato });
+      }
+      const catalogo = await buscarCodigosCie([{ sistema, codigo }]);
+      const enCatalogo = catalogo.codigos.get(claveCie(sistema, codigo));
+      if (!enCatalogo) {
+        return res.status(400).json({
+          error: 'Error de validación',
+          message: catalogo.cargados.has(sistema)
+            ? `Código no encontrado en el catálogo ${NOMBRES_SISTEMA_CIE[sistema]}: ${codigo}`
+            : `El catálogo ${NOMBRES_SISTEMA_CIE[sistema]} no está cargado. Cárguelo primero.`,
+        });
+      }
+
+      const resultado = await agregarCodigoEpisodio(
+        episodio.id,
+        tipo,
+        { codigo: enCatalogo.codigo, descripcion: enCatalogo.descripcion },
+        value.principal
+      );
+      if ('conflicto' in resultado) {
+        return res.status(409).json({ error: 'Código duplicado', message: resultado.conflicto });
+      }
+
+      console.log(`🩺 Episodio ${episodio.id}: ${NOMBRES_SISTEMA_CIE[sistema]} ${codigo} agregado (${value.principal ? 'principal' : 'secundario'})`);
+      res.status(201).json(resultado.items.map(formatearItemCodificacion));
+    } catch (error: any) {
+      console.error(`Error al agregar código a ${tipo} del episodio:`, error);
+      res.status(500).json({
+        error: `Error al agregar código a ${tipo} del episodio`,
+        message: error?.message || 'Error desconocido'
+      });
+    }
+  });
+
+  // PUT /episodios/:id/{tipo}/orden - Reordenar (body: { ids } con todos los ids de la lista; el primero es el principal)
+  router.put(`/episodios/:id/${tipo}/orden`, requireAuth, rolesCodificacion, async (req: Request, res: Response) => {
+    try {
+      const { error, value } = ordenCodificacionSchema.validate(req.body ?? {}, { stripUnknown: true, abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          error: 'Error de validación',
+          details: error.details.map((d) => d.message),
+        });
+      }
+
+      const episodio = await findEpisodioParaCodificacion(req.params.id);
+      if (!episodio) {
+        return res.status(404).json({ error: 'Episodio no encontrado' });
+      }
+      const cerrada = errorEdicionCodificacion(episodio.estado);
+      if (cerrada) {
+        return res.status(409).json({ error: 'Codificación cerrada', message: cerrada, estadoActual: episodio.estado });
+      }
+
+      const resultado = await reordenarCodificacion(episodio.id, tipo, value.ids);
+      if ('error' in resultado) {
+        return res.status(400).json({ error: 'Error de validación', message: resultado.error });
+      }
+
+      res.json(resultado.items.map(formatearItemCodificacion));
+    } catch (error: any) {
+      console.error(`Error al reordenar ${tipo} del episodio:`, error);
+      res.status(500).json({
+        error: `Error al reordenar ${tipo} del episodio`,
+        message: error?.message || 'Error desconocido'
+      });
+    }
+  });
+
+  // DELETE /episodios/:id/{tipo}/:itemId - Quitar un código (si era el principal, el siguiente pasa a serlo)
+  router.delete(`/episodios/:id/${tipo}/:itemId`, requireAuth, rolesCodificacion, async (req: Request, res: Response) => {
+    try {
+      const episodio = await findEpisodioParaCodificacion(req.params.id);
+      if (!episodio) {
+        return res.status(404).json({ error: 'Episodio no encontrado' });
+      }
+      const cerrada = errorEdicionCodificacion(episodio.estado);
+      if (cerrada) {
+        return res.status(409).json({ error: 'Codificación cerrada', message: cerrada, estadoActual: episodio.estado });
+      }
+
+      const itemId = parseInt(req.params.itemId, 10);
+      const resultado = isNaN(itemId) ? null : await eliminarCodigoEpisodio(episodio.id, tipo, itemId);
+      if (!resultado) {
+        return res.status(404).json({
+          error: 'Código no encontrado',
+          message: `El episodio no tiene un código con id: ${req.params.itemId}`,
+        });
+      }
+
+      res.json(resultado.items.map(formatearItemCodificacion));
+    } catch (error: any) {
+      console.error(`Error al quitar código de ${tipo} del episodio:`, error);
+      res.status(500).json({
+        error: `Error al quitar código de ${tipo} del episodio`,
+        message: error?.message || 'Error desconocido'
+      });
+    }
+  });
+}
+
+// Crear episodio (AHORA EN PRISMA)
+router.post('/episodios', requireAuth, async (req: Request, res: Response) => {
+  try {
     const { error, value } = episodioSchema.validate(req.body, {
       stripUnknown: true,
       abortEarly: false,
@@ -1560,6 +1547,34 @@ router.put('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
       });
     }
 
+    const record = await prisma.$transaction(async (tx) => {
+      const creado = await tx.episodio.create({ data: value });
+      await registrarCreacion(tx, creado, contextoCambioUI(req));
+      return creado;
+    });
+
+    res.status(201).json({ success: true, data: record });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Error al crear episodio' });
+  }
+});
+
+// Actualizar episodio (AHORA EN PRISMA) - PUT para actualización completa
+router.put('/episodios/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = episodioPutSchema.validate(req.body, {
+      stripUnknown: true,
+      abortEarly: false,
+    });
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
     // Buscar episodio de forma flexible: primero por episodioCmdb, luego por id interno
     const idNum = parseInt(id);
     let episodioId: number;
@@ -1567,14 +1582,12 @@ router.put('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
     // Intentar buscar primero por episodioCmdb (el campo que usa el frontend)
     let existing = await prisma.episodio.findFirst({
       where: { episodioCmdb: id },
-      select: { id: true },
     });
 
     // Si no se encuentra por episodioCmdb y el ID es numérico, intentar por id interno
     if (!existing && !isNaN(idNum)) {
       existing = await prisma.episodio.findUnique({
         where: { id: idNum },
-        select: { id: true },
       });
     }
 
@@ -1583,16 +1596,34 @@ router.put('/episodios/:id', requireAuth, async (req: Request, res: Response) =>
     }
 
     episodioId = existing.id;
+    const anterior = existing;
+
+    // Con la liquidación aprobada los montos quedan congelados (mismo criterio que PATCH)
+    if (liquidacionCongelada(existing.estado)) {
+      const camposMonto = camposMontoModificados(existing, value);
+      if (camposMonto.length > 0) {
+        return res.status(409).json({
+          error: 'Liquidación congelada',
+          message: `La liquidación del episodio está congelada (estado ${existing.estado}): no se puede modificar ${camposMonto.join(', ')}. Revoque la aprobación o devuelva el episodio a revisión primero`,
+          estadoActual: existing.estado,
+          campos: camposMonto,
+        });
+      }
+    }
 
-    const updated = await prisma.episodio.update({
-      where: { id: episodioId },
-      data: value,
-      include: {
-        paciente: true,
-        grd: true,
-        diagnosticos: true,
-        respaldos: true,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const actualizado = await tx.episodio.update({
+        where: { id: episodioId },
+        data: value,
+        include: {
+          paciente: true,
+          grd: true,
+          diagnosticos: true,
+          respaldos: true,
+        },
+      });
+      await registrarCambios(tx, anterior, actualizado, contextoCambioUI(req));
+      return actualizado;
     });
 
     res.json({ success: true, data: updated });
@@ -1763,6 +1794,12 @@ router.patch('/episodios/:id',
     // Ignorar valorGRD si viene en el request (se calculará automáticamente)
     const requestBody = { ...req.body };
     delete requestBody.valorGRD;
+
+    // Datos del rechazo (validado = false): no son campos del episodio, quedan como observación
+    const motivoRechazoValue = requestBody.motivoRechazo;
+    const comentarioRechazoValue = requestBody.comentarioRechazo;
+    delete requestBody.motivoRechazo;
+    delete requestBody.comentarioRechazo;
     
     // Verificar qué campos se están intentando actualizar
     // IMPORTANTE: montoAT siempre viene junto con at o atDetalle, pero NO se considera un campo editable
@@ -2156,6 +2193,8 @@ router.patch('/episodios/:id',
               peso: true,
               puntoCorteInf: true,
               puntoCorteSup: true,
+              percentil50: true,
+              percentil75: true,
             },
           },
           diagnosticos: true,
@@ -2178,6 +2217,8 @@ router.patch('/episodios/:id',
               peso: true,
               puntoCorteInf: true,
               puntoCorteSup: true,
+              percentil50: true,
+              percentil75: true,
             },
           },
           diagnosticos: true,
@@ -2206,180 +2247,218 @@ router.patch('/episodios/:id',
       console.log(`   - episodioCmdb: ${episodio.episodioCmdb}`);
     }
 
-    // Obtener valores actuales del episodio
-    const pesoActual = episodio.pesoGrd ? Number(episodio.pesoGrd) : null;
-    const precioBaseTramoActual = episodio.precioBaseTramo ? Number(episodio.precioBaseTramo) : null;
-    const convenioActual = episodio.convenio;
-    const montoATActual = episodio.montoAt ? Number(episodio.montoAt) : 0;
-    const pagoOutlierSupActual = episodio.pagoOutlierSuperior ? Number(episodio.pagoOutlierSuperior) : 0;
-    const pagoDemoraActual = episodio.pagoDemoraRescate ? Number(episodio.pagoDemoraRescate) : 0;
-        // Caso fuera de norma (override manual permitido)
-    const esFueraDeNorma = episodio.grupoEnNorma === false;
-
-    // Determinar valores finales (nuevos o actuales)
-    // NOTA: pesoGrd NO es editable por finanzas, siempre usar el valor actual
-    const peso = pesoActual;
-    const convenio = updateData.convenio !== undefined ? updateData.convenio : convenioActual;
-    
-    // RECALCULAR precioBaseTramo automáticamente si:
-    // 1. Cambió el peso (puede cambiar el tramo para FNS012/FNS026)
-    // 2. Cambió el convenio
-    // 3. precioBaseTramo es null y hay convenio
-    // IMPORTANTE: Si viene precioBaseTramo en el request y NO hay cambios de peso/convenio, 
-    // se guarda el valor editado manualmente (para finanzas y gestión)
-    const pesoCambio = updateData.pesoGrd !== undefined && updateData.pesoGrd !== pesoActual;
-    const convenioCambio = updateData.convenio !== undefined && updateData.convenio !== convenioActual;
-    const precioBaseTramoEditado = updateData.precioBaseTramo !== undefined;
-    const necesitaRecalculo = pesoCambio || convenioCambio || (!precioBaseTramoActual && convenio && !precioBaseTramoEditado);
-    
-    let precioBaseTramo: number | null = precioBaseTramoActual;
-    if (necesitaRecalculo && convenio) {
-      // Recalcular automáticamente solo si cambió peso/convenio o si no hay valor
-      const pesoParaCalculo = pesoCambio && updateData.pesoGrd !== undefined 
-        ? Number(updateData.pesoGrd) 
-        : peso;
-      precioBaseTramo = await obtenerPrecioBaseTramo(convenio, pesoParaCalculo);
-      if (precioBaseTramo !== null) {
-        updateData.precioBaseTramo = precioBaseTramo;
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`💰 Precio base recalculado automáticamente para episodio ${episodio.id}: ${precioBaseTramo} (convenio: ${convenio}, peso: ${pesoParaCalculo})`);
+    // Un cambio de 'validado' es una transición del flujo de trabajo (aprobar/rechazar/devolver a revisión)
+    let estadoDestino: EstadoEpisodio | null = null;
+    if (updateData.validado !== undefined) {
+      const hacia = estadoParaValidado(updateData.validado);
+      // Sin transición si el estado actual ya corresponde a ese valor (ej. EXPORTADO con validado = true)
+      if (validadoParaEstado(episodio.estado as EstadoEpisodio) !== updateData.validado) {
+        const motivo = validarTransicion(episodio.estado, hacia, userRole);
+        if (motivo) {
+          return res.status(409).json({
+            message: motivo,
+            error: 'TransicionInvalida',
+            estadoActual: episodio.estado,
+            transicionesDisponibles: transicionesDisponibles(episodio.estado, userRole),
+          });
         }
+        estadoDestino = hacia;
       }
-    } else if (precioBaseTramoEditado && !necesitaRecalculo) {
-      // Si viene precioBaseTramo en el request y NO necesita recálculo, guardar el valor editado manualmente
-      // Esto permite a finanzas y gestión editar manualmente el precio base
-      const precioEditado = typeof updateData.precioBaseTramo === 'number' 
-        ? updateData.precioBaseTramo 
-        : parseFloat(String(updateData.precioBaseTramo));
-      if (!isNaN(precioEditado) && isFinite(precioEditado) && precioEditado >= 0) {
-        precioBaseTramo = precioEditado;
-        updateData.precioBaseTramo = precioEditado;
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`✅ Precio base editado manualmente para episodio ${episodio.id}: ${precioEditado} (guardado sin recalcular)`);
-        }
-      } else {
-        // Si el valor no es válido, eliminar del updateData y mantener el actual
-        delete updateData.precioBaseTramo;
-        console.warn(`⚠️ precioBaseTramo enviado no es válido, manteniendo valor actual`);
+    }
+
+    let motivoRechazo: Awaited<ReturnType<typeof obtenerMotivoRechazo>> = null;
+    if (estadoDestino === 'RECHAZADO') {
+      motivoRechazo = await obtenerMotivoRechazo(
+        typeof motivoRechazoValue === 'string' ? motivoRechazoValue : null
+      );
+      if (!motivoRechazo) {
+        return res.status(400).json({
+          message: motivoRechazoValue
+            ? `Motivo de rechazo inválido o inactivo: ${motivoRechazoValue}`
+            : 'Para rechazar un episodio debe indicar motivoRechazo (código del catálogo de motivos de rechazo)',
+          error: 'ValidationError',
+          field: 'motivoRechazo',
+        });
       }
     }
+
+    // Con la liquidación aprobada (y sin salir de ese estado en esta edición) los montos no se
+    // editan ni se recalculan: quedan como en su snapshot hasta revocar o devolver a revisión
+    const congelada = liquidacionCongelada(episodio.estado) && !estadoDestino;
+    if (congelada) {
+      const camposMonto = camposMontoModificados(episodio, updateData);
+      if (camposMonto.length > 0) {
+        return res.status(409).json({
+          message: `La liquidación del episodio está congelada (estado ${episodio.estado}): no se puede modificar ${camposMonto.join(', ')}. Revoque la aprobación o devuelva el episodio a revisión primero`,
+          error: 'LiquidacionCongelada',
+          estadoActual: episodio.estado,
+          campos: camposMonto,
+        });
+      }
+      CAMPOS_MONTO_LIQUIDACION.forEach((campo) => delete updateData[campo]);
+    }
+
+    let detalleLiquidacion: Awaited<ReturnType<typeof detallarLiquidacionEpisodio>> | null = null;
+    if (!congelada) {
+      // Obtener valores actuales del episodio
+      const pesoActual = episodio.pesoGrd ? Number(episodio.pesoGrd) : null;
+      const precioBaseTramoActual = episodio.precioBaseTramo ? Number(episodio.precioBaseTramo) : null;
+      const convenioActual = episodio.convenio;
+      const montoATActual = episodio.montoAt ? Number(episodio.montoAt) : 0;
+      const pagoDemoraActual = episodio.pagoDemoraRescate ? Number(episodio.pagoDemoraRescate) : 0;
+          // Caso fuera de norma (override manual permitido)
+      const esFueraDeNorma = episodio.grupoEnNorma === false;
+
+      // Determinar valores finales (nuevos o actuales)
+      // NOTA: pesoGrd NO es editable por finanzas, siempre usar el valor actual
+      const peso = pesoActual;
+      const convenio = updateData.convenio !== undefined ? updateData.convenio : convenioActual;
+    
+      // RECALCULAR precioBaseTramo automáticamente si:
+      // 1. Cambió el peso (puede cambiar el tramo para FNS012/FNS026)
+      // 2. Cambió el convenio
+      // 3. precioBaseTramo es null y hay convenio
+      // IMPORTANTE: Si viene precioBaseTramo en el request y NO hay cambios de peso/convenio, 
+      // se guarda el valor editado manualmente (para finanzas y gestión)
+      const pesoCambio = updateData.pesoGrd !== undefined && updateData.pesoGrd !== pesoActual;
+      const convenioCambio = updateData.convenio !== undefined && updateData.convenio !== convenioActual;
+      const precioBaseTramoEditado = updateData.precioBaseTramo !== undefined;
+      const necesitaRecalculo = pesoCambio || convenioCambio || (!precioBaseTramoActual && convenio && !precioBaseTramoEditado);
+    
+      let precioBaseTramo: number | null = precioBaseTramoActual;
+      if (necesitaRecalculo && convenio) {
+        // Recalcular automáticamente solo si cambió peso/convenio o si no hay valor
+        const pesoParaCalculo = pesoCambio && updateData.pesoGrd !== undefined 
+          ? Number(updateData.pesoGrd) 
+          : peso;
+        precioBaseTramo = await obtenerPrecioBaseTramo(convenio, pesoParaCalculo, episodio);
+        if (precioBaseTramo !== null) {
+          updateData.precioBaseTramo = precioBaseTramo;
+          updateData.precioBaseManual = false;
+          if (process.env.NODE_ENV === 'development') {
+            console.log(`💰 Precio base recalculado automáticamente para episodio ${episodio.id}: ${precioBaseTramo} (convenio: ${convenio}, peso: ${pesoParaCalculo})`);
+          }
+        }
+      } else if (precioBaseTramoEditado && !necesitaRecalculo) {
+        // Si viene precioBaseTramo en el request y NO necesita recálculo, guardar el valor editado manualmente
+        // Esto permite a finanzas y gestión editar manualmente el precio base
+        const precioEditado = typeof updateData.precioBaseTramo === 'number' 
+          ? updateData.precioBaseTramo 
+          : parseFloat(String(updateData.precioBaseTramo));
+        if (!isNaN(precioEditado) && isFinite(precioEditado) && precioEditado >= 0) {
+          // Marcar el precio como manual para que el repricing y los cambios de convenio no lo reemplacen
+          if (precioEditado !== precioBaseTramoActual) updateData.precioBaseManual = true;
+          precioBaseTramo = precioEditado;
+          updateData.precioBaseTramo = precioEditado;
+          if (process.env.NODE_ENV === 'development') {
+            console.log(`✅ Precio base editado manualmente para episodio ${episodio.id}: ${precioEditado} (guardado sin recalcular)`);
+          }
+        } else {
+          // Si el valor no es válido, eliminar del updateData y mantener el actual
+          delete updateData.precioBaseTramo;
+          console.warn(`⚠️ precioBaseTramo enviado no es válido, manteniendo valor actual`);
+        }
+      }
     
-    // Usar el precio calculado para los cálculos siguientes
-    // Asegurar que precioBaseTramo sea un número válido (no null) para los cálculos
-    const precioBaseTramoParaCalculo: number = (precioBaseTramo !== null && !isNaN(precioBaseTramo) && precioBaseTramo >= 0) 
-      ? precioBaseTramo 
-      : 0;
-    const montoAT = updateData.montoAt !== undefined ? (updateData.montoAt ?? 0) : montoATActual;
-    const pagoOutlierSup = updateData.pagoOutlierSuperior !== undefined ? (updateData.pagoOutlierSuperior ?? 0) : pagoOutlierSupActual;
-    const pagoDemora = updateData.pagoDemoraRescate !== undefined ? (updateData.pagoDemoraRescate ?? 0) : pagoDemoraActual;
-
-    // ¿Hay overrides manuales?
-    const tieneOverrideValorGRD = esFueraDeNorma && updateData.valorGrd !== undefined && updateData.valorGrd !== null;
-    const tieneOverrideMontoFinal = esFueraDeNorma && updateData.montoFinal !== undefined && updateData.montoFinal !== null;
-
-    // PASO 1: valorGRD
-    let valorGRDFinal: number;
-    if (tieneOverrideValorGRD) {
-      // Si FINANZAS manda valorGRD en caso fuera de norma, lo respetamos
-      const v = typeof updateData.valorGrd === 'string'
-        ? parseFloat(updateData.valorGrd)
-        : Number(updateData.valorGrd);
-      valorGRDFinal = !isNaN(v) && isFinite(v) ? v : 0;
-    } else {
-      // Caso normal: lo calculamos
-      valorGRDFinal = calcularValorGRD(peso ?? 0, precioBaseTramoParaCalculo);
-    }
-    updateData.valorGrd = valorGRDFinal;
-
-    // PASO 2: Calcular pagoDemoraRescate AUTOMÁTICAMENTE (siempre, incluso si diasDemoraRescate no cambió)
-    // Usar el valor más nuevo disponible
-    const diasParaCalculo = updateData.diasDemoraRescate !== undefined
-      ? Number(updateData.diasDemoraRescate ?? 0)
-      : (episodio.diasDemoraRescate ? Number(episodio.diasDemoraRescate) : 0);
-
-    const pagoDemoraCalculado = await calcularPagoDemoraRescate({
-      convenio,
-      diasDemora: diasParaCalculo,
-      pagoDemoraInput: pagoDemora,
-      pesoGrd: peso,
-      precioBaseTramo: precioBaseTramoParaCalculo,
-      grdId: episodio.grdId ?? null,
-      fechaIngreso: episodio.fechaIngreso
-    });
+      // Usar el precio calculado para los cálculos siguientes
+      // Asegurar que precioBaseTramo sea un número válido (no null) para los cálculos
+      const precioBaseTramoParaCalculo: number = (precioBaseTramo !== null && !isNaN(precioBaseTramo) && precioBaseTramo >= 0) 
+        ? precioBaseTramo 
+        : 0;
+      const montoAT = updateData.montoAt !== undefined ? (updateData.montoAt ?? 0) : montoATActual;
+      const pagoDemora = updateData.pagoDemoraRescate !== undefined ? (updateData.pagoDemoraRescate ?? 0) : pagoDemoraActual;
+
+      // ¿Hay overrides manuales?
+      const tieneOverrideValorGRD = esFueraDeNorma && updateData.valorGrd !== undefined && updateData.valorGrd !== null;
+      const tieneOverrideMontoFinal = esFueraDeNorma && updateData.montoFinal !== undefined && updateData.montoFinal !== null;
+      const parseOverride = (valor: any): number => {
+        const v = typeof valor === 'string' ? parseFloat(valor) : Number(valor);
+        return !isNaN(v) && isFinite(v) ? v : 0;
+      };
+
+      // Usar el valor más nuevo disponible de días de demora
+      const diasParaCalculo = updateData.diasDemoraRescate !== undefined
+        ? Number(updateData.diasDemoraRescate ?? 0)
+        : (episodio.diasDemoraRescate ? Number(episodio.diasDemoraRescate) : 0);
+
+      // Liquidar con el motor: valorGRD, pago demora (US-12), inlier/outlier,
+      // pago outlier superior (US-11, solo FNS012) y montoFinal se recalculan SIEMPRE
+      // (con la traza completa, que se congela en el snapshot si el episodio se aprueba)
+      detalleLiquidacion = await detallarLiquidacionEpisodio(
+        {
+          ...episodio,
+          convenio,
+          pesoGrd: peso,
+          montoAt: montoAT,
+          diasDemoraRescate: diasParaCalculo,
+          pagoDemoraRescate: pagoDemora,
+        },
+        {
+          // Los montos manuales guardados (fuera de norma) se mantienen salvo que el request traiga otros
+          ...overridesGuardados(episodio),
+          precioBaseTramo: precioBaseTramoParaCalculo,
+          ...(tieneOverrideValorGRD ? { valorGrdManual: parseOverride(updateData.valorGrd) } : {}),
+          ...(tieneOverrideMontoFinal ? { montoFinalManual: parseOverride(updateData.montoFinal) } : {}),
+        }
+      );
+      const liquidacion = detalleLiquidacion.liquidacion;
 
-    // IMPORTANTE: SIEMPRE actualizar pagoDemoraRescate, incluso si no cambió
-    updateData.pagoDemoraRescate = pagoDemoraCalculado;
-    console.log(`💰 Pago demora SIEMPRE recalculado: ${pagoDemoraCalculado} (convenio: ${convenio}, días: ${diasParaCalculo})`);
+      updateData.valorGrd = liquidacion.valorGrd;
+      updateData.pagoDemoraRescate = liquidacion.pagoDemoraRescate;
+      updateData.pagoOutlierSuperior = liquidacion.pagoOutlierSuperior;
+      updateData.montoFinal = liquidacion.montoFinal;
 
-    // PASO 2.6: Recalcular inlierOutlier y diasEstada automáticamente SIEMPRE ANTES de calcular pago outlier
-    // Esto asegura que el campo se actualice en la base de datos y que tengamos el valor correcto para calcular pago outlier
-    const fechaIngreso = episodio.fechaIngreso;
-    const fechaAlta = episodio.fechaAlta;
-    const diasEstada = calcularDiasEstada(fechaIngreso, fechaAlta);
-    
-    let inlierOutlierCalculado: string | null = null;
-    // Calcular inlier/outlier basándose en días de estadía vs punto corte del GRD
-    if (episodio.grd) {
-      const puntoCorteInf = episodio.grd.puntoCorteInf ? Number(episodio.grd.puntoCorteInf) : null;
-      const puntoCorteSup = episodio.grd.puntoCorteSup ? Number(episodio.grd.puntoCorteSup) : null;
-      inlierOutlierCalculado = calcularInlierOutlier(diasEstada, puntoCorteInf, puntoCorteSup);
-      
-      if (inlierOutlierCalculado !== null) {
-        updateData.inlierOutlier = inlierOutlierCalculado;
-        updateData.diasEstada = diasEstada;
-        console.log(`✅ Inlier/Outlier recalculado y actualizado en BD: ${inlierOutlierCalculado} (días: ${diasEstada}, puntoInf: ${puntoCorteInf}, puntoSup: ${puntoCorteSup})`);
+      if (episodio.grd && liquidacion.inlierOutlier !== null) {
+        updateData.inlierOutlier = liquidacion.inlierOutlier;
+        updateData.diasEstada = liquidacion.diasEstada;
       }
+
+      console.log(`💰 Liquidación recalculada (${liquidacion.engineVersion}) para episodio ${episodio.id}:`, {
+        convenio,
+        valorGrd: liquidacion.valorGrd,
+        pagoDemoraRescate: liquidacion.pagoDemoraRescate,
+        pagoOutlierSuperior: liquidacion.pagoOutlierSuperior,
+        inlierOutlier: liquidacion.inlierOutlier,
+        montoFinal: liquidacion.montoFinal,
+      });
     }
 
-    // PASO 2.5: Calcular pagoOutlierSuperior AUTOMÁTICAMENTE (SOLO FNS012, SIEMPRE)
-    // IMPORTANTE: Usar el inlierOutlier calculado arriba para determinar si es outlier superior
-    const esOutlierSuperior = inlierOutlierCalculado === 'Outlier Superior';
-    const pagoOutlierCalculado = await calcularPagoOutlierSuperior({
-      convenio,
-      diasEstada: diasEstada ?? episodio.diasEstada ?? null,
-      pesoGrd: peso,
-      precioBase: precioBaseTramoParaCalculo,
-      grdId: episodio.grdId ?? null,
-      inlierOutlier: inlierOutlierCalculado
-    });
+    // Actualizar el episodio (y su estado, si cambió 'validado'). Al aprobar (transición a APROBADO_FINANZAS)
+    // se congela la liquidación en un LiquidacionSnapshot nuevo, en la misma transacción
+    const updated = await prisma.$transaction(async (tx) => {
+      if (estadoDestino) {
+        await registrarTransicion(
+          tx,
+          episodio,
+          estadoDestino,
+          { usuarioId: req.user?.id ? parseInt(req.user.id) : null, rol: userRole },
+          {
+            comentario: typeof comentarioRechazoValue === 'string' ? comentarioRechazoValue.trim() : null,
+            motivoRechazo,
+          }
+        );
+      }
 
-    // IMPORTANTE: SIEMPRE actualizar pagoOutlierSuperior (solo FNS012 si está fuera de norma)
-    // Si no es FNS012 o no está fuera de norma, será 0 (correcto)
-    updateData.pagoOutlierSuperior = pagoOutlierCalculado;
-    console.log(`💰 Pago outlier SIEMPRE recalculado: ${pagoOutlierCalculado} (convenio: ${convenio}, FNS012: ${convenio === 'FNS012'}, outlier superior: ${esOutlierSuperior}, inlierOutlier: ${inlierOutlierCalculado})`);
-
-    // PASO 3: montoFinal (SIEMPRE recalcular)
-    const pagoDemoraParaMonto = updateData.pagoDemoraRescate ?? 0;
-    const pagoOutlierParaMonto = updateData.pagoOutlierSuperior ?? 0;
-
-    let montoFinalFinal: number;
-    if (tieneOverrideMontoFinal) {
-      const m = typeof updateData.montoFinal === 'string'
-        ? parseFloat(updateData.montoFinal)
-        : Number(updateData.montoFinal);
-      montoFinalFinal = !isNaN(m) && isFinite(m) ? m : 0;
-      console.log(`⚠️ Override manual de montoFinal: ${montoFinalFinal}`);
-    } else {
-      montoFinalFinal = calcularMontoFinal(
-        valorGRDFinal,
-        montoAT,
-        pagoOutlierParaMonto,
-        pagoDemoraParaMonto
-      );
-      console.log(`✅ montoFinal SIEMPRE recalculado: ${montoFinalFinal}`);
-    }
-    updateData.montoFinal = montoFinalFinal;
+      const actualizado = await tx.episodio.update({
+        where: { id: episodio.id },
+        data: updateData,
+        include: {
+          paciente: true,
+          grd: true,
+          diagnosticos: true,
+          respaldos: true,
+        },
+      });
 
-    // Actualizar el episodio
-    const updated = await prisma.episodio.update({
-      where: { id: episodio.id },
-      data: updateData,
-      include: {
-        paciente: true,
-        grd: true,
-        diagnosticos: true,
-        respaldos: true,
-      },
+      await registrarCambios(tx, episodio, actualizado, contextoCambioUI(req));
+
+      if (estadoDestino === 'APROBADO_FINANZAS' && detalleLiquidacion) {
+        const aprobadoPorId = req.user?.id ? parseInt(req.user.id) : null;
+        const snapshot = await crearSnapshotLiquidacion(tx, actualizado, detalleLiquidacion, aprobadoPorId);
+        console.log(`🧊 Liquidación congelada para episodio ${episodio.id} (snapshot v${snapshot.version})`);
+      }
+
+      return actualizado;
     });
 
     // Normalizar y formatear respuesta según especificaciones
@@ -2393,6 +2472,9 @@ router.patch('/episodios/:id',
         error: 'NotFound'
       });
     }
+    if (error instanceof TransicionConcurrenteError) {
+      return res.status(409).json({ message: error.message, error: 'TransicionInvalida' });
+    }
     console.error('Error al actualizar episodio:', error);
     console.error('Stack:', error?.stack);
     res.status(500).json({
@@ -2402,538 +2484,17 @@ router.patch('/episodios/:id',
   }
 });
 
-// Helper functions para procesamiento de archivos
-type RawRow = Record<string, string>;
-
-function isEmpty(value?: any): boolean {
-  if (value === undefined || value === null) return true;
-  const v = typeof value === 'string' ? value.trim() : String(value).trim();
-  return v === '' || v.toLowerCase() === 'null';
-}
-
-function isNumeric(value?: any): boolean {
-  if (value === undefined || value === null) return false;
-  return !isNaN(Number(value));
-}
+// Procesamiento en segundo plano de los jobs creados por /api/episodios/import: mismo
+// ETL que /api/upload (perfil predeterminado salvo que se indique otro)
+registrarProcesadorImportacion('EPISODIOS_IMPORT', procesadorEtl);
 
-function isValidDate(value?: any): boolean {
-  if (value === undefined || value === null) return false;
-  const d = value instanceof Date ? value : new Date(value);
-  return !isNaN(d.getTime());
-}
-
-function cleanString(value?: any): string | null {
-  if (value === undefined || value === null) return null;
-  const s = String(value);
-  const out = s.replace(/\s+/g, ' ').trim();
-  return out === '' ? null : out;
-}
-
-// Helper para buscar columna "Convenio" de manera flexible
-// Prioriza "Convenios (cod)" sobre "Convenios (des)" cuando hay múltiples columnas
-function findConvenioValue(row: RawRow): string | null {
-  // PRIMERA PRIORIDAD: Buscar específicamente columnas con "(cod)" que tengan valor
-  // Esto asegura que encontremos "Convenios (cod)" antes que "Convenios (des)"
-  const todasLasKeys = Object.keys(row);
-  
-  // Log para debug: mostrar todas las columnas relacionadas con convenio
-  const columnasConvenio = todasLasKeys.filter(k => {
-    const normalized = k.toLowerCase().trim();
-    return normalized.includes('convenio');
-  });
-  
-  if (columnasConvenio.length > 0) {
-    console.log(`🔍 Columnas relacionadas con Convenio encontradas:`, columnasConvenio);
-    columnasConvenio.forEach(k => {
-      const valor = row[k];
-      console.log(`   "${k}" = "${valor}" (tipo: ${typeof valor}, limpio: "${cleanString(valor)}")`);
-    });
-  }
-  
-  // Buscar primero columnas que contengan "(cod)" y tengan valor
-  // Normalizar espacios múltiples y comparar de manera flexible
-  for (const key of todasLasKeys) {
-    if (key) {
-      // Normalizar: convertir a minúsculas, quitar espacios al inicio/fin, y normalizar espacios múltiples
-      const normalized = key.toLowerCase().trim().replace(/\s+/g, ' ');
-      // Priorizar columnas que contengan "(cod)" o " cod" (con o sin paréntesis)
-      if (normalized.includes('convenio') && (normalized.includes('(cod)') || normalized.includes(' cod'))) {
-        const rawValue = row[key];
-        if (rawValue !== undefined && rawValue !== null) {
-          const value = cleanString(rawValue);
-          if (value) {
-            console.log(`✅ Encontrado Convenio (prioridad cod) en columna "${key}": "${value}"`);
-            return value;
-          } else if (rawValue === '' || (typeof rawValue === 'string' && rawValue.trim() === '')) {
-            // Si el valor es cadena vacía explícita, retornar cadena vacía (no null)
-            console.log(`✅ Encontrado Convenio (prioridad cod, vacío) en columna "${key}": ""`);
-            return '';
-          } else {
-            console.log(`⚠️ Columna "${key}" encontrada pero sin valor (valor raw: "${row[key]}")`);
-          }
-        }
-      }
-    }
-  }
-  
-  // SEGUNDA PRIORIDAD: Buscar por nombres exactos que contengan "(cod)"
-  // Incluir variaciones con diferentes números de espacios
-  const nombresExactosConCod = [
-    'Convenios (cod)',
-    'Convenios  (cod)', // Con dos espacios
-    'Convenios   (cod)', // Con tres espacios
-    'Convenios(cod)',
-    'CONVENIOS (COD)',
-    'convenios (cod)',
-    'Convenio (cod)',
-    'Convenio(cod)',
-  ];
-  
-  for (const nombreExacto of nombresExactosConCod) {
-    if (nombreExacto in row) {
-      const value = cleanString(row[nombreExacto]);
-      if (value) {
-        console.log(`✅ Encontrado Convenio (exacto con cod) en columna "${nombreExacto}": "${value}"`);
-        return value;
-      }
-    }
-  }
-  
-  // Buscar también con normalización de espacios (por si hay más de 3 espacios)
-  for (const key of todasLasKeys) {
-    if (key) {
-      const normalized = key.toLowerCase().trim().replace(/\s+/g, ' ');
-      // Buscar coincidencia exacta después de normalizar
-      if (normalized === 'convenios (cod)' || normalized === 'convenio (cod)') {
-        const value = cleanString(row[key]);
-        if (value) {
-          console.log(`✅ Encontrado Convenio (normalizado) en columna "${key}": "${value}"`);
-          return value;
-        }
-      }
-    }
-  }
-  
-  // TERCERA PRIORIDAD: Buscar otras variaciones de convenio (sin "(cod)" específico)
-  // Incluir búsqueda case-insensitive y con diferentes espacios
-  for (const key of todasLasKeys) {
-    if (key) {
-      const normalized = key.toLowerCase().trim().replace(/\s+/g, ' ');
-      if (normalized.includes('convenio') && !normalized.includes('(des)') && !normalized.includes(' des')) {
-        // Aceptar valores incluso si están vacíos (pero no null/undefined)
-        const rawValue = row[key];
-        if (rawValue !== undefined && rawValue !== null) {
-          const value = cleanString(rawValue);
-          // Si hay valor, retornarlo; si está vacío pero la columna existe, retornar cadena vacía
-          if (value) {
-            console.log(`✅ Encontrado Convenio (flexible) en columna "${key}": "${value}"`);
-            return value;
-          } else if (rawValue === '' || (typeof rawValue === 'string' && rawValue.trim() === '')) {
-            // Si el valor es cadena vacía explícita, retornar cadena vacía (no null)
-            console.log(`✅ Encontrado Convenio (flexible, vacío) en columna "${key}": ""`);
-            return '';
-          }
-        }
-      }
-    }
-  }
-  
-  // CUARTA PRIORIDAD: Buscar nombres exactos sin "(cod)"
-  const nombresExactosSinCod = [
-    'Convenio',
-    'Convenios',
-    'CONVENIO',
-    'CONVENIOS'
-  ];
-  
-  for (const nombreExacto of nombresExactosSinCod) {
-    if (nombreExacto in row) {
-      const value = cleanString(row[nombreExacto]);
-      if (value) {
-        console.log(`✅ Encontrado Convenio (exacto sin cod) en columna "${nombreExacto}": "${value}"`);
-        return value;
-      }
-    }
-  }
-  
-  // Log solo si realmente no se encontró nada
-  if (todasLasKeys.length > 0) {
-    const columnasConvenio = todasLasKeys.filter(k => k.toLowerCase().includes('convenio'));
-    if (columnasConvenio.length > 0) {
-      console.log(`⚠️ No se encontró columna Convenio con valor. Columnas relacionadas encontradas: ${columnasConvenio.join(', ')}`);
-      columnasConvenio.forEach(col => {
-        console.log(`   "${col}" = "${row[col]}" (vacío: ${!cleanString(row[col])})`);
-      });
-    } else {
-      console.log(`⚠️ No se encontró columna Convenio. Columnas disponibles: ${todasLasKeys.slice(0, 15).join(', ')}...`);
-    }
-  }
-  return null;
-}
-
-// Helper para buscar columna "Peso GRD Medio (Todos)" - SOLO esta columna exacta
-function findPesoGRDMedioTodos(row: RawRow): number | null {
-  const todasLasKeys = Object.keys(row);
-  const episodioCmdb = cleanString(row['Episodio CMBD']);
-  
-  console.log(`🔍 [findPesoGRDMedioTodos] Buscando EXACTAMENTE "Peso GRD Medio (Todos)" para episodio: ${episodioCmdb}`);
-  
-  // PRIMERO: Buscar nombre exacto (case-sensitive primero)
-  if ('Peso GRD Medio (Todos)' in row) {
-    const value = row['Peso GRD Medio (Todos)'];
-    console.log(`   ✅ ENCONTRADO (exacto case-sensitive): "Peso GRD Medio (Todos)" = "${value}"`);
-    if (isNumeric(value)) {
-      const numValue = parseFloat(String(value));
-      if (!isNaN(numValue) && isFinite(numValue)) {
-        console.log(`   ✅ VALOR: ${numValue}`);
-        return numValue;
-      }
-    }
-  }
-  
-  // SEGUNDO: Buscar con normalización estricta (solo variaciones de espacios y case)
-  for (const key of todasLasKeys) {
-    if (key) {
-      // Normalizar: quitar espacios extra, pero mantener la estructura
-      const normalized = key.trim().replace(/\s+/g, ' ');
-      // Comparar normalizado (case-insensitive) pero estructura exacta
-      const targetNormalized = 'Peso GRD Medio (Todos)'.trim().replace(/\s+/g, ' ');
-      
-      if (normalized.toLowerCase() === targetNormalized.toLowerCase()) {
-        const value = row[key];
-        console.log(`   ✅ ENCONTRADO (normalizado): "${key}" = "${value}"`);
-        if (isNumeric(value)) {
-          const numValue = parseFloat(String(value));
-          if (!isNaN(numValue) && isFinite(numValue)) {
-            console.log(`   ✅ VALOR: ${numValue}`);
-            return numValue;
-          }
-        }
-      }
-    }
-  }
-  
-  // Mostrar TODAS las columnas que contienen "peso" o "grd" para debugging
-  const columnasPeso = todasLasKeys.filter(k => {
-    const normalized = k.toLowerCase().trim();
-    return normalized.includes('peso') || normalized.includes('grd');
-  });
-  
-  console.log(`   ❌ NO se encontró "Peso GRD Medio (Todos)". Columnas relacionadas (${columnasPeso.length}):`);
-  columnasPeso.forEach(col => {
-    const valor = row[col];
-    console.log(`      "${col}" = "${valor}" (numérico: ${isNumeric(valor)})`);
-  });
-  
-  return null;
-}
-
-// ===================================================================
-// =================== ¡MODIFICACIÓN 1: validateRow! ===================
-// ===================================================================
-// Se elimina la validación de GRD. Solo validamos duplicados de Episodio y campos requeridos.
-async function validateRow(row: RawRow, index: number): Promise<boolean> {
-  const requiredFields = ['Episodio CMBD', 'Hospital (Descripción)', 'RUT', 'IR GRD (Código)'];
-  const missing = requiredFields.filter((f) => isEmpty(row[f]));
-  
-  if (missing.length > 0) {
-    console.log(`Fila ${index} rechazada: Campos faltantes: ${missing.join(', ')}`);
-    return false;
-  }
-
-  // Validación de duplicados - convertir a string para asegurar compatibilidad con Prisma
-  const episodioCmdb = cleanString(row['Episodio CMBD']);
-  if (episodioCmdb) {
-    const existing = await prisma.episodio.findFirst({
-      where: { episodioCmdb: episodioCmdb },
-    });
-    if (existing) {
-      console.log(`Fila ${index} rechazada: Duplicado de Episodio CMBD ${episodioCmdb}`);
-      return false;
-    }
-  } else {
-    console.log(`Fila ${index} rechazada: Episodio CMBD está vacío`);
-    return false;
-  }
-  
-  // Validar que el GRD no esté vacío (pero no que exista, eso lo hace processRow)
-  const grdCode = cleanString(row['IR GRD (Código)']);
-  if (!grdCode) {
-    console.log(`Fila ${index} rechazada: IR GRD (Código) está vacío`);
-    return false;
-  }
-
-  if (!isValidDate(row['Fecha Ingreso completa']) || !isValidDate(row['Fecha Completa'])) {
-    console.log(`Fila ${index} rechazada: Fecha inválida`);
-    return false;
-  }
-
-  return true;
-}
-
-// ===================================================================
-// ================== ¡MODIFICACIÓN 2: processRow! ===================
-// ===================================================================
-// Se usa prisma.grd.upsert() para crear el GRD si no existe.
-async function processRow(row: RawRow, rowIndex?: number) {
-  // Log muy visible para confirmar que el código se ejecuta
-  console.log('========================================');
-  console.log(`🔄 PROCESANDO FILA ${rowIndex || '?'} - Episodio: ${row['Episodio CMBD']}`);
-  console.log('========================================');
-  
-  const rut = cleanString(row['RUT']);
-  const nombre = cleanString(row['Nombre']);
-  const grdCode = cleanString(row['IR GRD (Código)'])!;
-
-  // 1. Crea o actualiza el Paciente (Upsert)
-  const paciente = await prisma.paciente.upsert({
-    where: { rut: rut || 'SIN-RUT' },
-    update: {
-      nombre,
-      sexo: cleanString(row['Sexo  (Desc)']) || cleanString(row['Sexo (Desc)']), // Cuidado con dobles espacios
-      edad: isNumeric(row['Edad en años']) ? Number(row['Edad en años']) : null,
-    },
-    create: {
-      rut: rut || 'SIN-RUT',
-      nombre,
-      sexo: cleanString(row['Sexo  (Desc)']) || cleanString(row['Sexo (Desc)']),
-      edad: isNumeric(row['Edad en años']) ? Number(row['Edad en años']) : null,
-    },
-  });
-
-  // 2. ¡NUEVO! Crea o actualiza el GRD (Upsert)
-  const grdRule = await prisma.grd.upsert({
-    where: { codigo: grdCode },
-    // Si ya existe, actualiza sus datos con los de esta fila
-    update: {
-      // Usamos el nombre de columna que vimos en la imagen/frontend
-      peso: isNumeric(row['Peso Medio [Norma IR]'])
-        ? parseFloat(row['Peso Medio [Norma IR]'])
-        : undefined,
-      // Aquí puedes agregar más campos si los tienes, ej:
-      // precioBaseTramo: isNumeric(row['Precio Base']) ? parseFloat(row['Precio Base']) : undefined,
-    },
-    // Si no existe, créalo
-    create: {
-      codigo: grdCode,
-      // Usamos el motivo de egreso como descripción, o un placeholder
-      descripcion: cleanString(row['Motivo Egreso (Descripción)']) || `GRD ${grdCode}`,
-      peso: isNumeric(row['Peso Medio [Norma IR]'])
-        ? parseFloat(row['Peso Medio [Norma IR]'])
-        : undefined,
-    },
-  });
-
-  // 3. Crea el Episodio, ahora SÍ podemos vincular el grdId
-  // Buscar columna "Convenio" de manera flexible
-  // Log detallado ANTES de buscar para ver qué columnas tiene el row
-  const todasLasKeys = Object.keys(row);
-  const keysConvenio = todasLasKeys.filter(k => k.toLowerCase().includes('convenio'));
-  if (keysConvenio.length > 0) {
-    console.log(`🔍 Buscando Convenio para episodio ${cleanString(row['Episodio CMBD'])}:`);
-    keysConvenio.forEach(k => {
-      const valor = row[k];
-      console.log(`   Columna: "${k}" = "${valor}" (tipo: ${typeof valor}, vacío: ${!cleanString(valor)})`);
-    });
-  }
-  
-  const convenioValue = findConvenioValue(row);
-  if (convenioValue) {
-    console.log(`💾 ✅ Guardando Convenio para episodio ${cleanString(row['Episodio CMBD'])}: "${convenioValue}"`);
-  } else {
-    // Log detallado si no se encuentra
-    console.log(`⚠️ ❌ No se encontró Convenio para episodio ${cleanString(row['Episodio CMBD'])} - se guardará como cadena vacía`);
-    if (keysConvenio.length > 0) {
-      console.log(`   Columnas relacionadas encontradas pero sin valor:`, keysConvenio);
-      keysConvenio.forEach(k => {
-        console.log(`     "${k}" = "${row[k]}" (raw: ${JSON.stringify(row[k])})`);
-      });
-    } else {
-      console.log(`   No se encontraron columnas relacionadas con "convenio" en el row`);
-      console.log(`   Primeras 20 columnas del row:`, todasLasKeys.slice(0, 20));
-    }
-  }
-
-  // Preparar el valor de convenio - SIEMPRE debe ser string (nunca null)
-  // Si convenioValue es null, usar cadena vacía; si es cadena vacía, mantenerla; si tiene valor, limpiarlo
-  let convenioFinal = '';
-  if (convenioValue !== null && convenioValue !== undefined) {
-    if (typeof convenioValue === 'string' && convenioValue.trim() === '') {
-      convenioFinal = ''; // Mantener cadena vacía explícita
-    } else {
-      const cleaned = cleanString(convenioValue);
-      convenioFinal = cleaned || ''; // Si cleanString devuelve null, usar cadena vacía
-    }
-  }
-  console.log(`🔧 Convenio final preparado: "${convenioFinal}" (tipo: ${typeof convenioFinal}, original: "${convenioValue}")`);
-
-  // Construir el objeto de datos - convenio se trata igual que cualquier otro campo
-  const episodioData: any = {
-    centro: cleanString(row['Hospital (Descripción)']),
-    numeroFolio: cleanString(row['ID Derivación']),
-    episodioCmdb: cleanString(row['Episodio CMBD']),
-    tipoEpisodio: cleanString(row['Tipo Actividad']) || '',
-    fechaIngreso: new Date(row['Fecha Ingreso completa']),
-    fechaAlta: new Date(row['Fecha Completa']),
-    servicioAlta: cleanString(row['Servicio Egreso (Descripción)']) || '',
-    montoRn: isNumeric(row['Facturación Total del episodio'])
-      ? parseFloat(row['Facturación Total del episodio'])
-      : 0,
-    // Mapear pesoGrd SOLO desde "Peso GRD Medio (Todos)" - sin validaciones, sin fallbacks
-    pesoGrd: (() => {
-      const episodioCmdb = cleanString(row['Episodio CMBD']);
-      
-      // PRIMERO: Intentar nombre exacto
-      if ('Peso GRD Medio (Todos)' in row) {
-        const value = row['Peso GRD Medio (Todos)'];
-        console.log(`📊 [MAPEO pesoGrd] Episodio ${episodioCmdb}: Columna exacta "Peso GRD Medio (Todos)" = "${value}"`);
-        if (isNumeric(value)) {
-          const numValue = parseFloat(String(value));
-          if (!isNaN(numValue) && isFinite(numValue)) {
-            console.log(`   ✅ Usando valor: ${numValue}`);
-            return numValue;
-          }
-        }
-      }
-      
-      // SEGUNDO: Búsqueda flexible
-      console.log(`📊 [MAPEO pesoGrd] Episodio ${episodioCmdb}: No se encontró nombre exacto, buscando flexible...`);
-      const pesoGRD = findPesoGRDMedioTodos(row);
-      
-      if (pesoGRD !== null) {
-        console.log(`   ✅ Valor encontrado (flexible): ${pesoGRD}`);
-        return pesoGRD;
-      }
-      
-      console.log(`   ❌ NO se encontró "Peso GRD Medio (Todos)" para episodio ${episodioCmdb}. Retornando null.`);
-      return null;
-    })(),
-    // inlierOutlier se calculará automáticamente después, NO usar el valor del archivo maestro
-    diasEstada: (() => {
-      // Calcular días de estadía desde las fechas del archivo maestro
-      const fechaIngreso = new Date(row['Fecha Ingreso completa']);
-      const fechaAlta = new Date(row['Fecha Completa']);
-      const diasEstada = Math.round((fechaAlta.getTime() - fechaIngreso.getTime()) / 86400000);
-      return diasEstada >= 0 ? diasEstada : null;
-    })(),
-    // Convenio es un campo requerido - SIEMPRE debe ser string (nunca null)
-    // Misma lógica que tipoEpisodio: siempre string, cadena vacía si no hay valor
-    convenio: convenioFinal,
-    // Vinculamos las entidades
-    pacienteId: paciente.id,
-    grdId: grdRule.id,
-  };
-
-  // ===========================
-  // Calcular precioBaseTramo
-  // ===========================
-  let precioBaseTramoCalculado: number | null = null;
-  const pesoParaCalculo =
-    episodioData.pesoGrd !== undefined && episodioData.pesoGrd !== null
-      ? Number(episodioData.pesoGrd)
-      : null;
-
-  if (convenioFinal && pesoParaCalculo !== null) {
-    try {
-      precioBaseTramoCalculado = await obtenerPrecioBaseTramo(convenioFinal, pesoParaCalculo);
-      if (precioBaseTramoCalculado !== null) {
-        episodioData.precioBaseTramo = precioBaseTramoCalculado;
-        console.log(
-          `💰 Precio base calculado para episodio ${episodioData.episodioCmdb}: ${precioBaseTramoCalculado} (convenio: ${convenioFinal}, peso: ${pesoParaCalculo})`
-        );
-      } else {
-        console.warn(
-          `⚠️ No se pudo calcular precio base para episodio ${episodioData.episodioCmdb} (convenio: ${convenioFinal}, peso: ${pesoParaCalculo})`
-        );
-      }
-    } catch (err) {
-      console.error(
-        `❌ Error calculando precioBaseTramo para episodio ${episodioData.episodioCmdb}:`,
-        (err as any)?.message || err
-      );
-    }
-  }
-
-  // Log detallado para debug
-  console.log(`💾 Datos del episodio antes de crear:`, {
-    episodioCmdb: episodioData.episodioCmdb,
-    convenio: episodioData.convenio,
-    convenioValue: convenioValue,
-    tipoConvenio: typeof episodioData.convenio,
-    tieneConvenio: 'convenio' in episodioData,
-    todasLasKeys: Object.keys(episodioData),
-    // Verificar que convenio esté presente y sea string
-    convenioEnData: episodioData.convenio,
-    convenioEsString: typeof episodioData.convenio === 'string',
-    convenioLength: episodioData.convenio?.length,
-    precioBaseTramo: episodioData.precioBaseTramo ?? null,
-  });
-
-  // Verificar explícitamente que convenio esté en el objeto antes de crear
-  if (!('convenio' in episodioData)) {
-    console.error(`❌ ERROR: convenio NO está en episodioData antes de crear!`);
-    episodioData.convenio = ''; // Forzar que esté presente
-  }
-  if (typeof episodioData.convenio !== 'string') {
-    console.error(`❌ ERROR: convenio no es string, es ${typeof episodioData.convenio}. Convirtiendo...`);
-    episodioData.convenio = String(episodioData.convenio || '');
-  }
-
-  // Calcular inlier/outlier automáticamente ANTES de crear el episodio
-  // NO usar el valor del archivo maestro, calcularlo basándose en días de estadía vs punto corte del GRD
-  let inlierOutlierCalculado: string | null = null;
-  const diasEstadaCalculados = episodioData.diasEstada;
-  
-  if (grdRule && diasEstadaCalculados !== null && diasEstadaCalculados !== undefined) {
-    const puntoCorteInf = grdRule.puntoCorteInf ? Number(grdRule.puntoCorteInf) : null;
-    const puntoCorteSup = grdRule.puntoCorteSup ? Number(grdRule.puntoCorteSup) : null;
-    
-    inlierOutlierCalculado = calcularInlierOutlier(diasEstadaCalculados, puntoCorteInf, puntoCorteSup);
-    
-    console.log(`📊 Inlier/Outlier calculado automáticamente: ${inlierOutlierCalculado} (días: ${diasEstadaCalculados}, puntoInf: ${puntoCorteInf}, puntoSup: ${puntoCorteSup})`);
-  }
-  
-  // Agregar inlierOutlier calculado al objeto de datos
-  if (inlierOutlierCalculado !== null) {
-    episodioData.inlierOutlier = inlierOutlierCalculado;
-  }
-
-  const episodioCreado = await prisma.episodio.create({
-    data: episodioData,
-    include: {
-      paciente: true,
-      grd: true,
-    },
-  });
-  
-  // Log detallado del episodio creado
-  console.log(`📦 Episodio creado - ID: ${episodioCreado.id}, Episodio: ${episodioCreado.episodioCmdb}`);
-  console.log(`   Convenio en objeto creado: "${episodioCreado.convenio || 'null/undefined'}"`);
-  console.log(`   Precio base tramo guardado: ${episodioCreado.precioBaseTramo ?? 'null'}`);
-  console.log(`   Inlier/Outlier calculado: ${episodioCreado.inlierOutlier ?? 'null'}`);
-  console.log(`   ⚠️ pesoGrd guardado en BD: ${episodioCreado.pesoGrd ?? 'null'} (tipo: ${typeof episodioCreado.pesoGrd})`);
-  console.log(`   ⚠️ peso en Grd: ${episodioCreado.grd?.peso ?? 'null'} (tipo: ${typeof episodioCreado.grd?.peso})`);
-  
-  // Verificar qué valor se usó del archivo maestro
-  const pesoGRDEnArchivo = findPesoGRDMedioTodos(row);
-  const pesoMedioNormaEnArchivo = isNumeric(row['Peso Medio [Norma IR]']) ? parseFloat(row['Peso Medio [Norma IR]']) : null;
-  console.log(`   📊 VALORES EN ARCHIVO MAESTRO:`);
-  console.log(`      - "Peso GRD Medio (Todos)": ${pesoGRDEnArchivo ?? 'NO ENCONTRADO'}`);
-  console.log(`      - "Peso Medio [Norma IR]": ${pesoMedioNormaEnArchivo ?? 'NO ENCONTRADO'}`);
-  console.log(`   📊 VALORES GUARDADOS EN BD:`);
-  console.log(`      - episodio.pesoGrd: ${episodioCreado.pesoGrd ?? 'null'}`);
-  console.log(`      - grd.peso: ${episodioCreado.grd?.peso ?? 'null'}`);
-  
-  return episodioCreado;
-}
-
-// Endpoint de importación de episodios (formato esperado por el frontend)
+// Endpoint de importación de episodios: guarda el archivo y crea un ImportJob que se
+// procesa en segundo plano. El progreso se consulta con GET /api/imports/:id
+// modo=merge (o replace=true) actualiza los episodios existentes; nunca se borran episodios.
+// Acepta los mismos parámetros que /api/upload (perfil, modo, formatoFecha).
 router.post('/episodios/import', requireAuth, upload.single('file'), async (req: Request, res: Response) => {
   console.log('📥 ========== INICIO IMPORTACIÓN ==========');
   console.log('📁 Archivo recibido:', req.file?.originalname, 'Tamaño:', req.file?.size, 'bytes');
-  
-  const errorRecords: any[] = [];
-  const validRecords: RawRow[] = [];
 
   try {
     if (!req.file) {
@@ -2941,218 +2502,37 @@ router.post('/episodios/import', requireAuth, upload.single('file'), async (req:
       return res.status(400).json({ error: 'No se proporcionó ningún archivo' });
     }
 
-    const replace = req.body.replace === 'true';
-    if (replace) {
-      console.log('REEMPLAZANDO DATOS: Eliminando episodios anteriores...');
-      // ¡CUIDADO! Esto borra todo.
-      // Para evitar borrar en cascada Pacientes o Grds (si están enlazados),
-      // es más seguro borrar solo los episodios.
-      await prisma.episodio.deleteMany({});
-      // Si quisieras borrar todo:
-      // await prisma.episodio.deleteMany({});
-      // await prisma.paciente.deleteMany({});
-      // await prisma.grd.deleteMany({}); // <-- No recomendado si quieres mantener el catálogo
-    }
-
-    const fileBuffer = req.file.buffer;
-    const ext = path.extname(req.file.originalname).toLowerCase();
-
-    let data: RawRow[] = [];
-
-    // Parsear archivo desde el buffer de memoria
-    if (ext === '.csv') {
-      await new Promise<void>((resolve, reject) => {
-        Readable.from(fileBuffer)
-          .pipe(csv())
-          .on('data', (row) => data.push(row as RawRow))
-          .on('end', resolve)
-          .on('error', reject);
-      });
-    } else {
-      const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      data = XLSX.utils.sheet_to_json(worksheet) as RawRow[];
-      
-      // Log para debug: verificar columnas del archivo
-      if (data.length > 0) {
-        const firstRow = data[0];
-        const columnas = Object.keys(firstRow);
-        console.log('📊 Columnas encontradas en el archivo (primeras 20):', columnas.slice(0, 20));
-        
-        // Buscar todas las columnas relacionadas con convenio
-        const columnasConvenio = columnas.filter(c => {
-          const normalized = c.toLowerCase().trim();
-          return normalized.includes('convenio') || normalized.includes('convenios');
-        });
-        
-        if (columnasConvenio.length > 0) {
-          console.log(`✅ Columnas Convenio encontradas (${columnasConvenio.length}):`, columnasConvenio);
-          columnasConvenio.forEach(col => {
-            console.log(`   "${col}" = "${firstRow[col]}" (tipo: ${typeof firstRow[col]})`);
-          });
-          
-          // Verificar que findConvenioValue la encuentre
-          const testValue = findConvenioValue(firstRow);
-          console.log(`   Test findConvenioValue: "${testValue}"`);
-          
-          if (!testValue) {
-            console.log('⚠️ findConvenioValue NO encontró el valor, pero la columna existe!');
-            console.log('   Revisando manualmente...');
-            columnasConvenio.forEach(col => {
-              const value = cleanString(firstRow[col]);
-              if (value) {
-                console.log(`   💡 Valor encontrado manualmente en "${col}": "${value}"`);
-              }
-            });
-          }
-        } else {
-          console.log('⚠️ No se encontró columna Convenio en el archivo');
-          console.log('   Buscando manualmente en todas las columnas...');
-          columnas.forEach(col => {
-            if (col.toLowerCase().includes('conven') || col.toLowerCase().includes('cod')) {
-              console.log(`   Columna relacionada encontrada: "${col}" = "${firstRow[col]}"`);
-            }
-          });
-        }
-      }
-    }
-
-    // Validar y procesar filas
-    let index = 0;
-    const createdEpisodes: any[] = [];
-    
-    for (const row of data) {
-      index++;
-      // Usamos el validateRow modificado
-      const isValid = await validateRow(row, index); 
-      if (isValid) {
-        validRecords.push(row);
-        try {
-          // Usamos el processRow modificado (pasar el índice para logs)
-          const episode = await processRow(row, index);
-          createdEpisodes.push(episode);
-        } catch (err: any) {
-          console.error(`Error procesando fila ${index}:`, err.message);
-          errorRecords.push({
-            fila: index,
-            error: err.message || 'Error al procesar fila',
-          });
-        }
-      } else {
-        // El error ya se logueó en validateRow
-        errorRecords.push({
-          fila: index,
-          error: 'Fila inválida o duplicada (ver logs del servidor para detalle)',
-        });
-      }
-    }
-
-    // Helper para convertir Decimal a Number
-    const toNumber = (value: any): number => {
-      if (value === null || value === undefined) return 0;
-      if (typeof value === 'number') return value;
-      if (typeof value === 'string') return parseFloat(value) || 0;
-      if (value && typeof value.toNumber === 'function') return value.toNumber();
-      return 0;
-    };
-
-    // Log para verificar los episodios antes de mapear
-    if (createdEpisodes.length > 0) {
-      const primerEpisodio = createdEpisodes[0];
-      console.log(`🔍 Antes de mapear respuesta - Primer episodio:`, {
-        id: primerEpisodio.id,
-        episodioCmdb: primerEpisodio.episodioCmdb,
-        convenio: primerEpisodio.convenio,
-        tieneConvenio: 'convenio' in primerEpisodio,
-        tipoConvenio: typeof primerEpisodio.convenio,
-        todasLasKeys: Object.keys(primerEpisodio).slice(0, 15)
-      });
-    }
-
-    // Formato de respuesta esperado por el frontend
-    const response = {
-      summary: {
-        total: data.length,
-        valid: createdEpisodes.length,
-        errors: errorRecords.length,
-      },
-      episodes: createdEpisodes.map((e, idx) => {
-        // Asegurar que convenio siempre esté presente - misma lógica que tipoEpisodio
-        // Usar cadena vacía en lugar de null para consistencia
-        const convenioValue = (e.convenio !== undefined && e.convenio !== null && e.convenio !== '') 
-          ? String(e.convenio).trim() 
-          : '';
-        
-        // Log para los primeros 3 episodios
-        if (idx < 3) {
-          console.log(`🔄 Mapeando episodio ${idx + 1}:`, {
-            id: e.id,
-            episodioCmdb: e.episodioCmdb,
-            convenioEnObjeto: e.convenio,
-            tieneConvenio: 'convenio' in e,
-            tipoConvenio: typeof e.convenio,
-            convenioValue: convenioValue,
-            todasLasKeys: Object.keys(e).slice(0, 20)
-          });
-        }
-        
-        // Usar normalizeEpisodeResponse para calcular inlierOutlier y otros campos calculados
-        const normalized = normalizeEpisodeResponse(e);
-        
-        // Construir el objeto mapeado asegurando que convenio siempre esté presente
-        const mapped: any = {
-          episodio: e.episodioCmdb || '',
-          nombre: e.paciente?.nombre || '',
-          rut: e.paciente?.rut || '',
-          centro: e.centro || '',
-          folio: e.numeroFolio || '',
-          tipoEpisodio: e.tipoEpisodio || '',
-          fechaIngreso: e.fechaIngreso ? e.fechaIngreso.toISOString().split('T')[0] : '',
-          // ===================================================================
-          // ======================= ¡AQUÍ ESTÁ LA CORRECCIÓN! =================
-          // ===================================================================
-          fechaAlta: e.fechaAlta ? e.fechaAlta.toISOString().split('T')[0] : '', // <-- ANTES DECÍA [MAIN]
-          servicioAlta: e.servicioAlta || '',
-          grdCodigo: e.grd?.codigo || '',
-          peso: normalized.peso || null, // "Peso Medio [Norma IR]" - viene del modelo Grd
-          pesoGrd: normalized.pesoGrd || null, // "Peso GRD Medio (Todos)" - viene del modelo Episodio
-          montoRN: toNumber(e.montoRn),
-          inlierOutlier: normalized.inlierOutlier, // Campo calculado automáticamente: "Outlier Superior" o "Inlier"
-          enNorma: normalized.enNorma || null, // Campo calculado: "Si" si es Inlier, "No" si es Outlier, null si inlierOutlier está vacío
-          id: e.id, // Incluir ID para poder editar después
-        };
-        
-        // Asegurar que convenio siempre esté presente - misma lógica que tipoEpisodio
-        mapped.convenio = convenioValue || ''; // Convenio bajo el cual se calcula el episodio - siempre incluido
-        
-        // Verificar que convenio esté en el objeto mapeado
-        if (idx === 0) {
-          console.log(`✅ Objeto mapeado - tiene convenio: ${'convenio' in mapped}, valor: "${mapped.convenio}"`);
-          console.log(`   Keys del objeto mapeado:`, Object.keys(mapped));
-        }
-        
-        return mapped;
-      }),
-      // Opcional: enviar los primeros 50 errores al frontend
-      errorDetails: errorRecords.slice(0, 50),
-    };
+    const resultado = await resolverOpcionesImportacion({
+      perfil: req.body.perfil ?? req.query.perfil,
+      modo: req.body.modo ?? req.query.modo,
+      replace: req.body.replace,
+      formatoFecha: req.body.formatoFecha ?? req.query.formatoFecha,
+    });
+    if ('error' in resultado) {
+      fs.unlinkSync(req.file.path);
+      return res.status(400).json(resultado);
+    }
+
+    const job = await crearImportJob({
+      tipo: 'EPISODIOS_IMPORT',
+      archivoNombre: req.file.originalname,
+      archivoRuta: req.file.path,
+      archivoTamano: req.file.size,
+      usuarioId: req.user?.id ? parseInt(req.user.id) : null,
+      rol: req.user?.role ?? null,
+      opciones: opcionesJob(resultado.opciones),
+    });
 
-    // Log para verificar la respuesta final
-    if (response.episodes.length > 0) {
-      const primerEpisodioRespuesta = response.episodes[0];
-      console.log(`📤 Respuesta final - Primer episodio:`, {
-        episodio: primerEpisodioRespuesta.episodio,
-        convenio: primerEpisodioRespuesta.convenio,
-        tieneConvenio: 'convenio' in primerEpisodioRespuesta,
-        todasLasKeys: Object.keys(primerEpisodioRespuesta)
-      });
-    }
+    ejecutarImportJob(job.id).catch((err) => {
+      console.error(`❌ Error ejecutando import job ${job.id}:`, err);
+    });
 
-    return res.status(200).json(response);
+    return res.status(202).json(formatearImportJob(job));
   } catch (error: any) {
     console.error('Error al importar episodios:', error);
-    console.error('Stack:', error?.stack);
+    if (req.file?.path && fs.existsSync(req.file.path)) {
+      try { fs.unlinkSync(req.file.path); } catch (_) {}
+    }
     return res.status(500).json({
       error: 'Error interno del servidor',
       message: error?.message || 'Error procesando archivo',
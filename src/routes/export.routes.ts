@@ -4,6 +4,9 @@ import { requireAuth } from '../middlewares/auth';
 import { prisma } from '../db/client';
 import type { Prisma } from '@prisma/client';
 import { logFileDownload } from '../utils/logger';
+import { liquidarEpisodio, crearCacheLiquidacion, overridesGuardados, toNumber } from '../services/liquidacion.service';
+import { obtenerSnapshotsVigentes } from '../services/snapshot.service';
+import { parsearFiltroEstados, ESTADOS_EPISODIO } from '../services/episodio-workflow.service';
 
 const router = Router();
 
@@ -24,59 +27,24 @@ const toExcelDate = (d: string | Date | null | undefined): string => {
   return dt.toISOString().slice(0, 10);
 };
 
-const getDiasEstada = (fechaIngreso: Date | null | undefined, fechaAlta: Date | null | undefined): number => {
-  if (!fechaIngreso || !fechaAlta) return 0;
-  const diff = Math.round((fechaAlta.getTime() - fechaIngreso.getTime()) / 86400000);
-  return diff >= 0 ? diff : 0;
-};
-
-function calcularValores(episodio: any): any {
-  const { grd } = episodio;
-  if (!grd) {
-    return {
-      diasEstada: getDiasEstada(episodio.fechaIngreso, episodio.fechaAlta),
-      inlierOutlier: 'SIN GRD',
-      precioBaseTramo: 0,
-      valorGrd: 0,
-      montoFinal: 0,
-    };
-  }
-
-  const diasEstada = getDiasEstada(episodio.fechaIngreso, episodio.fechaAlta);
-  const { peso = 0, precioBaseTramo = 0, puntoCorteInf = 0, puntoCorteSup = 0 } = grd as any;
-
-  let inlierOutlier = 'Inlier';
-  if (diasEstada > (puntoCorteSup as number)) {
-    inlierOutlier = 'Outlier Superior';
-  } else if (diasEstada < (puntoCorteInf as number)) {
-    inlierOutlier = 'Outlier Inferior';
-  }
-
-  const valorGrd = (peso as number) * (precioBaseTramo as number);
-  const montoFinal =
-    (valorGrd || 0) +
-    (episodio.montoAt as number || 0) +
-    (episodio.pagoDemoraRescate as number || 0) +
-    (episodio.pagoOutlierSuperior as number || 0);
-
-  return {
-    diasEstada,
-    inlierOutlier,
-    precioBaseTramo: precioBaseTramo as number,
-    valorGrd,
-    montoFinal,
-  };
-}
-
 // ================== RUTA DE EXPORTACIÓN ==================
 router.get('/export', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { desde, hasta, centro, filtros } = req.query;
-    console.log('📤 Iniciando exportación con filtros:', { filtros, desde, hasta, centro });
+    const { desde, hasta, centro, filtros, estado } = req.query;
+    console.log('📤 Iniciando exportación con filtros:', { filtros, estado, desde, hasta, centro });
 
     const where: Prisma.EpisodioWhereInput = {};
 
-    // --- Filtros de estado ---
+    // --- Filtro por estado del flujo de trabajo (?estado=APROBADO_FINANZAS,EXPORTADO) ---
+    const filtroEstado = parsearFiltroEstados(estado);
+    if (filtroEstado.invalidos.length > 0) {
+      return res.status(400).json({
+        message: `Estados inválidos: ${filtroEstado.invalidos.join(', ')}. Use: ${ESTADOS_EPISODIO.join(', ')}`,
+      });
+    }
+    if (filtroEstado.estados) where.estado = { in: filtroEstado.estados };
+
+    // --- Filtros de validación ---
     if (typeof filtros === 'string' && filtros.length > 0) {
       const filtrosArray = filtros.split(',');
       const whereValidado: Prisma.EpisodioWhereInput[] = [];
@@ -86,9 +54,9 @@ router.get('/export', requireAuth, async (req: Request, res: Response) => {
       if (filtrosArray.includes('pendientes')) whereValidado.push({ validado: null });
 
       if (whereValidado.length > 0) where.OR = whereValidado;
-    } else {
+    } else if (!filtroEstado.estados) {
       console.warn('Exportación detenida: No se seleccionaron filtros de estado.');
-      return res.status(400).json({ message: 'Debe seleccionar al menos un filtro de estado (Aprobados, Rechazados o Pendientes)' });
+      return res.status(400).json({ message: 'Debe seleccionar al menos un filtro de estado (Aprobados, Rechazados o Pendientes) o un estado del flujo' });
     }
 
     // --- Filtros de fecha y centro ---
@@ -113,8 +81,41 @@ router.get('/export', requireAuth, async (req: Request, res: Response) => {
     }
 
     // --- Transformar datos ---
-    const rows = episodiosDB.map((e) => {
-      const calculos = calcularValores(e);
+    // Episodios aprobados: montos congelados en su snapshot de aprobación.
+    // Resto: mismo motor de liquidación que usan PATCH y el repricing, con las ediciones manuales guardadas
+    const snapshots = await obtenerSnapshotsVigentes(
+      episodiosDB.filter((e) => e.validado === true).map((e) => e.id)
+    );
+    const cache = crearCacheLiquidacion();
+    const liquidaciones = await Promise.all(
+      episodiosDB.map((e) => (snapshots.has(e.id) ? null : liquidarEpisodio(e, { ...overridesGuardados(e), cache })))
+    );
+
+    const rows = episodiosDB.map((e, idx): any => {
+      const snapshot = snapshots.get(e.id);
+      const liquidacion = liquidaciones[idx];
+      const calculos = snapshot
+        ? {
+            diasEstada: snapshot.diasEstada ?? 0,
+            inlierOutlier: e.grd ? snapshot.inlierOutlier : 'SIN GRD',
+            precioBaseTramo: toNumber(snapshot.precioBaseTramo) ?? 0,
+            valorGrd: toNumber(snapshot.valorGrd) ?? 0,
+            montoAt: toNumber(snapshot.montoAt) ?? 0,
+            pagoDemoraRescate: toNumber(snapshot.pagoDemoraRescate) ?? 0,
+            pagoOutlierSuperior: toNumber(snapshot.pagoOutlierSuperior) ?? 0,
+            montoFinal: toNumber(snapshot.montoFinal) ?? 0,
+            engineVersion: snapshot.engineVersion,
+          }
+        : {
+            diasEstada: liquidacion!.diasEstada ?? 0,
+            inlierOutlier: e.grd ? liquidacion!.inlierOutlier : 'SIN GRD',
+            precioBaseTramo: liquidacion!.precioBaseTramo ?? 0,
+            valorGrd: liquidacion!.valorGrd,
+            pagoDemoraRescate: liquidacion!.pagoDemoraRescate,
+            pagoOutlierSuperior: liquidacion!.pagoOutlierSuperior,
+            montoFinal: liquidacion!.montoFinal,
+            engineVersion: liquidacion!.engineVersion,
+          };
       let estadoValidado = 'Pendiente';
       if (e.validado === true) estadoValidado = 'Aprobado';
       else if (e.validado === false) estadoValidado = 'Rechazado';
@@ -228,6 +229,7 @@ router.get('/export/info', (_req: Request, res: Response) => {
     authentication: 'Requiere autenticación',
     parameters: {
       filtros: { type: 'string', format: 'validados,pendientes,no-validados' },
+      estado: { type: 'string', format: ESTADOS_EPISODIO.join(',') },
       desde: { type: 'string', format: 'YYYY-MM-DD' },
       hasta: { type: 'string', format: 'YYYY-MM-DD' },
       centro: { type: 'string' },
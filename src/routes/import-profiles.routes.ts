@@ -0,0 +1,213 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import type { ImportProfile } from '@prisma/client';
+import { requireAuth, requireRole } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { logAdminAction } from '../utils/logger';
+import { CAMPOS_ARCHIVO_MAESTRO } from '../services/import-columnas.service';
+import { CAMPOS_PERFIL } from '../services/import-perfiles.service';
+import { validarFormatoFecha } from '../services/import-fechas.service';
+
+const router = Router();
+
+// { campo: ["Encabezado", ...] } (también acepta un solo encabezado como string)
+const columnasSchema = Joi.object().pattern(
+  Joi.string().valid(...CAMPOS_PERFIL),
+  Joi.array().items(Joi.string().min(1)).min(1).single()
+);
+
+const createProfileSchema = Joi.object({
+  nombre: Joi.string().trim().min(1).max(100).required(),
+  descripcion: Joi.string().trim().optional().allow(null, ''),
+  columnas: columnasSchema.default({}),
+  formatoFecha: Joi.string().trim().max(30).optional().allow(null),
+  separadorDecimal: Joi.string().valid('.', ',').default('.'),
+  hoja: Joi.string().trim().max(100).optional().allow(null),
+  filaEncabezado: Joi.number().integer().min(1).default(1),
+  activo: Joi.boolean().default(true),
+});
+
+const updateProfileSchema = Joi.object({
+  nombre: Joi.string().trim().min(1).max(100),
+  descripcion: Joi.string().trim().allow(null, ''),
+  columnas: columnasSchema,
+  formatoFecha: Joi.string().trim().max(30).allow(null),
+  separadorDecimal: Joi.string().valid('.', ','),
+  hoja: Joi.string().trim().max(100).allow(null),
+  filaEncabezado: Joi.number().integer().min(1),
+  activo: Joi.boolean(),
+}).min(1);
+
+function formatearPerfil(perfil: ImportProfile) {
+  return {
+    ...perfil,
+    createdAt: perfil.createdAt.toISOString(),
+    updatedAt: perfil.updatedAt.toISOString(),
+  };
+}
+
+function perfilNoEncontrado(res: Response, id: string) {
+  return res.status(404).json({
+    error: 'Perfil de importación no encontrado',
+    message: `No se encontró un perfil de importación con id: ${id}`,
+  });
+}
+
+// GET /api/import-profiles - Perfiles de importación (?todos=true incluye los inactivos)
+router.get('/import-profiles', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const perfiles = await prisma.importProfile.findMany({
+      where: req.query.todos === 'true' ? {} : { activo: true },
+      orderBy: { nombre: 'asc' },
+    });
+    res.json(perfiles.map(formatearPerfil));
+  } catch (error: any) {
+    console.error('Error al listar perfiles de importación:', error);
+    res.status(500).json({
+      error: 'Error al listar perfiles de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/import-profiles/campos - Campos mapeables y sus encabezados predeterminados
+router.get('/import-profiles/campos', requireAuth, async (_req: Request, res: Response) => {
+  res.json(
+    CAMPOS_ARCHIVO_MAESTRO.map((c) => ({
+      campo: c.campo,
+      requerido: c.requerido ?? false,
+      columnasPredeterminadas: c.columnas,
+    }))
+  );
+});
+
+// GET /api/import-profiles/:id - Detalle de un perfil
+router.get('/import-profiles/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const perfil = isNaN(id) ? null : await prisma.importProfile.findUnique({ where: { id } });
+    if (!perfil) return perfilNoEncontrado(res, req.params.id);
+
+    res.json(formatearPerfil(perfil));
+  } catch (error: any) {
+    console.error('Error al obtener perfil de importación:', error);
+    res.status(500).json({
+      error: 'Error al obtener perfil de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// POST /api/import-profiles - Crear perfil de importación
+router.post('/import-profiles', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createProfileSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const errorFormato = value.formatoFecha ? validarFormatoFecha(value.formatoFecha) : null;
+    if (errorFormato) {
+      return res.status(400).json({ error: 'Error de validación', message: errorFormato });
+    }
+
+    const perfil = await prisma.importProfile.create({
+      data: { ...value, descripcion: value.descripcion || null, formatoFecha: value.formatoFecha || null },
+    });
+
+    await logAdminAction(parseInt(req.user!.id), 'Perfil de importación creado', `Perfil ${perfil.nombre} creado`, {
+      perfilId: perfil.id,
+    });
+
+    res.status(201).json(formatearPerfil(perfil));
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        error: 'Perfil de importación duplicado',
+        message: `Ya existe un perfil de importación con nombre: ${req.body?.nombre}`,
+      });
+    }
+
+    console.error('Error al crear perfil de importación:', error);
+    res.status(500).json({
+      error: 'Error al crear perfil de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// PATCH /api/import-profiles/:id - Actualizar perfil (columnas reemplaza el mapeo completo)
+router.patch('/import-profiles/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { error, value } = updateProfileSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const errorFormato = value.formatoFecha ? validarFormatoFecha(value.formatoFecha) : null;
+    if (errorFormato) {
+      return res.status(400).json({ error: 'Error de validación', message: errorFormato });
+    }
+
+    if (isNaN(id)) return perfilNoEncontrado(res, req.params.id);
+
+    const perfil = await prisma.importProfile.update({ where: { id }, data: value });
+
+    await logAdminAction(parseInt(req.user!.id), 'Perfil de importación actualizado', `Perfil ${perfil.nombre} actualizado`, {
+      perfilId: perfil.id,
+      campos: Object.keys(value),
+    });
+
+    res.json(formatearPerfil(perfil));
+  } catch (error: any) {
+    if (error.code === 'P2025') return perfilNoEncontrado(res, req.params.id);
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        error: 'Perfil de importación duplicado',
+        message: `Ya existe un perfil de importación con nombre: ${req.body?.nombre}`,
+      });
+    }
+
+    console.error('Error al actualizar perfil de importación:', error);
+    res.status(500).json({
+      error: 'Error al actualizar perfil de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// DELETE /api/import-profiles/:id - Eliminar perfil
+router.delete('/import-profiles/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) return perfilNoEncontrado(res, req.params.id);
+
+    const perfil = await prisma.importProfile.delete({ where: { id } });
+
+    await logAdminAction(parseInt(req.user!.id), 'Perfil de importación eliminado', `Perfil ${perfil.nombre} eliminado`, {
+      perfilId: id,
+    });
+
+    res.status(200).json({
+      message: 'Perfil de importación eliminado correctamente',
+      id,
+    });
+  } catch (error: any) {
+    if (error.code === 'P2025') return perfilNoEncontrado(res, req.params.id);
+
+    console.error('Error al eliminar perfil de importación:', error);
+    res.status(500).json({
+      error: 'Error al eliminar perfil de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,266 @@
+import { Router, Request, Response } from 'express';
+import type { ImportJob } from '@prisma/client';
+import { requireAuth, requireRole } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { ejecutarImportJob, formatearImportJob, prepararReanudacion } from '../services/import-job.service';
+import { revertirImportJob } from '../services/import-rollback.service';
+import { normalizarRol } from '../services/episodio-workflow.service';
+import { logAdminAction } from '../utils/logger';
+
+const router = Router();
+
+const ESTADOS_IMPORT_JOB = ['PENDIENTE', 'EN_PROCESO', 'COMPLETADO', 'FALLIDO', 'REVERTIDO'];
+const RESULTADOS_FILA = ['CREADO', 'ACTUALIZADO', 'SIN_CAMBIOS', 'CONFLICTO'];
+
+// Cada usuario ve sus propias importaciones; admin ve todas
+function puedeVerJob(req: Request, job: ImportJob): boolean {
+  if (normalizarRol(req.user?.role) === 'ADMIN') return true;
+  const usuarioId = req.user?.id ? parseInt(req.user.id) : null;
+  return usuarioId !== null && job.usuarioId === usuarioId;
+}
+
+async function buscarJobVisible(req: Request, res: Response): Promise<ImportJob | null> {
+  const id = parseInt(req.params.id, 10);
+  const job = isNaN(id) ? null : await prisma.importJob.findUnique({ where: { id } });
+  if (!job) {
+    res.status(404).json({
+      error: 'Importación no encontrada',
+      message: `No se encontró una importación con id: ${req.params.id}`,
+    });
+    return null;
+  }
+  if (!puedeVerJob(req, job)) {
+    res.status(403).json({ message: 'Acceso denegado' });
+    return null;
+  }
+  return job;
+}
+
+// GET /api/imports - Importaciones del usuario (admin: todas), más recientes primero (?estado=)
+router.get('/imports', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const estado = typeof req.query.estado === 'string' ? req.query.estado.trim().toUpperCase() : '';
+    if (estado && !ESTADOS_IMPORT_JOB.includes(estado)) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: `Estado inválido: ${estado}. Use: ${ESTADOS_IMPORT_JOB.join(', ')}`,
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 20, 100);
+    const esAdmin = normalizarRol(req.user?.role) === 'ADMIN';
+    const where = {
+      ...(esAdmin ? {} : { usuarioId: parseInt(req.user!.id) }),
+      ...(estado ? { estado } : {}),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.importJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.importJob.count({ where }),
+    ]);
+
+    res.json({
+      data: jobs.map(formatearImportJob),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al listar importaciones:', error);
+    res.status(500).json({
+      error: 'Error al listar importaciones',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/imports/:id - Estado y progreso de una importación (filas validadas/guardadas/fallidas)
+router.get('/imports/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const job = await buscarJobVisible(req, res);
+    if (!job) return;
+
+    res.json(formatearImportJob(job));
+  } catch (error: any) {
+    console.error('Error al obtener importación:', error);
+    res.status(500).json({
+      error: 'Error al obtener importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/imports/:id/errores - Lista completa de filas rechazadas o con error al guardar (paginada)
+router.get('/imports/:id/errores', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const job = await buscarJobVisible(req, res);
+    if (!job) return;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 100, 1000);
+
+    const [errores, total] = await Promise.all([
+      prisma.importJobError.findMany({
+        where: { jobId: job.id },
+        orderBy: [{ fila: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.importJobError.count({ where: { jobId: job.id } }),
+    ]);
+
+    res.json({
+      jobId: job.id,
+      archivoNombre: job.archivoNombre,
+      data: errores.map((e) => ({ fila: e.fila, error: e.error, registro: e.registro })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al obtener errores de importación:', error);
+    res.status(500).json({
+      error: 'Error al obtener errores de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/imports/:id/items - Resultado por fila guardada: creado, actualizado, sin cambios
+// o conflicto, con las diferencias aplicadas (?resultado=, paginado)
+router.get('/imports/:id/items', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const resultado = typeof req.query.resultado === 'string' ? req.query.resultado.trim().toUpperCase() : '';
+    if (resultado && !RESULTADOS_FILA.includes(resultado)) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: `Resultado inválido: ${resultado}. Use: ${RESULTADOS_FILA.join(', ')}`,
+      });
+    }
+
+    const job = await buscarJobVisible(req, res);
+    if (!job) return;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 100, 1000);
+    const where = { jobId: job.id, ...(resultado ? { resultado } : {}) };
+
+    const [items, total] = await Promise.all([
+      prisma.importJobItem.findMany({
+        where,
+        orderBy: [{ fila: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.importJobItem.count({ where }),
+    ]);
+
+    res.json({
+      jobId: job.id,
+      archivoNombre: job.archivoNombre,
+      resumen: {
+        creados: job.creados,
+        actualizados: job.actualizados,
+        sinCambios: job.sinCambios,
+        conflictos: job.conflictos,
+      },
+      data: items.map((i) => ({
+        fila: i.fila,
+        episodioId: i.episodioId,
+        episodioCmdb: i.episodioCmdb,
+        resultado: i.resultado,
+        cambios: i.cambios ?? {},
+        conflictos: i.conflictos ?? {},
+      })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al obtener resultados de importación:', error);
+    res.status(500).json({
+      error: 'Error al obtener resultados de importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// POST /api/imports/:id/resume - Reanudar una importación FALLIDA desde el último chunk confirmado
+router.post('/imports/:id/resume', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const job = await buscarJobVisible(req, res);
+    if (!job) return;
+
+    const error = await prepararReanudacion(job);
+    if (error) {
+      return res.status(409).json({
+        error: 'Importación no reanudable',
+        message: error,
+      });
+    }
+
+    ejecutarImportJob(job.id).catch((err) => {
+      console.error(`❌ Error reanudando import job ${job.id}:`, err);
+    });
+
+    const actualizado = await prisma.importJob.findUnique({ where: { id: job.id } });
+    res.status(202).json(formatearImportJob(actualizado ?? job));
+  } catch (error: any) {
+    console.error('Error al reanudar importación:', error);
+    res.status(500).json({
+      error: 'Error al reanudar importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// POST /api/imports/:id/rollback - Revertir la importación: elimina los episodios creados y
+// restaura los valores anteriores de los actualizados (no si alguno ya fue aprobado o exportado)
+router.post('/imports/:id/rollback', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const job = await buscarJobVisible(req, res);
+    if (!job) return;
+
+    const usuarioId = parseInt(req.user!.id);
+    const resultado = await revertirImportJob(job, usuarioId, req.user?.role ?? null);
+    if (resultado.error) {
+      return res.status(409).json({
+        error: 'Importación no reversible',
+        message: resultado.error,
+        bloqueados: resultado.bloqueados,
+      });
+    }
+
+    await logAdminAction(usuarioId, 'Importación revertida', `Importación ${job.id} (${job.archivoNombre}) revertida`, {
+      jobId: job.id,
+      eliminados: resultado.eliminados,
+      restaurados: resultado.restaurados,
+    });
+
+    const actualizado = await prisma.importJob.findUnique({ where: { id: job.id } });
+    res.json({
+      message: 'Importación revertida correctamente',
+      job: formatearImportJob(actualizado ?? job),
+      eliminados: resultado.eliminados,
+      restaurados: resultado.restaurados,
+      camposOmitidos: resultado.camposOmitidos,
+    });
+  } catch (error: any) {
+    console.error('Error al revertir importación:', error);
+    res.status(500).json({
+      error: 'Error al revertir importación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
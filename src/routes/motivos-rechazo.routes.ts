@@ -0,0 +1,167 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { requireAuth, requireRole } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { logAdminAction } from '../utils/logger';
+
+const router = Router();
+
+const createMotivoSchema = Joi.object({
+  codigo: Joi.string().trim().uppercase().pattern(/^[A-Z0-9_]+$/).max(50).required(),
+  descripcion: Joi.string().trim().min(1).required(),
+  activo: Joi.boolean().default(true),
+});
+
+const updateMotivoSchema = Joi.object({
+  descripcion: Joi.string().trim().min(1),
+  activo: Joi.boolean(),
+}).min(1);
+
+function formatearMotivo(motivo: any) {
+  return {
+    ...motivo,
+    createdAt: motivo.createdAt.toISOString(),
+    updatedAt: motivo.updatedAt.toISOString(),
+  };
+}
+
+// GET /api/motivos-rechazo - Catálogo de motivos de rechazo (?todos=true incluye los inactivos)
+router.get('/motivos-rechazo', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const motivos = await prisma.motivoRechazo.findMany({
+      where: req.query.todos === 'true' ? {} : { activo: true },
+      orderBy: { codigo: 'asc' },
+    });
+    res.json(motivos.map(formatearMotivo));
+  } catch (error: any) {
+    console.error('Error al listar motivos de rechazo:', error);
+    res.status(500).json({
+      error: 'Error al listar motivos de rechazo',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// POST /api/motivos-rechazo - Crear motivo de rechazo
+router.post('/motivos-rechazo', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createMotivoSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const motivo = await prisma.motivoRechazo.create({ data: value });
+
+    await logAdminAction(parseInt(req.user!.id), 'Motivo de rechazo creado', `Motivo ${motivo.codigo} creado`, {
+      motivoId: motivo.id,
+    });
+
+    res.status(201).json(formatearMotivo(motivo));
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        error: 'Motivo de rechazo duplicado',
+        message: `Ya existe un motivo de rechazo con código: ${req.body?.codigo}`,
+      });
+    }
+
+    console.error('Error al crear motivo de rechazo:', error);
+    res.status(500).json({
+      error: 'Error al crear motivo de rechazo',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// PATCH /api/motivos-rechazo/:id - Actualizar descripción o activar/desactivar (el código no cambia)
+router.patch('/motivos-rechazo/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { error, value } = updateMotivoSchema.validate(req.body, { stripUnknown: true, abortEarly: false });
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    if (isNaN(id)) {
+      return res.status(404).json({
+        error: 'Motivo de rechazo no encontrado',
+        message: `No se encontró un motivo de rechazo con id: ${req.params.id}`,
+      });
+    }
+
+    const motivo = await prisma.motivoRechazo.update({ where: { id }, data: value });
+
+    await logAdminAction(parseInt(req.user!.id), 'Motivo de rechazo actualizado', `Motivo ${motivo.codigo} actualizado`, {
+      motivoId: motivo.id,
+      campos: Object.keys(value),
+    });
+
+    res.json(formatearMotivo(motivo));
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        error: 'Motivo de rechazo no encontrado',
+        message: `No se encontró un motivo de rechazo con id: ${req.params.id}`,
+      });
+    }
+
+    console.error('Error al actualizar motivo de rechazo:', error);
+    res.status(500).json({
+      error: 'Error al actualizar motivo de rechazo',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// DELETE /api/motivos-rechazo/:id - Eliminar motivo (solo si ninguna observación lo usa; si no, desactivarlo)
+router.delete('/motivos-rechazo/:id', requireAuth, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(404).json({
+        error: 'Motivo de rechazo no encontrado',
+        message: `No se encontró un motivo de rechazo con id: ${req.params.id}`,
+      });
+    }
+
+    const enUso = await prisma.episodioObservacion.count({ where: { motivoRechazoId: id } });
+    if (enUso > 0) {
+      return res.status(409).json({
+        error: 'Motivo de rechazo en uso',
+        message: `El motivo está referenciado por ${enUso} observaciones. Desactívelo en lugar de eliminarlo.`,
+      });
+    }
+
+    const motivo = await prisma.motivoRechazo.delete({ where: { id } });
+
+    await logAdminAction(parseInt(req.user!.id), 'Motivo de rechazo eliminado', `Motivo ${motivo.codigo} eliminado`, {
+      motivoId: id,
+    });
+
+    res.status(200).json({
+      message: 'Motivo de rechazo eliminado correctamente',
+      id,
+    });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({
+        error: 'Motivo de rechazo no encontrado',
+        message: `No se encontró un motivo de rechazo con id: ${req.params.id}`,
+      });
+    }
+
+    console.error('Error al eliminar motivo de rechazo:', error);
+    res.status(500).json({
+      error: 'Error al eliminar motivo de rechazo',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
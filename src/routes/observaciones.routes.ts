@@ -0,0 +1,105 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { formatearObservacion, ROLES_DESTINO } from '../services/observaciones.service';
+import { normalizarRol } from '../services/episodio-workflow.service';
+
+const router = Router();
+
+// GET /api/observaciones/abiertas - Observaciones sin resolver dirigidas al rol del usuario
+// (admin puede consultar cualquier rol con ?rol=; sin ?rol ve todas)
+router.get('/observaciones/abiertas', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const rolUsuario = normalizarRol(req.user?.role);
+    const rolConsulta = rolUsuario === 'ADMIN' ? normalizarRol(req.query.rol as string | undefined) : rolUsuario;
+
+    if (rolConsulta && !(ROLES_DESTINO as readonly string[]).includes(rolConsulta)) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: `Rol inválido: ${rolConsulta}. Use: ${ROLES_DESTINO.join(', ')}`,
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 50, 500);
+    const where = { resuelta: false, ...(rolConsulta ? { rolDestino: rolConsulta } : {}) };
+
+    const [observaciones, total] = await Promise.all([
+      prisma.episodioObservacion.findMany({
+        where,
+        include: {
+          motivoRechazo: true,
+          episodio: { select: { id: true, episodioCmdb: true, estado: true, convenio: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.episodioObservacion.count({ where }),
+    ]);
+
+    res.json({
+      rol: rolConsulta || null,
+      data: observaciones.map((o) => ({ ...formatearObservacion(o), episodio: o.episodio })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al listar observaciones abiertas:', error);
+    res.status(500).json({
+      error: 'Error al listar observaciones abiertas',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// PATCH /api/observaciones/:id/resolver - Marcar una observación como resuelta
+router.patch('/observaciones/:id/resolver', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const observacion = isNaN(id) ? null : await prisma.episodioObservacion.findUnique({ where: { id } });
+    if (!observacion) {
+      return res.status(404).json({
+        error: 'Observación no encontrada',
+        message: `No se encontró una observación con id: ${req.params.id}`,
+      });
+    }
+
+    // Puede resolverla el rol al que va dirigida, su autor o un admin
+    const rolUsuario = normalizarRol(req.user?.role);
+    const usuarioId = req.user?.id ? parseInt(req.user.id) : null;
+    const puedeResolver =
+      rolUsuario === 'ADMIN' ||
+      observacion.rolDestino === null ||
+      observacion.rolDestino === rolUsuario ||
+      (usuarioId !== null && observacion.autorId === usuarioId);
+    if (!puedeResolver) {
+      return res.status(403).json({ message: 'Acceso denegado' });
+    }
+
+    if (observacion.resuelta) {
+      return res.status(409).json({
+        error: 'Observación ya resuelta',
+        message: `La observación ${id} ya fue resuelta`,
+      });
+    }
+
+    const actualizada = await prisma.episodioObservacion.update({
+      where: { id },
+      data: { resuelta: true, resueltaPorId: usuarioId, resueltaAt: new Date() },
+      include: { motivoRechazo: true },
+    });
+
+    res.json(formatearObservacion(actualizada));
+  } catch (error: any) {
+    console.error('Error al resolver observación:', error);
+    res.status(500).json({
+      error: 'Error al resolver observación',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
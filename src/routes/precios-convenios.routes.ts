@@ -1,7 +1,19 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
+import { createHash } from 'crypto';
+import type { PrecioConvenio } from '@prisma/client';
 import { requireAuth, requireRole } from '../middlewares/auth';
 import { prisma } from '../db/client';
+import { signPreviewToken, verifyPreviewToken } from '../utils/jwt';
+import {
+  normalizarConvenio,
+  rangosSeSolapan,
+  agruparTramosPorPeriodo,
+  validarTramosPorPeriodo,
+  TramoPeso,
+} from '../services/liquidacion.engine';
+import { crearCacheLiquidacion, resolverPrecioConvenio, toNumber } from '../services/liquidacion.service';
+import { calcularImpactoCambioPrecio, cambiaLiquidacion } from '../services/impacto-precio.service';
 
 const router = Router();
 
@@ -110,6 +122,7 @@ const updatePrecioConvenioSchema = Joi.object({
     Joi.string().isoDate() // YYYY-MM-DD o ISO
   ).optional(),
   precio: Joi.number().min(0).optional().allow(null),
+  previewToken: Joi.string().optional(), // Token de POST /precios-convenios/:id/preview
 }).custom((value, helpers) => {
   // Validar que fechaFin >= fechaAdmision si ambas están presentes y no son null
   if (value.fechaAdmision && value.fechaFin) {
@@ -129,6 +142,84 @@ const updatePrecioConvenioSchema = Joi.object({
   return value;
 }, 'Validación de rango de fechas');
 
+// Esquema de validación para reemplazar los tramos de un convenio en un período
+const fechaVigenciaSchema = Joi.alternatives().try(
+  Joi.date().allow(null),
+  Joi.string().pattern(/^\d{2}-\d{2}-\d{4}$/).allow(null, ''), // DD-MM-YYYY
+  Joi.string().isoDate().allow(null, '') // YYYY-MM-DD o ISO
+).optional().allow(null);
+
+const tramosPeriodoSchema = Joi.object({
+  vigenciaDesde: fechaVigenciaSchema,
+  vigenciaHasta: fechaVigenciaSchema,
+  tramos: Joi.array().min(1).items(
+    Joi.object({
+      tramo: Joi.string().trim().max(20).required(),
+      pesoDesde: Joi.number().min(0).allow(null).default(null), // Exclusivo (null = desde 0)
+      pesoHasta: Joi.number().min(0).allow(null).default(null), // Inclusivo (null = sin límite)
+    })
+  ).required(),
+});
+
+function mismaFecha(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+// Regla activa con tramos del convenio (la más reciente)
+function buscarReglaConTramos(convenio: string) {
+  return prisma.convenioRegla.findFirst({
+    where: { convenio, activo: true, modoPrecio: 'TRAMOS' },
+    include: { tramos: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+function formatearPeriodos(tramos: TramoPeso[]) {
+  return agruparTramosPorPeriodo(tramos).map((periodo) => ({
+    vigenciaDesde: periodo.vigenciaDesde ? periodo.vigenciaDesde.toISOString() : null,
+    vigenciaHasta: periodo.vigenciaHasta ? periodo.vigenciaHasta.toISOString() : null,
+    tramos: periodo.tramos.map((t) => ({ tramo: t.tramo, pesoDesde: t.pesoDesde, pesoHasta: t.pesoHasta })),
+  }));
+}
+
+// Busca precios del mismo convenio y tramo cuya vigencia se solapa con el rango indicado
+async function buscarSolapamientos(
+  datos: { convenio?: string | null; tramo?: string | null; fechaAdmision: Date | null; fechaFin: Date | null },
+  excluirId?: string
+) {
+  const convenio = normalizarConvenio(datos.convenio);
+  if (!convenio) return [];
+
+  const candidatos = await prisma.precioConvenio.findMany({
+    where: {
+      convenio: { equals: convenio, mode: 'insensitive' },
+      tramo: datos.tramo || null,
+      ...(excluirId ? { id: { not: excluirId } } : {}),
+    },
+  });
+
+  return candidatos.filter((c) => rangosSeSolapan(c, datos));
+}
+
+function cuerpoSolapamiento(conflictos: any[]) {
+  return {
+    error: 'Conflicto de vigencia',
+    message: 'El rango de fechas se solapa con otro precio del mismo convenio y tramo',
+    conflictos: conflictos.map((c) => ({
+      id: c.id,
+      convenio: c.convenio,
+      tramo: c.tramo,
+      fechaAdmision: c.fechaAdmision ? c.fechaAdmision.toISOString() : null,
+      fechaFin: c.fechaFin ? c.fechaFin.toISOString() : null,
+      precio: c.precio,
+    })),
+  };
+}
+
+function respuestaSolapamiento(res: Response, conflictos: any[]) {
+  return res.status(409).json(cuerpoSolapamiento(conflictos));
+}
+
 // GET /api/precios-convenios - Listar todos los precios de convenios
 router.get('/precios-convenios', requireAuth, requireRole(['finanzas', 'gestion']), async (_req: Request, res: Response) => {
   try {
@@ -158,6 +249,163 @@ router.get('/precios-convenios', requireAuth, requireRole(['finanzas', 'gestion'
   }
 });
 
+// GET /api/precios-convenios/episodios-sin-precio - Episodios sin precio vigente a su fecha
+router.get('/precios-convenios/episodios-sin-precio', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const convenioFiltro = typeof req.query.convenio === 'string' ? normalizarConvenio(req.query.convenio) : '';
+
+    const episodios = await prisma.episodio.findMany({
+      where: convenioFiltro
+        ? { convenio: { equals: convenioFiltro, mode: 'insensitive' } }
+        : { AND: [{ convenio: { not: null } }, { convenio: { not: '' } }] },
+      select: {
+        id: true,
+        episodioCmdb: true,
+        convenio: true,
+        pesoGrd: true,
+        fechaIngreso: true,
+        fechaAlta: true,
+        precioBaseTramo: true,
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const cache = crearCacheLiquidacion();
+    const sinPrecio = [];
+
+    for (const episodio of episodios) {
+      const peso = toNumber(episodio.pesoGrd);
+      const resolucion = await resolverPrecioConvenio(episodio.convenio, peso, episodio, cache);
+      if (resolucion.precio !== null) continue;
+
+      const convenio = normalizarConvenio(episodio.convenio);
+      let motivo = 'SIN_PRECIO_VIGENTE';
+      if (!resolucion.regla) {
+        motivo = 'CONVENIO_DESCONOCIDO';
+      } else if (resolucion.regla.modoPrecio === 'TRAMOS' && !resolucion.tramo) {
+        motivo = 'SIN_PESO_GRD';
+      } else if (!resolucion.fechaReferencia?.fecha) {
+        motivo = 'SIN_FECHA_REFERENCIA';
+      }
+
+      sinPrecio.push({
+        id: episodio.id,
+        episodioCmdb: episodio.episodioCmdb,
+        convenio,
+        tramo: resolucion.tramo,
+        fechaReferencia: resolucion.fechaReferencia
+          ? {
+              campo: resolucion.fechaReferencia.campo,
+              fecha: resolucion.fechaReferencia.fecha ? resolucion.fechaReferencia.fecha.toISOString() : null,
+            }
+          : null,
+        precioBaseTramoGuardado: toNumber(episodio.precioBaseTramo),
+        motivo,
+      });
+    }
+
+    res.json({
+      totalRevisados: episodios.length,
+      totalSinPrecio: sinPrecio.length,
+      episodios: sinPrecio,
+    });
+  } catch (error: any) {
+    console.error('Error al buscar episodios sin precio vigente:', error);
+    res.status(500).json({
+      error: 'Error al buscar episodios sin precio vigente',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/precios-convenios/tramos - Puntos de corte de tramos por convenio y período
+router.get('/precios-convenios/tramos', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const convenioFiltro = typeof req.query.convenio === 'string' ? normalizarConvenio(req.query.convenio) : '';
+
+    const reglas = await prisma.convenioRegla.findMany({
+      where: { activo: true, modoPrecio: 'TRAMOS', ...(convenioFiltro ? { convenio: convenioFiltro } : {}) },
+      include: { tramos: true },
+      orderBy: [{ convenio: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    res.json(
+      reglas.map((regla) => ({
+        reglaId: regla.id,
+        convenio: regla.convenio,
+        periodos: formatearPeriodos(regla.tramos),
+      }))
+    );
+  } catch (error: any) {
+    console.error('Error al listar tramos de convenios:', error);
+    res.status(500).json({
+      error: 'Error al listar tramos de convenios',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// PUT /api/precios-convenios/tramos/:convenio - Reemplazar los tramos del convenio en un período
+router.put('/precios-convenios/tramos/:convenio', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = tramosPeriodoSchema.validate(req.body, {
+      stripUnknown: true,
+      abortEarly: false,
+    });
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    const convenio = normalizarConvenio(req.params.convenio);
+    const regla = await buscarReglaConTramos(convenio);
+    if (!regla) {
+      return res.status(404).json({
+        error: 'Convenio sin tramos',
+        message: `No hay una regla activa con modoPrecio TRAMOS para el convenio ${convenio}`,
+      });
+    }
+
+    const vigenciaDesde = parseDate(value.vigenciaDesde);
+    const vigenciaHasta = parseDate(value.vigenciaHasta);
+    const nuevos: TramoPeso[] = value.tramos.map((t: any) => ({ ...t, vigenciaDesde, vigenciaHasta }));
+
+    // Los tramos del mismo período se reemplazan; los demás períodos se mantienen
+    const otrosPeriodos = regla.tramos.filter(
+      (t) => !(mismaFecha(t.vigenciaDesde, vigenciaDesde) && mismaFecha(t.vigenciaHasta, vigenciaHasta))
+    );
+    const errores = validarTramosPorPeriodo([...otrosPeriodos, ...nuevos]);
+    if (errores.length > 0) {
+      return res.status(400).json({ error: 'Error de validación', details: errores });
+    }
+
+    await prisma.$transaction([
+      prisma.convenioTramo.deleteMany({
+        where: { reglaId: regla.id, vigenciaDesde, vigenciaHasta },
+      }),
+      prisma.convenioTramo.createMany({
+        data: nuevos.map((t) => ({ ...t, reglaId: regla.id })),
+      }),
+    ]);
+
+    const actualizados = await prisma.convenioTramo.findMany({ where: { reglaId: regla.id } });
+    res.json({
+      reglaId: regla.id,
+      convenio: regla.convenio,
+      periodos: formatearPeriodos(actualizados),
+    });
+  } catch (error: any) {
+    console.error('Error al actualizar tramos de convenio:', error);
+    res.status(500).json({
+      error: 'Error al actualizar tramos de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
 // POST /api/precios-convenios - Crear nuevo precio de convenio
 router.post('/precios-convenios', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
   try {
@@ -178,6 +426,17 @@ router.post('/precios-convenios', requireAuth, requireRole(['finanzas', 'gestion
     const fechaAdmision = parseDate(value.fechaAdmision);
     const fechaFin = parseDate(value.fechaFin);
 
+    // Validar que no se solape con otro precio vigente del mismo convenio/tramo
+    const conflictos = await buscarSolapamientos({
+      convenio: value.convenio,
+      tramo: value.tramo,
+      fechaAdmision: fechaAdmision || null,
+      fechaFin: fechaFin || null,
+    });
+    if (conflictos.length > 0) {
+      return respuestaSolapamiento(res, conflictos);
+    }
+
     // Crear el precio de convenio
     const precioConvenio = await prisma.precioConvenio.create({
       data: {
@@ -212,252 +471,200 @@ router.post('/precios-convenios', requireAuth, requireRole(['finanzas', 'gestion
   }
 });
 
-// PATCH /api/precios-convenios/:id - Actualizar precio de convenio
-router.patch('/precios-convenios/:id', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+// Valida un cambio parcial de precio de convenio y arma el registro resultante.
+// Retorna la respuesta de error a enviar, o el precio anterior, los datos a actualizar y el propuesto.
+async function prepararActualizacion(id: string, body: any): Promise<
+  | { error: { status: number; body: any } }
+  | { error: null; value: any; precioAnterior: PrecioConvenio; updateData: any; propuesto: PrecioConvenio }
+> {
+  // Validar datos (parcial)
+  const { error, value } = updatePrecioConvenioSchema.validate(body, {
+    stripUnknown: true,
+    abortEarly: false,
+  });
+
+  if (error) {
+    return {
+      error: {
+        status: 400,
+        body: { error: 'Error de validación', details: error.details.map((d) => d.message) },
+      },
+    };
+  }
+
+  const precioAnterior = await prisma.precioConvenio.findUnique({ where: { id } });
+  if (!precioAnterior) {
+    return {
+      error: {
+        status: 404,
+        body: { error: 'Precio de convenio no encontrado', message: `No se encontró un precio de convenio con id: ${id}` },
+      },
+    };
+  }
+
+  // Preparar datos para actualizar
+  const updateData: any = {};
+
+  if (value.aseguradora !== undefined) updateData.aseguradora = value.aseguradora || '';
+  if (value.nombre_asegi !== undefined) updateData.nombre_asegi = value.nombre_asegi || '';
+  if (value.convenio !== undefined) updateData.convenio = value.convenio || '';
+  if (value.descr_convenio !== undefined) updateData.descr_convenio = value.descr_convenio || '';
+  if (value.tipoAsegurad !== undefined) updateData.tipoAsegurad = value.tipoAsegurad || '';
+  if (value.tipoConvenio !== undefined) updateData.tipoConvenio = value.tipoConvenio || '';
+  if (value.tramo !== undefined) updateData.tramo = value.tramo || null;
+  if (value.fechaAdmision !== undefined) {
+    const fechaParsed = parseDate(value.fechaAdmision);
+    updateData.fechaAdmision = fechaParsed || null;
+  }
+  if (value.fechaFin !== undefined) {
+    const fechaParsed = parseDate(value.fechaFin);
+    updateData.fechaFin = fechaParsed || null;
+  }
+  if (value.precio !== undefined) updateData.precio = value.precio ?? 0;
+
+  const propuesto: PrecioConvenio = { ...precioAnterior, ...updateData };
+
+  // Validar rango de fechas resultante (solo si ambas fechas no son null)
+  if (propuesto.fechaAdmision && propuesto.fechaFin && propuesto.fechaFin < propuesto.fechaAdmision) {
+    return {
+      error: {
+        status: 400,
+        body: { error: 'Error de validación', message: 'fechaFin debe ser mayor o igual a fechaAdmision' },
+      },
+    };
+  }
+
+  // Validar que la vigencia resultante no se solape con otro precio del mismo convenio/tramo
+  const conflictos = await buscarSolapamientos(propuesto, id);
+  if (conflictos.length > 0) {
+    return { error: { status: 409, body: cuerpoSolapamiento(conflictos) } };
+  }
+
+  return { error: null, value, precioAnterior, updateData, propuesto };
+}
+
+// Hash del cambio revisado en la vista previa (incluye updatedAt para detectar cambios posteriores)
+function hashCambioPrecio(anterior: PrecioConvenio, propuesto: PrecioConvenio): string {
+  const datos = {
+    id: anterior.id,
+    updatedAt: anterior.updatedAt.toISOString(),
+    convenio: propuesto.convenio,
+    tramo: propuesto.tramo,
+    fechaAdmision: propuesto.fechaAdmision ? propuesto.fechaAdmision.toISOString() : null,
+    fechaFin: propuesto.fechaFin ? propuesto.fechaFin.toISOString() : null,
+    precio: propuesto.precio,
+  };
+  return createHash('sha256').update(JSON.stringify(datos)).digest('hex');
+}
+
+// POST /api/precios-convenios/:id/preview - Vista previa del impacto de un cambio de precio (no escribe)
+router.post('/precios-convenios/:id/preview', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const preparado = await prepararActualizacion(id, req.body);
+    if (preparado.error) {
+      return res.status(preparado.error.status).json(preparado.error.body);
+    }
 
-    // Validar datos (parcial)
-    const { error, value } = updatePrecioConvenioSchema.validate(req.body, {
-      stripUnknown: true,
-      abortEarly: false,
+    const { precioAnterior, propuesto } = preparado;
+    const afectaEpisodios = cambiaLiquidacion(precioAnterior, propuesto);
+    const impacto = afectaEpisodios
+      ? await calcularImpactoCambioPrecio(precioAnterior, propuesto, { aplicar: false })
+      : null;
+
+    res.json({
+      id,
+      afectaEpisodios,
+      impacto,
+      // Debe enviarse en el PATCH para confirmar el cambio (vence en 15 minutos)
+      previewToken: afectaEpisodios
+        ? signPreviewToken({ recurso: 'precioConvenio', id, hash: hashCambioPrecio(precioAnterior, propuesto) })
+        : null,
     });
+  } catch (error: any) {
+    console.error('Error al calcular vista previa de precio de convenio:', error);
+    res.status(500).json({
+      error: 'Error al calcular vista previa de precio de convenio',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
 
-    if (error) {
-      return res.status(400).json({
-        error: 'Error de validación',
-        details: error.details.map((d) => d.message),
-      });
+// PATCH /api/precios-convenios/:id - Actualizar precio de convenio
+// Si el cambio afecta la liquidación de episodios requiere el previewToken de POST /precios-convenios/:id/preview
+router.patch('/precios-convenios/:id', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const preparado = await prepararActualizacion(id, req.body);
+    if (preparado.error) {
+      return res.status(preparado.error.status).json(preparado.error.body);
     }
 
-    // Preparar datos para actualizar
-    const updateData: any = {};
-    
-    if (value.aseguradora !== undefined) updateData.aseguradora = value.aseguradora || '';
-    if (value.nombre_asegi !== undefined) updateData.nombre_asegi = value.nombre_asegi || '';
-    if (value.convenio !== undefined) updateData.convenio = value.convenio || '';
-    if (value.descr_convenio !== undefined) updateData.descr_convenio = value.descr_convenio || '';
-    if (value.tipoAsegurad !== undefined) updateData.tipoAsegurad = value.tipoAsegurad || '';
-    if (value.tipoConvenio !== undefined) updateData.tipoConvenio = value.tipoConvenio || '';
-    if (value.tramo !== undefined) updateData.tramo = value.tramo || null;
-    if (value.fechaAdmision !== undefined) {
-      const fechaParsed = parseDate(value.fechaAdmision);
-      updateData.fechaAdmision = fechaParsed || null;
-    }
-    if (value.fechaFin !== undefined) {
-      const fechaParsed = parseDate(value.fechaFin);
-      updateData.fechaFin = fechaParsed || null;
-    }
-    if (value.precio !== undefined) updateData.precio = value.precio ?? 0;
+    const { value, precioAnterior, updateData, propuesto } = preparado;
+    const afectaEpisodios = cambiaLiquidacion(precioAnterior, propuesto);
 
-    // Validar rango de fechas si ambas están presentes (y no son null)
-    const fechaAdmisionToValidate = updateData.fechaAdmision !== undefined ? updateData.fechaAdmision : null;
-    const fechaFinToValidate = updateData.fechaFin !== undefined ? updateData.fechaFin : null;
-    
-    if (fechaAdmisionToValidate !== null && fechaFinToValidate !== null) {
-      // Ambas fechas están presentes en el update
-      if (fechaFinToValidate < fechaAdmisionToValidate) {
-        return res.status(400).json({
-          error: 'Error de validación',
-          message: 'fechaFin debe ser mayor o igual a fechaAdmision',
+    if (afectaEpisodios) {
+      if (!value.previewToken) {
+        return res.status(428).json({
+          error: 'Vista previa requerida',
+          message: 'El cambio afecta episodios: solicite POST /api/precios-convenios/:id/preview y envíe el previewToken',
         });
       }
-    } else if (fechaAdmisionToValidate !== null || fechaFinToValidate !== null) {
-      // Solo una fecha está siendo actualizada, obtener la otra de la BD
-      const existing = await prisma.precioConvenio.findUnique({ where: { id } });
-      if (existing) {
-        const fechaAdmision = fechaAdmisionToValidate !== null ? fechaAdmisionToValidate : existing.fechaAdmision;
-        const fechaFin = fechaFinToValidate !== null ? fechaFinToValidate : existing.fechaFin;
-        
-        // Solo validar si ambas fechas no son null
-        if (fechaAdmision && fechaFin && fechaFin < fechaAdmision) {
-          return res.status(400).json({
-            error: 'Error de validación',
-            message: 'fechaFin debe ser mayor o igual a fechaAdmision',
-          });
-        }
-      }
-    }
 
-    // Obtener el precio antes de actualizar para saber qué cambió
-    const precioAnterior = await prisma.precioConvenio.findUnique({ where: { id } });
-    
-    // Actualizar el precio de convenio
-    const precioConvenio = await prisma.precioConvenio.update({
-      where: { id },
-      data: updateData,
-    });
-
-    // Si cambió el precio o el convenio/tramo, actualizar episodios relacionados
-    const precioCambio = value.precio !== undefined && precioAnterior && precioAnterior.precio !== precioConvenio.precio;
-    const convenioCambio = value.convenio !== undefined && precioAnterior && precioAnterior.convenio !== precioConvenio.convenio;
-    const tramoCambio = value.tramo !== undefined && precioAnterior && precioAnterior.tramo !== precioConvenio.tramo;
-    
-    if (precioCambio || convenioCambio || tramoCambio) {
+      let preview: { recurso: string; id: string; hash: string } | null = null;
       try {
-        // Buscar episodios que usen este convenio
-        const convenioParaBuscar = precioConvenio.convenio || precioAnterior?.convenio;
-        
-        if (convenioParaBuscar) {
-          const convenioNormalizado = convenioParaBuscar.trim().toUpperCase();
-          const conveniosConTramos = ['FNS012', 'FNS026'];
-          const usaTramos = conveniosConTramos.includes(convenioNormalizado);
-          
-          // Construir condición de búsqueda
-          const whereCondition: any = {
-            convenio: convenioNormalizado
-          };
-          
-          // Si el convenio usa tramos, necesitamos calcular el tramo para cada episodio
-          // Buscamos todos los episodios del convenio y luego filtramos por tramo
-          const episodios = await prisma.episodio.findMany({
-            where: whereCondition,
-            select: {
-              id: true,
-              convenio: true,
-              pesoGrd: true,
-              precioBaseTramo: true,
-              valorGrd: true,
-              montoAt: true,
-              pagoOutlierSuperior: true,
-              pagoDemoraRescate: true,
-              montoFinal: true
-            }
-          });
-          
-          console.log(`🔄 Actualizando ${episodios.length} episodios para convenio ${convenioNormalizado}`);
-          
-          // Función auxiliar para calcular tramo (misma lógica que en episodios.routes.ts)
-          const calcularTramo = (pesoGRD: number | null | undefined): 'T1' | 'T2' | 'T3' | null => {
-            if (pesoGRD === null || pesoGRD === undefined) return null;
-            if (pesoGRD >= 0 && pesoGRD <= 1.5) return 'T1';
-            if (pesoGRD > 1.5 && pesoGRD <= 2.5) return 'T2';
-            if (pesoGRD > 2.5) return 'T3';
-            return null;
-          };
-          
-          // Función auxiliar para obtener precio base
-          const obtenerPrecioBaseTramo = async (convenio: string, pesoGRD: number | null): Promise<number | null> => {
-            if (usaTramos) {
-              const tramo = calcularTramo(pesoGRD);
-              if (!tramo) return null;
-              
-              // Buscar el precio más reciente para este convenio y tramo
-              const precioRegistro = await prisma.precioConvenio.findFirst({
-                where: {
-                  convenio: convenioNormalizado,
-                  tramo: tramo
-                },
-                orderBy: { createdAt: 'desc' }
-              });
-              
-              if (precioRegistro && precioRegistro.precio !== null && precioRegistro.precio !== undefined) {
-                const precio = typeof precioRegistro.precio === 'number' 
-                  ? precioRegistro.precio 
-                  : parseFloat(String(precioRegistro.precio));
-                return isNaN(precio) || !isFinite(precio) ? null : precio;
-              }
-              return null;
-            } else {
-              // Precio único
-              const precioRegistro = await prisma.precioConvenio.findFirst({
-                where: { convenio: convenioNormalizado },
-                orderBy: { createdAt: 'desc' }
-              });
-              
-              if (precioRegistro && precioRegistro.precio !== null && precioRegistro.precio !== undefined) {
-                const precio = typeof precioRegistro.precio === 'number' 
-                  ? precioRegistro.precio 
-                  : parseFloat(String(precioRegistro.precio));
-                return isNaN(precio) || !isFinite(precio) ? null : precio;
-              }
-              return null;
-            }
-          };
-          
-          // Función para calcular valorGRD
-          const calcularValorGRD = (peso: number | null, precioBaseTramo: number | null): number => {
-            const pesoNum = peso ?? 0;
-            const precioNum = precioBaseTramo ?? 0;
-            if (pesoNum === 0 || precioNum === 0) return 0;
-            return pesoNum * precioNum;
-          };
-          
-          // Función para calcular montoFinal
-          const calcularMontoFinal = (
-            valorGRD: number | null,
-            montoAT: number | null,
-            pagoOutlierSup: number | null,
-            pagoDemora: number | null
-          ): number => {
-            return (valorGRD ?? 0) + (montoAT ?? 0) + (pagoOutlierSup ?? 0) + (pagoDemora ?? 0);
-          };
-          
-          // Actualizar cada episodio
-          let episodiosActualizados = 0;
-          const tramoPrecioActualizado = precioConvenio.tramo; // Tramo del precio que se actualizó
-          
-          for (const episodio of episodios) {
-            try {
-              const pesoGRD = episodio.pesoGrd ? Number(episodio.pesoGrd) : null;
-              
-              // Si el convenio usa tramos, solo actualizar episodios del tramo específico que se actualizó
-              if (usaTramos && tramoPrecioActualizado) {
-                const tramoEpisodio = calcularTramo(pesoGRD);
-                
-                // Solo actualizar si el tramo del episodio coincide con el tramo del precio actualizado
-                if (tramoEpisodio !== tramoPrecioActualizado) {
-                  continue; // Saltar este episodio, no corresponde a este tramo
-                }
-              }
-              
-              // Recalcular precioBaseTramo usando el precio más reciente
-              const nuevoPrecioBaseTramo = await obtenerPrecioBaseTramo(convenioNormalizado, pesoGRD);
-              
-              if (nuevoPrecioBaseTramo !== null) {
-                // Recalcular valorGRD
-                const nuevoValorGRD = calcularValorGRD(pesoGRD, nuevoPrecioBaseTramo);
-                
-                // Recalcular montoFinal
-                const nuevoMontoFinal = calcularMontoFinal(
-                  nuevoValorGRD,
-                  episodio.montoAt ? Number(episodio.montoAt) : null,
-                  episodio.pagoOutlierSuperior ? Number(episodio.pagoOutlierSuperior) : null,
-                  episodio.pagoDemoraRescate ? Number(episodio.pagoDemoraRescate) : null
-                );
-                
-                // Actualizar el episodio
-                await prisma.episodio.update({
-                  where: { id: episodio.id },
-                  data: {
-                    precioBaseTramo: nuevoPrecioBaseTramo,
-                    valorGrd: nuevoValorGRD,
-                    montoFinal: nuevoMontoFinal
-                  }
-                });
-                
-                episodiosActualizados++;
-              }
-            } catch (error: any) {
-              console.error(`❌ Error actualizando episodio ${episodio.id}:`, error?.message || error);
-            }
-          }
-          
-          console.log(`✅ ${episodiosActualizados} episodios actualizados para convenio ${convenioNormalizado}`);
-        }
-      } catch (error: any) {
-        console.error('❌ Error al actualizar episodios relacionados:', error);
-        // No fallar la respuesta, solo loguear el error
+        preview = verifyPreviewToken(value.previewToken);
+      } catch {
+        preview = null;
+      }
+      if (
+        !preview ||
+        preview.recurso !== 'precioConvenio' ||
+        preview.id !== id ||
+        preview.hash !== hashCambioPrecio(precioAnterior, propuesto)
+      ) {
+        return res.status(409).json({
+          error: 'Vista previa inválida',
+          message: 'El previewToken expiró o no corresponde a este cambio. Solicite una nueva vista previa',
+        });
       }
     }
+    
+    // Actualizar el precio de convenio y, si cambió el precio, el convenio/tramo o la vigencia,
+    // reliquidar los episodios relacionados en la misma transacción: si la reliquidación falla
+    // el precio no cambia
+    const { precioConvenio, impacto } = await prisma.$transaction(
+      async (tx) => {
+        const precioConvenio = await tx.precioConvenio.update({
+          where: { id },
+          data: updateData,
+        });
+        const impacto = afectaEpisodios
+          ? await calcularImpactoCambioPrecio(precioAnterior, precioConvenio, {
+              aplicar: true,
+              cliente: tx,
+              usuario: { usuarioId: req.user?.id ? parseInt(req.user.id) : null, rol: req.user?.role ?? null },
+            })
+          : null;
+        return { precioConvenio, impacto };
+      },
+      { timeout: 120000 }
+    );
+    if (impacto) {
+      console.log(
+        `✅ ${impacto.episodiosAfectados} episodios actualizados para convenio ${precioConvenio.convenio}` +
+          (impacto.errores.length > 0 ? ` (${impacto.errores.length} sin liquidar)` : '')
+      );
+    }
 
-    // Formatear respuesta (manejar fechas null)
+    // Formatear respuesta (manejar fechas null) con el impacto aplicado en los episodios
     res.json({
       ...precioConvenio,
       fechaAdmision: precioConvenio.fechaAdmision ? precioConvenio.fechaAdmision.toISOString() : null,
       fechaFin: precioConvenio.fechaFin ? precioConvenio.fechaFin.toISOString() : null,
       createdAt: precioConvenio.createdAt.toISOString(),
       updatedAt: precioConvenio.updatedAt.toISOString(),
+      impacto,
     });
   } catch (error: any) {
     if (error.code === 'P2025') {
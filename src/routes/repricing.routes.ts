@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { requireAuth, requireRole } from '../middlewares/auth';
+import { prisma } from '../db/client';
+import { crearRepricingJob, ejecutarRepricingJob } from '../services/repricing.service';
+
+const router = Router();
+
+const repricingSchema = Joi.object({
+  convenio: Joi.string().trim().optional().allow(null, ''),
+  fechaDesde: Joi.date().optional().allow(null), // Fecha de alta desde (inclusive)
+  fechaHasta: Joi.date().optional().allow(null), // Fecha de alta hasta (inclusive)
+  grdCodigo: Joi.string().trim().optional().allow(null, ''),
+  dryRun: Joi.boolean().default(true), // Por defecto solo informa diferencias, sin escribir
+});
+
+function formatearJob(job: any) {
+  return {
+    ...job,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+  };
+}
+
+// POST /api/episodios/repricing - Crear y lanzar un job de reliquidación por lotes
+router.post('/episodios/repricing', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = repricingSchema.validate(req.body ?? {}, {
+      stripUnknown: true,
+      abortEarly: false,
+    });
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    if (value.fechaDesde && value.fechaHasta && value.fechaHasta < value.fechaDesde) {
+      return res.status(400).json({
+        error: 'Error de validación',
+        message: 'fechaHasta debe ser mayor o igual a fechaDesde',
+      });
+    }
+
+    const job = await crearRepricingJob(
+      {
+        convenio: value.convenio || null,
+        fechaDesde: value.fechaDesde ?? null,
+        fechaHasta: value.fechaHasta ?? null,
+        grdCodigo: value.grdCodigo || null,
+      },
+      { dryRun: value.dryRun, usuarioId: req.user?.id ? parseInt(req.user.id) : null }
+    );
+
+    // El job corre en segundo plano; el progreso se consulta con GET /api/episodios/repricing/:id
+    ejecutarRepricingJob(job.id).catch((err) => {
+      console.error(`❌ Error ejecutando repricing job ${job.id}:`, err);
+    });
+
+    res.status(202).json(formatearJob(job));
+  } catch (error: any) {
+    console.error('Error al crear job de repricing:', error);
+    res.status(500).json({
+      error: 'Error al crear job de repricing',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+// GET /api/episodios/repricing/:id - Estado del job y diferencias por episodio (paginadas)
+router.get('/episodios/repricing/:id', requireAuth, requireRole(['finanzas', 'gestion']), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 100, 1000);
+
+    const job = isNaN(id) ? null : await prisma.repricingJob.findUnique({ where: { id } });
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job de repricing no encontrado',
+        message: `No se encontró un job de repricing con id: ${req.params.id}`,
+      });
+    }
+
+    const [items, totalItems] = await Promise.all([
+      prisma.repricingJobItem.findMany({
+        where: { jobId: id },
+        orderBy: { episodioId: 'asc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.repricingJobItem.count({ where: { jobId: id } }),
+    ]);
+
+    res.json({
+      ...formatearJob(job),
+      items: items.map((item) => ({ ...item, createdAt: item.createdAt.toISOString() })),
+      page,
+      pageSize,
+      totalItems,
+      totalPages: Math.ceil(totalItems / pageSize),
+    });
+  } catch (error: any) {
+    console.error('Error al obtener job de repricing:', error);
+    res.status(500).json({
+      error: 'Error al obtener job de repricing',
+      message: error?.message || 'Error desconocido',
+    });
+  }
+});
+
+export default router;
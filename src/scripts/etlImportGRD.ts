@@ -1,159 +1,117 @@
 /**
- * ETL Importación GRD con control de calidad de datos
- * - Limpieza, validación y registro de errores
+ * ETL Importación GRD desde la línea de comandos
+ * - Mismo ETL que /api/upload y /api/episodios/import (import-etl.service): mismo
+ *   resultado para el mismo archivo
+ * - Los errores por fila se guardan en data/error_log.json
+ *
+ * Ejecutar: npm run etl -- <archivo> [--modo=merge] [--perfil=<id|nombre>] [--formato-fecha=DD/MM/YYYY] [--dry-run]
  */
-
-import fs from "fs";
-import csv from "csv-parser";
-import { PrismaClient, Prisma } from "@prisma/client";
-
-const prisma = new PrismaClient();
-const errorLogPath = "data/error_log.json";
-const validRecords: any[] = [];
-const errorRecords: any[] = [];
-
-type Row = Record<string, string>;
-
-function isEmpty(value?: string | null): boolean {
-  return !value || value.trim() === "" || value.toLowerCase() === "null";
-}
-
-function isNumeric(value?: string | null): boolean {
-  return value !== undefined && value !== null && !isNaN(Number(value));
-}
-
-function isValidDate(value?: string | null): boolean {
-  return value ? !isNaN(new Date(value).getTime()) : false;
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { prisma } from '../db/client';
+import { crearImportJob, ejecutarImportJob, registrarProcesadorImportacion } from '../services/import-job.service';
+import {
+  opcionesJob,
+  previsualizarImportacion,
+  procesadorEtl,
+  resolverOpcionesImportacion,
+} from '../services/import-etl.service';
+
+const errorLogPath = 'data/error_log.json';
+const USO =
+  'Uso: npm run etl -- <archivo> [--modo=merge] [--perfil=<id|nombre>] [--formato-fecha=DD/MM/YYYY] [--dry-run]';
+
+// --opcion=valor → { opcion: valor }; --opcion → { opcion: 'true' }
+function leerArgumentos(argv: string[]) {
+  const archivos: string[] = [];
+  const opciones: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) opciones[match[1]] = match[2] ?? 'true';
+    else archivos.push(arg);
+  }
+  return { archivo: archivos[0], opciones };
 }
 
-function cleanString(value?: string | null): string | null {
-  if (!value) return null;
-  return value.replace(/\s+/g, " ").trim();
+function guardarErrores(errores: { fila: number; error: string; registro?: unknown }[]) {
+  if (errores.length === 0) return;
+  fs.mkdirSync(path.dirname(errorLogPath), { recursive: true });
+  fs.writeFileSync(errorLogPath, JSON.stringify(errores, null, 2), 'utf-8');
+  console.log(`📝 Log de errores guardado en: ${errorLogPath}`);
 }
 
-async function validateRow(row: Row, index: number): Promise<boolean> {
-  const requiredFields = ["Episodio CMBD", "Hospital (Descripción)", "RUT", "IR GRD (Código)"];
-  const missing = requiredFields.filter((f) => isEmpty(row[f]));
-
-  if (missing.length > 0) {
-    errorRecords.push({
-      fila: index,
-      error: `Campos faltantes: ${missing.join(", ")}`,
-      registro: row,
-    });
-    return false;
+async function runETL() {
+  const { archivo, opciones: argumentos } = leerArgumentos(process.argv.slice(2));
+  if (!archivo || !fs.existsSync(archivo)) {
+    console.error(archivo ? `❌ No existe el archivo: ${archivo}` : USO);
+    process.exitCode = 1;
+    return;
   }
 
-  // Validación de duplicados
-  const existing = await prisma.episodio.findFirst({
-    where: { episodioCmdb: row["Episodio CMBD"] },
+  const resultado = await resolverOpcionesImportacion({
+    perfil: argumentos.perfil,
+    modo: argumentos.modo,
+    formatoFecha: argumentos['formato-fecha'],
   });
-  if (existing) {
-    errorRecords.push({
-      fila: index,
-      error: `Duplicado detectado: Episodio CMBD ${row["Episodio CMBD"]}`,
-    });
-    return false;
+  if ('error' in resultado) {
+    console.error(`❌ ${resultado.error}: ${resultado.message}`);
+    process.exitCode = 1;
+    return;
   }
-
-  // Validaciones adicionales
-  if (!isValidDate(row["Fecha Ingreso completa"]) || !isValidDate(row["Fecha Completa"])) {
-    errorRecords.push({
-      fila: index,
-      error: "Fecha inválida en ingreso o alta",
-    });
-    return false;
+  const { opciones } = resultado;
+  const archivoNombre = path.basename(archivo);
+  console.log(`🚀 Iniciando carga ETL desde: ${archivo} (perfil ${opciones.perfil.nombre}, modo ${opciones.modo})`);
+
+  if (argumentos['dry-run'] === 'true') {
+    const reporte = await previsualizarImportacion(archivo, archivoNombre, opciones);
+    console.log(`📦 Registros válidos: ${reporte.resumen.valid_rows}`);
+    console.log(`⚠️  Registros con error: ${reporte.resumen.invalid_rows}`);
+    console.log(`📋 Columnas sin mapear: ${reporte.columnasSinMapear.join(', ') || 'ninguna'}`);
+    guardarErrores(reporte.errores);
+    return;
   }
 
-  return true;
-}
-
-async function processRow(row: Row) {
-  // Limpieza básica
-  const rut = cleanString(row["RUT"]);
-  const nombre = cleanString(row["Nombre"]);
-
-  const paciente = await prisma.paciente.upsert({
-    where: { rut: rut || "SIN-RUT" },
-    update: {},
-    create: {
-      rut: rut || "SIN-RUT",
-      nombre,
-      sexo: cleanString(row["Sexo  (Desc)"]),
-      edad: isNumeric(row["Edad en años"]) ? Number(row["Edad en años"]) : null,
-    },
-  });
-
-  const grd = await prisma.grd.upsert({
-    where: { codigo: row["IR GRD (Código)"] },
-    update: {},
-    create: {
-      codigo: row["IR GRD (Código)"],
-      descripcion: row["IR GRD"],
-      peso: isNumeric(row["Peso GRD Medio (Todos)"]) ? new Prisma.Decimal(row["Peso GRD Medio (Todos)"]) : null,
-    },
+  // El job elimina su archivo al terminar: se procesa una copia
+  const copia = path.join(os.tmpdir(), `etl-${Date.now()}${path.extname(archivo)}`);
+  fs.copyFileSync(archivo, copia);
+
+  registrarProcesadorImportacion('CLI', procesadorEtl);
+  const job = await crearImportJob({
+    tipo: 'CLI',
+    archivoNombre,
+    archivoRuta: copia,
+    archivoTamano: fs.statSync(copia).size,
+    usuarioId: null,
+    rol: null,
+    opciones: opcionesJob(opciones),
   });
+  await ejecutarImportJob(job.id);
 
-  await prisma.episodio.create({
-    data: {
-      centro: cleanString(row["Hospital (Descripción)"]),
-      numeroFolio: cleanString(row["ID Derivación"]),
-      episodioCmdb: cleanString(row["Episodio CMBD"]),
-      tipoEpisodio: cleanString(row["Tipo Actividad"]),
-      fechaIngreso: new Date(row["Fecha Ingreso completa"]),
-      fechaAlta: new Date(row["Fecha Completa"]),
-      servicioAlta: cleanString(row["Servicio Egreso (Descripción)"]),
-      montoRn: isNumeric(row["Facturación Total del episodio"])
-        ? new Prisma.Decimal(row["Facturación Total del episodio"])
-        : new Prisma.Decimal(0),
-      pesoGrd: isNumeric(row["Peso GRD Medio (Todos)"])
-        ? new Prisma.Decimal(row["Peso GRD Medio (Todos)"])
-        : new Prisma.Decimal(0),
-      inlierOutlier: cleanString(row["IR Alta Inlier / Outlier"]),
-      pacienteId: paciente.id,
-      grdId: grd.id,
-    },
+  const final = await prisma.importJob.findUniqueOrThrow({ where: { id: job.id } });
+  const errores = await prisma.importJobError.findMany({
+    where: { jobId: job.id },
+    orderBy: { fila: 'asc' },
+    select: { fila: true, error: true, registro: true },
   });
+  console.log(`📦 Registros guardados: ${final.guardadas} (creados ${final.creados}, actualizados ${final.actualizados})`);
+  console.log(`⚠️  Registros con error: ${final.fallidas}`);
+  guardarErrores(errores);
+
+  if (final.estado !== 'COMPLETADO') {
+    console.error(`❌ Importación ${final.estado}: ${final.mensajeError}. Reanudar con POST /api/imports/${job.id}/resume`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`✅ ETL completado (import job ${job.id})`);
 }
 
-async function runETL(filePath: string) {
-  let index = 0;
-
-  console.log(`🚀 Iniciando carga ETL desde: ${filePath}`);
-  fs.createReadStream(filePath)
-    .pipe(csv({ separator: "," }))
-    .on("data", async (row) => {
-      index++;
-      const isValid = await validateRow(row, index);
-      if (isValid) validRecords.push(row);
-    })
-    .on("end", async () => {
-      console.log(`📦 Registros válidos: ${validRecords.length}`);
-      console.log(`⚠️  Registros con error: ${errorRecords.length}`);
-
-      // Guardar log de errores
-      if (errorRecords.length > 0) {
-        fs.writeFileSync(errorLogPath, JSON.stringify(errorRecords, null, 2), "utf-8");
-        console.log(`📝 Log de errores guardado en: ${errorLogPath}`);
-      }
-
-      for (const row of validRecords) {
-        try {
-          await processRow(row);
-        } catch (err: any) {
-          errorRecords.push({
-            error: `Error procesando fila: ${err.message}`,
-            registro: row,
-          });
-        }
-      }
-
-      console.log("✅ ETL completado con control de calidad");
-      await prisma.$disconnect();
-    });
-}
-
-runETL("data/Base_GRD.csv").catch((e) => {
-  console.error(e);
-  prisma.$disconnect();
-});
+runETL()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,214 @@
+/**
+ * Catálogos de codificación CIE-10 (diagnósticos) y CIE-9-MC (procedimientos)
+ *
+ * Se cargan desde un archivo CSV o Excel con el código y su descripción. Los códigos se
+ * guardan sin punto y en mayúsculas (K35.9 → K359; 44.67 → 4467), que es como los
+ * exporta el archivo maestro, para comparar sin depender del formato de cada fuente.
+ */
+import type { CodigoCie, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+
+export const SISTEMAS_CIE = ['CIE10', 'CIE9MC'] as const;
+
+export type SistemaCie = (typeof SISTEMAS_CIE)[number];
+
+// Nombre del sistema para los mensajes
+export const NOMBRES_SISTEMA_CIE: Record<SistemaCie, string> = {
+  CIE10: 'CIE-10',
+  CIE9MC: 'CIE-9-MC',
+};
+
+// CIE-10: letra, dos dígitos y hasta cuatro caracteres de subcategoría. CIE-9-MC: 2 a 4 dígitos
+const PATRONES_CODIGO: Record<SistemaCie, RegExp> = {
+  CIE10: /^[A-Z]\d{2}[0-9A-Z]{0,4}$/,
+  CIE9MC: /^\d{2,4}$/,
+};
+
+const COLUMNAS_CODIGO = ['Código', 'Codigo', 'CODIGO', 'Code', 'Cod', 'CIE10', 'CIE-10', 'CIE9', 'CIE-9-MC'];
+const COLUMNAS_DESCRIPCION = ['Descripción', 'Descripcion', 'DESCRIPCION', 'Glosa', 'Nombre', 'Description'];
+
+/**
+ * Sistema del parámetro de la ruta (acepta cie10, CIE-10, cie9mc, CIE-9-MC). null si no es válido.
+ */
+export function parsearSistemaCie(valor: unknown): SistemaCie | null {
+  if (typeof valor !== 'string') return null;
+  const normalizado = valor.toUpperCase().replace(/[\s.\-_]/g, '');
+  return (SISTEMAS_CIE as readonly string[]).includes(normalizado) ? (normalizado as SistemaCie) : null;
+}
+
+/**
+ * Código en la forma en que se guarda: sin punto ni espacios y en mayúsculas. null si está vacío.
+ */
+export function normalizarCodigoCie(valor: unknown): string | null {
+  if (valor === undefined || valor === null) return null;
+  const codigo = String(valor).toUpperCase().replace(/[.\s]/g, '');
+  return codigo === '' ? null : codigo;
+}
+
+/**
+ * Error de formato del código (ya normalizado) o null si es válido
+ */
+export function errorFormatoCie(sistema: SistemaCie, codigo: string): string | null {
+  return PATRONES_CODIGO[sistema].test(codigo) ? null : `Código ${NOMBRES_SISTEMA_CIE[sistema]} inválido: "${codigo}"`;
+}
+
+// Clave de un código en los mapas que mezclan ambos sistemas
+export function claveCie(sistema: SistemaCie, codigo: string): string {
+  return `${sistema}:${codigo}`;
+}
+
+export interface CodigoCatalogoCie {
+  codigo: string;
+  descripcion: string;
+}
+
+export interface ErrorFilaCie {
+  fila: number;
+  codigo: string | null;
+  error: string;
+}
+
+// Valor de la primera columna con alguno de los nombres (sin distinguir mayúsculas ni espacios)
+function valorColumna(fila: Record<string, unknown>, nombres: string[]): unknown {
+  const normalizar = (texto: string) => texto.trim().toLowerCase();
+  const buscados = nombres.map(normalizar);
+  const clave = Object.keys(fila).find((k) => buscados.includes(normalizar(k)));
+  return clave !== undefined ? fila[clave] : undefined;
+}
+
+/**
+ * Códigos válidos del archivo del catálogo y los errores por fila (fila 1 = primera fila de datos)
+ */
+export function procesarFilasCie(
+  sistema: SistemaCie,
+  filas: Record<string, unknown>[]
+): { codigos: CodigoCatalogoCie[]; errores: ErrorFilaCie[] } {
+  const codigos: CodigoCatalogoCie[] = [];
+  const errores: ErrorFilaCie[] = [];
+  const vistos = new Set<string>();
+
+  filas.forEach((fila, index) => {
+    const codigo = normalizarCodigoCie(valorColumna(fila, COLUMNAS_CODIGO));
+    const descripcion = String(valorColumna(fila, COLUMNAS_DESCRIPCION) ?? '').replace(/\s+/g, ' ').trim();
+    const error = !codigo
+      ? 'Código faltante o vacío'
+      : errorFormatoCie(sistema, codigo) ??
+        (!descripcion ? 'Descripción faltante' : vistos.has(codigo) ? `Código repetido en el archivo: ${codigo}` : null);
+
+    if (error) {
+      errores.push({ fila: index + 1, codigo, error });
+      return;
+    }
+    vistos.add(codigo!);
+    codigos.push({ codigo: codigo!, descripcion });
+  });
+  return { codigos, errores };
+}
+
+export interface ResultadoCargaCie {
+  creados: number;
+  actualizados: number;
+  sinCambios: number;
+  desactivados: number;
+}
+
+/**
+ * Guarda los códigos del archivo: crea los nuevos, actualiza la descripción de los que
+ * cambiaron y reactiva los desactivados. Con `desactivarAusentes` el archivo es el catálogo
+ * completo y los códigos que no vienen se desactivan (no se eliminan: pueden estar codificados).
+ */
+export async function guardarCatalogoCie(
+  sistema: SistemaCie,
+  codigos: CodigoCatalogoCie[],
+  opciones: { desactivarAusentes?: boolean } = {}
+): Promise<ResultadoCargaCie> {
+  const existentes = new Map((await prisma.codigoCie.findMany({ where: { sistema } })).map((c) => [c.codigo, c]));
+  const nuevos = codigos.filter((c) => !existentes.has(c.codigo));
+  const modificados = codigos.filter((c) => {
+    const actual = existentes.get(c.codigo);
+    return actual && (actual.descripcion !== c.descripcion || !actual.activo);
+  });
+  const enArchivo = new Set(codigos.map((c) => c.codigo));
+  const ausentes = opciones.desactivarAusentes
+    ? [...existentes.values()].filter((c) => c.activo && !enArchivo.has(c.codigo)).map((c) => c.id)
+    : [];
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.codigoCie.createMany({ data: nuevos.map((c) => ({ sistema, ...c })), skipDuplicates: true });
+      for (const c of modificados) {
+        await tx.codigoCie.update({
+          where: { sistema_codigo: { sistema, codigo: c.codigo } },
+          data: { descripcion: c.descripcion, activo: true },
+        });
+      }
+      if (ausentes.length > 0) {
+        await tx.codigoCie.updateMany({ where: { id: { in: ausentes } }, data: { activo: false } });
+      }
+    },
+    { timeout: 120000 }
+  );
+
+  return {
+    creados: nuevos.length,
+    actualizados: modificados.length,
+    sinCambios: codigos.length - nuevos.length - modificados.length,
+    desactivados: ausentes.length,
+  };
+}
+
+/**
+ * Filtro de Prisma para la búsqueda en el catálogo (parte del código o de la descripción)
+ */
+export function construirFiltroCie(sistema: SistemaCie, query: { search?: unknown; todos?: unknown }): Prisma.CodigoCieWhereInput {
+  const where: Prisma.CodigoCieWhereInput = { sistema };
+  if (query.todos !== 'true') where.activo = true;
+
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  if (search) {
+    where.OR = [
+      { codigo: { startsWith: normalizarCodigoCie(search) ?? '' } },
+      { descripcion: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+  return where;
+}
+
+export function formatearCodigoCie(codigo: CodigoCie) {
+  return {
+    id: codigo.id,
+    sistema: codigo.sistema,
+    codigo: codigo.codigo,
+    descripcion: codigo.descripcion,
+    activo: codigo.activo,
+  };
+}
+
+/**
+ * Códigos activos del catálogo por clave (ver claveCie) y los sistemas que tienen catálogo cargado
+ */
+export async function buscarCodigosCie(
+  codigos: { sistema: SistemaCie; codigo: string }[]
+): Promise<{ codigos: Map<string, CodigoCie>; cargados: Set<SistemaCie> }> {
+  const resultado = { codigos: new Map<string, CodigoCie>(), cargados: new Set<SistemaCie>() };
+  if (codigos.length === 0) return resultado;
+
+  const porSistema = SISTEMAS_CIE.map((sistema) => ({
+    sistema,
+    codigos: [...new Set(codigos.filter((c) => c.sistema === sistema).map((c) => c.codigo))],
+  })).filter((s) => s.codigos.length > 0);
+
+  const [encontrados, conCatalogo] = await Promise.all([
+    prisma.codigoCie.findMany({
+      where: { activo: true, OR: porSistema.map((s) => ({ sistema: s.sistema, codigo: { in: s.codigos } })) },
+    }),
+    Promise.all(
+      porSistema.map((s) => prisma.codigoCie.findFirst({ where: { sistema: s.sistema, activo: true }, select: { id: true } }))
+    ),
+  ]);
+  encontrados.forEach((c) => resultado.codigos.set(claveCie(c.sistema as SistemaCie, c.codigo), c));
+  porSistema.forEach((s, i) => {
+    if (conCatalogo[i]) resultado.cargados.add(s.sistema);
+  });
+  return resultado;
+}
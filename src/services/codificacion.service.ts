@@ -0,0 +1,198 @@
+/**
+ * Codificación clínica del episodio: diagnósticos (CIE-10) y procedimientos (CIE-9-MC)
+ *
+ * Cada lista se guarda ordenada: la posición 0 es el diagnóstico (o procedimiento)
+ * principal y las demás son secundarias. Al agregar, reordenar o quitar se renumera la
+ * lista completa para que siempre haya un único principal. Los códigos se validan contra
+ * el catálogo CIE cargado (ver cie-catalogo.service).
+ */
+import type { Diagnostico, Prisma, Procedimiento } from '@prisma/client';
+import { prisma } from '../db/client';
+import type { EstadoEpisodio } from './episodio-workflow.service';
+import { normalizarCodigoCie, SistemaCie } from './cie-catalogo.service';
+
+export const TIPOS_CODIFICACION = ['diagnosticos', 'procedimientos'] as const;
+
+export type TipoCodificacion = (typeof TIPOS_CODIFICACION)[number];
+
+// Catálogo contra el que se valida cada lista
+export const SISTEMA_CODIFICACION: Record<TipoCodificacion, SistemaCie> = {
+  diagnosticos: 'CIE10',
+  procedimientos: 'CIE9MC',
+};
+
+// La codificación se edita mientras el episodio está en codificación; después hay que reabrirla
+export const ESTADOS_CODIFICACION_EDITABLE: EstadoEpisodio[] = ['IMPORTADO', 'EN_CODIFICACION'];
+
+export interface CodigoEpisodio {
+  codigo: string;
+  descripcion: string | null;
+}
+
+export interface CodificacionEpisodio {
+  diagnosticos: CodigoEpisodio[];
+  procedimientos: CodigoEpisodio[];
+}
+
+type ItemCodificacion = Pick<Diagnostico | Procedimiento, 'id' | 'codigo' | 'descripcion' | 'orden'>;
+
+export function errorEdicionCodificacion(estado: string): string | null {
+  if ((ESTADOS_CODIFICACION_EDITABLE as string[]).includes(estado)) return null;
+  return `La codificación solo se puede modificar en estado ${ESTADOS_CODIFICACION_EDITABLE.join(' o ')} (estado actual: ${estado})`;
+}
+
+/**
+ * Códigos de una celda con varios códigos: "[P90][P91.8]" o separados por coma, punto y coma o barra
+ */
+export function parsearListaCodigos(valor: unknown): string[] {
+  if (valor === undefined || valor === null) return [];
+  const texto = String(valor);
+  const partes = texto.includes('[') ? [...texto.matchAll(/\[([^\]]*)\]/g)].map((m) => m[1]) : texto.split(/[;,|]/);
+  return partes.map(normalizarCodigoCie).filter((c): c is string => c !== null);
+}
+
+/**
+ * Lista de códigos con el principal primero y sin repetidos (el conjunto puede incluir al principal)
+ */
+export function codigosConPrincipal(principal: string | null, conjunto: string[]): string[] {
+  return [...new Set([...(principal ? [principal] : []), ...conjunto])];
+}
+
+/**
+ * Valida que `ids` sea exactamente la lista actual en otro orden. Retorna el error o null.
+ */
+export function errorReordenamiento(actuales: number[], ids: number[]): string | null {
+  if (new Set(ids).size !== ids.length) return 'La lista de ids tiene elementos repetidos';
+  const faltantes = actuales.filter((id) => !ids.includes(id));
+  const ajenos = ids.filter((id) => !actuales.includes(id));
+  if (ajenos.length > 0) return `Ids que no pertenecen al episodio: ${ajenos.join(', ')}`;
+  if (faltantes.length > 0) return `Faltan ids del episodio en la lista: ${faltantes.join(', ')}`;
+  return null;
+}
+
+export function formatearItemCodificacion(item: ItemCodificacion) {
+  return {
+    id: item.id,
+    codigo: item.codigo,
+    descripcion: item.descripcion,
+    orden: item.orden,
+    principal: item.orden === 0,
+  };
+}
+
+const porOrden = (a: ItemCodificacion, b: ItemCodificacion) => a.orden - b.orden || a.id - b.id;
+
+/**
+ * Diagnósticos y procedimientos del episodio, en orden (para la respuesta de GET /episodios/:id)
+ */
+export function formatearCodificacion(episodio: { diagnosticos?: Diagnostico[]; procedimientos?: Procedimiento[] }) {
+  return {
+    diagnosticos: [...(episodio.diagnosticos ?? [])].sort(porOrden).map(formatearItemCodificacion),
+    procedimientos: [...(episodio.procedimientos ?? [])].sort(porOrden).map(formatearItemCodificacion),
+  };
+}
+
+/**
+ * Filas de Diagnostico y Procedimiento de un episodio nuevo (createMany de la importación)
+ */
+export function filasCodificacion(episodioId: number, codificacion: CodificacionEpisodio) {
+  return {
+    diagnosticos: codificacion.diagnosticos.map(
+      (d, orden): Prisma.DiagnosticoCreateManyInput => ({ episodioId, ...d, orden, esPrincipal: orden === 0 })
+    ),
+    procedimientos: codificacion.procedimientos.map(
+      (p, orden): Prisma.ProcedimientoCreateManyInput => ({ episodioId, ...p, orden })
+    ),
+  };
+}
+
+export async function listarCodificacion(
+  cliente: Prisma.TransactionClient,
+  episodioId: number,
+  tipo: TipoCodificacion
+): Promise<ItemCodificacion[]> {
+  const consulta = { where: { episodioId }, orderBy: [{ orden: 'asc' as const }, { id: 'asc' as const }] };
+  const items =
+    tipo === 'diagnosticos' ? await cliente.diagnostico.findMany(consulta) : await cliente.procedimiento.findMany(consulta);
+  return items.map((i) => ({ id: i.id, codigo: i.codigo, descripcion: i.descripcion, orden: i.orden }));
+}
+
+// Renumera la lista en el orden de `ids` (el primero queda como principal)
+async function guardarOrden(cliente: Prisma.TransactionClient, tipo: TipoCodificacion, ids: number[]): Promise<void> {
+  for (const [orden, id] of ids.entries()) {
+    if (tipo === 'diagnosticos') {
+      await cliente.diagnostico.update({ where: { id }, data: { orden, esPrincipal: orden === 0 } });
+    } else {
+      await cliente.procedimiento.update({ where: { id }, data: { orden } });
+    }
+  }
+}
+
+/**
+ * Agrega un código al episodio: como principal (primero) o al final de los secundarios.
+ * Retorna la lista actualizada, o `conflicto` si el código ya está en el episodio.
+ */
+export async function agregarCodigoEpisodio(
+  episodioId: number,
+  tipo: TipoCodificacion,
+  codigo: CodigoEpisodio,
+  principal: boolean
+): Promise<{ items: ItemCodificacion[] } | { conflicto: string }> {
+  return prisma.$transaction(async (tx) => {
+    const actuales = await listarCodificacion(tx, episodioId, tipo);
+    if (actuales.some((i) => i.codigo === codigo.codigo)) {
+      return { conflicto: `El código ${codigo.codigo} ya está codificado en el episodio` };
+    }
+
+    const datos = { episodioId, ...codigo, orden: principal ? 0 : actuales.length };
+    const creado =
+      tipo === 'diagnosticos'
+        ? await tx.diagnostico.create({ data: { ...datos, esPrincipal: principal || actuales.length === 0 } })
+        : await tx.procedimiento.create({ data: datos });
+
+    const ids = actuales.map((i) => i.id);
+    await guardarOrden(tx, tipo, principal ? [creado.id, ...ids] : [...ids, creado.id]);
+    return { items: await listarCodificacion(tx, episodioId, tipo) };
+  });
+}
+
+/**
+ * Reordena la lista del episodio según `ids` (el primero pasa a ser el principal)
+ */
+export async function reordenarCodificacion(
+  episodioId: number,
+  tipo: TipoCodificacion,
+  ids: number[]
+): Promise<{ items: ItemCodificacion[] } | { error: string }> {
+  return prisma.$transaction(async (tx) => {
+    const actuales = await listarCodificacion(tx, episodioId, tipo);
+    const error = errorReordenamiento(actuales.map((i) => i.id), ids);
+    if (error) return { error };
+
+    await guardarOrden(tx, tipo, ids);
+    return { items: await listarCodificacion(tx, episodioId, tipo) };
+  });
+}
+
+/**
+ * Quita un código del episodio; si era el principal, el siguiente pasa a serlo.
+ * Retorna null si el código no pertenece al episodio.
+ */
+export async function eliminarCodigoEpisodio(
+  episodioId: number,
+  tipo: TipoCodificacion,
+  itemId: number
+): Promise<{ items: ItemCodificacion[] } | null> {
+  return prisma.$transaction(async (tx) => {
+    const actuales = await listarCodificacion(tx, episodioId, tipo);
+    if (!actuales.some((i) => i.id === itemId)) return null;
+
+    if (tipo === 'diagnosticos') {
+      await tx.diagnostico.delete({ where: { id: itemId } });
+    } else {
+      await tx.procedimiento.delete({ where: { id: itemId } });
+    }
+    await guardarOrden(tx, tipo, actuales.filter((i) => i.id !== itemId).map((i) => i.id));
+    return { items: await listarCodificacion(tx, episodioId, tipo) };
+  });
+}
@@ -0,0 +1,265 @@
+/**
+ * Flujo de trabajo del episodio (codificación → revisión → aprobación → facturación)
+ *
+ * Define los estados del episodio, las transiciones permitidas y qué roles pueden
+ * ejecutarlas. Cada transición queda registrada en EpisodioTransicion con su actor.
+ * El campo legado `validado` se mantiene sincronizado con el estado.
+ */
+import type { Episodio, EpisodioTransicion, Grd, MotivoRechazo, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { detallarLiquidacionEpisodio, overridesGuardados, toNumber } from './liquidacion.service';
+import { crearSnapshotLiquidacion } from './snapshot.service';
+import { crearObservacion } from './observaciones.service';
+import { diferenciasEpisodio, registrarCambios } from './historial.service';
+
+export const ESTADOS_EPISODIO = [
+  'IMPORTADO',
+  'EN_CODIFICACION',
+  'CODIFICADO',
+  'EN_REVISION_GESTION',
+  'APROBADO_FINANZAS',
+  'RECHAZADO',
+  'EXPORTADO',
+  'FACTURADO',
+] as const;
+
+export type EstadoEpisodio = (typeof ESTADOS_EPISODIO)[number];
+
+// Transiciones permitidas: estado origen → estado destino → roles que pueden ejecutarla.
+// ADMIN puede ejecutar cualquier transición definida aquí.
+export const TRANSICIONES: Record<EstadoEpisodio, Partial<Record<EstadoEpisodio, string[]>>> = {
+  IMPORTADO: { EN_CODIFICACION: ['CODIFICADOR'] },
+  EN_CODIFICACION: { CODIFICADO: ['CODIFICADOR'] },
+  CODIFICADO: {
+    EN_REVISION_GESTION: ['GESTION'],
+    EN_CODIFICACION: ['CODIFICADOR'], // Reabrir la codificación
+  },
+  EN_REVISION_GESTION: {
+    APROBADO_FINANZAS: ['FINANZAS'],
+    RECHAZADO: ['GESTION', 'FINANZAS'],
+  },
+  APROBADO_FINANZAS: {
+    EXPORTADO: ['FINANZAS'],
+    RECHAZADO: ['FINANZAS'], // Revocar la aprobación
+    EN_REVISION_GESTION: ['FINANZAS'], // Devolver a revisión
+  },
+  RECHAZADO: {
+    EN_CODIFICACION: ['CODIFICADOR'], // Corregir la codificación
+    EN_REVISION_GESTION: ['FINANZAS'], // Deshacer el rechazo
+  },
+  EXPORTADO: { FACTURADO: ['FINANZAS'] },
+  FACTURADO: {},
+};
+
+// Estados en que la liquidación del episodio está aprobada (y congelada en su snapshot)
+const ESTADOS_APROBADOS: EstadoEpisodio[] = ['APROBADO_FINANZAS', 'EXPORTADO', 'FACTURADO'];
+
+export function normalizarRol(rol: string | null | undefined): string {
+  return (rol || '')
+    .toUpperCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .replace(/\s+/g, '');
+}
+
+export function esEstadoEpisodio(valor: unknown): valor is EstadoEpisodio {
+  return typeof valor === 'string' && (ESTADOS_EPISODIO as readonly string[]).includes(valor);
+}
+
+/**
+ * Estados del query param `estado` (separados por coma, sin distinguir mayúsculas).
+ * `estados` es null si no se envió el filtro; los valores desconocidos quedan en `invalidos`.
+ */
+export function parsearFiltroEstados(valor: unknown): { estados: EstadoEpisodio[] | null; invalidos: string[] } {
+  if (typeof valor !== 'string' || valor.trim() === '') return { estados: null, invalidos: [] };
+
+  const solicitados = valor
+    .split(',')
+    .map((e) => e.trim().toUpperCase())
+    .filter(Boolean);
+  return {
+    estados: solicitados.filter(esEstadoEpisodio),
+    invalidos: solicitados.filter((e) => !esEstadoEpisodio(e)),
+  };
+}
+
+/**
+ * Valida una transición para un rol. Retorna el motivo del rechazo o null si está permitida.
+ */
+export function validarTransicion(desde: string, hacia: string, rol: string | null | undefined): string | null {
+  if (!esEstadoEpisodio(hacia)) {
+    return `Estado destino inválido: ${hacia}. Use: ${ESTADOS_EPISODIO.join(', ')}`;
+  }
+  if (!esEstadoEpisodio(desde)) {
+    return `El episodio tiene un estado desconocido: ${desde}`;
+  }
+
+  const roles = TRANSICIONES[desde][hacia];
+  if (!roles) {
+    return `Transición no permitida: ${desde} → ${hacia}`;
+  }
+
+  const rolNormalizado = normalizarRol(rol);
+  if (rolNormalizado !== 'ADMIN' && !roles.includes(rolNormalizado)) {
+    return `El rol ${rol || 'desconocido'} no puede ejecutar la transición ${desde} → ${hacia} (roles permitidos: ${roles.join(', ')})`;
+  }
+
+  return null;
+}
+
+// Transiciones que el rol puede ejecutar desde el estado indicado
+export function transicionesDisponibles(desde: string, rol: string | null | undefined): EstadoEpisodio[] {
+  if (!esEstadoEpisodio(desde)) return [];
+  return (Object.keys(TRANSICIONES[desde]) as EstadoEpisodio[]).filter(
+    (hacia) => validarTransicion(desde, hacia, rol) === null
+  );
+}
+
+// Valor del campo legado `validado` que corresponde a cada estado
+export function validadoParaEstado(estado: EstadoEpisodio): boolean | null {
+  if (ESTADOS_APROBADOS.includes(estado)) return true;
+  if (estado === 'RECHAZADO') return false;
+  return null;
+}
+
+// Estado destino equivalente a un cambio del campo legado `validado` (PATCH /episodios/:id)
+export function estadoParaValidado(validado: boolean | null): EstadoEpisodio {
+  if (validado === true) return 'APROBADO_FINANZAS';
+  if (validado === false) return 'RECHAZADO';
+  return 'EN_REVISION_GESTION';
+}
+
+// Campos de Episodio que definen el monto liquidado (no se editan con la liquidación congelada)
+export const CAMPOS_MONTO_LIQUIDACION = [
+  'convenio',
+  'pesoGrd',
+  'precioBaseTramo',
+  'atSn',
+  'atDetalle',
+  'montoAt',
+  'diasDemoraRescate',
+  'pagoDemoraRescate',
+  'pagoOutlierSuperior',
+  'valorGrd',
+  'montoFinal',
+] as const;
+
+// Con la liquidación aprobada los montos quedan congelados hasta que se revoque o devuelva a revisión
+export function liquidacionCongelada(estado: string): boolean {
+  return (ESTADOS_APROBADOS as string[]).includes(estado);
+}
+
+/**
+ * Campos de monto que la edición cambia respecto del episodio (los que vienen con el mismo valor no cuentan)
+ */
+export function camposMontoModificados(episodio: Record<string, unknown>, cambios: Record<string, unknown>): string[] {
+  const editados = Object.fromEntries(
+    CAMPOS_MONTO_LIQUIDACION.filter((campo) => cambios[campo] !== undefined).map((campo) => [campo, cambios[campo]])
+  );
+  return diferenciasEpisodio(episodio, editados).map((cambio) => cambio.campo);
+}
+
+export interface ActorTransicion {
+  usuarioId: number | null;
+  rol: string | null;
+}
+
+export interface OpcionesTransicion {
+  comentario?: string | null;
+  // Motivo del catálogo MotivoRechazo (obligatorio al rechazar)
+  motivoRechazo?: MotivoRechazo | null;
+}
+
+// El estado del episodio cambió entre la validación y el registro de la transición (otra solicitud se adelantó)
+export class TransicionConcurrenteError extends Error {
+  readonly status = 409;
+
+  constructor(
+    readonly episodioId: number,
+    readonly estadoEsperado: string
+  ) {
+    super(`El episodio ${episodioId} ya no está en estado ${estadoEsperado}: otra solicitud lo modificó. Recargue e intente nuevamente`);
+    this.name = 'TransicionConcurrenteError';
+  }
+}
+
+/**
+ * Actualiza el estado del episodio y registra la transición (dentro de una transacción ya abierta).
+ * Un rechazo deja además una observación abierta para codificación con su motivo.
+ * No valida permisos: se debe llamar después de validarTransicion. El cambio de estado solo se
+ * aplica si el episodio sigue en el estado validado; si no, lanza TransicionConcurrenteError.
+ */
+export async function registrarTransicion(
+  tx: Prisma.TransactionClient,
+  episodio: Pick<Episodio, 'id' | 'estado'>,
+  hacia: EstadoEpisodio,
+  actor: ActorTransicion,
+  opciones: OpcionesTransicion = {}
+): Promise<EpisodioTransicion> {
+  const { count } = await tx.episodio.updateMany({
+    where: { id: episodio.id, estado: episodio.estado },
+    data: { estado: hacia, estadoActualizadoAt: new Date(), validado: validadoParaEstado(hacia) },
+  });
+  if (count === 0) {
+    throw new TransicionConcurrenteError(episodio.id, episodio.estado);
+  }
+
+  const transicion = await tx.episodioTransicion.create({
+    data: {
+      episodioId: episodio.id,
+      desde: episodio.estado,
+      hacia,
+      usuarioId: actor.usuarioId,
+      rol: actor.rol ? normalizarRol(actor.rol) : null,
+      comentario: opciones.comentario || null,
+    },
+  });
+
+  if (hacia === 'RECHAZADO' && opciones.motivoRechazo) {
+    await crearObservacion(tx, {
+      episodioId: episodio.id,
+      autorId: actor.usuarioId,
+      rol: actor.rol,
+      texto: opciones.comentario || opciones.motivoRechazo.descripcion,
+      rolDestino: 'CODIFICADOR',
+      motivoRechazoId: opciones.motivoRechazo.id,
+      transicionId: transicion.id,
+    });
+  }
+
+  return transicion;
+}
+
+/**
+ * Ejecuta una transición ya validada. Al aprobar se congela la liquidación
+ * guardada en un LiquidacionSnapshot nuevo, en la misma transacción.
+ */
+export async function transicionarEpisodio(
+  episodio: Episodio & { grd: Grd | null },
+  hacia: EstadoEpisodio,
+  actor: ActorTransicion,
+  opciones: OpcionesTransicion = {}
+) {
+  // Traza de la liquidación guardada (se resuelve el precio solo si el episodio no tiene uno)
+  const detalle =
+    hacia === 'APROBADO_FINANZAS'
+      ? await detallarLiquidacionEpisodio(episodio, {
+          ...overridesGuardados(episodio),
+          precioBaseTramo: toNumber(episodio.precioBaseTramo) ?? undefined,
+        })
+      : null;
+
+  return prisma.$transaction(async (tx) => {
+    const transicion = await registrarTransicion(tx, episodio, hacia, actor, opciones);
+
+    const actualizado = await tx.episodio.findUniqueOrThrow({ where: { id: episodio.id } });
+    await registrarCambios(tx, episodio, actualizado, { usuarioId: actor.usuarioId, rol: actor.rol, origen: 'UI' });
+
+    if (detalle) {
+      await crearSnapshotLiquidacion(tx, actualizado, detalle, actor.usuarioId);
+    }
+
+    return transicion;
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Catálogo de GRD (búsqueda y detalle)
+ *
+ * Los parámetros que se muestran son los guardados en Grd, que reflejan la versión más
+ * reciente de la Norma MINSAL; el detalle agrega los de cada versión cargada.
+ */
+import type { Grd, GrdNorma, NormaVersion, Prisma } from '@prisma/client';
+import { toNumber } from './liquidacion.service';
+
+export interface FiltroCatalogoGrd {
+  search?: unknown;
+  pesoMin?: unknown;
+  pesoMax?: unknown;
+  mdc?: unknown;
+}
+
+// Número opcional de la query (undefined si no viene, NaN si no es válido)
+function numeroQuery(valor: unknown): number | undefined {
+  if (typeof valor !== 'string' || valor.trim() === '') return undefined;
+  return Number(valor.trim().replace(',', '.'));
+}
+
+/**
+ * Filtro de Prisma para la búsqueda del catálogo
+ * - search: parte del código o de la descripción (sin distinguir mayúsculas)
+ * - pesoMin / pesoMax: rango de peso, ambos inclusive
+ * - mdc: prefijo del código (los dos primeros dígitos del código IR-GRD son la MDC)
+ */
+export function construirFiltroGrd(query: FiltroCatalogoGrd): { where: Prisma.GrdWhereInput } | { error: string } {
+  const where: Prisma.GrdWhereInput = {};
+
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  if (search) {
+    where.OR = [
+      { codigo: { contains: search, mode: 'insensitive' } },
+      { descripcion: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+
+  const mdc = typeof query.mdc === 'string' ? query.mdc.trim() : '';
+  if (mdc) {
+    if (!/^\d{1,4}$/.test(mdc)) return { error: `MDC inválida: ${mdc}. Use el prefijo numérico del código (ej. 14)` };
+    where.codigo = { startsWith: mdc };
+  }
+
+  const pesoMin = numeroQuery(query.pesoMin);
+  const pesoMax = numeroQuery(query.pesoMax);
+  if ((pesoMin !== undefined && isNaN(pesoMin)) || (pesoMax !== undefined && isNaN(pesoMax))) {
+    return { error: 'pesoMin y pesoMax deben ser numéricos' };
+  }
+  if (pesoMin !== undefined && pesoMax !== undefined && pesoMin > pesoMax) {
+    return { error: 'pesoMin debe ser menor o igual a pesoMax' };
+  }
+  if (pesoMin !== undefined || pesoMax !== undefined) {
+    where.peso = {
+      ...(pesoMin !== undefined ? { gte: pesoMin } : {}),
+      ...(pesoMax !== undefined ? { lte: pesoMax } : {}),
+    };
+  }
+
+  return { where };
+}
+
+// Parámetros de norma de un GRD (o de su fila en una versión)
+function parametrosNorma(fila: Pick<GrdNorma, 'peso' | 'puntoCorteInf' | 'puntoCorteSup' | 'percentil25' | 'percentil50' | 'percentil75'>) {
+  return {
+    peso: toNumber(fila.peso),
+    puntoCorteInf: toNumber(fila.puntoCorteInf),
+    puntoCorteSup: toNumber(fila.puntoCorteSup),
+    percentil25: toNumber(fila.percentil25),
+    percentil50: toNumber(fila.percentil50),
+    percentil75: toNumber(fila.percentil75),
+  };
+}
+
+export function formatearGrd(grd: Grd) {
+  return {
+    id: grd.id,
+    codigo: grd.codigo,
+    descripcion: grd.descripcion,
+    mdc: grd.codigo.slice(0, 2),
+    ...parametrosNorma(grd),
+  };
+}
+
+/**
+ * Detalle del GRD: parámetros actuales, los de cada versión de la norma (más reciente primero)
+ * y cuántos episodios lo usan
+ */
+export function formatearDetalleGrd(
+  grd: Grd & { normas: (GrdNorma & { version: NormaVersion })[] },
+  episodios: number
+) {
+  return {
+    ...formatearGrd(grd),
+    episodios,
+    versiones: [...grd.normas]
+      .sort((a, b) => b.version.vigenciaDesde.getTime() - a.version.vigenciaDesde.getTime())
+      .map((fila) => ({
+        versionId: fila.versionId,
+        anio: fila.version.anio,
+        vigenciaDesde: fila.version.vigenciaDesde.toISOString(),
+        vigenciaHasta: fila.version.vigenciaHasta ? fila.version.vigenciaHasta.toISOString() : null,
+        ...parametrosNorma(fila),
+      })),
+  };
+}
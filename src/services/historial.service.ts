@@ -0,0 +1,187 @@
+/**
+ * Historial de cambios por campo de los episodios (EpisodioCambio)
+ *
+ * Cada escritura sobre Episodio (creación, PUT, PATCH, transiciones, importación y
+ * reliquidaciones) registra los campos que cambiaron con su valor anterior y nuevo.
+ * Con ese registro se reconstruye el episodio tal como estaba en una fecha dada.
+ */
+import { Prisma } from '@prisma/client';
+import type { Episodio, EpisodioCambio } from '@prisma/client';
+
+export type OrigenCambio = 'UI' | 'IMPORTACION' | 'REPRICING' | 'PRECIO_CONVENIO' | 'REVERSION';
+
+export interface ContextoCambio {
+  usuarioId: number | null;
+  rol: string | null;
+  origen: OrigenCambio;
+  // Identificador del proceso que originó el cambio (ej. id del job de repricing o nombre del archivo)
+  referencia?: string | null;
+}
+
+// Campo especial que registra la creación del episodio (valorNuevo = campos iniciales)
+export const CAMPO_CREACION = '*';
+
+// Campos de Episodio que se auditan (se excluyen id y timestamps propios de la fila)
+export const CAMPOS_AUDITADOS = [
+  'centro',
+  'numeroFolio',
+  'episodioCmdb',
+  'idDerivacion',
+  'tipoEpisodio',
+  'fechaIngreso',
+  'fechaAlta',
+  'servicioAlta',
+  'estadoRn',
+  'atSn',
+  'atDetalle',
+  'montoAt',
+  'tipoAlta',
+  'pesoGrd',
+  'montoRn',
+  'diasDemoraRescate',
+  'pagoDemoraRescate',
+  'pagoOutlierSuperior',
+  'documentacion',
+  'inlierOutlier',
+  'grupoEnNorma',
+  'diasEstada',
+  'precioBaseTramo',
+  'valorGrd',
+  'montoFinal',
+  'facturacionTotal',
+  'especialidad',
+  'anio',
+  'mes',
+  'pacienteId',
+  'grdId',
+  'convenio',
+  'validado',
+  'estado',
+] as const;
+
+export type CampoAuditado = (typeof CAMPOS_AUDITADOS)[number];
+export type ValorCambio = Prisma.JsonValue;
+
+export interface CambioCampo {
+  campo: string;
+  valorAnterior: ValorCambio;
+  valorNuevo: ValorCambio;
+}
+
+/**
+ * Valor serializable para el historial: Decimal → number, Date → ISO, undefined → null
+ */
+export function valorAuditable(valor: unknown): ValorCambio {
+  if (valor === undefined || valor === null) return null;
+  if (valor instanceof Date) return valor.toISOString();
+  if (typeof valor === 'object' && valor !== null && 'toNumber' in valor && typeof (valor as any).toNumber === 'function') {
+    return (valor as { toNumber(): number }).toNumber();
+  }
+  if (typeof valor === 'object') return JSON.parse(JSON.stringify(valor));
+  return valor as ValorCambio;
+}
+
+/**
+ * Campos auditados que difieren entre dos versiones del episodio
+ * (solo se comparan los campos presentes en `despues`)
+ */
+export function diferenciasEpisodio(
+  antes: Partial<Record<string, unknown>>,
+  despues: Partial<Record<string, unknown>>
+): CambioCampo[] {
+  const cambios: CambioCampo[] = [];
+  for (const campo of CAMPOS_AUDITADOS) {
+    if (!(campo in despues)) continue;
+    const valorAnterior = valorAuditable(antes[campo]);
+    const valorNuevo = valorAuditable(despues[campo]);
+    if (JSON.stringify(valorAnterior) !== JSON.stringify(valorNuevo)) {
+      cambios.push({ campo, valorAnterior, valorNuevo });
+    }
+  }
+  return cambios;
+}
+
+// Json nulo de Prisma para columnas Json? (null de JS no se acepta en create)
+const jsonOrNull = (valor: ValorCambio) => (valor === null ? Prisma.DbNull : (valor as Prisma.InputJsonValue));
+
+export function filasCambios(
+  episodioId: number,
+  cambios: CambioCampo[],
+  contexto: ContextoCambio
+): Prisma.EpisodioCambioCreateManyInput[] {
+  return cambios.map((c) => ({
+    episodioId,
+    campo: c.campo,
+    valorAnterior: jsonOrNull(c.valorAnterior),
+    valorNuevo: jsonOrNull(c.valorNuevo),
+    usuarioId: contexto.usuarioId,
+    rol: contexto.rol ? contexto.rol.toUpperCase() : null,
+    origen: contexto.origen,
+    referencia: contexto.referencia ?? null,
+  }));
+}
+
+/**
+ * Registra los cambios entre dos versiones del episodio. Retorna la cantidad registrada.
+ */
+export async function registrarCambios(
+  cliente: Prisma.TransactionClient,
+  antes: Partial<Record<string, unknown>>,
+  despues: Partial<Record<string, unknown>> & { id: number },
+  contexto: ContextoCambio
+): Promise<number> {
+  const cambios = diferenciasEpisodio(antes, despues);
+  if (cambios.length === 0) return 0;
+  await cliente.episodioCambio.createMany({ data: filasCambios(despues.id, cambios, contexto) });
+  return cambios.length;
+}
+
+// Fila de historial de la creación del episodio (valorNuevo = campos iniciales no nulos)
+export function filasCreacion(episodio: Episodio, contexto: ContextoCambio): Prisma.EpisodioCambioCreateManyInput[] {
+  const iniciales: Record<string, ValorCambio> = {};
+  for (const campo of CAMPOS_AUDITADOS) {
+    const valor = valorAuditable(episodio[campo]);
+    if (valor !== null) iniciales[campo] = valor;
+  }
+  return filasCambios(episodio.id, [{ campo: CAMPO_CREACION, valorAnterior: null, valorNuevo: iniciales }], contexto);
+}
+
+/**
+ * Registra la creación del episodio con sus campos iniciales no nulos
+ */
+export async function registrarCreacion(
+  cliente: Prisma.TransactionClient,
+  episodio: Episodio,
+  contexto: ContextoCambio
+): Promise<void> {
+  await cliente.episodioCambio.createMany({ data: filasCreacion(episodio, contexto) });
+}
+
+/**
+ * Reconstruye los campos auditados del episodio a una fecha: parte del estado actual y
+ * deshace, del más reciente al más antiguo, los cambios registrados después de `asOf`.
+ * Retorna null si el episodio aún no existía en esa fecha.
+ */
+export function reconstruirEpisodio(
+  actual: Pick<Episodio, 'createdAt'> & Partial<Record<CampoAuditado, unknown>>,
+  cambios: Pick<EpisodioCambio, 'id' | 'campo' | 'valorAnterior' | 'createdAt'>[],
+  asOf: Date
+): Record<CampoAuditado, ValorCambio> | null {
+  if (actual.createdAt > asOf) return null;
+
+  const estado = {} as Record<CampoAuditado, ValorCambio>;
+  for (const campo of CAMPOS_AUDITADOS) {
+    estado[campo] = valorAuditable(actual[campo]);
+  }
+
+  const posteriores = cambios
+    .filter((c) => c.createdAt > asOf && c.campo !== CAMPO_CREACION)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  for (const cambio of posteriores) {
+    if ((CAMPOS_AUDITADOS as readonly string[]).includes(cambio.campo)) {
+      estado[cambio.campo as CampoAuditado] = cambio.valorAnterior;
+    }
+  }
+
+  return estado;
+}
@@ -0,0 +1,157 @@
+/**
+ * Impacto de un cambio de PrecioConvenio sobre los episodios
+ *
+ * Liquida los episodios del convenio con el precio propuesto para mostrar la
+ * vista previa (sin escribir) y, una vez confirmado el cambio, para reliquidarlos.
+ */
+import type { PrecioConvenio, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { Liquidacion, normalizarConvenio } from './liquidacion.engine';
+import {
+  liquidarEpisodio,
+  camposLiquidacion,
+  crearCacheLiquidacion,
+  overridesGuardados,
+  simularPrecioConvenio,
+  toNumber,
+} from './liquidacion.service';
+import { registrarCambios, ContextoCambio } from './historial.service';
+
+export interface ImpactoEpisodio {
+  episodioId: number;
+  episodioCmdb: string | null;
+  convenio: string | null;
+  tramo: string | null;
+  montoFinalAntes: number;
+  montoFinalDespues: number;
+  delta: number;
+}
+
+// Episodio que no se pudo liquidar
+export interface ErrorImpactoEpisodio {
+  episodioId: number;
+  episodioCmdb: string | null;
+  error: string;
+}
+
+export interface ImpactoCambioPrecio {
+  episodiosAfectados: number;
+  episodiosConCambio: number;
+  montoFinalAntes: number;
+  montoFinalDespues: number;
+  diferencia: number;
+  topDeltas: ImpactoEpisodio[];
+  errores: ErrorImpactoEpisodio[];
+}
+
+type CamposPrecio = Pick<PrecioConvenio, 'convenio' | 'tramo' | 'fechaAdmision' | 'fechaFin' | 'precio'>;
+
+// Indica si el cambio modifica algún dato que participa en la liquidación
+export function cambiaLiquidacion(anterior: CamposPrecio, propuesto: CamposPrecio): boolean {
+  const fecha = (d: Date | null) => d?.getTime() ?? null;
+  return (
+    anterior.precio !== propuesto.precio ||
+    normalizarConvenio(anterior.convenio) !== normalizarConvenio(propuesto.convenio) ||
+    (anterior.tramo || null) !== (propuesto.tramo || null) ||
+    fecha(anterior.fechaAdmision) !== fecha(propuesto.fechaAdmision) ||
+    fecha(anterior.fechaFin) !== fecha(propuesto.fechaFin)
+  );
+}
+
+const redondear = (valor: number) => Math.round(valor * 100) / 100;
+
+/**
+ * Reliquida los episodios afectados por el cambio de anterior → propuesto
+ *
+ * Afectados: episodios no aprobados del convenio (anterior y nuevo) que quedan con precio y,
+ * si el precio es por tramo, cuyo tramo es el del registro modificado. Los episodios se
+ * liquidan con el precio propuesto simulado en la cache y con sus ediciones manuales
+ * guardadas (ver overridesGuardados); los que no se pueden liquidar quedan en `errores`.
+ * Con aplicar = false no se escribe en la BD. Con aplicar = true los episodios se actualizan
+ * con `cliente`, la transacción que guarda el cambio de precio: si una escritura falla se
+ * revierte todo, incluido el precio.
+ */
+export async function calcularImpactoCambioPrecio(
+  anterior: PrecioConvenio,
+  propuesto: PrecioConvenio,
+  opciones: {
+    aplicar: boolean;
+    cliente?: Prisma.TransactionClient;
+    top?: number;
+    usuario?: Pick<ContextoCambio, 'usuarioId' | 'rol'>;
+  }
+): Promise<ImpactoCambioPrecio> {
+  const cache = crearCacheLiquidacion();
+  await simularPrecioConvenio(cache, anterior, propuesto);
+
+  const convenios = [...new Set([normalizarConvenio(anterior.convenio), normalizarConvenio(propuesto.convenio)])].filter(
+    Boolean
+  );
+  const tramos = new Set([anterior.tramo, propuesto.tramo].filter((t): t is string => !!t));
+
+  const episodios = await prisma.episodio.findMany({
+    // Los aprobados no se reliquidan: su liquidación está congelada en LiquidacionSnapshot
+    where: { convenio: { in: convenios }, OR: [{ validado: null }, { validado: false }] },
+    include: { grd: true },
+  });
+
+  const cliente = opciones.cliente ?? prisma;
+  const impactos: ImpactoEpisodio[] = [];
+  const errores: ErrorImpactoEpisodio[] = [];
+  for (const episodio of episodios) {
+    let liquidacion: Liquidacion;
+    try {
+      liquidacion = await liquidarEpisodio(episodio, { ...overridesGuardados(episodio), cache });
+    } catch (error: any) {
+      console.error(`❌ Error liquidando episodio ${episodio.id}:`, error?.message || error);
+      errores.push({
+        episodioId: episodio.id,
+        episodioCmdb: episodio.episodioCmdb,
+        error: error?.message || 'Error desconocido',
+      });
+      continue;
+    }
+
+    // Si el precio es por tramo, solo los episodios del tramo modificado
+    if (liquidacion.tramo && tramos.size > 0 && !tramos.has(liquidacion.tramo)) continue;
+    if (liquidacion.precioBaseTramo === null) continue;
+
+    if (opciones.aplicar) {
+      const actualizado = await cliente.episodio.update({
+        where: { id: episodio.id },
+        data: camposLiquidacion(liquidacion),
+      });
+      await registrarCambios(cliente, episodio, actualizado, {
+        usuarioId: opciones.usuario?.usuarioId ?? null,
+        rol: opciones.usuario?.rol ?? null,
+        origen: 'PRECIO_CONVENIO',
+        referencia: `precioConvenio:${propuesto.id}`,
+      });
+    }
+
+    const antes = toNumber(episodio.montoFinal) ?? 0;
+    impactos.push({
+      episodioId: episodio.id,
+      episodioCmdb: episodio.episodioCmdb,
+      convenio: episodio.convenio,
+      tramo: liquidacion.tramo,
+      montoFinalAntes: antes,
+      montoFinalDespues: liquidacion.montoFinal,
+      delta: redondear(liquidacion.montoFinal - antes),
+    });
+  }
+
+  const montoFinalAntes = redondear(impactos.reduce((suma, i) => suma + i.montoFinalAntes, 0));
+  const montoFinalDespues = redondear(impactos.reduce((suma, i) => suma + i.montoFinalDespues, 0));
+  const conCambio = impactos.filter((i) => Math.abs(i.delta) > 0.01);
+
+  return {
+    episodiosAfectados: impactos.length,
+    episodiosConCambio: conCambio.length,
+    montoFinalAntes,
+    montoFinalDespues,
+    diferencia: redondear(montoFinalDespues - montoFinalAntes),
+    topDeltas: conCambio.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)).slice(0, opciones.top ?? 10),
+    errores,
+  };
+}
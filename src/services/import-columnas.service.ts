@@ -0,0 +1,211 @@
+/**
+ * Detección de columnas del archivo maestro
+ *
+ * Los encabezados del archivo maestro varían entre exportaciones (espacios dobles,
+ * mayúsculas, "(cod)" vs "(des)"). Aquí se centraliza qué encabezados acepta cada
+ * campo y cómo se resuelven, para que la carga y el modo dryRun usen la misma regla
+ * y se pueda informar qué columna alimentó cada campo.
+ */
+
+export type TipoCoincidencia = 'exacta' | 'normalizada' | 'parcial';
+
+export interface CampoImportacion {
+  campo: string;
+  // Encabezados aceptados, en orden de prioridad
+  columnas: string[];
+  requerido?: boolean;
+  // true: además acepta coincidencia parcial (el encabezado contiene el nombre o viceversa)
+  flexible?: boolean;
+}
+
+export interface ColumnaEncontrada {
+  columna: string;
+  coincidencia: TipoCoincidencia;
+}
+
+export const COLUMNAS_CONVENIO = [
+  'Convenios  (cod)',
+  'Convenios (cod)',
+  'Convenios(cod)',
+  'Convenios',
+  'Convenio',
+  'Código Convenio',
+  'Codigo Convenio',
+];
+
+export const COLUMNAS_FECHA_INGRESO = [
+  'Fecha Ingreso completa',
+  'Fecha Ingreso',
+  'Fecha de Ingreso',
+  'fecha ingreso completa',
+  'fecha ingreso',
+];
+
+export const COLUMNAS_FECHA_ALTA = ['Fecha Completa', 'Fecha Alta', 'Fecha de Alta', 'fecha completa', 'fecha alta'];
+
+// Campos que la carga del archivo maestro (/api/upload) lee de cada fila (perfil predeterminado)
+export const CAMPOS_ARCHIVO_MAESTRO: CampoImportacion[] = [
+  { campo: 'episodioCmdb', columnas: ['Episodio CMBD', 'EpisodioCMBD'], requerido: true },
+  { campo: 'centro', columnas: ['Hospital (Descripción)', 'Hospital(Descripción)'], requerido: true },
+  { campo: 'rut', columnas: ['RUT'], requerido: true },
+  { campo: 'grdCodigo', columnas: ['IR GRD (Código)', 'IR GRD(Código)'], requerido: true },
+  { campo: 'nombre', columnas: ['Nombre'] },
+  { campo: 'sexo', columnas: ['Sexo  (Desc)'] },
+  { campo: 'edad', columnas: ['Edad en años'] },
+  { campo: 'numeroFolio', columnas: ['ID Derivación'] },
+  { campo: 'tipoEpisodio', columnas: ['Tipo Actividad'] },
+  { campo: 'servicioAlta', columnas: ['Servicio Egreso (Descripción)'] },
+  { campo: 'fechaIngreso', columnas: COLUMNAS_FECHA_INGRESO, flexible: true },
+  { campo: 'fechaAlta', columnas: COLUMNAS_FECHA_ALTA, flexible: true },
+  { campo: 'convenio', columnas: COLUMNAS_CONVENIO, flexible: true },
+  { campo: 'pesoGrd', columnas: ['Peso GRD Medio (Todos)'] },
+  { campo: 'montoRn', columnas: ['Facturación Total del episodio'] },
+  { campo: 'estadoRn', columnas: ['Estado RN'] },
+  { campo: 'at', columnas: ['AT'] },
+  { campo: 'atDetalle', columnas: ['AT Detalle'] },
+  { campo: 'montoAt', columnas: ['Monto AT'] },
+  { campo: 'diasDemoraRescate', columnas: ['Días Demora Rescate'] },
+  { campo: 'pagoDemoraRescate', columnas: ['Pago Demora Rescate'] },
+  // Codificación: código principal y conjunto de códigos ("[P90][P91.8]...")
+  { campo: 'diagnosticoPrincipal', columnas: ['Diagnóstico   Principal', 'Diagnóstico Principal', 'Diagnostico Principal'] },
+  { campo: 'diagnosticos', columnas: ['Conjunto Dx', 'Conjunto Diagnósticos'] },
+  { campo: 'procedimientoPrincipal', columnas: ['Proced 01 Principal    (cod)', 'Procedimiento Principal'] },
+  { campo: 'procedimientos', columnas: ['Conjunto Procedimientos Secundarios', 'Conjunto Procedimientos'] },
+];
+
+export function normalizarEncabezado(nombre: string): string {
+  return nombre.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function tieneValor(valor: unknown): boolean {
+  return valor !== undefined && valor !== null && String(valor).trim() !== '';
+}
+
+/**
+ * Encabezado que corresponde a alguno de los nombres aceptados: primero por nombre
+ * exacto (en orden de prioridad), luego sin importar espacios ni mayúsculas y, si
+ * el campo es flexible, por coincidencia parcial.
+ */
+export function buscarEncabezado(
+  encabezados: string[],
+  posibles: string[],
+  flexible = true
+): ColumnaEncontrada | null {
+  for (const nombre of posibles) {
+    if (encabezados.includes(nombre)) return { columna: nombre, coincidencia: 'exacta' };
+  }
+  for (const nombre of posibles) {
+    const nombreNormalizado = normalizarEncabezado(nombre);
+    const encontrado = encabezados.find((e) => normalizarEncabezado(e) === nombreNormalizado);
+    if (encontrado !== undefined) return { columna: encontrado, coincidencia: 'normalizada' };
+  }
+  if (!flexible) return null;
+
+  for (const encabezado of encabezados) {
+    const normalizado = normalizarEncabezado(encabezado);
+    if (!normalizado) continue;
+    for (const nombre of posibles) {
+      const nombreNormalizado = normalizarEncabezado(nombre);
+      if (normalizado.includes(nombreNormalizado) || nombreNormalizado.includes(normalizado)) {
+        return { columna: encabezado, coincidencia: 'parcial' };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Columna de la fila (con valor) de la que se toma el campo
+ */
+export function buscarColumna(
+  fila: Record<string, unknown>,
+  posibles: string[],
+  flexible = true
+): ColumnaEncontrada | null {
+  const conValor = Object.keys(fila).filter((k) => tieneValor(fila[k]));
+  return buscarEncabezado(conValor, posibles, flexible);
+}
+
+export interface MapeoColumna {
+  campo: string;
+  requerido: boolean;
+  // Columna usada en la mayoría de las filas (null si ninguna)
+  columna: string | null;
+  coincidencia: TipoCoincidencia | null;
+  filasConValor: number;
+  // Otras columnas de las que se tomó el campo en algunas filas
+  columnasAlternativas: string[];
+}
+
+export interface ReporteColumnas {
+  mapeo: MapeoColumna[];
+  columnasSinMapear: string[];
+  camposRequeridosFaltantes: string[];
+}
+
+/**
+ * Acumula el reporte de columnas fila a fila (el archivo se lee por streaming)
+ */
+export function acumuladorColumnas(campos: CampoImportacion[] = CAMPOS_ARCHIVO_MAESTRO) {
+  const encabezados: string[] = [];
+  const vistos = new Set<string>();
+  const conteos = campos.map(() => new Map<string, { coincidencia: TipoCoincidencia; filas: number }>());
+
+  return {
+    agregar(fila: Record<string, unknown>): void {
+      for (const key of Object.keys(fila)) {
+        if (!vistos.has(key)) {
+          vistos.add(key);
+          encabezados.push(key);
+        }
+      }
+      campos.forEach((campo, i) => {
+        const encontrada = buscarColumna(fila, campo.columnas, campo.flexible ?? false);
+        if (!encontrada) return;
+        const actual = conteos[i].get(encontrada.columna);
+        conteos[i].set(encontrada.columna, { coincidencia: encontrada.coincidencia, filas: (actual?.filas ?? 0) + 1 });
+      });
+    },
+
+    reporte(): ReporteColumnas {
+      const usadas = new Set<string>();
+      const mapeo = campos.map((campo, i): MapeoColumna => {
+        const ordenadas = [...conteos[i].entries()].sort((a, b) => b[1].filas - a[1].filas);
+        // Sin valores en ninguna fila: informar igualmente el encabezado si existe
+        const principal = ordenadas[0]
+          ? { columna: ordenadas[0][0], coincidencia: ordenadas[0][1].coincidencia }
+          : buscarEncabezado(encabezados, campo.columnas, campo.flexible ?? false);
+
+        if (principal) usadas.add(principal.columna);
+        ordenadas.slice(1).forEach(([columna]) => usadas.add(columna));
+
+        return {
+          campo: campo.campo,
+          requerido: campo.requerido ?? false,
+          columna: principal?.columna ?? null,
+          coincidencia: principal?.coincidencia ?? null,
+          filasConValor: ordenadas.reduce((total, [, c]) => total + c.filas, 0),
+          columnasAlternativas: ordenadas.slice(1).map(([columna]) => columna),
+        };
+      });
+
+      return {
+        mapeo,
+        columnasSinMapear: encabezados.filter((e) => !usadas.has(e)),
+        camposRequeridosFaltantes: mapeo.filter((m) => m.requerido && m.columna === null).map((m) => m.campo),
+      };
+    },
+  };
+}
+
+/**
+ * Reporte de qué columna alimenta cada campo, aplicando la misma regla que la carga fila a fila
+ */
+export function mapearColumnas(
+  filas: Record<string, unknown>[],
+  campos: CampoImportacion[] = CAMPOS_ARCHIVO_MAESTRO
+): ReporteColumnas {
+  const acumulador = acumuladorColumnas(campos);
+  filas.forEach((fila) => acumulador.agregar(fila));
+  return acumulador.reporte();
+}
@@ -0,0 +1,455 @@
+/**
+ * ETL del archivo maestro de episodios
+ *
+ * Una sola implementación para /api/upload, /api/episodios/import y el comando
+ * `npm run etl`, en etapas: leer (streaming) → mapear (columnas del perfil) → validar →
+ * enriquecer (GRD, liquidación, plan de merge) → persistir (por chunks, en
+ * import-job.service). Así el mismo archivo da el mismo resultado por cualquier entrada.
+ * Cada etapa se puede reemplazar con crearProcesadorEtl.
+ */
+import type { Prisma } from '@prisma/client';
+import { camposLiquidacion, liquidarEpisodio } from './liquidacion.service';
+import { acumuladorColumnas, ColumnaEncontrada } from './import-columnas.service';
+import { leerFilasArchivo } from './import-lectura.service';
+import {
+  errorFecha,
+  formatosFecha,
+  parsearFechaImportacion,
+  validarFormatoFecha,
+  ZONA_HORARIA_IMPORTACION,
+} from './import-fechas.service';
+import {
+  columnaCampo,
+  conFormatoFecha,
+  obtenerPerfilImportacion,
+  parsearNumero,
+  valorCampo,
+  PerfilImportacion,
+} from './import-perfiles.service';
+import { MODOS_IMPORTACION, ModoImportacion, parsearModoImportacion, planificarFusion } from './import-merge.service';
+import { claveCie, errorFormatoCie, normalizarCodigoCie, NOMBRES_SISTEMA_CIE, SistemaCie } from './cie-catalogo.service';
+import {
+  codigosConPrincipal,
+  parsearListaCodigos,
+  SISTEMA_CODIFICACION,
+  TIPOS_CODIFICACION,
+} from './codificacion.service';
+import {
+  cargarCacheChunk,
+  ErrorFila,
+  FilaImportacion,
+  OperacionFila,
+  ProcesadorImportacion,
+  SesionImportacion,
+  TAMANO_CHUNK_IMPORTACION,
+} from './import-job.service';
+
+const FILAS_MUESTRA_DRY_RUN = 5;
+
+// Celda de fecha: columna de origen, valor crudo y fecha interpretada (null si no se pudo)
+export interface CeldaFecha {
+  columna: string | null;
+  valor: unknown;
+  fecha: Date | null;
+}
+
+// Fila del archivo maestro ya mapeada con las columnas del perfil
+export interface FilaEpisodio {
+  // Encabezados de los campos requeridos que vienen vacíos
+  faltantes: string[];
+  episodioCmdb: string | null;
+  centro: string | null;
+  rut: string | null;
+  grdCodigo: string | null;
+  nombre: string | null;
+  sexo: string | null;
+  edad: number | null;
+  numeroFolio: string | null;
+  tipoEpisodio: string | null;
+  servicioAlta: string | null;
+  fechaIngreso: CeldaFecha;
+  fechaAlta: CeldaFecha;
+  convenio: string | null;
+  convenioColumna: ColumnaEncontrada | null;
+  pesoGrd: number | null;
+  montoRn: number | null;
+  estadoRn: string | null;
+  at: string | null;
+  atDetalle: string | null;
+  montoAt: number | null;
+  diasDemoraRescate: number | null;
+  pagoDemoraRescate: number | null;
+  // Códigos CIE-10 y CIE-9-MC normalizados, con el principal primero
+  diagnosticos: string[];
+  procedimientos: string[];
+}
+
+// Lo que validar y enriquecer leen de la sesión del job (o de la previsualización)
+export type ContextoEtl = Pick<SesionImportacion, 'perfil' | 'modo' | 'cache'> &
+  Partial<Pick<SesionImportacion, 'liquidacion'>>;
+
+export function limpiarTexto(valor: unknown): string | null {
+  if (valor === undefined || valor === null) return null;
+  const texto = String(valor).replace(/\s+/g, ' ').trim();
+  return texto === '' || texto.toLowerCase() === 'null' ? null : texto;
+}
+
+/**
+ * map: valores de la fila según las columnas y opciones de lectura del perfil
+ */
+export function mapearFilaEpisodio(fila: FilaImportacion, perfil: PerfilImportacion): FilaEpisodio {
+  const texto = (campo: string) => limpiarTexto(valorCampo(fila, perfil, campo));
+  const numero = (campo: string) => parsearNumero(valorCampo(fila, perfil, campo), perfil.opciones.separadorDecimal);
+  const formatos = formatosFecha(perfil.opciones.formatoFecha);
+  const fecha = (campo: string): CeldaFecha => {
+    const encontrada = columnaCampo(fila, perfil, campo);
+    const valor = encontrada ? fila[encontrada.columna] : undefined;
+    return { columna: encontrada?.columna ?? null, valor, fecha: parsearFechaImportacion(valor, formatos) };
+  };
+  const convenio = columnaCampo(fila, perfil, 'convenio');
+  const edad = numero('edad');
+
+  return {
+    faltantes: perfil.campos.filter((c) => c.requerido && !texto(c.campo)).map((c) => c.columnas[0]),
+    episodioCmdb: texto('episodioCmdb'),
+    centro: texto('centro'),
+    rut: texto('rut'),
+    grdCodigo: texto('grdCodigo'),
+    nombre: texto('nombre'),
+    sexo: texto('sexo'),
+    edad: edad !== null ? Math.trunc(edad) : null,
+    numeroFolio: texto('numeroFolio'),
+    tipoEpisodio: texto('tipoEpisodio'),
+    servicioAlta: texto('servicioAlta'),
+    fechaIngreso: fecha('fechaIngreso'),
+    fechaAlta: fecha('fechaAlta'),
+    convenio: convenio ? limpiarTexto(fila[convenio.columna]) : null,
+    convenioColumna: convenio,
+    pesoGrd: numero('pesoGrd'),
+    montoRn: numero('montoRn'),
+    estadoRn: texto('estadoRn'),
+    at: texto('at'),
+    atDetalle: texto('atDetalle'),
+    montoAt: numero('montoAt'),
+    diasDemoraRescate: numero('diasDemoraRescate'),
+    pagoDemoraRescate: numero('pagoDemoraRescate'),
+    diagnosticos: codigosConPrincipal(
+      normalizarCodigoCie(texto('diagnosticoPrincipal')),
+      parsearListaCodigos(texto('diagnosticos'))
+    ),
+    procedimientos: codigosConPrincipal(
+      normalizarCodigoCie(texto('procedimientoPrincipal')),
+      parsearListaCodigos(texto('procedimientos'))
+    ),
+  };
+}
+
+// Códigos CIE de la fila, para buscarlos en el catálogo junto con el chunk
+export function codigosCieFila(fila: FilaEpisodio): { sistema: SistemaCie; codigo: string }[] {
+  return TIPOS_CODIFICACION.flatMap((tipo) => fila[tipo].map((codigo) => ({ sistema: SISTEMA_CODIFICACION[tipo], codigo })));
+}
+
+/**
+ * Error del primer código de la fila con formato inválido o que no está en el catálogo.
+ * Si el catálogo de un sistema aún no se carga, sus códigos solo se validan por formato.
+ */
+function errorCodificacion(fila: FilaEpisodio, contexto: ContextoEtl): string | null {
+  const { cache } = contexto;
+  for (const { sistema, codigo } of codigosCieFila(fila)) {
+    const error = errorFormatoCie(sistema, codigo);
+    if (error) return error;
+    if (cache.catalogosCie.has(sistema) && !cache.cie.has(claveCie(sistema, codigo))) {
+      return `Código no encontrado en el catálogo ${NOMBRES_SISTEMA_CIE[sistema]}: ${codigo}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * validate: error de la fila o null. Episodios y GRD se buscan en la cache del chunk.
+ * En modo MERGE los Episodio CMBD existentes no se rechazan: se actualizan.
+ */
+export function validarFilaEpisodio(fila: FilaEpisodio, contexto: ContextoEtl): string | null {
+  const { cache, modo } = contexto;
+  if (fila.faltantes.length > 0) {
+    return `Campos faltantes: ${fila.faltantes.join(', ')}`;
+  }
+
+  // Duplicados: en la BD o en una fila anterior del mismo chunk
+  const clave = fila.episodioCmdb;
+  if (clave && modo === 'CREAR' && (cache.episodios.has(clave) || cache.enChunk.has(clave))) {
+    return `Duplicado detectado: Episodio CMBD ${clave}`;
+  }
+  if (clave && modo === 'MERGE' && cache.enChunk.has(clave)) {
+    return `Episodio CMBD repetido en el archivo: ${clave}`;
+  }
+
+  // El GRD debe existir en la norma cargada
+  if (!fila.grdCodigo) {
+    return `El campo 'IR GRD (Código)' está vacío.`;
+  }
+  if (!cache.grds.has(fila.grdCodigo)) {
+    return `Regla GRD no encontrada en la Norma Minsal: ${fila.grdCodigo}. Cargue la norma primero.`;
+  }
+
+  // Fechas requeridas para crear el episodio; en un merge, vacías no cambian las del episodio
+  const formatos = formatosFecha(contexto.perfil.opciones.formatoFecha);
+  const crea = !(clave && modo === 'MERGE' && cache.episodios.has(clave));
+  return (
+    errorFecha('Fecha de ingreso', fila.fechaIngreso.valor, formatos, { requerida: crea }) ??
+    errorFecha('Fecha de alta', fila.fechaAlta.valor, formatos, { requerida: crea }) ??
+    // La codificación solo se carga al crear el episodio
+    (crea ? errorCodificacion(fila, contexto) : null)
+  );
+}
+
+/**
+ * enrich: vincula el GRD, liquida con el motor (precio base, inlier/outlier, pagos y
+ * montos; NO se usan los del archivo maestro) y decide si crea o actualiza el episodio
+ */
+export async function enriquecerFilaEpisodio(fila: FilaEpisodio, contexto: ContextoEtl): Promise<OperacionFila> {
+  const { cache } = contexto;
+  const grd = fila.grdCodigo ? cache.grds.get(fila.grdCodigo) : undefined;
+  if (!grd) {
+    // validarFilaEpisodio ya lo verificó; defensa por si la etapa se reemplaza
+    throw new Error(`Regla GRD ${fila.grdCodigo} no encontrada durante el procesamiento.`);
+  }
+  const fechaIngreso = fila.fechaIngreso.fecha;
+  const fechaAlta = fila.fechaAlta.fecha;
+
+  // Episodio ya cargado (solo llega aquí en modo MERGE): se actualizan únicamente los
+  // campos de origen, conservando lo trabajado en la plataforma (incluida la codificación)
+  const existente = fila.episodioCmdb ? cache.episodios.get(fila.episodioCmdb) : undefined;
+  if (existente) {
+    const fusion = await planificarFusion(
+      existente,
+      { fechaIngreso, fechaAlta, grdId: grd.id, pesoGrd: fila.pesoGrd, servicioAlta: fila.servicioAlta },
+      { editadosManualmente: cache.editados.get(existente.id) ?? new Set(), grd, cache: contexto.liquidacion }
+    );
+    return { tipo: 'FUSIONAR', fusion };
+  }
+
+  if (!fechaIngreso || !fechaAlta) {
+    throw new Error(`Fechas no válidas para el episodio ${fila.episodioCmdb}`);
+  }
+  if (fila.convenioColumna?.coincidencia === 'parcial') {
+    console.log(`🔍 Columna de convenio encontrada por coincidencia parcial: "${fila.convenioColumna.columna}"`);
+  }
+  if (!fila.convenio) {
+    console.warn(`⚠️ Convenio no encontrado para episodio ${fila.episodioCmdb}; se guarda vacío`);
+  }
+
+  const atSn = fila.at ? fila.at.toUpperCase() === 'S' : false;
+  const montoAt = fila.montoAt ?? 0;
+  const diasDemoraRescate = Math.trunc(fila.diasDemoraRescate ?? 0);
+  const liquidacion = await liquidarEpisodio(
+    {
+      convenio: fila.convenio,
+      pesoGrd: fila.pesoGrd,
+      fechaIngreso,
+      fechaAlta,
+      montoAt,
+      diasDemoraRescate,
+      pagoDemoraRescate: fila.pagoDemoraRescate ?? 0,
+      grd,
+    },
+    { cache: contexto.liquidacion }
+  );
+
+  // Descripción del catálogo CIE (null si el catálogo del sistema no está cargado)
+  const codigosEpisodio = (sistema: SistemaCie, codigos: string[]) =>
+    codigos.map((codigo) => ({ codigo, descripcion: cache.cie.get(claveCie(sistema, codigo))?.descripcion ?? null }));
+
+  return {
+    tipo: 'CREAR',
+    paciente: {
+      rut: fila.rut || 'SIN-RUT', // Placeholder si el RUT es nulo
+      nombre: fila.nombre,
+      sexo: fila.sexo,
+      edad: fila.edad,
+    },
+    data: {
+      centro: fila.centro,
+      numeroFolio: fila.numeroFolio,
+      episodioCmdb: fila.episodioCmdb,
+      tipoEpisodio: fila.tipoEpisodio,
+      fechaIngreso,
+      fechaAlta,
+      servicioAlta: fila.servicioAlta,
+      montoRn: fila.montoRn ?? 0,
+      pesoGrd: fila.pesoGrd,
+      // convenio nunca null: si no se encontró, string vacía
+      convenio: fila.convenio || '',
+      diasEstada: liquidacion.diasEstada,
+      inlierOutlier: liquidacion.inlierOutlier,
+      estadoRn: fila.estadoRn || 'Pendiente',
+      atSn,
+      atDetalle: atSn ? fila.atDetalle : null,
+      montoAt,
+      diasDemoraRescate,
+      ...camposLiquidacion(liquidacion),
+      grdId: grd.id,
+    },
+    codificacion: {
+      diagnosticos: codigosEpisodio(SISTEMA_CODIFICACION.diagnosticos, fila.diagnosticos),
+      procedimientos: codigosEpisodio(SISTEMA_CODIFICACION.procedimientos, fila.procedimientos),
+    },
+  };
+}
+
+/**
+ * Procesador de importación con las etapas del ETL; `etapas` reemplaza las predeterminadas
+ */
+export function crearProcesadorEtl(
+  etapas: Partial<ProcesadorImportacion<FilaEpisodio>> = {}
+): ProcesadorImportacion<FilaEpisodio> {
+  return {
+    leer: (ruta, archivoNombre, perfil) => leerFilasArchivo(ruta, archivoNombre, perfil.opciones),
+    mapear: mapearFilaEpisodio,
+    clave: (fila) => fila.episodioCmdb,
+    grd: (fila) => fila.grdCodigo,
+    cie: codigosCieFila,
+    validar: validarFilaEpisodio,
+    enriquecer: enriquecerFilaEpisodio,
+    ...etapas,
+  };
+}
+
+export const procesadorEtl = crearProcesadorEtl();
+
+export interface OpcionesImportacion {
+  perfil: PerfilImportacion;
+  modo: ModoImportacion;
+  // Formato de fecha de esta carga; reemplaza el del perfil
+  formatoFecha: string | null;
+}
+
+/**
+ * Perfil, modo y formato de fecha pedidos al cargar un archivo (formulario, query o CLI).
+ * Retorna `error` y `message` si alguno no es válido.
+ */
+export async function resolverOpcionesImportacion(parametros: {
+  perfil?: unknown;
+  modo?: unknown;
+  replace?: unknown;
+  formatoFecha?: unknown;
+}): Promise<{ opciones: OpcionesImportacion } | { error: string; message: string }> {
+  const perfil = await obtenerPerfilImportacion(parametros.perfil as string | undefined);
+  if (!perfil) {
+    return {
+      error: 'Perfil de importación no encontrado',
+      message: `No existe un perfil de importación activo: ${parametros.perfil}`,
+    };
+  }
+
+  const modo = parsearModoImportacion(parametros.modo, parametros.replace);
+  if (!modo) {
+    return {
+      error: 'Error de validación',
+      message: `Modo de importación inválido: ${parametros.modo}. Use: ${MODOS_IMPORTACION.join(', ')}`,
+    };
+  }
+
+  const formatoFecha = typeof parametros.formatoFecha === 'string' ? parametros.formatoFecha.trim() || null : null;
+  const errorFormato = formatoFecha ? validarFormatoFecha(formatoFecha) : null;
+  if (errorFormato) {
+    return { error: 'Error de validación', message: errorFormato };
+  }
+
+  return { opciones: { perfil: conFormatoFecha(perfil, formatoFecha), modo, formatoFecha } };
+}
+
+// Opciones que el job guarda para leer el archivo igual al reanudarse
+export function opcionesJob(opciones: OpcionesImportacion): Prisma.InputJsonObject {
+  return { perfilId: opciones.perfil.id, modo: opciones.modo, formatoFecha: opciones.formatoFecha };
+}
+
+// Valores que se obtendrían de una fila, con la columna de origen
+function muestraFila(registro: FilaImportacion, fila: FilaEpisodio, numero: number, perfil: PerfilImportacion) {
+  const fecha = (celda: CeldaFecha) => ({
+    columna: celda.columna,
+    valor: celda.valor instanceof Date ? celda.valor.toISOString() : celda.valor ?? null,
+    parseada: celda.fecha ? celda.fecha.toISOString() : null,
+  });
+  const peso = columnaCampo(registro, perfil, 'pesoGrd');
+
+  return {
+    fila: numero,
+    episodioCmdb: fila.episodioCmdb,
+    grdCodigo: fila.grdCodigo,
+    fechaIngreso: fecha(fila.fechaIngreso),
+    fechaAlta: fecha(fila.fechaAlta),
+    convenio: { columna: fila.convenioColumna?.columna ?? null, valor: fila.convenio },
+    pesoGrd: { columna: peso?.columna ?? null, valor: peso ? registro[peso.columna] : null, parseado: fila.pesoGrd },
+    diagnosticos: fila.diagnosticos,
+    procedimientos: fila.procedimientos,
+  };
+}
+
+/**
+ * Modo dryRun: lee, mapea y valida el archivo sin escribir en la base de datos.
+ * Informa qué columna alimenta cada campo, las columnas no usadas, una muestra de
+ * valores interpretados y los errores de validación por fila. El archivo se recorre por
+ * streaming y se valida por chunks, igual que en la importación.
+ */
+export async function previsualizarImportacion(
+  ruta: string,
+  archivoNombre: string,
+  opciones: Pick<OpcionesImportacion, 'perfil' | 'modo'>,
+  procesador: ProcesadorImportacion<FilaEpisodio> = procesadorEtl
+) {
+  const { perfil, modo } = opciones;
+  const columnas = acumuladorColumnas(perfil.campos);
+  const muestra: ReturnType<typeof muestraFila>[] = [];
+  const errores: ErrorFila[] = [];
+  let total = 0;
+  let validas = 0;
+
+  const validarChunk = async (registros: FilaImportacion[], inicio: number) => {
+    const filas = registros.map((r) => procesador.mapear(r, perfil));
+    const cache = await cargarCacheChunk(
+      filas.map((f) => procesador.clave(f)).filter((c): c is string => !!c),
+      filas.map((f) => procesador.grd(f)).filter((c): c is string => !!c),
+      filas.flatMap((f) => procesador.cie?.(f) ?? [])
+    );
+    filas.forEach((fila, i) => {
+      const error = procesador.validar(fila, { perfil, modo, cache });
+      if (error) {
+        errores.push({ fila: inicio + i + 1, error, registro: registros[i] });
+        return;
+      }
+      validas++;
+      const clave = procesador.clave(fila);
+      if (clave) cache.enChunk.add(clave);
+    });
+  };
+
+  let chunk: FilaImportacion[] = [];
+  for await (const registro of procesador.leer(ruta, archivoNombre, perfil)) {
+    total++;
+    columnas.agregar(registro);
+    if (muestra.length < FILAS_MUESTRA_DRY_RUN) {
+      muestra.push(muestraFila(registro, mapearFilaEpisodio(registro, perfil), total, perfil));
+    }
+    chunk.push(registro);
+    if (chunk.length >= TAMANO_CHUNK_IMPORTACION) {
+      await validarChunk(chunk, total - chunk.length);
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) await validarChunk(chunk, total - chunk.length);
+
+  return {
+    perfil: { id: perfil.id, nombre: perfil.nombre },
+    modo,
+    fechas: { formatos: formatosFecha(perfil.opciones.formatoFecha), zonaHoraria: ZONA_HORARIA_IMPORTACION },
+    resumen: {
+      total_rows: total,
+      valid_rows: validas,
+      invalid_rows: total - validas,
+    },
+    ...columnas.reporte(),
+    muestra,
+    errores: errores.map(({ fila, error }) => ({ fila, error })),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Fechas del archivo maestro
+ *
+ * Las fechas del sistema de origen no traen zona horaria: son la hora local del hospital
+ * (America/Santiago). Cada importación interpreta los textos con un formato explícito (el
+ * indicado al cargar el archivo, el del perfil o la lista predeterminada); no se adivina
+ * el formato ni se reemplaza por otra una fecha que no se pudo leer.
+ */
+
+export const ZONA_HORARIA_IMPORTACION = 'America/Santiago';
+
+// Formatos aceptados cuando ni la carga ni el perfil indican uno (en este orden)
+export const FORMATOS_FECHA_PREDETERMINADOS = ['DD-MM-YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'].flatMap((f) => [
+  `${f} HH:mm:ss`,
+  `${f} HH:mm`,
+  f,
+]);
+
+const TOKENS_FECHA = /^(YYYY|DD|MM|HH|mm|ss|[\s/.:-])+$/;
+
+// Día 0 de las fechas seriales de Excel (30/12/1899)
+const EPOCH_EXCEL_MS = Date.UTC(1899, 11, 30);
+const MS_POR_DIA = 86400000;
+
+interface PartesFecha {
+  anio: number;
+  mes: number; // 1-12
+  dia: number;
+  hora: number;
+  minuto: number;
+  segundo: number;
+}
+
+/**
+ * Mensaje de error si el formato de fecha no es válido (tokens DD, MM, YYYY y opcionalmente HH, mm, ss)
+ */
+export function validarFormatoFecha(formato: string): string | null {
+  if (!TOKENS_FECHA.test(formato) || !['DD', 'MM', 'YYYY'].every((t) => formato.includes(t))) {
+    return `Formato de fecha inválido: ${formato}. Use DD, MM, YYYY y opcionalmente HH, mm, ss (ej. DD/MM/YYYY)`;
+  }
+  return null;
+}
+
+const formateadores = new Map<string, Intl.DateTimeFormat>();
+
+// Diferencia (ms) entre la hora local de la zona y UTC en un instante
+function desfaseZona(instante: number, zona: string): number {
+  let formateador = formateadores.get(zona);
+  if (!formateador) {
+    formateador = new Intl.DateTimeFormat('en-US', {
+      timeZone: zona,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formateadores.set(zona, formateador);
+  }
+  const partes = Object.fromEntries(
+    formateador.formatToParts(new Date(instante)).map((p) => [p.type, parseInt(p.value, 10)])
+  );
+  const local = Date.UTC(partes.year, partes.month - 1, partes.day, partes.hour, partes.minute, partes.second);
+  return local - Math.floor(instante / 1000) * 1000;
+}
+
+/**
+ * Instante de una hora local de la zona. Retorna null si la fecha u hora no existe (31/02).
+ * En el cambio de horario, una hora que no existe se corre hacia adelante.
+ */
+export function fechaEnZona(partes: PartesFecha, zona: string = ZONA_HORARIA_IMPORTACION): Date | null {
+  const { anio, mes, dia, hora, minuto, segundo } = partes;
+  if (hora > 23 || minuto > 59 || segundo > 59) return null;
+  const local = Date.UTC(anio, mes - 1, dia, hora, minuto, segundo);
+  const control = new Date(local);
+  if (control.getUTCFullYear() !== anio || control.getUTCMonth() !== mes - 1 || control.getUTCDate() !== dia) {
+    return null;
+  }
+
+  const desfase = desfaseZona(local, zona);
+  const instante = local - desfase;
+  // El desfase puede ser otro en el instante resultante (cambio de horario)
+  const corregido = desfaseZona(instante, zona);
+  return new Date(corregido === desfase ? instante : local - corregido);
+}
+
+function partesSinZona(fecha: Date): PartesFecha {
+  return {
+    anio: fecha.getUTCFullYear(),
+    mes: fecha.getUTCMonth() + 1,
+    dia: fecha.getUTCDate(),
+    hora: fecha.getUTCHours(),
+    minuto: fecha.getUTCMinutes(),
+    segundo: fecha.getUTCSeconds(),
+  };
+}
+
+/**
+ * Fecha de un texto según un formato (tokens DD, MM, YYYY, HH, mm, ss), como hora local de
+ * la zona. Si el formato no incluye la hora, se ignora la que traiga la celda. Retorna null
+ * si no calza o la fecha no existe.
+ */
+export function parsearFechaConFormato(
+  valor: string,
+  formato: string,
+  zona: string = ZONA_HORARIA_IMPORTACION
+): Date | null {
+  const tokens: string[] = [];
+  const patron = formato
+    .split(/(YYYY|DD|MM|HH|mm|ss)/)
+    .map((parte) => {
+      if (['YYYY', 'DD', 'MM', 'HH', 'mm', 'ss'].includes(parte)) {
+        tokens.push(parte);
+        return parte === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+      }
+      return parte.replace(/\s+/g, '\\s+').replace(/[.\/-]/g, (c) => `\\${c}`);
+    })
+    .join('');
+  const match = valor.trim().match(new RegExp(`^${patron}${formato.includes('HH') ? '' : '(?:\\s+.*)?'}$`));
+  if (!match) return null;
+
+  const partes: Record<string, number> = { YYYY: 0, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  tokens.forEach((token, i) => {
+    partes[token] = parseInt(match[i + 1], 10);
+  });
+  return fechaEnZona(
+    { anio: partes.YYYY, mes: partes.MM, dia: partes.DD, hora: partes.HH, minuto: partes.mm, segundo: partes.ss },
+    zona
+  );
+}
+
+const PATRON_ISO = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Fecha de una celda del archivo maestro:
+ * - Date (celda de fecha de Excel): la hora que muestra la celda, en la zona de la importación
+ * - número: fecha serial de Excel
+ * - texto ISO 8601 (con "T"): con su desfase si lo trae; si no, hora local de la zona
+ * - otro texto: el primero de `formatos` que calce exactamente
+ * Retorna null si la celda está vacía o no se puede interpretar.
+ */
+export function parsearFechaImportacion(
+  valor: unknown,
+  formatos: string[],
+  zona: string = ZONA_HORARIA_IMPORTACION
+): Date | null {
+  if (valor instanceof Date) {
+    return isNaN(valor.getTime()) ? null : fechaEnZona(partesSinZona(valor), zona);
+  }
+  if (typeof valor === 'number') {
+    if (!isFinite(valor) || valor < 1) return null;
+    return fechaEnZona(partesSinZona(new Date(EPOCH_EXCEL_MS + Math.round(valor * MS_POR_DIA))), zona);
+  }
+  if (typeof valor !== 'string' || valor.trim() === '') return null;
+
+  const texto = valor.trim();
+  const iso = texto.match(PATRON_ISO);
+  if (iso) {
+    if (iso[7]) {
+      const fecha = new Date(texto);
+      return isNaN(fecha.getTime()) ? null : fecha;
+    }
+    const [anio, mes, dia, hora, minuto, segundo] = iso.slice(1, 7).map((p) => parseInt(p ?? '0', 10));
+    return fechaEnZona({ anio, mes, dia, hora, minuto, segundo }, zona);
+  }
+
+  for (const formato of formatos) {
+    const fecha = parsearFechaConFormato(texto, formato, zona);
+    if (fecha) return fecha;
+  }
+  return null;
+}
+
+// Formatos con los que una importación lee los textos de fecha
+export function formatosFecha(formatoFecha: string | null | undefined): string[] {
+  return formatoFecha ? [formatoFecha] : FORMATOS_FECHA_PREDETERMINADOS;
+}
+
+/**
+ * Mensaje de error de una fecha requerida o inválida de la fila (null si es válida)
+ */
+export function errorFecha(
+  etiqueta: string,
+  valor: unknown,
+  formatos: string[],
+  opciones: { requerida: boolean; zona?: string }
+): string | null {
+  const vacia = valor === undefined || valor === null || (typeof valor === 'string' && valor.trim() === '');
+  if (vacia) return opciones.requerida ? `${etiqueta} vacía` : null;
+  if (parsearFechaImportacion(valor, formatos, opciones.zona)) return null;
+
+  const esperado = formatos.length === 1 ? formatos[0] : formatos.filter((f) => !f.includes('HH')).join(', ');
+  return `${etiqueta} inválida: "${String(valor).trim()}" (formato esperado: ${esperado})`;
+}
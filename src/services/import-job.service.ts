@@ -0,0 +1,660 @@
+/**
+ * Importación asíncrona y reanudable del archivo maestro (ImportJob)
+ *
+ * El endpoint de carga guarda el archivo, crea el job y responde de inmediato. Las filas
+ * se leen por streaming y se procesan en segundo plano por chunks: cada chunk busca en una
+ * sola consulta los episodios y GRD que necesita y confirma en una transacción los
+ * episodios creados (createMany) y actualizados, el historial, los errores de sus filas y
+ * el avance, de modo que un job fallido se reanuda desde el último chunk confirmado. Cada
+ * ejecución trabaja sobre su propia sesión (chunk en curso, errores, estadísticas, usuario
+ * y hash del archivo), sin estado compartido entre importaciones. Cada endpoint registra
+ * su propio procesador de filas.
+ *
+ * Cada fila guardada deja un ImportJobItem con su resultado (creado, actualizado, sin
+ * cambios o conflicto) y las diferencias aplicadas.
+ */
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { CodigoCie, Episodio, Grd, ImportJob } from '@prisma/client';
+import { prisma } from '../db/client';
+import { logFileUpload } from '../utils/logger';
+import { ContextoCambio, filasCreacion } from './historial.service';
+import { CacheLiquidacion, crearCacheLiquidacion } from './liquidacion.service';
+import { buscarCodigosCie, SistemaCie } from './cie-catalogo.service';
+import { CodificacionEpisodio, filasCodificacion } from './codificacion.service';
+import {
+  conFormatoFecha,
+  obtenerPerfilImportacion,
+  PerfilImportacion,
+  PERFIL_PREDETERMINADO,
+} from './import-perfiles.service';
+import {
+  aplicarFusion,
+  camposEditadosPorEpisodio,
+  FusionPlanificada,
+  modoDeOpciones,
+  ModoImportacion,
+  resultadoCreacion,
+  ResultadoImportacionFila,
+} from './import-merge.service';
+
+export const TAMANO_CHUNK_IMPORTACION = 200;
+// Tiempo máximo de la transacción que confirma un chunk
+const TIMEOUT_CHUNK_MS = 120000;
+
+export type TipoImportacion = 'UPLOAD' | 'EPISODIOS_IMPORT' | 'CLI';
+export type FilaImportacion = Record<string, any>;
+
+export interface ErrorFila {
+  fila: number;
+  error: string;
+  registro?: FilaImportacion;
+}
+
+export interface EstadisticasImportacion {
+  totalFilas: number;
+  filasProcesadas: number;
+  validadas: number;
+  guardadas: number;
+  fallidas: number;
+  creados: number;
+  actualizados: number;
+  sinCambios: number;
+  conflictos: number;
+}
+
+export type ItemImportacion = ResultadoImportacionFila & { fila: number };
+
+export interface DatosPaciente {
+  rut: string;
+  nombre: string | null;
+  sexo: string | null;
+  edad: number | null;
+}
+
+// Lo que una fila escribe al confirmar el chunk
+export type OperacionFila =
+  | {
+      tipo: 'CREAR';
+      paciente: DatosPaciente;
+      data: Omit<Prisma.EpisodioUncheckedCreateInput, 'pacienteId'>;
+      // Diagnósticos y procedimientos del archivo (el primero de cada lista es el principal)
+      codificacion?: CodificacionEpisodio;
+    }
+  | { tipo: 'FUSIONAR'; fusion: FusionPlanificada };
+
+export type OperacionPendiente = OperacionFila & { fila: number; registro: FilaImportacion };
+
+// Búsquedas precargadas del chunk en curso (una consulta por tabla)
+export interface CacheChunk {
+  // Episodios existentes por Episodio CMBD
+  episodios: Map<string, Episodio & { grd: Grd | null }>;
+  // GRD por código
+  grds: Map<string, Grd>;
+  // Campos de origen editados a mano, por id de episodio
+  editados: Map<number, Set<string>>;
+  // Episodio CMBD de las filas del chunk que ya tienen una operación
+  enChunk: Set<string>;
+  // Códigos CIE activos de las filas (ver claveCie) y sistemas con catálogo cargado
+  cie: Map<string, CodigoCie>;
+  catalogosCie: Set<SistemaCie>;
+}
+
+export interface SesionImportacion {
+  jobId: number;
+  usuario: { id: number | null; rol: string | null };
+  archivo: { nombre: string; tamano: number; hash: string | null };
+  perfil: PerfilImportacion;
+  modo: ModoImportacion;
+  // Filas del chunk en curso y sus búsquedas
+  filas: FilaImportacion[];
+  cache: CacheChunk;
+  // Precios, reglas y parámetros de liquidación, compartidos por todo el job
+  liquidacion: CacheLiquidacion;
+  // Errores y operaciones del chunk en curso; se confirman junto con el avance
+  errores: ErrorFila[];
+  operaciones: OperacionPendiente[];
+  estadisticas: EstadisticasImportacion;
+}
+
+// Etapas de un ETL de importación (ver import-etl.service); la persistencia la hace este servicio
+export interface ProcesadorImportacion<T = any> {
+  // parse: filas del archivo guardado, de a una
+  leer(ruta: string, archivoNombre: string, perfil: PerfilImportacion): AsyncIterable<FilaImportacion>;
+  // map: fila del archivo → registro con los campos del perfil
+  mapear(fila: FilaImportacion, perfil: PerfilImportacion): T;
+  // Episodio CMBD, código GRD y códigos CIE del registro, para las búsquedas por chunk
+  clave(registro: T): string | null;
+  grd(registro: T): string | null;
+  cie?(registro: T): { sistema: SistemaCie; codigo: string }[];
+  // validate: error del registro o null (sin consultas: usa la cache del chunk)
+  validar(registro: T, sesion: Pick<SesionImportacion, 'perfil' | 'modo' | 'cache'>): string | null;
+  // enrich: lo que el registro escribirá al confirmar el chunk
+  enriquecer(registro: T, sesion: SesionImportacion): Promise<OperacionFila>;
+}
+
+const procesadores = new Map<string, ProcesadorImportacion>();
+
+export function registrarProcesadorImportacion(tipo: TipoImportacion, procesador: ProcesadorImportacion): void {
+  procesadores.set(tipo, procesador);
+}
+
+// Referencia con la que el job registra los episodios que crea en EpisodioCambio
+export function referenciaImportJob(jobId: number): string {
+  return `importJob:${jobId}`;
+}
+
+export function progresoImportJob(job: Pick<ImportJob, 'totalFilas' | 'filasProcesadas' | 'estado'>): number {
+  if (job.estado === 'COMPLETADO') return 100;
+  if (job.totalFilas <= 0) return 0;
+  return Math.min(100, Math.round((job.filasProcesadas / job.totalFilas) * 100));
+}
+
+export function crearCacheChunk(): CacheChunk {
+  return {
+    episodios: new Map(),
+    grds: new Map(),
+    editados: new Map(),
+    enChunk: new Set(),
+    cie: new Map(),
+    catalogosCie: new Set(),
+  };
+}
+
+/**
+ * Sesión de una ejecución del job: parte de los contadores ya confirmados (al reanudar)
+ */
+export function crearSesionImportacion(
+  job: ImportJob,
+  totalFilas: number,
+  perfil: PerfilImportacion = PERFIL_PREDETERMINADO
+): SesionImportacion {
+  return {
+    jobId: job.id,
+    usuario: { id: job.usuarioId, rol: job.rol },
+    archivo: { nombre: job.archivoNombre, tamano: job.archivoTamano, hash: job.archivoHash },
+    perfil,
+    modo: modoDeOpciones(job.opciones),
+    filas: [],
+    cache: crearCacheChunk(),
+    liquidacion: crearCacheLiquidacion(),
+    errores: [],
+    operaciones: [],
+    estadisticas: {
+      totalFilas,
+      filasProcesadas: job.filasProcesadas,
+      validadas: job.validadas,
+      guardadas: job.guardadas,
+      fallidas: job.fallidas,
+      creados: job.creados,
+      actualizados: job.actualizados,
+      sinCambios: job.sinCambios,
+      conflictos: job.conflictos,
+    },
+  };
+}
+
+// Contadores por resultado de las filas guardadas de un chunk
+export function contarResultados(items: Pick<ItemImportacion, 'resultado'>[]) {
+  const contar = (resultado: string) => items.filter((i) => i.resultado === resultado).length;
+  return {
+    creados: contar('CREADO'),
+    actualizados: contar('ACTUALIZADO'),
+    sinCambios: contar('SIN_CAMBIOS'),
+    conflictos: contar('CONFLICTO'),
+  };
+}
+
+/**
+ * Filas de ImportJobError para los errores de un chunk. El registro se serializa
+ * (las fechas de Excel pasan a ISO) para guardarlo como Json.
+ */
+export function filasErroresImportacion(jobId: number, errores: ErrorFila[]): Prisma.ImportJobErrorCreateManyInput[] {
+  return errores.map((e) => ({
+    jobId,
+    fila: e.fila,
+    error: e.error,
+    registro: e.registro ? (JSON.parse(JSON.stringify(e.registro)) as Prisma.InputJsonObject) : Prisma.DbNull,
+  }));
+}
+
+// Json nulo de Prisma cuando el objeto está vacío
+const jsonObjetoOrNull = (valor: Record<string, unknown>) =>
+  Object.keys(valor).length > 0 ? (valor as Prisma.InputJsonObject) : Prisma.DbNull;
+
+export function filasItemsImportacion(jobId: number, items: ItemImportacion[]): Prisma.ImportJobItemCreateManyInput[] {
+  return items.map((i) => ({
+    jobId,
+    fila: i.fila,
+    episodioId: i.episodioId,
+    episodioCmdb: i.episodioCmdb,
+    resultado: i.resultado,
+    cambios: jsonObjetoOrNull(i.cambios),
+    conflictos: jsonObjetoOrNull(i.conflictos),
+  }));
+}
+
+export function formatearImportJob(job: ImportJob) {
+  const { archivoRuta, ...resto } = job;
+  return {
+    ...resto,
+    progreso: progresoImportJob(job),
+    reanudable: job.estado === 'FALLIDO' && archivoRuta !== null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+    revertidoAt: job.revertidoAt ? job.revertidoAt.toISOString() : null,
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+// SHA-256 del archivo (identifica cargas repetidas del mismo archivo)
+export function calcularHashArchivo(ruta: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(ruta)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+export async function crearImportJob(datos: {
+  tipo: TipoImportacion;
+  archivoNombre: string;
+  archivoRuta: string;
+  archivoTamano: number;
+  usuarioId: number | null;
+  rol: string | null;
+  opciones?: Prisma.InputJsonObject;
+}) {
+  return prisma.importJob.create({
+    data: {
+      tipo: datos.tipo,
+      archivoNombre: datos.archivoNombre,
+      archivoRuta: datos.archivoRuta,
+      archivoTamano: datos.archivoTamano,
+      archivoHash: await calcularHashArchivo(datos.archivoRuta),
+      usuarioId: datos.usuarioId,
+      rol: datos.rol ? datos.rol.toUpperCase() : null,
+      opciones: datos.opciones ?? {},
+      tamanoChunk: TAMANO_CHUNK_IMPORTACION,
+    },
+  });
+}
+
+/**
+ * Búsquedas del chunk en una consulta por tabla: episodios existentes (con su GRD),
+ * GRD y códigos CIE de las filas y campos de origen editados a mano
+ */
+export async function cargarCacheChunk(
+  claves: string[],
+  codigosGrd: string[],
+  codigosCie: { sistema: SistemaCie; codigo: string }[] = []
+): Promise<CacheChunk> {
+  const [episodios, grds, cie] = await Promise.all([
+    claves.length > 0
+      ? prisma.episodio.findMany({ where: { episodioCmdb: { in: [...new Set(claves)] } }, include: { grd: true } })
+      : [],
+    codigosGrd.length > 0 ? prisma.grd.findMany({ where: { codigo: { in: [...new Set(codigosGrd)] } } }) : [],
+    buscarCodigosCie(codigosCie),
+  ]);
+
+  const cache = crearCacheChunk();
+  episodios.forEach((e) => cache.episodios.set(e.episodioCmdb as string, e));
+  grds.forEach((g) => cache.grds.set(g.codigo, g));
+  cache.cie = cie.codigos;
+  cache.catalogosCie = cie.cargados;
+  cache.editados = await camposEditadosPorEpisodio(episodios.map((e) => e.id));
+  return cache;
+}
+
+/**
+ * Crea los pacientes que faltan (createMany) y actualiza los que cambiaron. Retorna RUT → id.
+ */
+async function asegurarPacientes(tx: Prisma.TransactionClient, datos: DatosPaciente[]): Promise<Map<string, number>> {
+  // Si un RUT se repite en el chunk, manda la última fila
+  const porRut = new Map(datos.map((d) => [d.rut, d]));
+  const existentes = await tx.paciente.findMany({ where: { rut: { in: [...porRut.keys()] } } });
+  const ids = new Map<string, number>();
+
+  for (const paciente of existentes) {
+    const nuevo = porRut.get(paciente.rut as string)!;
+    ids.set(nuevo.rut, paciente.id);
+    if (paciente.nombre !== nuevo.nombre || paciente.sexo !== nuevo.sexo || paciente.edad !== nuevo.edad) {
+      await tx.paciente.update({
+        where: { id: paciente.id },
+        data: { nombre: nuevo.nombre, sexo: nuevo.sexo, edad: nuevo.edad },
+      });
+    }
+  }
+
+  const faltantes = [...porRut.values()].filter((d) => !ids.has(d.rut));
+  if (faltantes.length > 0) {
+    const creados = await tx.paciente.createManyAndReturn({ data: faltantes });
+    creados.forEach((p) => ids.set(p.rut as string, p.id));
+  }
+  return ids;
+}
+
+/**
+ * Escribe las operaciones de un chunk: los episodios nuevos en un solo createMany (con su
+ * historial de creación) y las fusiones una a una
+ */
+async function escribirOperaciones(
+  tx: Prisma.TransactionClient,
+  operaciones: OperacionPendiente[],
+  contexto: ContextoCambio
+): Promise<ItemImportacion[]> {
+  const items: ItemImportacion[] = [];
+
+  const creaciones = operaciones.filter((o) => o.tipo === 'CREAR');
+  if (creaciones.length > 0) {
+    const pacientes = await asegurarPacientes(tx, creaciones.map((c) => c.paciente));
+    const creados = await tx.episodio.createManyAndReturn({
+      data: creaciones.map((c) => ({ ...c.data, pacienteId: pacientes.get(c.paciente.rut) ?? null })),
+    });
+    await tx.episodioCambio.createMany({ data: creados.flatMap((e) => filasCreacion(e, contexto)) });
+
+    const porClave = new Map(creados.map((e) => [e.episodioCmdb, e]));
+    const codificacion: ReturnType<typeof filasCodificacion>[] = [];
+    for (const creacion of creaciones) {
+      const creado = porClave.get(creacion.data.episodioCmdb ?? null);
+      if (!creado) throw new Error(`No se pudo crear el episodio ${creacion.data.episodioCmdb}`);
+      items.push({ ...resultadoCreacion(creado), fila: creacion.fila });
+      if (creacion.codificacion) codificacion.push(filasCodificacion(creado.id, creacion.codificacion));
+    }
+    // Diagnósticos y procedimientos de los episodios creados, también en un createMany por tabla
+    const diagnosticos = codificacion.flatMap((c) => c.diagnosticos);
+    const procedimientos = codificacion.flatMap((c) => c.procedimientos);
+    if (diagnosticos.length > 0) await tx.diagnostico.createMany({ data: diagnosticos });
+    if (procedimientos.length > 0) await tx.procedimiento.createMany({ data: procedimientos });
+  }
+
+  for (const operacion of operaciones) {
+    if (operacion.tipo !== 'FUSIONAR') continue;
+    items.push({ ...(await aplicarFusion(tx, operacion.fusion, contexto)), fila: operacion.fila });
+  }
+
+  return items.sort((a, b) => a.fila - b.fila);
+}
+
+// Errores, resultados y contadores del chunk
+function registrarAvance(
+  tx: Prisma.TransactionClient,
+  sesion: SesionImportacion,
+  items: ItemImportacion[],
+  filasProcesadas: number,
+  validadas: number
+) {
+  const resultados = contarResultados(items);
+  return Promise.all([
+    tx.importJobError.createMany({ data: filasErroresImportacion(sesion.jobId, sesion.errores) }),
+    tx.importJobItem.createMany({ data: filasItemsImportacion(sesion.jobId, items) }),
+    tx.importJob.update({
+      where: { id: sesion.jobId },
+      data: {
+        filasProcesadas,
+        validadas: { increment: validadas },
+        guardadas: { increment: items.length },
+        fallidas: { increment: sesion.filas.length - items.length },
+        creados: { increment: resultados.creados },
+        actualizados: { increment: resultados.actualizados },
+        sinCambios: { increment: resultados.sinCambios },
+        conflictos: { increment: resultados.conflictos },
+      },
+    }),
+  ]);
+}
+
+// Códigos de Prisma de conexión, timeout o transacción: no dependen de los datos de la fila
+const CODIGOS_ERROR_CONEXION = ['P1000', 'P1001', 'P1002', 'P1008', 'P1011', 'P1017', 'P2024', 'P2028', 'P2034'];
+
+/**
+ * Indica si un error de la BD es de conexión o de la transacción (el job debe fallar y
+ * reanudarse) y no de los datos de una fila (se registra como error de la fila)
+ */
+export function esErrorDeConexion(error: unknown): boolean {
+  if (error instanceof Prisma.PrismaClientInitializationError || error instanceof Prisma.PrismaClientRustPanicError) {
+    return true;
+  }
+  return error instanceof Prisma.PrismaClientKnownRequestError && CODIGOS_ERROR_CONEXION.includes(error.code);
+}
+
+/**
+ * Confirma el chunk en una transacción. Si la BD rechaza alguna fila, el chunk se guarda
+ * fila a fila para registrar el error solo en las filas que fallan (aunque fallen todas).
+ * Solo los errores de conexión o de transacción hacen fallar el job.
+ */
+async function confirmarChunk(
+  sesion: SesionImportacion,
+  contexto: ContextoCambio,
+  filasProcesadas: number,
+  validadas: number
+): Promise<ItemImportacion[]> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const items = await escribirOperaciones(tx, sesion.operaciones, contexto);
+        await registrarAvance(tx, sesion, items, filasProcesadas, validadas);
+        return items;
+      },
+      { timeout: TIMEOUT_CHUNK_MS }
+    );
+  } catch (error: any) {
+    if (esErrorDeConexion(error)) throw error;
+    console.warn(`⚠️ Import job ${sesion.jobId}: chunk rechazado (${error?.message}); se guarda fila a fila`);
+  }
+
+  const items: ItemImportacion[] = [];
+  for (const operacion of sesion.operaciones) {
+    try {
+      items.push(...(await prisma.$transaction((tx) => escribirOperaciones(tx, [operacion], contexto))));
+    } catch (err: any) {
+      if (esErrorDeConexion(err)) throw err;
+      sesion.errores.push({
+        fila: operacion.fila,
+        error: `Error al guardar: ${err?.message || 'Error desconocido'}`,
+        registro: operacion.registro,
+      });
+    }
+  }
+
+  await prisma.$transaction((tx) => registrarAvance(tx, sesion, items, filasProcesadas, validadas));
+  return items;
+}
+
+/**
+ * Mapea, valida y enriquece las filas de un chunk (sin consultas por fila) y lo confirma
+ */
+async function procesarChunk(
+  procesador: ProcesadorImportacion,
+  sesion: SesionImportacion,
+  filas: FilaImportacion[],
+  inicio: number,
+  contexto: ContextoCambio
+): Promise<void> {
+  sesion.filas = filas;
+  sesion.errores = [];
+  sesion.operaciones = [];
+  const registros = filas.map((f) => procesador.mapear(f, sesion.perfil));
+  sesion.cache = await cargarCacheChunk(
+    registros.map((r) => procesador.clave(r)).filter((c): c is string => !!c),
+    registros.map((r) => procesador.grd(r)).filter((c): c is string => !!c),
+    registros.flatMap((r) => procesador.cie?.(r) ?? [])
+  );
+
+  let validadas = 0;
+  for (let i = 0; i < filas.length; i++) {
+    const fila = filas[i];
+    const indice = inicio + i + 1;
+    const error = procesador.validar(registros[i], sesion);
+    if (error) {
+      sesion.errores.push({ fila: indice, error, registro: fila });
+      continue;
+    }
+    validadas++;
+
+    try {
+      const operacion = await procesador.enriquecer(registros[i], sesion);
+      sesion.operaciones.push({ ...operacion, fila: indice, registro: fila });
+      const clave = procesador.clave(registros[i]);
+      if (clave) sesion.cache.enChunk.add(clave);
+    } catch (err: any) {
+      sesion.errores.push({
+        fila: indice,
+        error: `Error al guardar: ${err?.message || 'Error desconocido'}`,
+        registro: fila,
+      });
+    }
+  }
+
+  const items = await confirmarChunk(sesion, contexto, inicio + filas.length, validadas);
+  const resultados = contarResultados(items);
+  const stats = sesion.estadisticas;
+  stats.filasProcesadas = inicio + filas.length;
+  stats.validadas += validadas;
+  stats.guardadas += items.length;
+  stats.fallidas += filas.length - items.length;
+  stats.creados += resultados.creados;
+  stats.actualizados += resultados.actualizados;
+  stats.sinCambios += resultados.sinCambios;
+  stats.conflictos += resultados.conflictos;
+}
+
+async function contarFilas(filas: AsyncIterable<FilaImportacion>): Promise<number> {
+  let total = 0;
+  for await (const _fila of filas) total++;
+  return total;
+}
+
+export function eliminarArchivo(ruta: string | null): void {
+  if (ruta && fs.existsSync(ruta)) {
+    try {
+      fs.unlinkSync(ruta);
+    } catch (error: any) {
+      console.warn(`⚠️ No se pudo eliminar el archivo de importación ${ruta}:`, error?.message || error);
+    }
+  }
+}
+
+/**
+ * Ejecuta (o reanuda) un job de importación PENDIENTE desde filasProcesadas.
+ * El archivo se lee por streaming (memoria acotada al chunk en curso) y el avance se
+ * confirma al final de cada chunk; si el job falla queda FALLIDO y conserva el archivo
+ * para poder reanudarlo.
+ */
+export async function ejecutarImportJob(jobId: number): Promise<void> {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || job.estado !== 'PENDIENTE') return;
+
+  const reanudado = job.startedAt !== null;
+  await prisma.importJob.update({
+    where: { id: jobId },
+    data: { estado: 'EN_PROCESO', startedAt: job.startedAt ?? new Date(), intentos: { increment: 1 } },
+  });
+
+  try {
+    const procesador = procesadores.get(job.tipo);
+    if (!procesador) {
+      throw new Error(`Tipo de importación no soportado: ${job.tipo}`);
+    }
+    const archivoRuta = job.archivoRuta;
+    if (!archivoRuta || !fs.existsSync(archivoRuta)) {
+      throw new Error('El archivo de la importación ya no está disponible');
+    }
+
+    const opciones = (job.opciones ?? {}) as { perfilId?: number | null; formatoFecha?: string | null };
+    const perfilBase = await obtenerPerfilImportacion(opciones.perfilId);
+    if (!perfilBase) {
+      throw new Error(`El perfil de importación ${opciones.perfilId} ya no existe o está inactivo`);
+    }
+    const perfil = conFormatoFecha(perfilBase, opciones.formatoFecha);
+
+    // Primera pasada solo para contar (el progreso se informa sobre el total)
+    const leer = () => procesador.leer(archivoRuta, job.archivoNombre, perfil);
+    const totalFilas = reanudado && job.totalFilas > 0 ? job.totalFilas : await contarFilas(leer());
+    const sesion = crearSesionImportacion(job, totalFilas, perfil);
+    await prisma.importJob.update({ where: { id: jobId }, data: { totalFilas } });
+
+    const contexto: ContextoCambio = {
+      usuarioId: sesion.usuario.id,
+      rol: sesion.usuario.rol,
+      origen: 'IMPORTACION',
+      referencia: referenciaImportJob(jobId),
+    };
+    const tamanoChunk = job.tamanoChunk > 0 ? job.tamanoChunk : TAMANO_CHUNK_IMPORTACION;
+    const stats = sesion.estadisticas;
+
+    let leidas = 0;
+    let chunk: FilaImportacion[] = [];
+    for await (const fila of leer()) {
+      leidas++;
+      // Filas de chunks ya confirmados en un intento anterior
+      if (leidas <= stats.filasProcesadas) continue;
+      chunk.push(fila);
+      if (chunk.length >= tamanoChunk) {
+        await procesarChunk(procesador, sesion, chunk, leidas - chunk.length, contexto);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      await procesarChunk(procesador, sesion, chunk, leidas - chunk.length, contexto);
+    }
+
+    eliminarArchivo(archivoRuta);
+    await prisma.importJob.update({
+      where: { id: jobId },
+      data: { estado: 'COMPLETADO', finishedAt: new Date(), archivoRuta: null, mensajeError: null, totalFilas: leidas },
+    });
+
+    if (sesion.usuario.id) {
+      await logFileUpload(
+        sesion.usuario.id,
+        sesion.archivo.nombre,
+        sesion.archivo.tamano,
+        true,
+        stats.fallidas > 0 ? `${stats.fallidas} filas con errores` : undefined
+      );
+    }
+  } catch (error: any) {
+    console.error(`❌ Import job ${jobId} falló:`, error);
+    await prisma.importJob.update({
+      where: { id: jobId },
+      data: { estado: 'FALLIDO', finishedAt: new Date(), mensajeError: error?.message || 'Error desconocido' },
+    });
+    if (job.usuarioId) {
+      await logFileUpload(job.usuarioId, job.archivoNombre, job.archivoTamano, false, error?.message || 'Error procesando archivo');
+    }
+  }
+}
+
+/**
+ * Deja un job FALLIDO listo para reanudarse. Retorna un mensaje si no se puede.
+ */
+export async function prepararReanudacion(job: ImportJob): Promise<string | null> {
+  if (job.estado !== 'FALLIDO') {
+    return `Solo se pueden reanudar jobs FALLIDO (estado actual: ${job.estado})`;
+  }
+  if (!job.archivoRuta || !fs.existsSync(job.archivoRuta)) {
+    return 'El archivo de la importación ya no está disponible; vuelva a cargarlo';
+  }
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: { estado: 'PENDIENTE', finishedAt: null, mensajeError: null },
+  });
+  return null;
+}
+
+/**
+ * Al iniciar el servidor, los jobs que quedaron EN_PROCESO se interrumpieron con el
+ * proceso anterior: se marcan FALLIDO para que puedan reanudarse.
+ */
+export async function marcarImportJobsInterrumpidos(): Promise<number> {
+  const { count } = await prisma.importJob.updateMany({
+    where: { estado: 'EN_PROCESO' },
+    data: { estado: 'FALLIDO', finishedAt: new Date(), mensajeError: 'Proceso interrumpido por reinicio del servidor' },
+  });
+  return count;
+}
@@ -0,0 +1,126 @@
+/**
+ * Lectura por streaming del archivo maestro
+ *
+ * Los archivos anuales superan las 200 mil filas: en vez de cargar el libro completo en
+ * memoria, las filas se entregan de a una (CSV con csv-parser, XLSX fila a fila con el
+ * lector streaming de exceljs). El formato .xls (binario) no admite streaming y se lee
+ * completo con xlsx.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+import * as XLSX from 'xlsx';
+
+export type FilaArchivo = Record<string, any>;
+
+export interface OpcionesLectura {
+  // Hoja del Excel; null = primera hoja
+  hoja: string | null;
+  // Fila (1 = primera) donde están los encabezados
+  filaEncabezado: number;
+}
+
+/**
+ * Valor primitivo de una celda de exceljs (texto enriquecido, fórmulas, hipervínculos)
+ */
+export function valorCeldaExcel(valor: unknown): unknown {
+  if (valor === null || valor === undefined) return '';
+  if (valor instanceof Date || typeof valor !== 'object') return valor;
+  const celda = valor as Record<string, any>;
+  if (Array.isArray(celda.richText)) return celda.richText.map((t: { text: string }) => t.text).join('');
+  if ('result' in celda) return valorCeldaExcel(celda.result);
+  if ('text' in celda) return valorCeldaExcel(celda.text);
+  if ('error' in celda) return '';
+  return String(valor);
+}
+
+/**
+ * Encabezados de la fila de títulos; los repetidos se numeran como en xlsx ("RUT", "RUT_1")
+ */
+export function encabezadosUnicos(valores: unknown[]): string[] {
+  const usados = new Map<string, number>();
+  return valores.map((valor, i) => {
+    const base = String(valorCeldaExcel(valor)).trim() || `__EMPTY_${i}`;
+    const veces = usados.get(base) ?? 0;
+    usados.set(base, veces + 1);
+    return veces === 0 ? base : `${base}_${veces}`;
+  });
+}
+
+function filaVacia(fila: FilaArchivo): boolean {
+  return Object.values(fila).every((v) => v === '' || v === null || v === undefined);
+}
+
+async function* leerCsv(ruta: string, opciones: OpcionesLectura): AsyncGenerator<FilaArchivo> {
+  const stream = fs.createReadStream(ruta).pipe(csv({ skipLines: opciones.filaEncabezado - 1 }));
+  for await (const fila of stream) {
+    yield fila as FilaArchivo;
+  }
+}
+
+async function* leerXlsx(ruta: string, opciones: OpcionesLectura): AsyncGenerator<FilaArchivo> {
+  const libro = new ExcelJS.stream.xlsx.WorkbookReader(ruta, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'cache', // necesario para reconocer las celdas con formato de fecha
+  });
+
+  const hojasVistas: string[] = [];
+  for await (const hoja of libro) {
+    const nombre = (hoja as unknown as { name: string }).name;
+    hojasVistas.push(nombre);
+    if (opciones.hoja !== null ? nombre !== opciones.hoja : hojasVistas.length > 1) continue;
+
+    let encabezados: string[] | null = null;
+    for await (const row of hoja) {
+      if (row.number < opciones.filaEncabezado) continue;
+      // row.values es base 1 y disperso (las celdas vacías quedan como huecos)
+      const valores = Array.from((row.values as unknown[]).slice(1));
+      if (!encabezados) {
+        encabezados = encabezadosUnicos(valores);
+        continue;
+      }
+      const fila: FilaArchivo = {};
+      encabezados.forEach((encabezado, i) => {
+        fila[encabezado] = valorCeldaExcel(valores[i]);
+      });
+      if (!filaVacia(fila)) yield fila;
+    }
+    return;
+  }
+
+  throw new Error(`La hoja "${opciones.hoja}" no existe en el archivo. Hojas: ${hojasVistas.join(', ')}`);
+}
+
+// .xls: formato binario sin lectura streaming. Valores crudos: las celdas de fecha llegan
+// como número serial de Excel (sin conversión a la zona horaria del servidor)
+async function* leerXls(ruta: string, opciones: OpcionesLectura): AsyncGenerator<FilaArchivo> {
+  const workbook = XLSX.readFile(ruta, { cellDates: false, cellNF: false, cellText: false });
+  const sheetName = opciones.hoja ?? workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`La hoja "${sheetName}" no existe en el archivo. Hojas: ${workbook.SheetNames.join(', ')}`);
+  }
+  const filas = XLSX.utils.sheet_to_json(worksheet, {
+    raw: true,
+    defval: '',
+    range: opciones.filaEncabezado - 1,
+  }) as FilaArchivo[];
+  yield* filas;
+}
+
+/**
+ * Filas del archivo (CSV, XLSX o XLS) como objetos { encabezado: valor }, de a una
+ */
+export function leerFilasArchivo(
+  ruta: string,
+  nombreOriginal: string,
+  opciones: OpcionesLectura = { hoja: null, filaEncabezado: 1 }
+): AsyncGenerator<FilaArchivo> {
+  const ext = path.extname(nombreOriginal).toLowerCase();
+  if (ext === '.csv') return leerCsv(ruta, opciones);
+  if (ext === '.xls') return leerXls(ruta, opciones);
+  return leerXlsx(ruta, opciones);
+}
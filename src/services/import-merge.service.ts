@@ -0,0 +1,205 @@
+/**
+ * Modo merge de la importación del archivo maestro
+ *
+ * Al reimportar un episodio que ya existe (mismo Episodio CMBD) solo se actualizan los
+ * campos que pertenecen al sistema de origen (fechas, GRD, peso y servicio) y se
+ * reliquida; lo trabajado en la plataforma (AT, demora, validación, documentación) se
+ * conserva. No se sobrescribe un campo de origen que un usuario editó a mano ni ningún
+ * campo de un episodio aprobado: esas diferencias se informan como conflicto.
+ */
+import type { Episodio, Grd, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { CacheLiquidacion, camposLiquidacion, liquidarEpisodio, overridesGuardados } from './liquidacion.service';
+import { ContextoCambio, diferenciasEpisodio, registrarCambios, valorAuditable, ValorCambio } from './historial.service';
+import { esEstadoEpisodio, validadoParaEstado } from './episodio-workflow.service';
+
+// CREAR: rechaza los Episodio CMBD existentes. MERGE: los actualiza
+export type ModoImportacion = 'CREAR' | 'MERGE';
+export const MODOS_IMPORTACION: ModoImportacion[] = ['CREAR', 'MERGE'];
+
+export type ResultadoFila = 'CREADO' | 'ACTUALIZADO' | 'SIN_CAMBIOS' | 'CONFLICTO';
+
+// Campos del episodio que pertenecen al sistema de origen
+export const CAMPOS_ORIGEN = ['fechaIngreso', 'fechaAlta', 'grdId', 'pesoGrd', 'servicioAlta'] as const;
+export type CampoOrigen = (typeof CAMPOS_ORIGEN)[number];
+
+// Valores de origen leídos de la fila (null o ausente = el archivo no trae el dato)
+export interface DatosOrigen {
+  fechaIngreso?: Date | null;
+  fechaAlta?: Date | null;
+  grdId?: number | null;
+  pesoGrd?: number | null;
+  servicioAlta?: string | null;
+}
+
+export type DiferenciasFila = Record<string, { antes: ValorCambio; despues: ValorCambio }>;
+export type ConflictosFila = Record<string, { actual: ValorCambio; archivo: ValorCambio; motivo: string }>;
+
+export interface ResultadoImportacionFila {
+  resultado: ResultadoFila;
+  episodioId: number;
+  episodioCmdb: string | null;
+  cambios: DiferenciasFila;
+  conflictos: ConflictosFila;
+}
+
+/**
+ * Modo pedido en el endpoint (?modo=merge). Retorna null si no es válido.
+ * `replace=true` (antes borraba todos los episodios) se atiende como MERGE.
+ */
+export function parsearModoImportacion(modo: unknown, replace?: unknown): ModoImportacion | null {
+  if (modo === undefined || modo === null || String(modo).trim() === '') {
+    return replace === true || replace === 'true' ? 'MERGE' : 'CREAR';
+  }
+  const valor = String(modo).trim().toUpperCase();
+  return (MODOS_IMPORTACION as string[]).includes(valor) ? (valor as ModoImportacion) : null;
+}
+
+// Modo guardado en las opciones del job
+export function modoDeOpciones(opciones: unknown): ModoImportacion {
+  const { modo, replace } = (opciones ?? {}) as { modo?: unknown; replace?: unknown };
+  return parsearModoImportacion(modo, replace) ?? 'CREAR';
+}
+
+// Episodio aprobado (o ya exportado/facturado): su liquidación está congelada
+export function episodioBloqueado(episodio: Pick<Episodio, 'validado' | 'estado'>): boolean {
+  if (episodio.validado === true) return true;
+  return esEstadoEpisodio(episodio.estado) && validadoParaEstado(episodio.estado) === true;
+}
+
+// El peso se guarda con 4 decimales: se compara con esa precisión
+function valorOrigen(campo: CampoOrigen, valor: unknown): ValorCambio {
+  const auditable = valorAuditable(valor);
+  if (campo === 'pesoGrd' && typeof auditable === 'number') {
+    return Math.round(auditable * 10000) / 10000;
+  }
+  return auditable;
+}
+
+/**
+ * Compara los campos de origen del episodio con los del archivo. Las diferencias se
+ * aplican salvo que el episodio esté bloqueado o el campo haya sido editado a mano;
+ * en ese caso se informan como conflicto. Los valores vacíos del archivo no borran datos.
+ */
+export function compararCamposOrigen(
+  actual: Partial<Record<CampoOrigen, unknown>>,
+  entrante: DatosOrigen,
+  restricciones: { bloqueado: boolean; editadosManualmente: Set<string> }
+): { aplicar: DatosOrigen; conflictos: ConflictosFila } {
+  const aplicar: DatosOrigen = {};
+  const conflictos: ConflictosFila = {};
+
+  for (const campo of CAMPOS_ORIGEN) {
+    const nuevo = entrante[campo];
+    if (nuevo === undefined || nuevo === null) continue;
+
+    const valorActual = valorOrigen(campo, actual[campo]);
+    const valorArchivo = valorOrigen(campo, nuevo);
+    if (JSON.stringify(valorActual) === JSON.stringify(valorArchivo)) continue;
+
+    if (restricciones.bloqueado) {
+      conflictos[campo] = { actual: valorActual, archivo: valorArchivo, motivo: 'Episodio aprobado' };
+    } else if (restricciones.editadosManualmente.has(campo)) {
+      conflictos[campo] = { actual: valorActual, archivo: valorArchivo, motivo: 'Editado manualmente' };
+    } else {
+      (aplicar as Record<string, unknown>)[campo] = nuevo;
+    }
+  }
+
+  return { aplicar, conflictos };
+}
+
+export function resultadoMerge(cambios: DiferenciasFila, conflictos: ConflictosFila): ResultadoFila {
+  if (Object.keys(conflictos).length > 0) return 'CONFLICTO';
+  return Object.keys(cambios).length > 0 ? 'ACTUALIZADO' : 'SIN_CAMBIOS';
+}
+
+export function resultadoCreacion(episodio: Pick<Episodio, 'id' | 'episodioCmdb'>): ResultadoImportacionFila {
+  return { resultado: 'CREADO', episodioId: episodio.id, episodioCmdb: episodio.episodioCmdb, cambios: {}, conflictos: {} };
+}
+
+/**
+ * Campos de origen cuyo último cambio registrado lo hizo un usuario (origen UI), por
+ * episodio (una consulta para todo el chunk)
+ */
+export async function camposEditadosPorEpisodio(episodioIds: number[]): Promise<Map<number, Set<string>>> {
+  const editados = new Map<number, Set<string>>();
+  if (episodioIds.length === 0) return editados;
+
+  const cambios = await prisma.episodioCambio.findMany({
+    where: { episodioId: { in: episodioIds }, campo: { in: [...CAMPOS_ORIGEN] } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: { episodioId: true, campo: true, origen: true },
+  });
+  const vistos = new Set<string>();
+  for (const cambio of cambios) {
+    const clave = `${cambio.episodioId}:${cambio.campo}`;
+    if (vistos.has(clave)) continue;
+    vistos.add(clave);
+    if (cambio.origen !== 'UI') continue;
+    if (!editados.has(cambio.episodioId)) editados.set(cambio.episodioId, new Set());
+    editados.get(cambio.episodioId)!.add(cambio.campo);
+  }
+  return editados;
+}
+
+export interface FusionPlanificada {
+  existente: Episodio;
+  // Campos de origen y de liquidación a escribir (vacío = nada que actualizar)
+  data: Prisma.EpisodioUncheckedUpdateInput;
+  conflictos: ConflictosFila;
+}
+
+/**
+ * Calcula qué campos de origen se actualizan y reliquida el episodio con ellos, sin escribir.
+ * `grd` es el GRD de la fila (o el actual del episodio si la fila no lo cambia).
+ */
+export async function planificarFusion(
+  existente: Episodio & { grd?: Grd | null },
+  entrante: DatosOrigen,
+  opciones: { editadosManualmente: Set<string>; grd: Grd | null; cache?: CacheLiquidacion }
+): Promise<FusionPlanificada> {
+  const { grd: _grd, ...episodio } = existente;
+  const { aplicar, conflictos } = compararCamposOrigen(episodio, entrante, {
+    bloqueado: episodioBloqueado(episodio),
+    editadosManualmente: opciones.editadosManualmente,
+  });
+  if (Object.keys(aplicar).length === 0) {
+    return { existente: episodio, data: {}, conflictos };
+  }
+
+  const grd = aplicar.grdId !== undefined ? opciones.grd : existente.grd ?? null;
+  // Se respetan el precio base editado a mano y los montos manuales fuera de norma
+  const liquidacion = await liquidarEpisodio(
+    { ...episodio, ...aplicar, grd },
+    { ...overridesGuardados(episodio), cache: opciones.cache }
+  );
+  return { existente: episodio, data: { ...aplicar, ...camposLiquidacion(liquidacion) }, conflictos };
+}
+
+/**
+ * Escribe la fusión planificada y registra los cambios en el historial
+ */
+export async function aplicarFusion(
+  cliente: Prisma.TransactionClient,
+  fusion: FusionPlanificada,
+  contexto: ContextoCambio
+): Promise<ResultadoImportacionFila> {
+  const { existente, data, conflictos } = fusion;
+  let cambios: DiferenciasFila = {};
+  if (Object.keys(data).length > 0) {
+    const actualizado = await cliente.episodio.update({ where: { id: existente.id }, data });
+    await registrarCambios(cliente, existente, actualizado, contexto);
+    cambios = Object.fromEntries(
+      diferenciasEpisodio(existente, actualizado).map((c) => [c.campo, { antes: c.valorAnterior, despues: c.valorNuevo }])
+    );
+  }
+
+  return {
+    resultado: resultadoMerge(cambios, conflictos),
+    episodioId: existente.id,
+    episodioCmdb: existente.episodioCmdb,
+    cambios,
+    conflictos,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Perfiles de importación del archivo maestro (ImportProfile)
+ *
+ * Un perfil indica qué encabezados del sistema de origen alimentan cada campo y cómo
+ * interpretar el archivo (formato de fecha, separador decimal, hoja y fila de encabezados).
+ * Los campos que el perfil no define usan los encabezados del perfil predeterminado.
+ */
+import type { ImportProfile } from '@prisma/client';
+import { prisma } from '../db/client';
+import { buscarColumna, CampoImportacion, CAMPOS_ARCHIVO_MAESTRO, ColumnaEncontrada } from './import-columnas.service';
+
+export type SeparadorDecimal = '.' | ',';
+
+export interface OpcionesParseo {
+  // Formato de fecha de las celdas de texto (ej. DD/MM/YYYY); null = formatos predeterminados
+  formatoFecha: string | null;
+  separadorDecimal: SeparadorDecimal;
+  // Hoja del Excel; null = primera hoja
+  hoja: string | null;
+  // Fila (1 = primera) donde están los encabezados
+  filaEncabezado: number;
+}
+
+export interface PerfilImportacion {
+  id: number | null;
+  nombre: string;
+  campos: CampoImportacion[];
+  opciones: OpcionesParseo;
+}
+
+export const CAMPOS_PERFIL = CAMPOS_ARCHIVO_MAESTRO.map((c) => c.campo);
+
+export const PERFIL_PREDETERMINADO: PerfilImportacion = {
+  id: null,
+  nombre: 'PREDETERMINADO',
+  campos: CAMPOS_ARCHIVO_MAESTRO,
+  opciones: { formatoFecha: null, separadorDecimal: '.', hoja: null, filaEncabezado: 1 },
+};
+
+/**
+ * Número de una celda según el separador decimal del perfil ("1.234,5" con ',' → 1234.5)
+ */
+export function parsearNumero(valor: unknown, separador: SeparadorDecimal = '.'): number | null {
+  if (valor === undefined || valor === null) return null;
+  if (typeof valor === 'number') return isFinite(valor) ? valor : null;
+  let texto = String(valor).trim().replace(/\s+/g, '');
+  if (!texto) return null;
+  texto = separador === ',' ? texto.replace(/\./g, '').replace(',', '.') : texto.replace(/,/g, '');
+  const numero = Number(texto);
+  return isFinite(numero) ? numero : null;
+}
+
+/**
+ * Campos del perfil: los encabezados definidos reemplazan a los del perfil predeterminado
+ */
+export function camposDePerfil(columnas: Record<string, string[] | string> | null | undefined): CampoImportacion[] {
+  return CAMPOS_ARCHIVO_MAESTRO.map((campo) => {
+    const definidas = columnas?.[campo.campo];
+    const lista = Array.isArray(definidas) ? definidas : definidas ? [definidas] : [];
+    return lista.length > 0 ? { ...campo, columnas: lista } : campo;
+  });
+}
+
+export function perfilDesdeRegistro(registro: ImportProfile): PerfilImportacion {
+  return {
+    id: registro.id,
+    nombre: registro.nombre,
+    campos: camposDePerfil(registro.columnas as Record<string, string[]> | null),
+    opciones: {
+      formatoFecha: registro.formatoFecha,
+      separadorDecimal: registro.separadorDecimal === ',' ? ',' : '.',
+      hoja: registro.hoja,
+      filaEncabezado: registro.filaEncabezado > 0 ? registro.filaEncabezado : 1,
+    },
+  };
+}
+
+// Perfil con el formato de fecha indicado al cargar el archivo (si se indicó uno)
+export function conFormatoFecha(perfil: PerfilImportacion, formatoFecha: string | null | undefined): PerfilImportacion {
+  return formatoFecha ? { ...perfil, opciones: { ...perfil.opciones, formatoFecha } } : perfil;
+}
+
+/**
+ * Perfil activo por id o nombre; sin identificador, el predeterminado. Retorna null si no existe.
+ */
+export async function obtenerPerfilImportacion(
+  identificador: string | number | null | undefined
+): Promise<PerfilImportacion | null> {
+  if (identificador === undefined || identificador === null || String(identificador).trim() === '') {
+    return PERFIL_PREDETERMINADO;
+  }
+  const texto = String(identificador).trim();
+  const registro = /^\d+$/.test(texto)
+    ? await prisma.importProfile.findUnique({ where: { id: parseInt(texto, 10) } })
+    : await prisma.importProfile.findUnique({ where: { nombre: texto } });
+  return registro && registro.activo ? perfilDesdeRegistro(registro) : null;
+}
+
+/**
+ * Columna de la fila de la que se toma el campo según el perfil
+ */
+export function columnaCampo(
+  fila: Record<string, unknown>,
+  perfil: PerfilImportacion,
+  campo: string
+): ColumnaEncontrada | null {
+  const definicion = perfil.campos.find((c) => c.campo === campo);
+  if (!definicion) return null;
+  return buscarColumna(fila, definicion.columnas, definicion.flexible ?? false);
+}
+
+// Valor crudo del campo en la fila (undefined si ninguna columna lo trae)
+export function valorCampo(fila: Record<string, any>, perfil: PerfilImportacion, campo: string): any {
+  const columna = columnaCampo(fila, perfil, campo);
+  return columna ? fila[columna.columna] : undefined;
+}
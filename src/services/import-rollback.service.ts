@@ -0,0 +1,167 @@
+/**
+ * Reversión de una importación completa (lote = ImportJob)
+ *
+ * Cada episodio que la importación creó o modificó quedó etiquetado con el job en
+ * ImportJobItem. Revertir elimina los episodios creados y devuelve a su valor anterior
+ * los campos actualizados, usando las diferencias guardadas por fila. No se revierte si
+ * algún episodio afectado ya fue aprobado o exportado.
+ */
+import type { Episodio, ImportJob, ImportJobItem, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { CambioCampo, ContextoCambio, filasCambios, valorAuditable, ValorCambio } from './historial.service';
+import { DiferenciasFila, episodioBloqueado } from './import-merge.service';
+import { eliminarArchivo, referenciaImportJob } from './import-job.service';
+
+export const ESTADOS_REVERSIBLES = ['COMPLETADO', 'FALLIDO'];
+
+// Campos DateTime del episodio (el historial los guarda como ISO)
+const CAMPOS_FECHA = ['fechaIngreso', 'fechaAlta', 'estadoActualizadoAt'];
+
+type EpisodioAfectado = Pick<Episodio, 'id' | 'episodioCmdb' | 'estado' | 'validado'> & Record<string, unknown>;
+
+export interface RestauracionEpisodio {
+  episodioId: number;
+  data: Record<string, unknown>;
+  cambios: CambioCampo[];
+  // Campos que se modificaron después de la importación: se conservan
+  omitidos: string[];
+}
+
+export interface PlanReversion {
+  eliminar: number[];
+  restaurar: RestauracionEpisodio[];
+  bloqueados: { episodioId: number; episodioCmdb: string | null; estado: string }[];
+}
+
+function valorRestaurable(campo: string, valor: ValorCambio): unknown {
+  if (typeof valor === 'string' && CAMPOS_FECHA.includes(campo)) return new Date(valor);
+  return valor;
+}
+
+/**
+ * Datos para devolver un episodio a como estaba antes del job. `diferencias` van en el
+ * orden en que se aplicaron; solo se restaura un campo si su valor actual sigue siendo
+ * el que dejó la importación.
+ */
+export function datosRestauracion(
+  actual: Record<string, unknown>,
+  diferencias: DiferenciasFila[]
+): Pick<RestauracionEpisodio, 'data' | 'cambios' | 'omitidos'> {
+  // Primer valor anterior y último valor nuevo de cada campo dentro del job
+  const porCampo = new Map<string, { antes: ValorCambio; despues: ValorCambio }>();
+  for (const cambios of diferencias) {
+    for (const [campo, c] of Object.entries(cambios)) {
+      const previo = porCampo.get(campo);
+      porCampo.set(campo, { antes: previo ? previo.antes : c.antes, despues: c.despues });
+    }
+  }
+
+  const data: Record<string, unknown> = {};
+  const cambios: CambioCampo[] = [];
+  const omitidos: string[] = [];
+  for (const [campo, c] of porCampo) {
+    const valorActual = valorAuditable(actual[campo]);
+    if (JSON.stringify(valorActual) !== JSON.stringify(c.despues)) {
+      omitidos.push(campo);
+      continue;
+    }
+    data[campo] = valorRestaurable(campo, c.antes);
+    cambios.push({ campo, valorAnterior: valorActual, valorNuevo: c.antes });
+  }
+  return { data, cambios, omitidos };
+}
+
+/**
+ * Qué hacer con cada episodio afectado por el job. Los episodios que ya no existen se ignoran.
+ */
+export function planificarReversion(
+  items: Pick<ImportJobItem, 'fila' | 'episodioId' | 'resultado' | 'cambios'>[],
+  episodios: EpisodioAfectado[]
+): PlanReversion {
+  const porId = new Map(episodios.map((e) => [e.id, e]));
+  const ordenados = [...items].sort((a, b) => a.fila - b.fila);
+  const creados = new Set(ordenados.filter((i) => i.resultado === 'CREADO').map((i) => i.episodioId));
+
+  const diferencias = new Map<number, DiferenciasFila[]>();
+  for (const item of ordenados) {
+    if (creados.has(item.episodioId) || !item.cambios) continue;
+    const cambios = item.cambios as DiferenciasFila;
+    if (Object.keys(cambios).length === 0) continue;
+    diferencias.set(item.episodioId, [...(diferencias.get(item.episodioId) ?? []), cambios]);
+  }
+
+  const plan: PlanReversion = { eliminar: [], restaurar: [], bloqueados: [] };
+  for (const id of [...creados, ...diferencias.keys()]) {
+    const episodio = porId.get(id);
+    if (!episodio) continue;
+    if (episodioBloqueado(episodio)) {
+      plan.bloqueados.push({ episodioId: id, episodioCmdb: episodio.episodioCmdb, estado: episodio.estado });
+    } else if (creados.has(id)) {
+      plan.eliminar.push(id);
+    } else {
+      plan.restaurar.push({ episodioId: id, ...datosRestauracion(episodio, diferencias.get(id)!) });
+    }
+  }
+  return plan;
+}
+
+export interface ResultadoReversion {
+  error: string | null;
+  bloqueados: PlanReversion['bloqueados'];
+  eliminados: number;
+  restaurados: number;
+  camposOmitidos: { episodioId: number; campos: string[] }[];
+}
+
+/**
+ * Revierte el job en una sola transacción. Retorna `error` si el job no se puede revertir.
+ */
+export async function revertirImportJob(
+  job: ImportJob,
+  usuarioId: number | null,
+  rol: string | null
+): Promise<ResultadoReversion> {
+  const resultado: ResultadoReversion = { error: null, bloqueados: [], eliminados: 0, restaurados: 0, camposOmitidos: [] };
+  if (!ESTADOS_REVERSIBLES.includes(job.estado)) {
+    resultado.error = `Solo se pueden revertir importaciones ${ESTADOS_REVERSIBLES.join(' o ')} (estado actual: ${job.estado})`;
+    return resultado;
+  }
+
+  const items = await prisma.importJobItem.findMany({
+    where: { jobId: job.id, resultado: { not: 'SIN_CAMBIOS' } },
+    select: { fila: true, episodioId: true, resultado: true, cambios: true },
+  });
+  const ids = [...new Set(items.map((i) => i.episodioId))];
+  const episodios = await prisma.episodio.findMany({ where: { id: { in: ids } } });
+  const plan = planificarReversion(items, episodios);
+
+  if (plan.bloqueados.length > 0) {
+    resultado.error = `${plan.bloqueados.length} episodio(s) de la importación ya fueron aprobados o exportados`;
+    resultado.bloqueados = plan.bloqueados;
+    return resultado;
+  }
+
+  const contexto: ContextoCambio = { usuarioId, rol, origen: 'REVERSION', referencia: referenciaImportJob(job.id) };
+  const restaurar = plan.restaurar.filter((r) => r.cambios.length > 0);
+  await prisma.$transaction([
+    // La codificación importada se elimina con el episodio (la FK de Diagnostico no es en cascada)
+    prisma.diagnostico.deleteMany({ where: { episodioId: { in: plan.eliminar } } }),
+    prisma.episodio.deleteMany({ where: { id: { in: plan.eliminar } } }),
+    ...restaurar.map((r) =>
+      prisma.episodio.update({ where: { id: r.episodioId }, data: r.data as Prisma.EpisodioUncheckedUpdateInput })
+    ),
+    prisma.episodioCambio.createMany({ data: restaurar.flatMap((r) => filasCambios(r.episodioId, r.cambios, contexto)) }),
+    prisma.importJob.update({
+      where: { id: job.id },
+      data: { estado: 'REVERTIDO', revertidoAt: new Date(), revertidoPorId: usuarioId, archivoRuta: null },
+    }),
+  ]);
+  eliminarArchivo(job.archivoRuta);
+
+  resultado.eliminados = plan.eliminar.length;
+  resultado.restaurados = restaurar.length;
+  resultado.camposOmitidos = plan.restaurar
+    .filter((r) => r.omitidos.length > 0)
+    .map((r) => ({ episodioId: r.episodioId, campos: r.omitidos }));
+  return resultado;
+}
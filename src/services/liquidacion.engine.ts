@@ -0,0 +1,766 @@
+/**
+ * Motor de liquidación GRD (puro, sin acceso a base de datos)
+ *
+ * Recibe los datos del episodio junto con los insumos de tarifa (precio base,
+ * monto día espera) y de norma (puntos de corte y percentiles del GRD, más los
+ * valores de respaldo de ConfiguracionSistema) y devuelve la liquidación
+ * desglosada: valor GRD, AT, pago outlier, pago demora y monto final.
+ * Qué fórmulas aplican a cada convenio lo define su ReglaConvenio.
+ *
+ * La carga de insumos desde la BD vive en liquidacion.service.ts.
+ */
+
+// Versión del motor: se incrementa cada vez que cambia una fórmula
+// 1.1.0: reglas de liquidación por convenio (ConvenioRegla)
+// 1.2.0: límites de tramo por convenio y período (ConvenioTramo)
+// 1.3.0: norma MINSAL vigente a la fecha de alta del episodio
+export const ENGINE_VERSION = 'grd-billing-1.3.0';
+
+export type Tramo = string;
+
+export type ModoPrecio = 'TRAMOS' | 'PRECIO_UNICO';
+export type FormulaDemora = 'FACTOR_P75' | 'DIA_ESPERA' | 'NINGUNA';
+
+// Límites de peso de un tramo: pesoDesde exclusivo (null = desde 0), pesoHasta inclusivo (null = sin límite)
+export interface TramoPeso {
+  tramo: Tramo;
+  pesoDesde: number | null;
+  pesoHasta: number | null;
+  // Período en que rigen estos puntos de corte (null = abierto)
+  vigenciaDesde?: Date | null;
+  vigenciaHasta?: Date | null;
+}
+
+// Regla de cálculo de un convenio (tabla ConvenioRegla)
+export interface ReglaConvenio {
+  convenio: string;
+  modoPrecio: ModoPrecio;
+  pagaOutlierSuperior: boolean;
+  formulaDemora: FormulaDemora;
+  fechaReferencia: 'fechaIngreso' | 'fechaAlta';
+  tramos: TramoPeso[];
+}
+
+export interface EntradaLiquidacion {
+  convenio?: string | null;
+  pesoGrd?: number | null;
+  fechaIngreso?: Date | null;
+  fechaAlta?: Date | null;
+  diasEstada?: number | null; // Se usa solo si faltan las fechas
+  montoAt?: number | null;
+  diasDemoraRescate?: number | null;
+  pagoDemoraRescate?: number | null; // Valor manual, se usa cuando no hay fórmula aplicable
+  grupoEnNorma?: boolean | null;
+  // Overrides manuales: solo se respetan en casos fuera de norma (grupoEnNorma === false)
+  valorGrdManual?: number | null;
+  montoFinalManual?: number | null;
+}
+
+export interface TarifaLiquidacion {
+  tramo?: Tramo | null;
+  precioBaseTramo?: number | null;
+  montoDiaEspera?: number | null; // Convenios con demora DIA_ESPERA (ej. CH0041)
+}
+
+export interface NormaLiquidacion {
+  puntoCorteInf?: number | null;
+  puntoCorteSup?: number | null;
+  percentil50?: number | null;
+  percentil75?: number | null;
+}
+
+// Valores de respaldo tomados de ConfiguracionSistema
+export interface ParametrosSistemaLiquidacion {
+  puntoCorteSuperior?: number | null;
+  percentil50?: number | null;
+  diasPercentil75?: number | null;
+}
+
+export interface Liquidacion {
+  engineVersion: string;
+  convenio: string | null;
+  tramo: Tramo | null;
+  diasEstada: number | null;
+  inlierOutlier: string | null;
+  precioBaseTramo: number | null;
+  valorGrd: number;
+  montoAt: number;
+  pagoOutlierSuperior: number;
+  pagoDemoraRescate: number;
+  montoFinal: number;
+}
+
+// Normaliza el código de convenio (trim + mayúsculas)
+export function normalizarConvenio(convenio: string | null | undefined): string {
+  return (convenio || '').toString().trim().toUpperCase();
+}
+
+// Devuelve el número si es finito y positivo, null en otro caso
+function positivo(value: number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const num = Number(value);
+  return !isNaN(num) && isFinite(num) && num > 0 ? num : null;
+}
+
+function fechaValida(fecha: Date | null | undefined): fecha is Date {
+  return fecha instanceof Date && !isNaN(fecha.getTime());
+}
+
+// Función para calcular valorGRD como peso * precioBaseTramo
+export function calcularValorGRD(
+  peso: number | null | undefined,
+  precioBaseTramo: number | null | undefined
+): number {
+  const pesoNum = peso ?? 0;
+  const precioNum = precioBaseTramo ?? 0;
+
+  if (pesoNum === 0 || precioNum === 0) {
+    return 0;
+  }
+
+  return pesoNum * precioNum;
+}
+
+// Función para calcular montoFinal según la fórmula de negocio
+export function calcularMontoFinal(
+  valorGRD: number | null | undefined,
+  montoAT: number | null | undefined,
+  pagoOutlierSup: number | null | undefined,
+  pagoDemora: number | null | undefined
+): number {
+  return (valorGRD ?? 0) + (montoAT ?? 0) + (pagoOutlierSup ?? 0) + (pagoDemora ?? 0);
+}
+
+/**
+ * Calcula los días de estadía basándose en fecha de ingreso y fecha de alta
+ */
+export function calcularDiasEstada(
+  fechaIngreso: Date | null | undefined,
+  fechaAlta: Date | null | undefined
+): number {
+  if (!fechaIngreso || !fechaAlta) return 0;
+  const diff = Math.round((fechaAlta.getTime() - fechaIngreso.getTime()) / 86400000);
+  return diff >= 0 ? diff : 0;
+}
+
+/**
+ * Calcula si un episodio es Inlier u Outlier según los días de estadía
+ * y los puntos de corte del GRD
+ * @returns 'Inlier', 'Outlier Superior', 'Outlier Inferior' o null si no se puede determinar
+ */
+export function calcularInlierOutlier(
+  diasEstada: number | null | undefined,
+  puntoCorteInf: number | null | undefined,
+  puntoCorteSup: number | null | undefined
+): string | null {
+  if (diasEstada === null || diasEstada === undefined) {
+    return null;
+  }
+
+  const puntoInf = puntoCorteInf !== null && puntoCorteInf !== undefined ? Number(puntoCorteInf) : null;
+  const puntoSup = puntoCorteSup !== null && puntoCorteSup !== undefined ? Number(puntoCorteSup) : null;
+
+  // Si no hay puntos de corte, no se puede determinar
+  if (puntoInf === null && puntoSup === null) {
+    return null;
+  }
+
+  if (puntoSup !== null && diasEstada > puntoSup) {
+    return 'Outlier Superior';
+  }
+
+  if (puntoInf !== null && diasEstada < puntoInf) {
+    return 'Outlier Inferior';
+  }
+
+  return 'Inlier';
+}
+
+/**
+ * Calcula el tramo según el peso GRD y los límites de tramo del convenio
+ * @returns Código del tramo o null si no se puede determinar
+ */
+export function calcularTramo(pesoGRD: number | null | undefined, tramos: TramoPeso[]): Tramo | null {
+  if (pesoGRD === null || pesoGRD === undefined || pesoGRD < 0) {
+    return null; // Peso negativo (no debería ocurrir)
+  }
+
+  const tramo = tramos.find(
+    (t) =>
+      (t.pesoDesde === null || pesoGRD > t.pesoDesde) &&
+      (t.pesoHasta === null || pesoGRD <= t.pesoHasta)
+  );
+  return tramo ? tramo.tramo : null;
+}
+
+// Fecha del episodio con la que se busca el precio vigente
+export type FechaReferenciaPrecio = 'fechaIngreso' | 'fechaAlta';
+
+// Rango de vigencia de un precio (fechas null = abierto por ese extremo)
+export interface VigenciaPrecio {
+  fechaAdmision: Date | null;
+  fechaFin: Date | null;
+  createdAt?: Date;
+}
+
+function inicioDelDia(fecha: Date): Date {
+  const d = new Date(fecha);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function finDelDia(fecha: Date): Date {
+  const d = new Date(fecha);
+  d.setHours(23, 59, 59, 999);
+  return d;
+}
+
+/**
+ * Indica si la fecha cae dentro del rango de vigencia (ambos extremos inclusive, por día)
+ */
+export function estaVigente(vigencia: VigenciaPrecio, fecha: Date): boolean {
+  const dia = inicioDelDia(fecha);
+  if (vigencia.fechaAdmision && dia < inicioDelDia(vigencia.fechaAdmision)) return false;
+  if (vigencia.fechaFin && dia > finDelDia(vigencia.fechaFin)) return false;
+  return true;
+}
+
+/**
+ * Selecciona el precio vigente a la fecha de referencia.
+ * Sin fecha de referencia solo sirve un precio sin límites de vigencia.
+ * Si hay más de un candidato gana el creado más recientemente.
+ */
+export function seleccionarPrecioVigente<T extends VigenciaPrecio>(
+  registros: T[],
+  fecha: Date | null | undefined
+): T | null {
+  const candidatos = registros.filter((r) =>
+    fechaValida(fecha) ? estaVigente(r, fecha) : !r.fechaAdmision && !r.fechaFin
+  );
+  if (candidatos.length === 0) return null;
+
+  return candidatos.reduce((elegido, r) =>
+    (r.createdAt?.getTime() ?? 0) > (elegido.createdAt?.getTime() ?? 0) ? r : elegido
+  );
+}
+
+/**
+ * Indica si dos rangos de vigencia se solapan (fechas null = abierto)
+ */
+export function rangosSeSolapan(a: VigenciaPrecio, b: VigenciaPrecio): boolean {
+  const inicioA = a.fechaAdmision ? inicioDelDia(a.fechaAdmision).getTime() : -Infinity;
+  const finA = a.fechaFin ? finDelDia(a.fechaFin).getTime() : Infinity;
+  const inicioB = b.fechaAdmision ? inicioDelDia(b.fechaAdmision).getTime() : -Infinity;
+  const finB = b.fechaFin ? finDelDia(b.fechaFin).getTime() : Infinity;
+  return inicioA <= finB && inicioB <= finA;
+}
+
+// Período de vigencia de una versión de la Norma MINSAL (vigenciaHasta null = abierta)
+export interface VigenciaNorma {
+  vigenciaDesde: Date;
+  vigenciaHasta: Date | null;
+}
+
+/**
+ * Selecciona la versión de la norma vigente a la fecha de alta del episodio.
+ * Sin fecha no hay versión (se usan los parámetros del GRD). Si hay más de una
+ * vigente gana la de inicio más reciente.
+ */
+export function seleccionarVersionNorma<T extends VigenciaNorma>(
+  versiones: T[],
+  fechaAlta: Date | null | undefined
+): T | null {
+  if (!fechaValida(fechaAlta)) return null;
+  const candidatas = versiones.filter((v) =>
+    estaVigente({ fechaAdmision: v.vigenciaDesde, fechaFin: v.vigenciaHasta }, fechaAlta)
+  );
+  if (candidatas.length === 0) return null;
+
+  return candidatas.reduce((elegida, v) => (v.vigenciaDesde > elegida.vigenciaDesde ? v : elegida));
+}
+
+/**
+ * Tramos cuyo período de vigencia contiene la fecha de referencia.
+ * Sin fecha de referencia solo sirven tramos sin límites de vigencia.
+ */
+export function tramosVigentes(tramos: TramoPeso[], fecha: Date | null | undefined): TramoPeso[] {
+  return tramos.filter((t) => {
+    const vigencia = { fechaAdmision: t.vigenciaDesde ?? null, fechaFin: t.vigenciaHasta ?? null };
+    return fechaValida(fecha) ? estaVigente(vigencia, fecha) : !vigencia.fechaAdmision && !vigencia.fechaFin;
+  });
+}
+
+/**
+ * Valida que un juego de tramos (un mismo período) cubra todos los pesos sin
+ * huecos ni solapamientos: el primero parte en 0, cada uno parte donde termina
+ * el anterior y el último queda abierto.
+ * @returns Lista de errores (vacía si el juego es válido)
+ */
+export function validarTramosContiguos(tramos: TramoPeso[]): string[] {
+  const errores: string[] = [];
+  if (tramos.length === 0) return errores;
+
+  const nombres = new Set<string>();
+  for (const t of tramos) {
+    if (nombres.has(t.tramo)) errores.push(`Tramo duplicado: ${t.tramo}`);
+    nombres.add(t.tramo);
+    if (t.pesoDesde !== null && t.pesoHasta !== null && t.pesoHasta <= t.pesoDesde) {
+      errores.push(`Tramo ${t.tramo}: pesoHasta debe ser mayor que pesoDesde`);
+    }
+  }
+
+  const ordenados = [...tramos].sort((a, b) => (a.pesoDesde ?? 0) - (b.pesoDesde ?? 0));
+  const primero = ordenados[0];
+  if (primero.pesoDesde !== null && primero.pesoDesde !== 0) {
+    errores.push(`Tramo ${primero.tramo}: el primer tramo debe partir en peso 0`);
+  }
+
+  for (let i = 1; i < ordenados.length; i++) {
+    const anterior = ordenados[i - 1];
+    const actual = ordenados[i];
+    if (anterior.pesoHasta === null) {
+      errores.push(`Tramo ${anterior.tramo}: solo el último tramo puede quedar sin límite superior`);
+    } else if ((actual.pesoDesde ?? 0) < anterior.pesoHasta) {
+      errores.push(`Tramos ${anterior.tramo} y ${actual.tramo} se solapan`);
+    } else if ((actual.pesoDesde ?? 0) > anterior.pesoHasta) {
+      errores.push(`Hay un hueco entre los tramos ${anterior.tramo} y ${actual.tramo}`);
+    }
+  }
+
+  const ultimo = ordenados[ordenados.length - 1];
+  if (ultimo.pesoHasta !== null) {
+    errores.push(`Tramo ${ultimo.tramo}: el último tramo debe quedar sin límite superior`);
+  }
+
+  return errores;
+}
+
+// Juego de tramos que rige en un mismo período
+export interface PeriodoTramos {
+  vigenciaDesde: Date | null;
+  vigenciaHasta: Date | null;
+  tramos: TramoPeso[];
+}
+
+/**
+ * Agrupa los tramos por período de vigencia, ordenados por fecha de inicio
+ */
+export function agruparTramosPorPeriodo(tramos: TramoPeso[]): PeriodoTramos[] {
+  const periodos = new Map<string, PeriodoTramos>();
+  for (const t of tramos) {
+    const desde = t.vigenciaDesde ?? null;
+    const hasta = t.vigenciaHasta ?? null;
+    const clave = `${desde?.getTime() ?? ''}|${hasta?.getTime() ?? ''}`;
+    let periodo = periodos.get(clave);
+    if (!periodo) {
+      periodo = { vigenciaDesde: desde, vigenciaHasta: hasta, tramos: [] };
+      periodos.set(clave, periodo);
+    }
+    periodo.tramos.push(t);
+  }
+
+  return [...periodos.values()]
+    .map((p) => ({ ...p, tramos: [...p.tramos].sort((a, b) => (a.pesoDesde ?? 0) - (b.pesoDesde ?? 0)) }))
+    .sort((a, b) => (a.vigenciaDesde?.getTime() ?? -Infinity) - (b.vigenciaDesde?.getTime() ?? -Infinity));
+}
+
+/**
+ * Valida los tramos de un convenio: cada período debe ser contiguo
+ * (validarTramosContiguos) y los períodos no pueden solaparse entre sí
+ */
+export function validarTramosPorPeriodo(tramos: TramoPeso[]): string[] {
+  const periodos = agruparTramosPorPeriodo(tramos);
+  const formato = (p: PeriodoTramos) =>
+    `${p.vigenciaDesde ? p.vigenciaDesde.toISOString().split('T')[0] : '…'} - ${p.vigenciaHasta ? p.vigenciaHasta.toISOString().split('T')[0] : '…'}`;
+  const errores: string[] = [];
+
+  periodos.forEach((periodo, i) => {
+    if (periodo.vigenciaDesde && periodo.vigenciaHasta && periodo.vigenciaHasta < periodo.vigenciaDesde) {
+      errores.push(`Período ${formato(periodo)}: vigenciaHasta debe ser mayor o igual a vigenciaDesde`);
+    }
+    for (const error of validarTramosContiguos(periodo.tramos)) {
+      errores.push(periodos.length > 1 ? `Período ${formato(periodo)}: ${error}` : error);
+    }
+    for (const otro of periodos.slice(i + 1)) {
+      const a = { fechaAdmision: periodo.vigenciaDesde, fechaFin: periodo.vigenciaHasta };
+      const b = { fechaAdmision: otro.vigenciaDesde, fechaFin: otro.vigenciaHasta };
+      if (rangosSeSolapan(a, b)) {
+        errores.push(`Los períodos ${formato(periodo)} y ${formato(otro)} se solapan`);
+      }
+    }
+  });
+
+  return errores;
+}
+
+// Origen de un parámetro usado en una fórmula
+export type FuenteParametro = 'GRD' | 'CONFIGURACION' | 'PRECIO_CONVENIO' | 'EPISODIO' | 'MANUAL' | 'POR_DEFECTO';
+
+export interface ParametroResuelto {
+  valor: number | null;
+  fuente: FuenteParametro | null;
+  campo?: string;
+}
+
+// Paso de la traza de cálculo: fórmula, insumos y resultado
+export interface PasoLiquidacion {
+  paso: string;
+  formula: string;
+  entradas: Record<string, unknown>;
+  resultado: number | string | null;
+  nota?: string;
+}
+
+export interface DetallePagoDemora {
+  pago: number;
+  formula: 'SIN_DIAS' | 'DIA_ESPERA' | 'FACTOR_P75' | 'MANUAL';
+  dias: number;
+  montoDiaEspera: number | null;
+  diasPercentil75: ParametroResuelto | null;
+}
+
+export interface DetallePagoOutlier {
+  pago: number;
+  aplica: boolean;
+  motivo: string | null;
+  puntoCorteSup: ParametroResuelto;
+  percentil50: ParametroResuelto;
+  percentil75: ParametroResuelto;
+  periodoCarencia: number | null;
+  diasPostCarencia: number | null;
+}
+
+// Toma el primer candidato válido (positivo) y recuerda de dónde salió
+function resolverParametro(
+  candidatos: Array<[number | null | undefined, FuenteParametro, string]>
+): ParametroResuelto {
+  for (const [valor, fuente, campo] of candidatos) {
+    const num = positivo(valor);
+    if (num !== null) return { valor: num, fuente, campo };
+  }
+  return { valor: null, fuente: null };
+}
+
+/**
+ * Detalle del pago por demora de rescate (US-12), según la fórmula del convenio
+ *
+ * DIA_ESPERA (ej. CH0041): diasDemora × montoDiaEspera
+ * FACTOR_P75 (ej. FNS012/FNS026/FNS019): ((pesoGrd × precioBaseTramo) / diasPercentil75) × diasDemora
+ * NINGUNA o sin días de demora: se mantiene el valor manual
+ */
+export function detallarPagoDemoraRescate(params: {
+  formulaDemora?: FormulaDemora | null;
+  diasDemora?: number | null;
+  pagoDemoraManual?: number | null;
+  pesoGrd?: number | null;
+  precioBaseTramo?: number | null;
+  montoDiaEspera?: number | null;
+  norma?: NormaLiquidacion;
+  parametros?: ParametrosSistemaLiquidacion;
+}): DetallePagoDemora {
+  const { formulaDemora, diasDemora, pagoDemoraManual, pesoGrd, precioBaseTramo, montoDiaEspera } = params;
+  const norma = params.norma ?? {};
+  const parametros = params.parametros ?? {};
+
+  const manual = typeof pagoDemoraManual === 'number' && !isNaN(pagoDemoraManual) ? pagoDemoraManual : 0;
+  const dias = typeof diasDemora === 'number' && diasDemora > 0 ? diasDemora : 0;
+  const base = { dias, montoDiaEspera: null, diasPercentil75: null };
+
+  if (dias === 0) {
+    return { ...base, pago: manual, formula: 'SIN_DIAS' };
+  }
+
+  if (formulaDemora === 'DIA_ESPERA') {
+    const montoDia = positivo(montoDiaEspera);
+    return montoDia === null
+      ? { ...base, pago: manual, formula: 'MANUAL' }
+      : { ...base, pago: dias * montoDia, formula: 'DIA_ESPERA', montoDiaEspera: montoDia };
+  }
+
+  if (formulaDemora === 'FACTOR_P75') {
+    // Prioridad: percentil75 del GRD → puntoCorteSup del GRD → ConfiguracionSistema → 1
+    const resuelto = resolverParametro([
+      [norma.percentil75, 'GRD', 'percentil75'],
+      [norma.puntoCorteSup, 'GRD', 'puntoCorteSup'],
+      [parametros.diasPercentil75, 'CONFIGURACION', 'diasPercentil75'],
+    ]);
+    const diasPercentil75: ParametroResuelto =
+      resuelto.valor !== null ? resuelto : { valor: 1, fuente: 'POR_DEFECTO' };
+
+    const peso = Number(pesoGrd ?? 0);
+    const precio = Number(precioBaseTramo ?? 0);
+    return {
+      ...base,
+      pago: ((peso * precio) / (diasPercentil75.valor as number)) * dias,
+      formula: 'FACTOR_P75',
+      diasPercentil75,
+    };
+  }
+
+  return { ...base, pago: manual, formula: 'MANUAL' };
+}
+
+export function calcularPagoDemoraRescate(params: Parameters<typeof detallarPagoDemoraRescate>[0]): number {
+  return detallarPagoDemoraRescate(params).pago;
+}
+
+/**
+ * Detalle del pago por outlier superior (US-11) - solo convenios con pagaOutlierSuperior (ej. FNS012)
+ *
+ * Pago Outlier = (Días post carencia × Peso GRD × Precio Base) / Días percentil 75
+ * - Período de carencia = Punto corte superior + Percentil 50
+ * - Días post carencia = Estancia total - Período de carencia
+ */
+export function detallarPagoOutlierSuperior(params: {
+  pagaOutlierSuperior?: boolean | null;
+  diasEstada?: number | null;
+  pesoGrd?: number | null;
+  precioBase?: number | null;
+  inlierOutlier?: string | null;
+  norma?: NormaLiquidacion;
+  parametros?: ParametrosSistemaLiquidacion;
+}): DetallePagoOutlier {
+  const { pagaOutlierSuperior, diasEstada, pesoGrd, precioBase, inlierOutlier } = params;
+  const norma = params.norma ?? {};
+  const parametros = params.parametros ?? {};
+
+  const puntoCorteSup = resolverParametro([
+    [norma.puntoCorteSup, 'GRD', 'puntoCorteSup'],
+    [parametros.puntoCorteSuperior, 'CONFIGURACION', 'puntoCorteSuperior'],
+  ]);
+  const percentil50 = resolverParametro([
+    [norma.percentil50, 'GRD', 'percentil50'],
+    [parametros.percentil50, 'CONFIGURACION', 'percentil50'],
+  ]);
+  // Prioridad: percentil75 del GRD → punto corte superior → ConfiguracionSistema → 1
+  const p75 = resolverParametro([
+    [norma.percentil75, 'GRD', 'percentil75'],
+    [puntoCorteSup.valor, puntoCorteSup.fuente ?? 'GRD', puntoCorteSup.campo ?? 'puntoCorteSup'],
+    [parametros.diasPercentil75, 'CONFIGURACION', 'diasPercentil75'],
+  ]);
+  const percentil75: ParametroResuelto = p75.valor !== null ? p75 : { valor: 1, fuente: 'POR_DEFECTO' };
+
+  const detalle: DetallePagoOutlier = {
+    pago: 0,
+    aplica: false,
+    motivo: null,
+    puntoCorteSup,
+    percentil50,
+    percentil75,
+    periodoCarencia: null,
+    diasPostCarencia: null,
+  };
+
+  if (!pagaOutlierSuperior) {
+    return { ...detalle, motivo: 'El convenio no paga outlier superior' };
+  }
+  if (inlierOutlier !== 'Outlier Superior') {
+    return { ...detalle, motivo: `El episodio no es Outlier Superior (${inlierOutlier ?? 'sin clasificar'})` };
+  }
+
+  // Sin punto de corte o percentil 50 no se puede calcular el período de carencia
+  if (puntoCorteSup.valor === null) {
+    return { ...detalle, motivo: 'Punto corte superior no disponible' };
+  }
+  if (percentil50.valor === null) {
+    return { ...detalle, motivo: 'Percentil 50 no disponible' };
+  }
+
+  const periodoCarencia = puntoCorteSup.valor + percentil50.valor;
+  const dias = typeof diasEstada === 'number' && diasEstada > 0 ? diasEstada : 0;
+  const peso = typeof pesoGrd === 'number' && pesoGrd > 0 ? pesoGrd : 0;
+  const precio = typeof precioBase === 'number' && precioBase > 0 ? precioBase : 0;
+  const diasPostCarencia = Math.max(0, dias - periodoCarencia);
+  const conCarencia = { ...detalle, periodoCarencia, diasPostCarencia };
+
+  if (dias === 0 || peso === 0 || precio === 0) {
+    return { ...conCarencia, motivo: 'Faltan días de estadía, peso GRD o precio base' };
+  }
+
+  if (diasPostCarencia <= 0) {
+    return { ...conCarencia, motivo: 'Episodio dentro del período de carencia' };
+  }
+
+  return {
+    ...conCarencia,
+    aplica: true,
+    pago: (diasPostCarencia * peso * precio) / (percentil75.valor as number),
+  };
+}
+
+export function calcularPagoOutlierSuperior(params: Parameters<typeof detallarPagoOutlierSuperior>[0]): number {
+  return detallarPagoOutlierSuperior(params).pago;
+}
+
+export interface DetalleLiquidacion {
+  liquidacion: Liquidacion;
+  demora: DetallePagoDemora;
+  outlier: DetallePagoOutlier;
+  pasos: PasoLiquidacion[];
+}
+
+/**
+ * Liquida un episodio y registra cada paso del cálculo con sus insumos
+ */
+export function detallarLiquidacion(
+  entrada: EntradaLiquidacion,
+  tarifa: TarifaLiquidacion = {},
+  norma: NormaLiquidacion = {},
+  parametros: ParametrosSistemaLiquidacion = {},
+  regla: ReglaConvenio | null = null
+): DetalleLiquidacion {
+  const pasos: PasoLiquidacion[] = [];
+  const convenio = normalizarConvenio(entrada.convenio) || null;
+  const peso = entrada.pesoGrd ?? null;
+  const precioBaseTramo =
+    tarifa.precioBaseTramo !== null && tarifa.precioBaseTramo !== undefined && tarifa.precioBaseTramo >= 0
+      ? tarifa.precioBaseTramo
+      : null;
+
+  // Días de estadía: desde las fechas si existen, si no el valor guardado
+  const usaFechas = fechaValida(entrada.fechaIngreso) && fechaValida(entrada.fechaAlta);
+  const diasEstada = usaFechas
+    ? calcularDiasEstada(entrada.fechaIngreso, entrada.fechaAlta)
+    : entrada.diasEstada ?? null;
+  pasos.push({
+    paso: 'diasEstada',
+    formula: usaFechas ? 'fechaAlta - fechaIngreso (días)' : 'valor guardado en el episodio',
+    entradas: { fechaIngreso: entrada.fechaIngreso ?? null, fechaAlta: entrada.fechaAlta ?? null },
+    resultado: diasEstada,
+  });
+
+  const inlierOutlier = calcularInlierOutlier(diasEstada, norma.puntoCorteInf, norma.puntoCorteSup);
+  pasos.push({
+    paso: 'inlierOutlier',
+    formula: 'diasEstada > puntoCorteSup → Outlier Superior; diasEstada < puntoCorteInf → Outlier Inferior; si no Inlier',
+    entradas: { diasEstada, puntoCorteInf: norma.puntoCorteInf ?? null, puntoCorteSup: norma.puntoCorteSup ?? null },
+    resultado: inlierOutlier,
+  });
+
+  // Overrides manuales solo para casos fuera de norma
+  const fueraDeNorma = entrada.grupoEnNorma === false;
+  const overrideValorGrd =
+    fueraDeNorma && entrada.valorGrdManual !== null && entrada.valorGrdManual !== undefined;
+  const valorGrd = overrideValorGrd
+    ? (entrada.valorGrdManual as number)
+    : calcularValorGRD(peso, precioBaseTramo);
+  pasos.push({
+    paso: 'valorGrd',
+    formula: overrideValorGrd ? 'override manual (grupo fuera de norma)' : 'pesoGrd × precioBaseTramo',
+    entradas: { pesoGrd: peso, precioBaseTramo, tramo: tarifa.tramo ?? null },
+    resultado: valorGrd,
+  });
+
+  const montoAt = entrada.montoAt ?? 0;
+
+  const demora = detallarPagoDemoraRescate({
+    formulaDemora: regla?.formulaDemora ?? 'NINGUNA',
+    diasDemora: entrada.diasDemoraRescate,
+    pagoDemoraManual: entrada.pagoDemoraRescate,
+    pesoGrd: peso,
+    precioBaseTramo: precioBaseTramo ?? 0,
+    montoDiaEspera: tarifa.montoDiaEspera,
+    norma,
+    parametros,
+  });
+  const formulasDemora: Record<DetallePagoDemora['formula'], string> = {
+    SIN_DIAS: 'sin días de demora: se mantiene el valor manual',
+    DIA_ESPERA: 'diasDemora × montoDiaEspera',
+    FACTOR_P75: '((pesoGrd × precioBaseTramo) / diasPercentil75) × diasDemora',
+    MANUAL: 'sin fórmula aplicable: se mantiene el valor manual',
+  };
+  pasos.push({
+    paso: 'pagoDemoraRescate',
+    formula: formulasDemora[demora.formula],
+    entradas: {
+      convenio,
+      formulaDemora: regla?.formulaDemora ?? 'NINGUNA',
+      diasDemora: demora.dias,
+      montoDiaEspera: demora.montoDiaEspera,
+      pesoGrd: peso,
+      precioBaseTramo,
+      diasPercentil75: demora.diasPercentil75,
+      pagoDemoraManual: entrada.pagoDemoraRescate ?? null,
+    },
+    resultado: demora.pago,
+  });
+
+  const outlier = detallarPagoOutlierSuperior({
+    pagaOutlierSuperior: regla?.pagaOutlierSuperior ?? false,
+    diasEstada,
+    pesoGrd: peso,
+    precioBase: precioBaseTramo ?? 0,
+    inlierOutlier,
+    norma,
+    parametros,
+  });
+  pasos.push({
+    paso: 'pagoOutlierSuperior',
+    formula: '(diasPostCarencia × pesoGrd × precioBaseTramo) / percentil75; carencia = puntoCorteSup + percentil50',
+    entradas: {
+      convenio,
+      pagaOutlierSuperior: regla?.pagaOutlierSuperior ?? false,
+      diasEstada,
+      pesoGrd: peso,
+      precioBaseTramo,
+      puntoCorteSup: outlier.puntoCorteSup,
+      percentil50: outlier.percentil50,
+      percentil75: outlier.percentil75,
+      periodoCarencia: outlier.periodoCarencia,
+      diasPostCarencia: outlier.diasPostCarencia,
+    },
+    resultado: outlier.pago,
+    ...(outlier.motivo ? { nota: outlier.motivo } : {}),
+  });
+
+  const overrideMontoFinal =
+    fueraDeNorma && entrada.montoFinalManual !== null && entrada.montoFinalManual !== undefined;
+  const montoFinal = overrideMontoFinal
+    ? (entrada.montoFinalManual as number)
+    : calcularMontoFinal(valorGrd, montoAt, outlier.pago, demora.pago);
+  pasos.push({
+    paso: 'montoFinal',
+    formula: overrideMontoFinal
+      ? 'override manual (grupo fuera de norma)'
+      : 'valorGrd + montoAt + pagoOutlierSuperior + pagoDemoraRescate',
+    entradas: {
+      valorGrd,
+      montoAt,
+      pagoOutlierSuperior: outlier.pago,
+      pagoDemoraRescate: demora.pago,
+    },
+    resultado: montoFinal,
+  });
+
+  return {
+    liquidacion: {
+      engineVersion: ENGINE_VERSION,
+      convenio,
+      tramo: tarifa.tramo ?? null,
+      diasEstada,
+      inlierOutlier,
+      precioBaseTramo,
+      valorGrd,
+      montoAt,
+      pagoOutlierSuperior: outlier.pago,
+      pagoDemoraRescate: demora.pago,
+      montoFinal,
+    },
+    demora,
+    outlier,
+    pasos,
+  };
+}
+
+/**
+ * Liquida un episodio completo a partir de sus datos y de los insumos ya resueltos
+ */
+export function calcularLiquidacion(
+  entrada: EntradaLiquidacion,
+  tarifa: TarifaLiquidacion = {},
+  norma: NormaLiquidacion = {},
+  parametros: ParametrosSistemaLiquidacion = {},
+  regla: ReglaConvenio | null = null
+): Liquidacion {
+  return detallarLiquidacion(entrada, tarifa, norma, parametros, regla).liquidacion;
+}
@@ -0,0 +1,629 @@
+/**
+ * Servicio de liquidación GRD
+ *
+ * Resuelve desde la base de datos los insumos que necesita el motor puro
+ * (regla del convenio, precio del convenio, monto día espera, parámetros de
+ * la versión de la norma vigente a la fecha de alta y de ConfiguracionSistema) y liquida episodios con liquidacion.engine.ts.
+ * Todas las rutas que calculan montos (upload, import, PATCH, /final, export)
+ * deben pasar por aquí para obtener los mismos números.
+ */
+import type { ConvenioRegla, ConvenioTramo, GrdNorma, NormaVersion, PrecioConvenio } from '@prisma/client';
+import { prisma } from '../db/client';
+import {
+  calcularLiquidacion,
+  detallarLiquidacion,
+  calcularTramo,
+  tramosVigentes,
+  normalizarConvenio,
+  estaVigente,
+  seleccionarPrecioVigente,
+  seleccionarVersionNorma,
+  EntradaLiquidacion,
+  FechaReferenciaPrecio,
+  FuenteParametro,
+  Liquidacion,
+  NormaLiquidacion,
+  ParametrosSistemaLiquidacion,
+  ReglaConvenio,
+  TarifaLiquidacion,
+  Tramo,
+} from './liquidacion.engine';
+
+type Numerico = number | string | { toNumber(): number } | null | undefined;
+
+// Episodio con los campos que participan en la liquidación (Prisma o datos de importación)
+export interface EpisodioLiquidable {
+  convenio?: string | null;
+  pesoGrd?: Numerico;
+  fechaIngreso?: Date | null;
+  fechaAlta?: Date | null;
+  diasEstada?: number | null;
+  montoAt?: Numerico;
+  diasDemoraRescate?: number | null;
+  pagoDemoraRescate?: Numerico;
+  grupoEnNorma?: boolean | null;
+  precioBaseTramo?: Numerico;
+  precioBaseManual?: boolean | null;
+  valorGrd?: Numerico;
+  montoFinal?: Numerico;
+  grdId?: number | null;
+  grd?: {
+    id?: number;
+    puntoCorteInf?: Numerico;
+    puntoCorteSup?: Numerico;
+    percentil50?: Numerico;
+    percentil75?: Numerico;
+  } | null;
+}
+
+export interface OpcionesLiquidacion {
+  // Precio base ya decidido (ej. edición manual en PATCH). Si se omite se resuelve desde PrecioConvenio
+  precioBaseTramo?: number | null;
+  // Overrides manuales (solo aplican si grupoEnNorma === false)
+  valorGrdManual?: number | null;
+  montoFinalManual?: number | null;
+  // Cache compartida para liquidar muchos episodios sin repetir consultas
+  cache?: CacheLiquidacion;
+}
+
+/**
+ * Ediciones manuales guardadas en el episodio, para reliquidarlo sin perderlas: el precio base
+ * editado a mano y, fuera de norma, el valor GRD y el monto final (que se ingresan a mano)
+ */
+export function overridesGuardados(
+  episodio: EpisodioLiquidable
+): Pick<OpcionesLiquidacion, 'precioBaseTramo' | 'valorGrdManual' | 'montoFinalManual'> {
+  const fueraDeNorma = episodio.grupoEnNorma === false;
+  return {
+    ...(episodio.precioBaseManual ? { precioBaseTramo: toNumber(episodio.precioBaseTramo) } : {}),
+    valorGrdManual: fueraDeNorma ? toNumber(episodio.valorGrd) : null,
+    montoFinalManual: fueraDeNorma ? toNumber(episodio.montoFinal) : null,
+  };
+}
+
+export type ConvenioReglaConTramos = ConvenioRegla & { tramos: ConvenioTramo[] };
+
+export interface ResolucionPrecio {
+  // Regla del convenio vigente para el episodio (null = convenio sin regla)
+  regla: ConvenioReglaConTramos | null;
+  tramo: Tramo | null;
+  registro: PrecioConvenio | null;
+  precio: number | null;
+  // Fecha del episodio usada para buscar el precio vigente
+  fechaReferencia: { campo: FechaReferenciaPrecio; fecha: Date | null } | null;
+}
+
+export interface CacheLiquidacion {
+  precios: Map<string, Promise<PrecioConvenio[]>>;
+  parametros?: Promise<ParametrosSistemaLiquidacion>;
+  reglas: Map<string, Promise<ConvenioReglaConTramos[]>>;
+  rangosDiaEspera: Map<string, Promise<PrecioConvenio[]>>;
+  versionesNorma?: Promise<NormaVersion[]>;
+  // Parámetros por versión y GRD (clave `${versionId}|${grdId}`)
+  normas: Map<string, Promise<GrdNorma | null>>;
+}
+
+export function crearCacheLiquidacion(): CacheLiquidacion {
+  return { precios: new Map(), reglas: new Map(), rangosDiaEspera: new Map(), normas: new Map() };
+}
+
+// Convierte Decimal de Prisma, string o number a number (null si no es válido)
+export function toNumber(value: Numerico): number | null {
+  if (value === null || value === undefined) return null;
+  const num =
+    typeof value === 'object' && typeof value.toNumber === 'function'
+      ? value.toNumber()
+      : typeof value === 'string'
+        ? parseFloat(value)
+        : Number(value);
+  return isNaN(num) || !isFinite(num) ? null : num;
+}
+
+// Reglas activas del convenio, de la más reciente a la más antigua
+async function obtenerReglasConvenio(
+  convenio: string,
+  cache?: CacheLiquidacion
+): Promise<ConvenioReglaConTramos[]> {
+  const consulta = () =>
+    prisma.convenioRegla.findMany({
+      where: { convenio, activo: true },
+      include: { tramos: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+  if (!cache) return consulta();
+  let reglas = cache.reglas.get(convenio);
+  if (!reglas) {
+    reglas = consulta();
+    cache.reglas.set(convenio, reglas);
+  }
+  return reglas;
+}
+
+// Fecha de referencia declarada en la regla (fechaIngreso si el valor no es válido)
+export function campoFechaReferencia(regla: Pick<ConvenioRegla, 'fechaReferencia'>): FechaReferenciaPrecio {
+  return regla.fechaReferencia === 'fechaAlta' ? 'fechaAlta' : 'fechaIngreso';
+}
+
+/**
+ * Busca la regla activa del convenio vigente para el episodio
+ * La vigencia de cada regla (vigenciaDesde - vigenciaHasta, null = abierto) se
+ * compara con la fecha de referencia que la propia regla declara. Si hay varias
+ * vigentes gana la más reciente.
+ */
+export async function obtenerReglaConvenio(
+  convenio: string | null | undefined,
+  fechas: { fechaIngreso?: Date | null; fechaAlta?: Date | null } = {},
+  cache?: CacheLiquidacion
+): Promise<ConvenioReglaConTramos | null> {
+  const convenioNormalizado = normalizarConvenio(convenio);
+  if (!convenioNormalizado) return null;
+
+  const reglas = await obtenerReglasConvenio(convenioNormalizado, cache);
+  const vigente = reglas.find((regla) => {
+    const fecha = fechas[campoFechaReferencia(regla)];
+    // Sin fecha de referencia solo califican reglas sin límites de vigencia
+    if (!fecha) return !regla.vigenciaDesde && !regla.vigenciaHasta;
+    return estaVigente({ fechaAdmision: regla.vigenciaDesde, fechaFin: regla.vigenciaHasta }, fecha);
+  });
+  return vigente ?? null;
+}
+
+// Regla de BD en el formato que consume el motor
+export function reglaParaMotor(regla: ConvenioReglaConTramos | null): ReglaConvenio | null {
+  if (!regla) return null;
+  return {
+    convenio: regla.convenio,
+    modoPrecio: regla.modoPrecio === 'TRAMOS' ? 'TRAMOS' : 'PRECIO_UNICO',
+    pagaOutlierSuperior: regla.pagaOutlierSuperior,
+    formulaDemora:
+      regla.formulaDemora === 'FACTOR_P75' || regla.formulaDemora === 'DIA_ESPERA' ? regla.formulaDemora : 'NINGUNA',
+    fechaReferencia: campoFechaReferencia(regla),
+    tramos: regla.tramos.map((t) => ({
+      tramo: t.tramo,
+      pesoDesde: t.pesoDesde,
+      pesoHasta: t.pesoHasta,
+      vigenciaDesde: t.vigenciaDesde,
+      vigenciaHasta: t.vigenciaHasta,
+    })),
+  };
+}
+
+// Registros de PrecioConvenio candidatos para el convenio (y tramo si corresponde)
+async function obtenerRegistrosPrecio(
+  convenio: string,
+  tramo: Tramo | null,
+  cache?: CacheLiquidacion
+): Promise<PrecioConvenio[]> {
+  const consulta = () =>
+    prisma.precioConvenio.findMany({
+      where: tramo ? { convenio, tramo } : { convenio },
+      orderBy: { createdAt: 'desc' },
+    });
+
+  if (!cache) return consulta();
+  const clave = `${convenio}|${tramo ?? ''}`;
+  let registros = cache.precios.get(clave);
+  if (!registros) {
+    registros = consulta();
+    cache.precios.set(clave, registros);
+  }
+  return registros;
+}
+
+/**
+ * Carga en la cache los precios de convenio como quedarían con un cambio propuesto
+ * (el registro anterior se reemplaza por el propuesto), para liquidar episodios
+ * sin escribir el cambio en la BD
+ */
+export async function simularPrecioConvenio(
+  cache: CacheLiquidacion,
+  anterior: PrecioConvenio,
+  propuesto: PrecioConvenio
+): Promise<void> {
+  const convenios = new Set([normalizarConvenio(anterior.convenio), normalizarConvenio(propuesto.convenio)]);
+
+  for (const convenio of convenios) {
+    if (!convenio) continue;
+
+    const registros = (await prisma.precioConvenio.findMany({ where: { convenio } })).filter((r) => r.id !== anterior.id);
+    if (propuesto.convenio === convenio) registros.push(propuesto);
+    registros.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    cache.precios.set(`${convenio}|`, Promise.resolve(registros));
+    const tramos = new Set([...registros.map((r) => r.tramo), anterior.tramo, propuesto.tramo]);
+    for (const tramo of tramos) {
+      if (tramo) cache.precios.set(`${convenio}|${tramo}`, Promise.resolve(registros.filter((r) => r.tramo === tramo)));
+    }
+
+    const rangos = registros
+      .filter((r) => r.fechaAdmision && r.fechaFin)
+      .sort((a, b) => a.fechaAdmision!.getTime() - b.fechaAdmision!.getTime());
+    cache.rangosDiaEspera.set(convenio, Promise.resolve(rangos));
+  }
+}
+
+/**
+ * Busca el registro de PrecioConvenio vigente para el episodio según la regla del convenio
+ * modoPrecio TRAMOS: por tramo según los límites de peso vigentes de la regla. PRECIO_UNICO: sin tramo.
+ * El registro debe tener un rango de vigencia (fechaAdmision - fechaFin, null = abierto)
+ * que contenga la fecha de referencia de la regla (fechaIngreso o fechaAlta).
+ */
+export async function resolverPrecioConvenio(
+  convenio: string | null | undefined,
+  pesoGRD: number | null | undefined,
+  fechas: { fechaIngreso?: Date | null; fechaAlta?: Date | null } = {},
+  cache?: CacheLiquidacion
+): Promise<ResolucionPrecio> {
+  const convenioNormalizado = normalizarConvenio(convenio);
+  const sinPrecio: ResolucionPrecio = { regla: null, tramo: null, registro: null, precio: null, fechaReferencia: null };
+
+  if (!convenioNormalizado) {
+    return sinPrecio;
+  }
+
+  const regla = await obtenerReglaConvenio(convenioNormalizado, fechas, cache);
+  if (!regla) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn(`⚠️ resolverPrecioConvenio: Convenio sin regla vigente: ${convenioNormalizado}`);
+    }
+    return sinPrecio;
+  }
+
+  const campo = campoFechaReferencia(regla);
+  const fecha = fechas[campo] ?? null;
+
+  let tramo: Tramo | null = null;
+  if (regla.modoPrecio === 'TRAMOS') {
+    // Puntos de corte vigentes a la misma fecha con la que se busca el precio
+    tramo = calcularTramo(pesoGRD, tramosVigentes(reglaParaMotor(regla)!.tramos, fecha));
+    if (!tramo) {
+      return { ...sinPrecio, regla, fechaReferencia: { campo, fecha } };
+    }
+  }
+
+  const registros = await obtenerRegistrosPrecio(convenioNormalizado, tramo, cache);
+  const registro = seleccionarPrecioVigente(registros, fecha);
+  const precio = registro ? toNumber(registro.precio) : null;
+
+  if (precio === null && process.env.NODE_ENV === 'development') {
+    console.warn(
+      `⚠️ resolverPrecioConvenio: No hay precio vigente para ${convenioNormalizado}${tramo ? ` ${tramo}` : ''} al ${fecha ? fecha.toISOString().split('T')[0] : 'sin fecha'} (${campo})`
+    );
+  }
+
+  return { regla, tramo, registro, precio, fechaReferencia: { campo, fecha } };
+}
+
+/**
+ * Obtiene el precio base por tramo basándose en el convenio, el peso GRD y las fechas del episodio
+ * @returns Precio base o null si no se puede determinar
+ */
+export async function obtenerPrecioBaseTramo(
+  convenio: string | null | undefined,
+  pesoGRD: number | null | undefined,
+  fechas: { fechaIngreso?: Date | null; fechaAlta?: Date | null } = {}
+): Promise<number | null> {
+  const { precio } = await resolverPrecioConvenio(convenio, pesoGRD, fechas);
+  return precio;
+}
+
+// Busca el rango (fechaAdmision - fechaFin) con monto día espera que contiene la fecha
+function buscarRangoDiaEspera(registros: PrecioConvenio[], fechaIngreso: Date): PrecioConvenio | null {
+  for (const reg of registros) {
+    const monto = toNumber(reg.precio);
+    if (reg.fechaAdmision && reg.fechaFin && estaVigente(reg, fechaIngreso) && monto !== null && monto > 0) {
+      return reg;
+    }
+  }
+  return null;
+}
+
+async function obtenerRangosDiaEspera(convenio: string, cache?: CacheLiquidacion): Promise<PrecioConvenio[]> {
+  const consulta = () =>
+    prisma.precioConvenio.findMany({
+      where: { convenio, fechaAdmision: { not: null }, fechaFin: { not: null } },
+      orderBy: { fechaAdmision: 'asc' },
+    });
+
+  if (!cache) return consulta();
+  let rangos = cache.rangosDiaEspera.get(convenio);
+  if (!rangos) {
+    rangos = consulta();
+    cache.rangosDiaEspera.set(convenio, rangos);
+  }
+  return rangos;
+}
+
+/**
+ * Busca el rango de PrecioConvenio con el monto día espera (convenios con
+ * demora DIA_ESPERA, ej. CH0041) que contiene la fecha de ingreso
+ */
+export async function resolverRangoDiaEspera(
+  convenio: string | null | undefined,
+  fechaIngreso: Date | null | undefined,
+  cache?: CacheLiquidacion
+): Promise<PrecioConvenio | null> {
+  const convenioNormalizado = normalizarConvenio(convenio);
+  if (!convenioNormalizado || !fechaIngreso) return null;
+
+  try {
+    const registros = await obtenerRangosDiaEspera(convenioNormalizado, cache);
+    if (registros.length === 0) {
+      console.warn(`⚠️ ${convenioNormalizado}: No hay rangos de día espera configurados en PrecioConvenio`);
+      return null;
+    }
+
+    const rango = buscarRangoDiaEspera(registros, fechaIngreso);
+    if (!rango) {
+      console.warn(
+        `⚠️ ${convenioNormalizado}: No se encontró rango de día espera para fecha ${fechaIngreso.toISOString().split('T')[0]}`
+      );
+    }
+    return rango;
+  } catch (err) {
+    console.error('resolverRangoDiaEspera - error:', err);
+    return null;
+  }
+}
+
+/**
+ * Obtiene el "Monto día espera" del convenio según la fecha de admisión
+ */
+export async function obtenerMontoDiaEspera(
+  convenio: string | null | undefined,
+  fechaIngreso: Date | null | undefined,
+  cache?: CacheLiquidacion
+): Promise<number | null> {
+  const rango = await resolverRangoDiaEspera(convenio, fechaIngreso, cache);
+  return rango ? toNumber(rango.precio) : null;
+}
+
+/**
+ * Lee los valores de respaldo de ConfiguracionSistema usados por las fórmulas
+ */
+export async function obtenerParametrosSistema(cache?: CacheLiquidacion): Promise<ParametrosSistemaLiquidacion> {
+  const consulta = async (): Promise<ParametrosSistemaLiquidacion> => {
+    const configs = await prisma.configuracionSistema.findMany({
+      where: { clave: { in: ['puntoCorteSuperior', 'percentil50', 'diasPercentil75'] } },
+    });
+    const valor = (clave: string) => toNumber(configs.find((c) => c.clave === clave)?.valor);
+    return {
+      puntoCorteSuperior: valor('puntoCorteSuperior'),
+      percentil50: valor('percentil50'),
+      diasPercentil75: valor('diasPercentil75'),
+    };
+  };
+
+  if (!cache) return consulta();
+  if (!cache.parametros) cache.parametros = consulta();
+  return cache.parametros;
+}
+
+// Parámetros de norma del GRD asociado al episodio (o de su fila en una versión de la norma)
+export function normaDesdeGrd(grd: EpisodioLiquidable['grd']): NormaLiquidacion {
+  return {
+    puntoCorteInf: toNumber(grd?.puntoCorteInf),
+    puntoCorteSup: toNumber(grd?.puntoCorteSup),
+    percentil50: toNumber(grd?.percentil50),
+    percentil75: toNumber(grd?.percentil75),
+  };
+}
+
+async function obtenerVersionesNorma(cache?: CacheLiquidacion): Promise<NormaVersion[]> {
+  const consulta = () => prisma.normaVersion.findMany({ orderBy: { vigenciaDesde: 'desc' } });
+
+  if (!cache) return consulta();
+  if (!cache.versionesNorma) cache.versionesNorma = consulta();
+  return cache.versionesNorma;
+}
+
+async function obtenerParametrosNorma(
+  versionId: number,
+  grdId: number,
+  cache?: CacheLiquidacion
+): Promise<GrdNorma | null> {
+  const consulta = () => prisma.grdNorma.findUnique({ where: { versionId_grdId: { versionId, grdId } } });
+
+  if (!cache) return consulta();
+  const clave = `${versionId}|${grdId}`;
+  let parametros = cache.normas.get(clave);
+  if (!parametros) {
+    parametros = consulta();
+    cache.normas.set(clave, parametros);
+  }
+  return parametros;
+}
+
+/**
+ * Carga en la cache las versiones de la norma como quedarían con una versión propuesta
+ * (y los parámetros de sus GRD), para liquidar episodios sin escribirla en la BD
+ */
+export function simularVersionNorma(cache: CacheLiquidacion, versiones: NormaVersion[], parametros: GrdNorma[]): void {
+  cache.versionesNorma = Promise.resolve(
+    [...versiones].sort((a, b) => b.vigenciaDesde.getTime() - a.vigenciaDesde.getTime())
+  );
+  for (const fila of parametros) {
+    cache.normas.set(`${fila.versionId}|${fila.grdId}`, Promise.resolve(fila));
+  }
+}
+
+/**
+ * Parámetros de norma con los que se liquida el episodio: los de su GRD en la versión
+ * de la Norma MINSAL vigente a la fecha de alta. Si no hay versión vigente (o el GRD no
+ * está en ella) se usan los guardados en el GRD.
+ */
+export async function resolverNormaEpisodio(
+  episodio: Pick<EpisodioLiquidable, 'grdId' | 'grd' | 'fechaAlta'>,
+  cache?: CacheLiquidacion
+): Promise<{ norma: NormaLiquidacion; version: NormaVersion | null }> {
+  const grdId = episodio.grd?.id ?? episodio.grdId;
+  const version = grdId ? seleccionarVersionNorma(await obtenerVersionesNorma(cache), episodio.fechaAlta) : null;
+  const parametros = version && grdId ? await obtenerParametrosNorma(version.id, grdId, cache) : null;
+
+  if (!version || !parametros) return { norma: normaDesdeGrd(episodio.grd), version: null };
+  return { norma: normaDesdeGrd(parametros), version };
+}
+
+// Insumos del motor ya resueltos, junto con los registros de origen
+interface InsumosLiquidacion {
+  entrada: EntradaLiquidacion;
+  tarifa: TarifaLiquidacion;
+  norma: NormaLiquidacion;
+  normaVersion: NormaVersion | null;
+  parametros: ParametrosSistemaLiquidacion;
+  regla: ConvenioReglaConTramos | null;
+  precioConvenio: PrecioConvenio | null;
+  fechaReferencia: ResolucionPrecio['fechaReferencia'];
+  precioManual: boolean;
+  rangoDiaEspera: PrecioConvenio | null;
+}
+
+async function resolverInsumos(
+  episodio: EpisodioLiquidable,
+  opciones: OpcionesLiquidacion
+): Promise<InsumosLiquidacion> {
+  const { cache } = opciones;
+  const peso = toNumber(episodio.pesoGrd);
+  const convenio = normalizarConvenio(episodio.convenio);
+
+  const resolucion = await resolverPrecioConvenio(convenio, peso, episodio, cache);
+  const precioManual = opciones.precioBaseTramo !== undefined;
+  const precioBaseTramo = precioManual
+    ? opciones.precioBaseTramo
+    : resolucion.precio ?? toNumber(episodio.precioBaseTramo);
+
+  const rangoDiaEspera =
+    resolucion.regla?.formulaDemora === 'DIA_ESPERA' && (episodio.diasDemoraRescate ?? 0) > 0
+      ? await resolverRangoDiaEspera(convenio, episodio.fechaIngreso, cache)
+      : null;
+  const { norma, version: normaVersion } = await resolverNormaEpisodio(episodio, cache);
+
+  return {
+    entrada: {
+      convenio,
+      pesoGrd: peso,
+      fechaIngreso: episodio.fechaIngreso,
+      fechaAlta: episodio.fechaAlta,
+      diasEstada: episodio.diasEstada,
+      montoAt: toNumber(episodio.montoAt),
+      diasDemoraRescate: episodio.diasDemoraRescate,
+      pagoDemoraRescate: toNumber(episodio.pagoDemoraRescate),
+      grupoEnNorma: episodio.grupoEnNorma,
+      valorGrdManual: opciones.valorGrdManual,
+      montoFinalManual: opciones.montoFinalManual,
+    },
+    tarifa: {
+      tramo: resolucion.tramo,
+      precioBaseTramo,
+      montoDiaEspera: rangoDiaEspera ? toNumber(rangoDiaEspera.precio) : null,
+    },
+    norma,
+    normaVersion,
+    parametros: await obtenerParametrosSistema(cache),
+    regla: resolucion.regla,
+    precioConvenio: resolucion.registro,
+    fechaReferencia: resolucion.fechaReferencia,
+    precioManual,
+    rangoDiaEspera,
+  };
+}
+
+/**
+ * Liquida un episodio resolviendo tarifa, norma y parámetros desde la BD
+ *
+ * Precio base: el indicado en opciones, si no el del convenio vigente y, si el
+ * convenio no tiene precio configurado, el guardado en el episodio.
+ */
+export async function liquidarEpisodio(
+  episodio: EpisodioLiquidable,
+  opciones: OpcionesLiquidacion = {}
+): Promise<Liquidacion> {
+  const { entrada, tarifa, norma, parametros, regla } = await resolverInsumos(episodio, opciones);
+  return calcularLiquidacion(entrada, tarifa, norma, parametros, reglaParaMotor(regla));
+}
+
+// Resumen de un registro de PrecioConvenio para la traza
+function resumirPrecioConvenio(registro: PrecioConvenio | null) {
+  if (!registro) return null;
+  return {
+    id: registro.id,
+    convenio: registro.convenio,
+    tramo: registro.tramo,
+    fechaAdmision: registro.fechaAdmision ? registro.fechaAdmision.toISOString() : null,
+    fechaFin: registro.fechaFin ? registro.fechaFin.toISOString() : null,
+    precio: registro.precio,
+    createdAt: registro.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Traza completa de la liquidación de un episodio: registros de precio usados,
+ * versión de la norma, origen de cada parámetro (GRD vs ConfiguracionSistema) y cada paso de las fórmulas
+ */
+export async function detallarLiquidacionEpisodio(
+  episodio: EpisodioLiquidable,
+  opciones: OpcionesLiquidacion = {}
+) {
+  const insumos = await resolverInsumos(episodio, opciones);
+  const regla = reglaParaMotor(insumos.regla);
+  const detalle = detallarLiquidacion(insumos.entrada, insumos.tarifa, insumos.norma, insumos.parametros, regla);
+
+  // Origen del precio base usado
+  let fuentePrecio: FuenteParametro | null = null;
+  if (insumos.precioManual) {
+    fuentePrecio = 'MANUAL';
+  } else if (insumos.precioConvenio && toNumber(insumos.precioConvenio.precio) !== null) {
+    fuentePrecio = 'PRECIO_CONVENIO';
+  } else if (insumos.tarifa.precioBaseTramo !== null && insumos.tarifa.precioBaseTramo !== undefined) {
+    fuentePrecio = 'EPISODIO'; // Sin precio de convenio: se usa el valor guardado en el episodio
+  }
+
+  return {
+    liquidacion: detalle.liquidacion,
+    regla: insumos.regla ? { id: insumos.regla.id, ...regla } : null,
+    tarifa: {
+      tramo: insumos.tarifa.tramo ?? null,
+      fechaReferencia: insumos.fechaReferencia,
+      precioBaseTramo: { valor: insumos.tarifa.precioBaseTramo ?? null, fuente: fuentePrecio },
+      precioConvenio: resumirPrecioConvenio(insumos.precioConvenio),
+      montoDiaEspera: insumos.tarifa.montoDiaEspera ?? null,
+      rangoDiaEspera: resumirPrecioConvenio(insumos.rangoDiaEspera),
+    },
+    norma: insumos.norma,
+    normaVersion: insumos.normaVersion
+      ? {
+          id: insumos.normaVersion.id,
+          anio: insumos.normaVersion.anio,
+          vigenciaDesde: insumos.normaVersion.vigenciaDesde.toISOString(),
+          vigenciaHasta: insumos.normaVersion.vigenciaHasta ? insumos.normaVersion.vigenciaHasta.toISOString() : null,
+        }
+      : null,
+    parametrosSistema: insumos.parametros,
+    fuentes: {
+      puntoCorteSup: detalle.outlier.puntoCorteSup,
+      percentil50: detalle.outlier.percentil50,
+      percentil75: detalle.outlier.percentil75,
+      diasPercentil75Demora: detalle.demora.diasPercentil75,
+    },
+    carencia: {
+      periodoCarencia: detalle.outlier.periodoCarencia,
+      diasPostCarencia: detalle.outlier.diasPostCarencia,
+    },
+    pasos: detalle.pasos,
+  };
+}
+
+// Campos de Episodio que se persisten a partir de una liquidación
+export function camposLiquidacion(liquidacion: Liquidacion) {
+  return {
+    precioBaseTramo: liquidacion.precioBaseTramo,
+    valorGrd: liquidacion.valorGrd,
+    pagoOutlierSuperior: liquidacion.pagoOutlierSuperior,
+    pagoDemoraRescate: liquidacion.pagoDemoraRescate,
+    montoFinal: liquidacion.montoFinal,
+    ...(liquidacion.inlierOutlier !== null
+      ? { inlierOutlier: liquidacion.inlierOutlier, diasEstada: liquidacion.diasEstada }
+      : {}),
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Lectura del archivo de la Norma MINSAL (CSV o Excel)
+ *
+ * Convierte cada fila en los parámetros de un GRD. Lo usan la carga de una versión
+ * (POST /api/catalogs/norma-minsal/import) y su vista previa, para que ambas lean el
+ * archivo de la misma forma.
+ *
+ * Cada fila se valida (código, peso > 0, PCI ≤ PCS, percentil 25 ≤ 50 ≤ 75): un valor
+ * que no se puede leer es un error de la fila, nunca un 0. Si fallan más filas que el
+ * umbral, la carga completa se rechaza (un encabezado mal escrito afecta a todas).
+ */
+import * as path from 'path';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import * as XLSX from 'xlsx';
+import type { ParametrosGrdNorma } from './norma-version.service';
+
+export interface NormaRow {
+  GRD?: string;
+  'Peso Total'?: string;
+  'Punto Corte Inferior'?: string;
+  'Punto Corte Superior'?: string;
+  // Campos opcionales adicionales que puedan venir en el archivo
+  [key: string]: any;
+}
+
+export interface ErrorFilaNorma {
+  fila: number;
+  codigo: string | null;
+  error: string;
+  registro: NormaRow;
+}
+
+// % máximo de filas con error por defecto; sobre este valor la carga se rechaza
+export const UMBRAL_ERRORES_NORMA = 5;
+
+// Códigos IR-GRD: 5 o 6 dígitos (los dos primeros son la MDC)
+const PATRON_CODIGO_GRD = /^\d{5,6}$/;
+
+// Nombres de columna aceptados para cada parámetro
+const COLUMNAS_NORMA = {
+  peso: ['Peso Total', 'Peso', 'PESO TOTAL', 'PESO'],
+  puntoCorteInf: ['Punto Corte Inferior', 'Punto Corte Inf', 'PCI', 'Punto Corte Inferior (días)'],
+  puntoCorteSup: ['Punto Corte Superior', 'Punto Corte Sup', 'PCS', 'Punto Corte Superior (días)'],
+  percentil25: ['Percentil 25', 'Percentil25', 'P25', 'Percentil 25 (días)'],
+  // Percentil 50: crítico para el cálculo de outlier superior
+  percentil50: ['Percentil 50', 'TAB_1430_D_PERCT_50_G', 'Percentil50', 'P50', 'Percentil 50 (días)', 'Mediana', 'Mediana (días)'],
+  percentil75: ['Percentil 75', 'Percentil75', 'P75', 'Percentil 75 (días)'],
+};
+
+const COLUMNAS_GRD = ['GRD', 'grd', 'Grd', 'GRD ', ' GRD', 'GRD Código', 'Código GRD'];
+
+/**
+ * Número de una celda (acepta coma decimal y espacios). null si está vacía, NaN si no es un número.
+ */
+export function leerDecimal(value: string | undefined): number | null {
+  if (value === undefined || value.toString().trim() === '') return null;
+  const cleaned = value.toString().replace(',', '.').replace(/\s/g, '');
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? parseFloat(cleaned) : NaN;
+}
+
+const vacio = (value: any) => value === undefined || value === null || value === '';
+const normalizar = (nombre: string) => nombre.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Busca el valor de una columna: primero por nombre exacto, luego normalizado o parcial
+function valorColumna(row: NormaRow, nombres: string[]): string | undefined {
+  for (const nombre of nombres) {
+    if (!vacio(row[nombre])) return String(row[nombre]);
+  }
+  for (const key in row) {
+    const clave = normalizar(key);
+    for (const nombre of nombres.map(normalizar)) {
+      if ((clave === nombre || clave.includes(nombre) || nombre.includes(clave)) && !vacio(row[key])) {
+        return String(row[key]);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Código GRD de la fila (columna GRD o, si no está, cualquier columna que contenga "GRD")
+function codigoGrd(row: NormaRow): string | null {
+  let valor: any = COLUMNAS_GRD.map((key) => row[key]).find((v) => !vacio(v));
+  if (valor === undefined) {
+    const key = Object.keys(row).find((k) => k.toUpperCase().includes('GRD') && !vacio(row[k]));
+    valor = key ? row[key] : undefined;
+  }
+  if (vacio(valor)) return null;
+  return String(valor).trim() || null;
+}
+
+/**
+ * Lee las filas del archivo de la norma desde el buffer en memoria
+ */
+export async function leerArchivoNorma(buffer: Buffer, nombreArchivo: string): Promise<NormaRow[]> {
+  const data: NormaRow[] = [];
+  if (path.extname(nombreArchivo).toLowerCase() === '.csv') {
+    await new Promise<void>((resolve, reject) => {
+      Readable.from(buffer)
+        .pipe(csv())
+        .on('data', (row) => data.push(row as NormaRow))
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    return data;
+  }
+
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new Error('El archivo Excel no contiene hojas');
+  }
+  return XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]) as NormaRow[];
+}
+
+/**
+ * Parámetros del GRD de una fila, o los errores que impiden cargarla
+ */
+export function parametrosFilaNorma(
+  row: NormaRow
+): { parametros: ParametrosGrdNorma } | { codigo: string | null; errores: string[] } {
+  const codigo = codigoGrd(row);
+  if (!codigo) return { codigo: null, errores: ['Código GRD faltante o vacío'] };
+
+  const errores: string[] = [];
+  if (!PATRON_CODIGO_GRD.test(codigo)) {
+    errores.push(`Código GRD inválido: "${codigo}" (se esperan 5 o 6 dígitos)`);
+  }
+
+  const etiquetas: Record<keyof typeof COLUMNAS_NORMA, string> = {
+    peso: 'Peso',
+    puntoCorteInf: 'Punto corte inferior',
+    puntoCorteSup: 'Punto corte superior',
+    percentil25: 'Percentil 25',
+    percentil50: 'Percentil 50',
+    percentil75: 'Percentil 75',
+  };
+  const valores = {} as Record<keyof typeof COLUMNAS_NORMA, number | null>;
+  for (const campo of Object.keys(COLUMNAS_NORMA) as (keyof typeof COLUMNAS_NORMA)[]) {
+    const texto = valorColumna(row, COLUMNAS_NORMA[campo]);
+    const valor = leerDecimal(texto);
+    if (valor !== null && (isNaN(valor) || valor < 0)) {
+      errores.push(`${etiquetas[campo]} inválido: "${String(texto).trim()}"`);
+      valores[campo] = null;
+    } else {
+      valores[campo] = valor;
+    }
+  }
+  const { peso, puntoCorteInf: pci, puntoCorteSup: pcs } = valores;
+  // Un percentil 0 equivale a no informado
+  const [p25, p50, p75] = [valores.percentil25, valores.percentil50, valores.percentil75].map((p) => (p ? p : null));
+
+  if (!peso) errores.push('Peso debe ser mayor a 0');
+  if (pci === null) errores.push('Punto corte inferior faltante');
+  if (pcs === null) errores.push('Punto corte superior faltante');
+  if (pci !== null && pcs !== null && pci > pcs) {
+    errores.push(`Punto corte inferior (${pci}) mayor que el superior (${pcs})`);
+  }
+  const percentiles = [
+    ['25', p25],
+    ['50', p50],
+    ['75', p75],
+  ].filter((p): p is [string, number] => p[1] !== null);
+  for (let i = 1; i < percentiles.length; i++) {
+    const [nombreAnterior, anterior] = percentiles[i - 1];
+    const [nombre, valor] = percentiles[i];
+    if (anterior > valor) errores.push(`Percentil ${nombreAnterior} (${anterior}) mayor que percentil ${nombre} (${valor})`);
+  }
+
+  if (errores.length > 0) return { codigo, errores };
+  return {
+    parametros: {
+      codigo,
+      descripcion: `Descripción de ${codigo}`, // El archivo no suele tener descripción
+      peso,
+      puntoCorteInf: pci,
+      puntoCorteSup: pcs,
+      // Precio base de referencia (similar al script loadNorma.ts); la liquidación usa el del convenio
+      precioBaseTramo: peso! * 1000000 + 500000,
+      percentil25: p25,
+      percentil50: p50,
+      percentil75: p75,
+    },
+  };
+}
+
+/**
+ * Parámetros de todas las filas válidas del archivo y los errores por fila (fila 1 = primera fila de datos)
+ */
+export function procesarFilasNorma(data: NormaRow[]): { parametros: ParametrosGrdNorma[]; errores: ErrorFilaNorma[] } {
+  const parametros: ParametrosGrdNorma[] = [];
+  const errores: ErrorFilaNorma[] = [];
+  const codigos = new Set<string>();
+
+  data.forEach((row, index) => {
+    const resultado = parametrosFilaNorma(row);
+    if ('errores' in resultado) {
+      errores.push({ fila: index + 1, codigo: resultado.codigo, error: resultado.errores.join('; '), registro: row });
+    } else if (codigos.has(resultado.parametros.codigo)) {
+      const { codigo } = resultado.parametros;
+      errores.push({ fila: index + 1, codigo, error: `Código GRD repetido en el archivo: ${codigo}`, registro: row });
+    } else {
+      codigos.add(resultado.parametros.codigo);
+      parametros.push(resultado.parametros);
+    }
+  });
+  return { parametros, errores };
+}
+
+/**
+ * Indica si las filas con error superan el umbral (% del total de filas) y la carga se rechaza
+ * Un archivo sin ninguna fila válida siempre se rechaza.
+ */
+export function superaUmbralErrores(totalFilas: number, fallidas: number, umbralPorcentaje: number): boolean {
+  if (totalFilas === 0 || fallidas >= totalFilas) return true;
+  return (fallidas / totalFilas) * 100 > umbralPorcentaje;
+}
+
+// Escapa un valor para CSV (comillas dobles si tiene separador, comillas o saltos de línea)
+function celdaCsv(valor: unknown): string {
+  const texto = valor === null || valor === undefined ? '' : String(valor);
+  return /[",;\n\r]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+/**
+ * Reporte de errores por fila en CSV (con BOM para que Excel lea los acentos)
+ */
+export function erroresNormaCsv(errores: Pick<ErrorFilaNorma, 'fila' | 'codigo' | 'error'>[]): string {
+  const lineas = [['Fila', 'Código GRD', 'Error'], ...errores.map((e) => [e.fila, e.codigo, e.error])];
+  return '\uFEFF' + lineas.map((linea) => linea.map(celdaCsv).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,383 @@
+/**
+ * Versiones de la Norma MINSAL
+ *
+ * Cada año MINSAL publica una norma nueva. En vez de sobrescribir los GRD, cada carga
+ * crea una NormaVersion (año, archivo, quién la cargó y vigencia) con los parámetros de
+ * cada GRD en GrdNorma. Los episodios se liquidan con la versión vigente a su fecha de
+ * alta (ver resolverNormaEpisodio en liquidacion.service.ts); los campos de Grd guardan
+ * los parámetros de la versión más reciente, que es lo que muestran catálogo y reportes.
+ */
+import { Prisma } from '@prisma/client';
+import type { GrdNorma, NormaVersion } from '@prisma/client';
+import { prisma } from '../db/client';
+import { rangosSeSolapan, seleccionarVersionNorma } from './liquidacion.engine';
+import {
+  crearCacheLiquidacion,
+  liquidarEpisodio,
+  overridesGuardados,
+  simularVersionNorma,
+  toNumber,
+} from './liquidacion.service';
+
+// Id de la versión propuesta en la vista previa (no existe en la BD)
+const ID_VERSION_PROPUESTA = 0;
+
+// Parámetros de la norma que se comparan entre versiones
+export const CAMPOS_NORMA = ['peso', 'puntoCorteInf', 'puntoCorteSup', 'percentil25', 'percentil50', 'percentil75'] as const;
+
+export type CampoNorma = (typeof CAMPOS_NORMA)[number];
+
+// Parámetros de un GRD en una versión de la norma
+export interface ParametrosGrdNorma extends Record<CampoNorma, number | null> {
+  codigo: string;
+  descripcion?: string | null;
+  precioBaseTramo?: number | null;
+}
+
+export interface DatosVersionNorma {
+  anio: number;
+  archivoNombre: string;
+  cargadoPorId: number | null;
+  vigenciaDesde: Date;
+  vigenciaHasta: Date | null;
+  reemplazar: boolean;
+}
+
+export interface ComparacionNorma {
+  agregados: ParametrosGrdNorma[];
+  eliminados: ParametrosGrdNorma[];
+  modificados: {
+    codigo: string;
+    cambios: Partial<Record<CampoNorma, { anterior: number | null; nuevo: number | null }>>;
+  }[];
+  sinCambios: number;
+}
+
+/**
+ * GRD agregados, eliminados y con parámetros distintos entre dos versiones de la norma
+ */
+export function compararParametrosNorma(
+  anteriores: ParametrosGrdNorma[],
+  nuevos: ParametrosGrdNorma[]
+): ComparacionNorma {
+  const porCodigo = new Map(anteriores.map((p) => [p.codigo, p]));
+  const codigosNuevos = new Set(nuevos.map((p) => p.codigo));
+  const comparacion: ComparacionNorma = {
+    agregados: [],
+    eliminados: anteriores.filter((p) => !codigosNuevos.has(p.codigo)),
+    modificados: [],
+    sinCambios: 0,
+  };
+
+  for (const nuevo of nuevos) {
+    const anterior = porCodigo.get(nuevo.codigo);
+    if (!anterior) {
+      comparacion.agregados.push(nuevo);
+      continue;
+    }
+    const cambios: ComparacionNorma['modificados'][number]['cambios'] = {};
+    for (const campo of CAMPOS_NORMA) {
+      if (anterior[campo] !== nuevo[campo]) cambios[campo] = { anterior: anterior[campo], nuevo: nuevo[campo] };
+    }
+    if (Object.keys(cambios).length > 0) comparacion.modificados.push({ codigo: nuevo.codigo, cambios });
+    else comparacion.sinCambios++;
+  }
+  return comparacion;
+}
+
+type VigenciaVersion = Pick<NormaVersion, 'id' | 'anio' | 'vigenciaDesde' | 'vigenciaHasta'>;
+
+function formatoVigencia(v: Pick<NormaVersion, 'vigenciaDesde' | 'vigenciaHasta'>): string {
+  return `${v.vigenciaDesde.toISOString().split('T')[0]} - ${v.vigenciaHasta ? v.vigenciaHasta.toISOString().split('T')[0] : '…'}`;
+}
+
+/**
+ * Vigencia de una versión nueva frente a las existentes. Las versiones abiertas que
+ * empiezan antes se cierran el día anterior al inicio de la nueva; cualquier otro
+ * solapamiento es un error. Las versiones del mismo año se ignoran (se reemplazan).
+ */
+export function planificarVigencia(
+  nueva: Pick<NormaVersion, 'anio' | 'vigenciaDesde' | 'vigenciaHasta'>,
+  existentes: VigenciaVersion[]
+): { error: string } | { cerrar: { id: number; vigenciaHasta: Date }[] } {
+  if (nueva.vigenciaHasta && nueva.vigenciaHasta < nueva.vigenciaDesde) {
+    return { error: 'vigenciaHasta debe ser mayor o igual a vigenciaDesde' };
+  }
+
+  const cerrar: { id: number; vigenciaHasta: Date }[] = [];
+  for (const version of existentes) {
+    if (version.anio === nueva.anio) continue;
+
+    let vigenciaHasta = version.vigenciaHasta;
+    if (!vigenciaHasta && version.vigenciaDesde < nueva.vigenciaDesde) {
+      const inicio = nueva.vigenciaDesde;
+      vigenciaHasta = new Date(inicio.getFullYear(), inicio.getMonth(), inicio.getDate() - 1);
+      cerrar.push({ id: version.id, vigenciaHasta });
+    }
+    const a = { fechaAdmision: version.vigenciaDesde, fechaFin: vigenciaHasta };
+    const b = { fechaAdmision: nueva.vigenciaDesde, fechaFin: nueva.vigenciaHasta };
+    if (rangosSeSolapan(a, b)) {
+      return {
+        error: `La vigencia ${formatoVigencia(nueva)} se solapa con la norma ${version.anio} (${formatoVigencia({ ...version, vigenciaHasta })})`,
+      };
+    }
+  }
+  return { cerrar };
+}
+
+// Parámetros de una fila de GrdNorma (o de Grd) en el formato que se compara entre versiones
+export function parametrosDesdeGrdNorma(
+  fila: Pick<GrdNorma, CampoNorma | 'precioBaseTramo'>,
+  grd: { codigo: string; descripcion: string | null }
+): ParametrosGrdNorma {
+  return {
+    codigo: grd.codigo,
+    descripcion: grd.descripcion,
+    precioBaseTramo: toNumber(fila.precioBaseTramo),
+    peso: toNumber(fila.peso),
+    puntoCorteInf: toNumber(fila.puntoCorteInf),
+    puntoCorteSup: toNumber(fila.puntoCorteSup),
+    percentil25: toNumber(fila.percentil25),
+    percentil50: toNumber(fila.percentil50),
+    percentil75: toNumber(fila.percentil75),
+  };
+}
+
+/**
+ * Parámetros de todos los GRD de una versión, ordenados por código
+ */
+export async function obtenerParametrosVersion(versionId: number): Promise<ParametrosGrdNorma[]> {
+  const filas = await prisma.grdNorma.findMany({
+    where: { versionId },
+    include: { grd: { select: { codigo: true, descripcion: true } } },
+  });
+  return filas.map((fila) => parametrosDesdeGrdNorma(fila, fila.grd)).sort((a, b) => a.codigo.localeCompare(b.codigo));
+}
+
+// Parámetros guardados en Grd (catálogo anterior a las versiones)
+async function obtenerParametrosGrd(): Promise<ParametrosGrdNorma[]> {
+  const grds = await prisma.grd.findMany({ orderBy: { codigo: 'asc' } });
+  return grds.map((grd) => parametrosDesdeGrdNorma(grd, grd));
+}
+
+export interface ImpactoEpisodioNorma {
+  episodioId: number;
+  episodioCmdb: string | null;
+  grdCodigo: string;
+  fechaAlta: string | null;
+  montoFinalAntes: number;
+  montoFinalDespues: number;
+  delta: number;
+}
+
+export interface VistaPreviaNorma {
+  // Versión con la que se compara el archivo (null = parámetros guardados en Grd)
+  base: NormaVersion | null;
+  // Versiones abiertas que se cerrarían al cargar la nueva
+  cierres: { anio: number; vigenciaHasta: Date }[];
+  comparacion: ComparacionNorma;
+  impacto: {
+    episodiosAfectados: number;
+    episodiosConCambio: number;
+    // Aprobados con un GRD que cambia: no se reliquidan (su liquidación está congelada)
+    episodiosAprobados: number;
+    montoFinalAntes: number;
+    montoFinalDespues: number;
+    diferencia: number;
+    topDeltas: ImpactoEpisodioNorma[];
+  };
+}
+
+const redondear = (valor: number) => Math.round(valor * 100) / 100;
+const decimal = (valor: number | null | undefined) => (valor === null || valor === undefined ? null : new Prisma.Decimal(valor));
+
+/**
+ * Vista previa de una versión de la norma antes de cargarla (no escribe)
+ *
+ * Compara el archivo con la versión del mismo año (si se reemplaza), con la vigente al
+ * inicio de la nueva o, si no hay versiones, con los parámetros de Grd. Luego liquida con
+ * la versión propuesta los episodios no aprobados con alta dentro de su vigencia y cuyo
+ * GRD cambia, y compara con el montoFinal guardado.
+ */
+export async function calcularImpactoVersionNorma(
+  datos: Pick<DatosVersionNorma, 'anio' | 'vigenciaDesde' | 'vigenciaHasta'>,
+  parametros: ParametrosGrdNorma[],
+  opciones: { top?: number } = {}
+): Promise<{ error: string } | VistaPreviaNorma> {
+  const existentes = await prisma.normaVersion.findMany();
+  const plan = planificarVigencia(datos, existentes);
+  if ('error' in plan) return { error: plan.error };
+
+  const base = existentes.find((v) => v.anio === datos.anio) ?? seleccionarVersionNorma(existentes, datos.vigenciaDesde);
+  const comparacion = compararParametrosNorma(
+    base ? await obtenerParametrosVersion(base.id) : await obtenerParametrosGrd(),
+    parametros
+  );
+
+  // Versiones como quedarían al cargar la propuesta
+  const cierres = new Map(plan.cerrar.map((c) => [c.id, c.vigenciaHasta]));
+  const ahora = new Date();
+  const propuesta: NormaVersion = {
+    id: ID_VERSION_PROPUESTA,
+    anio: datos.anio,
+    archivoNombre: '',
+    cargadoPorId: null,
+    vigenciaDesde: datos.vigenciaDesde,
+    vigenciaHasta: datos.vigenciaHasta,
+    totalGrd: parametros.length,
+    createdAt: ahora,
+    updatedAt: ahora,
+  };
+  const versiones = existentes
+    .filter((v) => v.anio !== datos.anio)
+    .map((v) => (cierres.has(v.id) ? { ...v, vigenciaHasta: cierres.get(v.id)! } : v))
+    .concat(propuesta);
+
+  const codigosCambiados = [...comparacion.agregados, ...comparacion.eliminados, ...comparacion.modificados].map(
+    (p) => p.codigo
+  );
+  const grds = await prisma.grd.findMany({
+    where: { codigo: { in: parametros.map((p) => p.codigo) } },
+    select: { id: true, codigo: true },
+  });
+  const idPorCodigo = new Map(grds.map((g) => [g.codigo, g.id]));
+  const filas: GrdNorma[] = parametros
+    .filter((p) => idPorCodigo.has(p.codigo))
+    .map((p) => ({
+      id: ID_VERSION_PROPUESTA,
+      versionId: ID_VERSION_PROPUESTA,
+      grdId: idPorCodigo.get(p.codigo)!,
+      peso: decimal(p.peso),
+      precioBaseTramo: decimal(p.precioBaseTramo),
+      puntoCorteInf: decimal(p.puntoCorteInf),
+      puntoCorteSup: decimal(p.puntoCorteSup),
+      percentil25: decimal(p.percentil25),
+      percentil50: decimal(p.percentil50),
+      percentil75: decimal(p.percentil75),
+    }));
+  const cache = crearCacheLiquidacion();
+  simularVersionNorma(cache, versiones, filas);
+
+  const inicio = datos.vigenciaDesde;
+  const fin = datos.vigenciaHasta;
+  const where: Prisma.EpisodioWhereInput = {
+    grd: { codigo: { in: codigosCambiados } },
+    fechaAlta: {
+      gte: new Date(inicio.getFullYear(), inicio.getMonth(), inicio.getDate()),
+      ...(fin ? { lte: new Date(fin.getFullYear(), fin.getMonth(), fin.getDate(), 23, 59, 59, 999) } : {}),
+    },
+  };
+  const [episodios, episodiosAprobados] = await Promise.all([
+    // Los aprobados no se reliquidan: su liquidación está congelada en LiquidacionSnapshot
+    prisma.episodio.findMany({
+      where: { ...where, OR: [{ validado: null }, { validado: false }] },
+      include: { grd: true },
+    }),
+    prisma.episodio.count({ where: { ...where, validado: true } }),
+  ]);
+
+  const impactos: ImpactoEpisodioNorma[] = [];
+  for (const episodio of episodios) {
+    try {
+      // Con las ediciones manuales guardadas, como lo reliquidaría el repricing
+      const liquidacion = await liquidarEpisodio(episodio, { ...overridesGuardados(episodio), cache });
+      const antes = toNumber(episodio.montoFinal) ?? 0;
+      impactos.push({
+        episodioId: episodio.id,
+        episodioCmdb: episodio.episodioCmdb,
+        grdCodigo: episodio.grd!.codigo,
+        fechaAlta: episodio.fechaAlta ? episodio.fechaAlta.toISOString() : null,
+        montoFinalAntes: antes,
+        montoFinalDespues: liquidacion.montoFinal,
+        delta: redondear(liquidacion.montoFinal - antes),
+      });
+    } catch (error: any) {
+      console.error(`❌ Error liquidando episodio ${episodio.id}:`, error?.message || error);
+    }
+  }
+
+  const montoFinalAntes = redondear(impactos.reduce((suma, i) => suma + i.montoFinalAntes, 0));
+  const montoFinalDespues = redondear(impactos.reduce((suma, i) => suma + i.montoFinalDespues, 0));
+  const conCambio = impactos.filter((i) => Math.abs(i.delta) > 0.01);
+
+  return {
+    base,
+    cierres: existentes.filter((v) => cierres.has(v.id)).map((v) => ({ anio: v.anio, vigenciaHasta: cierres.get(v.id)! })),
+    comparacion,
+    impacto: {
+      episodiosAfectados: impactos.length,
+      episodiosConCambio: conCambio.length,
+      episodiosAprobados,
+      montoFinalAntes,
+      montoFinalDespues,
+      diferencia: redondear(montoFinalDespues - montoFinalAntes),
+      topDeltas: conCambio.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)).slice(0, opciones.top ?? 10),
+    },
+  };
+}
+
+/**
+ * Guarda una versión de la norma con los parámetros de sus GRD
+ * Los GRD que no existen se crean; si la versión es la de inicio más reciente, sus
+ * parámetros se copian a Grd. Retorna un mensaje de error si la versión ya existe
+ * (sin `reemplazar`) o su vigencia se solapa con otra.
+ */
+export async function guardarVersionNorma(
+  datos: DatosVersionNorma,
+  parametros: ParametrosGrdNorma[]
+): Promise<{ error: string; conflicto: boolean } | { version: NormaVersion; reemplazada: boolean }> {
+  const existentes = await prisma.normaVersion.findMany();
+  const anterior = existentes.find((v) => v.anio === datos.anio);
+  if (anterior && !datos.reemplazar) {
+    return { error: `Ya existe la norma ${datos.anio}. Use replace=true para reemplazarla`, conflicto: true };
+  }
+  const plan = planificarVigencia(datos, existentes);
+  if ('error' in plan) return { error: plan.error, conflicto: false };
+
+  const codigos = parametros.map((p) => p.codigo);
+  const version = await prisma.$transaction(
+    async (tx) => {
+      for (const cierre of plan.cerrar) {
+        await tx.normaVersion.update({ where: { id: cierre.id }, data: { vigenciaHasta: cierre.vigenciaHasta } });
+      }
+
+      const valores = {
+        archivoNombre: datos.archivoNombre,
+        cargadoPorId: datos.cargadoPorId,
+        vigenciaDesde: datos.vigenciaDesde,
+        vigenciaHasta: datos.vigenciaHasta,
+        totalGrd: parametros.length,
+      };
+      const guardada = anterior
+        ? await tx.normaVersion.update({ where: { id: anterior.id }, data: valores })
+        : await tx.normaVersion.create({ data: { anio: datos.anio, ...valores } });
+      if (anterior) await tx.grdNorma.deleteMany({ where: { versionId: guardada.id } });
+
+      await tx.grd.createMany({
+        data: parametros.map((p) => ({ codigo: p.codigo, descripcion: p.descripcion ?? `Descripción de ${p.codigo}` })),
+        skipDuplicates: true,
+      });
+      const grds = await tx.grd.findMany({ where: { codigo: { in: codigos } }, select: { id: true, codigo: true } });
+      const idPorCodigo = new Map(grds.map((g) => [g.codigo, g.id]));
+
+      const filas = parametros.map(({ codigo, descripcion: _descripcion, ...valoresGrd }) => ({
+        versionId: guardada.id,
+        grdId: idPorCodigo.get(codigo)!,
+        ...valoresGrd,
+      }));
+      await tx.grdNorma.createMany({ data: filas });
+
+      // Grd refleja la versión de inicio más reciente
+      const masReciente = existentes.every((v) => v.id === guardada.id || v.vigenciaDesde <= guardada.vigenciaDesde);
+      if (masReciente) {
+        for (const { grdId, versionId: _versionId, ...valoresGrd } of filas) {
+          await tx.grd.update({ where: { id: grdId }, data: valoresGrd });
+        }
+      }
+      return guardada;
+    },
+    { timeout: 120000 }
+  );
+
+  return { version, reemplazada: !!anterior };
+}
@@ -0,0 +1,91 @@
+/**
+ * Observaciones de revisión de episodios
+ *
+ * Hilo de comentarios por episodio (autor, rol, campo observado y rol que debe
+ * atenderlo). Los rechazos generan una observación con su motivo del catálogo
+ * MotivoRechazo, dirigida a codificación.
+ */
+import type { EpisodioObservacion, MotivoRechazo, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { normalizarRol } from './episodio-workflow.service';
+
+// Campos del episodio (nombres del frontend) que se pueden referenciar en una observación
+export const CAMPOS_OBSERVABLES = [
+  'grdCodigo',
+  'pesoGrd',
+  'convenio',
+  'estadoRN',
+  'at',
+  'atDetalle',
+  'montoAT',
+  'montoRN',
+  'diasDemoraRescate',
+  'pagoDemora',
+  'pagoOutlierSup',
+  'precioBaseTramo',
+  'valorGRD',
+  'montoFinal',
+  'documentacion',
+  'diagnosticos',
+] as const;
+
+export const ROLES_DESTINO = ['CODIFICADOR', 'GESTION', 'FINANZAS'] as const;
+
+// Rol al que se dirige una observación si el autor no lo indica
+export function rolDestinoPorDefecto(rolAutor: string | null | undefined): string | null {
+  const rol = normalizarRol(rolAutor);
+  if (rol === 'FINANZAS' || rol === 'GESTION') return 'CODIFICADOR';
+  if (rol === 'CODIFICADOR') return 'GESTION';
+  return null;
+}
+
+/**
+ * Motivo de rechazo activo por código. Retorna null si no existe o está desactivado.
+ */
+export async function obtenerMotivoRechazo(codigo: string | null | undefined): Promise<MotivoRechazo | null> {
+  if (!codigo) return null;
+  const motivo = await prisma.motivoRechazo.findUnique({ where: { codigo: codigo.trim().toUpperCase() } });
+  return motivo && motivo.activo ? motivo : null;
+}
+
+export interface DatosObservacion {
+  episodioId: number;
+  autorId: number | null;
+  rol: string | null;
+  texto: string;
+  campo?: string | null;
+  rolDestino?: string | null;
+  motivoRechazoId?: number | null;
+  transicionId?: number | null;
+}
+
+export async function crearObservacion(
+  cliente: Prisma.TransactionClient,
+  datos: DatosObservacion
+): Promise<EpisodioObservacion> {
+  return cliente.episodioObservacion.create({
+    data: {
+      episodioId: datos.episodioId,
+      autorId: datos.autorId,
+      rol: datos.rol ? normalizarRol(datos.rol) : null,
+      texto: datos.texto,
+      campo: datos.campo || null,
+      rolDestino: datos.rolDestino !== undefined ? datos.rolDestino : rolDestinoPorDefecto(datos.rol),
+      motivoRechazoId: datos.motivoRechazoId ?? null,
+      transicionId: datos.transicionId ?? null,
+    },
+  });
+}
+
+export function formatearObservacion(
+  observacion: EpisodioObservacion & { motivoRechazo?: MotivoRechazo | null }
+) {
+  return {
+    ...observacion,
+    motivoRechazo: observacion.motivoRechazo
+      ? { codigo: observacion.motivoRechazo.codigo, descripcion: observacion.motivoRechazo.descripcion }
+      : null,
+    resueltaAt: observacion.resueltaAt ? observacion.resueltaAt.toISOString() : null,
+    createdAt: observacion.createdAt.toISOString(),
+  };
+}
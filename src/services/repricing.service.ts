@@ -0,0 +1,201 @@
+/**
+ * Reliquidación masiva de episodios (repricing)
+ *
+ * Recalcula con el motor de liquidación los episodios que cumplen los filtros,
+ * por lotes, y registra por episodio las diferencias entre lo guardado y lo
+ * recalculado. En modo dryRun solo registra las diferencias sin escribir en Episodio.
+ * Las ediciones manuales guardadas (ver overridesGuardados) se mantienen.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { normalizarConvenio, Liquidacion } from './liquidacion.engine';
+import {
+  liquidarEpisodio,
+  camposLiquidacion,
+  crearCacheLiquidacion,
+  overridesGuardados,
+  toNumber,
+  EpisodioLiquidable,
+} from './liquidacion.service';
+import { filasCambios } from './historial.service';
+
+export const TAMANO_LOTE_REPRICING = 200;
+
+export interface FiltrosRepricing {
+  convenio?: string | null;
+  // Período por fecha de alta (inclusive)
+  fechaDesde?: Date | null;
+  fechaHasta?: Date | null;
+  grdCodigo?: string | null;
+}
+
+export type CambiosLiquidacion = Record<string, { antes: number | string | null; despues: number | string | null }>;
+
+// Condición de búsqueda de episodios a reliquidar
+export function whereRepricing(filtros: FiltrosRepricing): Prisma.EpisodioWhereInput {
+  // Los episodios aprobados quedan fuera: su liquidación está congelada en LiquidacionSnapshot
+  const where: Prisma.EpisodioWhereInput = { OR: [{ validado: null }, { validado: false }] };
+
+  const convenio = normalizarConvenio(filtros.convenio);
+  where.convenio = convenio ? { equals: convenio, mode: 'insensitive' } : { not: null };
+
+  if (filtros.fechaDesde || filtros.fechaHasta) {
+    where.fechaAlta = {
+      ...(filtros.fechaDesde ? { gte: filtros.fechaDesde } : {}),
+      ...(filtros.fechaHasta ? { lte: filtros.fechaHasta } : {}),
+    };
+  }
+
+  if (filtros.grdCodigo) {
+    where.grd = { codigo: filtros.grdCodigo };
+  }
+
+  return where;
+}
+
+/**
+ * Compara los montos guardados en el episodio con una liquidación nueva
+ * (montos con tolerancia de 1 centavo)
+ */
+export function diferenciasLiquidacion(
+  episodio: EpisodioLiquidable & { pagoOutlierSuperior?: any; inlierOutlier?: string | null },
+  liquidacion: Liquidacion
+): CambiosLiquidacion {
+  const cambios: CambiosLiquidacion = {};
+  const nuevos = camposLiquidacion(liquidacion) as Record<string, number | string | null>;
+
+  for (const [campo, despues] of Object.entries(nuevos)) {
+    const guardado = (episodio as Record<string, any>)[campo];
+    if (typeof despues === 'number' || despues === null) {
+      const antes = toNumber(guardado);
+      if (Math.abs((antes ?? 0) - (despues ?? 0)) > 0.01 || (antes === null) !== (despues === null)) {
+        cambios[campo] = { antes, despues };
+      }
+    } else if ((guardado ?? null) !== despues) {
+      cambios[campo] = { antes: guardado ?? null, despues };
+    }
+  }
+
+  return cambios;
+}
+
+export async function crearRepricingJob(
+  filtros: FiltrosRepricing,
+  opciones: { dryRun: boolean; usuarioId?: number | null }
+) {
+  const total = await prisma.episodio.count({ where: whereRepricing(filtros) });
+  return prisma.repricingJob.create({
+    data: {
+      dryRun: opciones.dryRun,
+      usuarioId: opciones.usuarioId ?? null,
+      total,
+      filtros: {
+        convenio: filtros.convenio ?? null,
+        fechaDesde: filtros.fechaDesde ? filtros.fechaDesde.toISOString() : null,
+        fechaHasta: filtros.fechaHasta ? filtros.fechaHasta.toISOString() : null,
+        grdCodigo: filtros.grdCodigo ?? null,
+      },
+    },
+  });
+}
+
+/**
+ * Ejecuta un job de repricing por lotes de episodios (ordenados por id).
+ * Cada lote se escribe en una transacción; el progreso queda en RepricingJob.
+ */
+export async function ejecutarRepricingJob(jobId: number, tamanoLote = TAMANO_LOTE_REPRICING): Promise<void> {
+  const job = await prisma.repricingJob.findUnique({ where: { id: jobId } });
+  if (!job || job.estado !== 'PENDIENTE') return;
+
+  const filtrosGuardados = (job.filtros ?? {}) as Record<string, string | null>;
+  const filtros: FiltrosRepricing = {
+    convenio: filtrosGuardados.convenio,
+    fechaDesde: filtrosGuardados.fechaDesde ? new Date(filtrosGuardados.fechaDesde) : null,
+    fechaHasta: filtrosGuardados.fechaHasta ? new Date(filtrosGuardados.fechaHasta) : null,
+    grdCodigo: filtrosGuardados.grdCodigo,
+  };
+
+  await prisma.repricingJob.update({
+    where: { id: jobId },
+    data: { estado: 'EN_PROCESO', startedAt: new Date() },
+  });
+
+  try {
+    const where = whereRepricing(filtros);
+    const cache = crearCacheLiquidacion();
+    let ultimoId = 0;
+
+    for (;;) {
+      const episodios = await prisma.episodio.findMany({
+        where: { AND: [where, { id: { gt: ultimoId } }] },
+        include: { grd: true },
+        orderBy: { id: 'asc' },
+        take: tamanoLote,
+      });
+      if (episodios.length === 0) break;
+      ultimoId = episodios[episodios.length - 1].id;
+
+      const items: Prisma.RepricingJobItemCreateManyInput[] = [];
+      const updates: Prisma.PrismaPromise<unknown>[] = [];
+      const historial: Prisma.EpisodioCambioCreateManyInput[] = [];
+      let sinPrecio = 0;
+      let errores = 0;
+
+      for (const episodio of episodios) {
+        try {
+          const liquidacion = await liquidarEpisodio(episodio, { ...overridesGuardados(episodio), cache });
+          if (liquidacion.precioBaseTramo === null) {
+            sinPrecio++;
+            continue;
+          }
+
+          const cambios = diferenciasLiquidacion(episodio, liquidacion);
+          if (Object.keys(cambios).length === 0) continue;
+
+          items.push({ jobId, episodioId: episodio.id, cambios, aplicado: !job.dryRun });
+          if (!job.dryRun) {
+            updates.push(
+              prisma.episodio.update({ where: { id: episodio.id }, data: camposLiquidacion(liquidacion) })
+            );
+            historial.push(
+              ...filasCambios(
+                episodio.id,
+                Object.entries(cambios).map(([campo, c]) => ({ campo, valorAnterior: c.antes, valorNuevo: c.despues })),
+                { usuarioId: job.usuarioId, rol: null, origen: 'REPRICING', referencia: `repricing:${jobId}` }
+              )
+            );
+          }
+        } catch (error: any) {
+          errores++;
+          items.push({ jobId, episodioId: episodio.id, error: error?.message || 'Error desconocido' });
+        }
+      }
+
+      await prisma.$transaction([
+        ...updates,
+        prisma.episodioCambio.createMany({ data: historial }),
+        prisma.repricingJobItem.createMany({ data: items }),
+        prisma.repricingJob.update({
+          where: { id: jobId },
+          data: {
+            procesados: { increment: episodios.length },
+            cambiados: { increment: items.length - errores },
+            sinPrecio: { increment: sinPrecio },
+            errores: { increment: errores },
+          },
+        }),
+      ]);
+    }
+
+    await prisma.repricingJob.update({
+      where: { id: jobId },
+      data: { estado: 'COMPLETADO', finishedAt: new Date() },
+    });
+  } catch (error: any) {
+    console.error(`❌ Repricing job ${jobId} falló:`, error);
+    await prisma.repricingJob.update({
+      where: { id: jobId },
+      data: { estado: 'FALLIDO', finishedAt: new Date(), mensajeError: error?.message || 'Error desconocido' },
+    });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Snapshots de liquidación
+ *
+ * Al aprobar un episodio se congela su liquidación (montos guardados más los
+ * insumos usados) en LiquidacionSnapshot. Los snapshots no se modifican: cada
+ * reaprobación crea una versión nueva y la vigente es la de mayor versión.
+ */
+import type { Episodio, LiquidacionSnapshot, Prisma } from '@prisma/client';
+import { prisma } from '../db/client';
+import { detallarLiquidacionEpisodio } from './liquidacion.service';
+
+export type DetalleLiquidacionEpisodio = Awaited<ReturnType<typeof detallarLiquidacionEpisodio>>;
+
+/**
+ * Crea la siguiente versión del snapshot del episodio (dentro de la transacción de aprobación)
+ */
+export async function crearSnapshotLiquidacion(
+  tx: Prisma.TransactionClient,
+  episodio: Episodio,
+  detalle: DetalleLiquidacionEpisodio,
+  aprobadoPorId: number | null
+): Promise<LiquidacionSnapshot> {
+  const ultimo = await tx.liquidacionSnapshot.findFirst({
+    where: { episodioId: episodio.id },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+
+  return tx.liquidacionSnapshot.create({
+    data: {
+      episodioId: episodio.id,
+      episodioCmdb: episodio.episodioCmdb,
+      version: (ultimo?.version ?? 0) + 1,
+      engineVersion: detalle.liquidacion.engineVersion,
+      convenio: episodio.convenio,
+      tramo: detalle.liquidacion.tramo,
+      // Montos tal como quedaron guardados al aprobar (incluye overrides manuales)
+      diasEstada: episodio.diasEstada,
+      inlierOutlier: episodio.inlierOutlier,
+      precioBaseTramo: episodio.precioBaseTramo,
+      valorGrd: episodio.valorGrd,
+      montoAt: episodio.montoAt,
+      pagoOutlierSuperior: episodio.pagoOutlierSuperior,
+      pagoDemoraRescate: episodio.pagoDemoraRescate,
+      montoFinal: episodio.montoFinal,
+      insumos: JSON.parse(
+        JSON.stringify({
+          regla: detalle.regla,
+          tarifa: detalle.tarifa,
+          norma: detalle.norma,
+          normaVersion: detalle.normaVersion, // Catálogo MINSAL (id y año) con que se liquidó
+          parametrosSistema: detalle.parametrosSistema,
+          fuentes: detalle.fuentes,
+          carencia: detalle.carencia,
+        })
+      ),
+      aprobadoPorId,
+    },
+  });
+}
+
+/**
+ * Snapshot vigente (última versión) de cada episodio
+ */
+export async function obtenerSnapshotsVigentes(episodioIds: number[]): Promise<Map<number, LiquidacionSnapshot>> {
+  const vigentes = new Map<number, LiquidacionSnapshot>();
+  if (episodioIds.length === 0) return vigentes;
+
+  const snapshots = await prisma.liquidacionSnapshot.findMany({
+    where: { episodioId: { in: episodioIds } },
+    orderBy: { version: 'asc' },
+  });
+  for (const snapshot of snapshots) {
+    vigentes.set(snapshot.episodioId, snapshot);
+  }
+  return vigentes;
+}
@@ -10,4 +10,18 @@ export function signToken(payload: JwtPayload) {
 
 export function verifyTokenRaw(token: string) {
   return jwt.verify(token, JWT_SECRET) as JwtPayload;
-}
\ No newline at end of file
+}
+
+// Token de vista previa de un cambio de precio: firma el cambio exacto que se revisó.
+// Usa un secreto derivado para que no sirva como token de sesión.
+const PREVIEW_SECRET = `${JWT_SECRET}:preview`;
+
+export type PreviewPayload = { recurso: string; id: string; hash: string };
+
+export function signPreviewToken(payload: PreviewPayload) {
+  return jwt.sign(payload, PREVIEW_SECRET, { expiresIn: '15m' });
+}
+
+export function verifyPreviewToken(token: string) {
+  return jwt.verify(token, PREVIEW_SECRET) as PreviewPayload;
+}